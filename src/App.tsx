@@ -10,42 +10,48 @@ import { OnboardingFlow } from "./pages/OnboardingFlow";
 import { Toaster } from "./components/ui/sonner";
 import { toast } from "sonner";
 import { PinnedChartsProvider } from "./context/PinnedChartsContext";
-import { getProjects, getCurrentUser } from "./services/api";
+import { NotFoundState } from "./components/shared/NotFoundState";
+import { LoadingSpinner } from "./components/shared/LoadingSpinner";
+import { getProjects, getCurrentUser, getSessionExpiry, refreshSession } from "./services/api";
 import { useChartGenerationStore } from "./store/chartGenerationStore";
+import { getCurrentRoute, isWorkspaceTab, navigateTo, subscribeToRoute, type AppRoute } from "./utils/routes";
+import type { ChartType } from "./utils/chartTypes";
+import {
+  buildKioskSearch,
+  enterFullscreen,
+  exitFullscreen,
+  getKioskSettings,
+  getNextKioskDashboard,
+  type KioskSettings,
+} from "./utils/kiosk";
 
 // Mock user ID for now
 const MOCK_USER_ID = 1;
 
+// Kiosk screens retry a failed session check instead of falling back to the login page
+const KIOSK_AUTH_RETRY_MS = 15 * 1000;
+// Refresh the access token this long before it expires on kiosk screens
+const KIOSK_SESSION_REFRESH_LEAD_MS = 2 * 60 * 1000;
+const KIOSK_SESSION_REFRESH_FALLBACK_MS = 10 * 60 * 1000;
+
 type UserRole = 'super_admin' | 'project_user';
 
 export default function App() {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [isCheckingAuth, setIsCheckingAuth] = useState(true); // Add loading state for auth check
   const [currentUser, setCurrentUser] = useState<{ name: string; email: string; role: UserRole } | null>(null);
-  // Initialize state from localStorage if available
-  const [currentView, setCurrentView] = useState(() => {
-    if (typeof window !== 'undefined') {
-      return localStorage.getItem('vizai_current_view') || 'home';
-    }
-    return 'home';
-  });
-  const [selectedProject, setSelectedProject] = useState<string | null>(null);
-  const [selectedProjectId, setSelectedProjectId] = useState<string | null>(null);
+  // The URL is the source of truth for navigation (see utils/routes.ts)
+  const [route, setRoute] = useState<AppRoute>(() => getCurrentRoute());
   const [projects, setProjects] = useState<Array<{ id: string; name: string }>>([]);
+  const [hasLoadedProjects, setHasLoadedProjects] = useState(false);
   const [isDark, setIsDark] = useState(false);
-  const [workspaceTab, setWorkspaceTab] = useState(() => {
-    if (typeof window !== 'undefined') {
-      return localStorage.getItem('vizai_workspace_tab') || 'home';
-    }
-    return 'home';
-  });
   const [isAIAssistantOpen, setIsAIAssistantOpen] = useState(false);
   const [chartCreatedTrigger, setChartCreatedTrigger] = useState(0);
   const [dashboardRefreshTrigger, setDashboardRefreshTrigger] = useState(0);
   const [pendingChartFromAI, setPendingChartFromAI] = useState<{
     id?: string;
     name: string;
-    type: 'line' | 'bar' | 'pie' | 'area';
+    type: ChartType;
     dataSource: string;
     query: string;
     status: 'draft' | 'published';
@@ -53,16 +59,25 @@ export default function App() {
   } | null>(null);
   const [showOnboarding, setShowOnboarding] = useState(false);
   const [hasCompletedOnboarding, setHasCompletedOnboarding] = useState(false);
-  const [editingChart, setEditingChart] = useState<{
-    name: string;
-    type: 'line' | 'bar' | 'pie' | 'area';
-    description?: string;
-  } | null>(null);
+  const currentView = route.view;
+  const workspaceTab = route.view === 'workspace' ? route.tab : 'home';
+  const selectedProjectId = route.view === 'workspace' ? route.projectId : null;
+  const selectedProject = selectedProjectId
+    ? projects.find(p => String(p.id) === selectedProjectId)?.name ?? null
+    : null;
   const prevWorkspaceTabRef = useRef<string>(workspaceTab);
   const prevTabForAICloseRef = useRef<string>(workspaceTab);
   const clearChartGenerationState = useChartGenerationStore((state) => state.clearState);
 
   const isInWorkspace = currentView === 'workspace' && Boolean(selectedProject);
+
+  // Kiosk settings come from the query string (see utils/kiosk.ts)
+  const kiosk = getKioskSettings();
+  const kioskDashboardId = kiosk.enabled && route.view === 'workspace' ? route.dashboardId : undefined;
+  const isKiosk = isInWorkspace && !!kioskDashboardId;
+
+  // Keep route state in sync with in-app navigation and browser back/forward
+  useEffect(() => subscribeToRoute(setRoute), []);
   
   // Clear chart generation state when navigating away from charts page
   useEffect(() => {
@@ -86,7 +101,25 @@ export default function App() {
 
   // Check for existing session on app mount
   useEffect(() => {
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+    // Returns true when the check will be retried rather than signing out
+    const handleAuthFailure = (): boolean => {
+      // A rejected session has already had its tokens cleared by the API layer;
+      // anything else (network outage, server restart) shouldn't sign a kiosk screen out
+      if (getKioskSettings().enabled && localStorage.getItem('vizai_refresh_token')) {
+        retryTimer = setTimeout(checkAuth, KIOSK_AUTH_RETRY_MS);
+        return true;
+      }
+      localStorage.removeItem('vizai_access_token');
+      localStorage.removeItem('vizai_refresh_token');
+      setIsAuthenticated(false);
+      setCurrentUser(null);
+      return false;
+    };
+
     const checkAuth = async () => {
+      let isRetrying = false;
       setIsCheckingAuth(true);
       
       // Check if tokens exist in localStorage
@@ -97,8 +130,6 @@ export default function App() {
         // No tokens, ensure user is logged out
         setIsAuthenticated(false);
         setCurrentUser(null);
-        setSelectedProject(null);
-        setSelectedProjectId(null);
         setIsCheckingAuth(false);
         return; // No tokens, user needs to login
       }
@@ -119,32 +150,22 @@ export default function App() {
           const hasCompletedOnboardingBefore = localStorage.getItem('vizai_onboarding_completed') === 'true';
           setHasCompletedOnboarding(hasCompletedOnboardingBefore);
           setShowOnboarding(false);
-          
-          // Note: Project restoration will happen after projects are fetched
-          // to ensure the project still exists
         } else {
           // Token invalid, clear tokens and logout
-          localStorage.removeItem('vizai_access_token');
-          localStorage.removeItem('vizai_refresh_token');
-          setIsAuthenticated(false);
-          setCurrentUser(null);
-          setSelectedProject(null);
-          setSelectedProjectId(null);
+          isRetrying = handleAuthFailure();
         }
       } catch (error) {
         // Token invalid or expired, clear tokens and logout
-        localStorage.removeItem('vizai_access_token');
-        localStorage.removeItem('vizai_refresh_token');
-        setIsAuthenticated(false);
-        setCurrentUser(null);
-        setSelectedProject(null);
-        setSelectedProjectId(null);
+        isRetrying = handleAuthFailure();
       } finally {
-        setIsCheckingAuth(false);
+        if (!isRetrying) {
+          setIsCheckingAuth(false);
+        }
       }
     };
     
     checkAuth();
+    return () => clearTimeout(retryTimer);
   }, []); // Run only on mount
 
   // Listen for storage changes (logout in other tabs)
@@ -159,10 +180,7 @@ export default function App() {
         if (!accessToken || !refreshToken) {
           setIsAuthenticated(false);
           setCurrentUser(null);
-          setSelectedProject(null);
-          setSelectedProjectId(null);
-          setCurrentView('home');
-          setWorkspaceTab('home');
+          navigateTo({ view: 'home' }, { replace: true });
         }
       }
     };
@@ -173,75 +191,51 @@ export default function App() {
     };
   }, []);
 
-  // Fetch projects on mount to have project IDs available
+  // Keep kiosk screens signed in by refreshing the access token before it expires
   useEffect(() => {
-    if (isAuthenticated) {
-      fetchProjects();
-    }
-  }, [isAuthenticated]);
+    if (!isAuthenticated || !kiosk.enabled) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const schedule = () => {
+      const expiry = getSessionExpiry();
+      const delay = expiry
+        ? Math.max(30 * 1000, expiry - Date.now() - KIOSK_SESSION_REFRESH_LEAD_MS)
+        : KIOSK_SESSION_REFRESH_FALLBACK_MS;
+      timer = setTimeout(async () => {
+        const response = await refreshSession();
+        if (!response.success && response.error?.code === 'SESSION_EXPIRED') return;
+        schedule();
+      }, delay);
+    };
 
-  // Save currentView to localStorage whenever it changes
-  useEffect(() => {
-    if (isAuthenticated && typeof window !== 'undefined') {
-      localStorage.setItem('vizai_current_view', currentView);
-    }
-  }, [currentView, isAuthenticated]);
+    schedule();
+    return () => clearTimeout(timer);
+  }, [isAuthenticated, kiosk.enabled]);
 
-  // Save workspaceTab to localStorage whenever it changes
+  // Rotate kiosk screens through the configured dashboards
+  const kioskSearch = kiosk.enabled ? buildKioskSearch(kiosk) : '';
   useEffect(() => {
-    if (isAuthenticated && typeof window !== 'undefined') {
-      localStorage.setItem('vizai_workspace_tab', workspaceTab);
-    }
-  }, [workspaceTab, isAuthenticated]);
+    if (!isKiosk || !kioskDashboardId || !selectedProjectId) return;
+
+    const settings = getKioskSettings();
+    const nextDashboardId = getNextKioskDashboard(settings, kioskDashboardId);
+    if (!nextDashboardId || nextDashboardId === kioskDashboardId) return;
 
-  // Restore last selected project and view after projects are loaded
+    const timer = setTimeout(() => {
+      navigateTo(
+        { view: 'workspace', projectId: selectedProjectId, tab: 'dashboards', dashboardId: nextDashboardId },
+        { replace: true, search: buildKioskSearch(settings) }
+      );
+    }, settings.rotationSeconds * 1000);
+    return () => clearTimeout(timer);
+  }, [isKiosk, kioskDashboardId, selectedProjectId, kioskSearch]);
+
+  // Fetch projects on mount to have project IDs available
   useEffect(() => {
-    if (isAuthenticated && projects.length > 0 && !selectedProject) {
-      const lastProject = localStorage.getItem('vizai_last_project');
-      const lastProjectId = localStorage.getItem('vizai_last_project_id');
-      const savedView = localStorage.getItem('vizai_current_view');
-      const savedTab = localStorage.getItem('vizai_workspace_tab');
-      
-      if (lastProject) {
-        // Verify the project still exists in the projects list
-        const projectExists = projects.find(p => p.name === lastProject || p.id === lastProjectId);
-        
-        if (projectExists) {
-          // Restore the project
-          setSelectedProject(lastProject);
-          setSelectedProjectId(projectExists.id);
-          
-          // Restore view and tab if they were in workspace
-          if (savedView === 'workspace') {
-            setCurrentView('workspace');
-            if (savedTab) {
-              setWorkspaceTab(savedTab);
-            }
-          }
-        } else {
-          // Project no longer exists, clear from localStorage
-          localStorage.removeItem('vizai_last_project');
-          localStorage.removeItem('vizai_last_project_id');
-          // If view was workspace but project doesn't exist, go to home
-          if (savedView === 'workspace') {
-            setCurrentView('home');
-            localStorage.setItem('vizai_current_view', 'home');
-          }
-        }
-      } else {
-        // No project saved, but restore view if it's not workspace
-        if (savedView && savedView !== 'workspace') {
-          setCurrentView(savedView);
-        }
-      }
-    } else if (isAuthenticated && !selectedProject) {
-      // Authenticated but no project - restore non-workspace views
-      const savedView = localStorage.getItem('vizai_current_view');
-      if (savedView && savedView !== 'workspace') {
-        setCurrentView(savedView);
-      }
+    if (isAuthenticated) {
+      fetchProjects();
     }
-  }, [isAuthenticated, projects, selectedProject]);
+  }, [isAuthenticated]);
 
   const fetchProjects = async () => {
     try {
@@ -251,64 +245,84 @@ export default function App() {
       }
     } catch (error) {
       console.error('Failed to fetch projects:', error);
+    } finally {
+      setHasLoadedProjects(true);
+    }
+  };
+
+  const handleNavigate = (view: string) => {
+    navigateTo(view === 'profile' ? { view: 'profile' } : { view: 'home' });
+  };
+
+  const handleTabChange = (tab: string) => {
+    if (selectedProjectId && isWorkspaceTab(tab)) {
+      navigateTo({ view: 'workspace', projectId: selectedProjectId, tab });
+    }
+  };
+
+  const handleDashboardChange = (dashboardId: string | null) => {
+    if (selectedProjectId) {
+      navigateTo({ view: 'workspace', projectId: selectedProjectId, tab: 'dashboards', dashboardId: dashboardId ?? undefined });
+    }
+  };
+
+  const handleChartChange = (chartId: string | null) => {
+    if (selectedProjectId) {
+      navigateTo({ view: 'workspace', projectId: selectedProjectId, tab: 'charts', chartId: chartId ?? undefined });
     }
   };
 
   const handleProjectSelect = (projectName: string, projectId?: string, isNewProject?: boolean) => {
-    setSelectedProject(projectName);
-    
     // Find project ID if not provided
-    let finalProjectId: string | null = null;
-    if (projectId) {
-      finalProjectId = projectId;
-    } else {
-      const project = projects.find(p => p.name === projectName);
-      finalProjectId = project?.id || null;
+    const finalProjectId = projectId || projects.find(p => p.name === projectName)?.id;
+    if (!finalProjectId) {
+      toast.error(`Unable to open "${projectName}". Please refresh and try again.`);
+      return;
     }
-    setSelectedProjectId(finalProjectId);
-    
-    setCurrentView('workspace');
-    // Redirect to charts page for new projects, home for existing projects
-    setWorkspaceTab(isNewProject ? 'charts' : 'home');
-    
-    // Store last visited project for ALL users (not just project_user)
-    localStorage.setItem('vizai_last_project', projectName);
-    if (finalProjectId) {
-      localStorage.setItem('vizai_last_project_id', finalProjectId);
+
+    // Newly created projects may not be in the list yet
+    if (!projects.some(p => String(p.id) === String(finalProjectId))) {
+      setProjects(prev => [...prev, { id: String(finalProjectId), name: projectName }]);
     }
+
+    // Redirect to charts page for new projects, home for existing projects
+    navigateTo({ view: 'workspace', projectId: String(finalProjectId), tab: isNewProject ? 'charts' : 'home' });
   };
 
   const handleProjectChange = (projectName: string) => {
     const project = projects.find(p => p.name === projectName);
-    setSelectedProject(projectName);
-    setSelectedProjectId(project?.id || null);
-    setWorkspaceTab('home'); // Reset to home when switching projects
-    
-    // Store last visited project for ALL users (not just project_user)
-    localStorage.setItem('vizai_last_project', projectName);
-    if (project?.id) {
-      localStorage.setItem('vizai_last_project_id', project.id);
+    if (project) {
+      navigateTo({ view: 'workspace', projectId: String(project.id), tab: 'home' }); // Reset to home when switching projects
     }
   };
 
+  const handleEnterKiosk = (settings: Omit<KioskSettings, 'enabled'>) => {
+    if (route.view !== 'workspace') return;
+    navigateTo(route, { search: buildKioskSearch(settings) });
+    enterFullscreen();
+  };
+
+  const handleExitKiosk = () => {
+    if (route.view !== 'workspace') return;
+    navigateTo(route, { search: '' });
+    exitFullscreen();
+  };
+
   const handleBackToHome = () => {
-    setSelectedProject(null);
-    setCurrentView('home');
+    navigateTo({ view: 'home' });
   };
 
   const handleAuthenticated = (user: { name: string; email: string; role: UserRole }) => {
     setCurrentUser(user);
     setIsAuthenticated(true);
     
-    setCurrentView('home');
+    // Stay on the current URL so deep links opened while signed out still resolve
     setShowOnboarding(false);
     setHasCompletedOnboarding(true);
-    
-    setSelectedProject(null);
-    setSelectedProjectId(null);
   };
 
-  const handleOnboardingComplete = (projectData: {
+  const handleOnboardingComplete = async (projectData: {
+    projectId?: string;
     name: string;
     description: string;
     context: Record<string, string>;
@@ -328,12 +342,20 @@ export default function App() {
       });
     }, 500);
     
-    // Automatically select the newly created project
-    setSelectedProject(projectData.name);
-    setCurrentView('workspace');
-    setWorkspaceTab('home');
-    // Store as last visited project
-    localStorage.setItem('vizai_last_project', projectData.name);
+    // Automatically select the newly created project; the loaded list predates it
+    let projectId = projectData.projectId;
+    if (projectId) {
+      setProjects(prev => prev.some(p => String(p.id) === String(projectId))
+        ? prev
+        : [...prev, { id: String(projectId), name: projectData.name }]);
+    } else {
+      const response = await getProjects();
+      if (response.success && response.data) {
+        setProjects(response.data.map(p => ({ id: p.id, name: p.name })));
+        projectId = response.data.find(p => p.name === projectData.name)?.id;
+      }
+    }
+    navigateTo(projectId ? { view: 'workspace', projectId: String(projectId), tab: 'home' } : { view: 'home' });
   };
 
   const handleOnboardingCancel = () => {
@@ -341,7 +363,7 @@ export default function App() {
     setHasCompletedOnboarding(true);
     // Mark onboarding as completed to prevent showing it again
     localStorage.setItem('vizai_onboarding_completed', 'true');
-    setCurrentView('home');
+    navigateTo({ view: 'home' });
     toast.info("Setup cancelled. You can create a project anytime from the home page.");
   };
 
@@ -349,18 +371,11 @@ export default function App() {
     // Clear authentication state
     setCurrentUser(null);
     setIsAuthenticated(false);
-    setSelectedProject(null);
-    setSelectedProjectId(null);
-    setCurrentView('home');
-    setWorkspaceTab('home');
+    navigateTo({ view: 'home' });
     
     // Clear local storage tokens
     localStorage.removeItem('vizai_access_token');
     localStorage.removeItem('vizai_refresh_token');
-    localStorage.removeItem('vizai_last_project');
-    localStorage.removeItem('vizai_last_project_id');
-    localStorage.removeItem('vizai_current_view');
-    localStorage.removeItem('vizai_workspace_tab');
   };
 
   const handleUpdateProfile = (user: { name: string; email: string }) => {
@@ -373,18 +388,11 @@ export default function App() {
     // Clear authentication state
     setIsAuthenticated(false);
     setCurrentUser(null);
-    setSelectedProject(null);
-    setSelectedProjectId(null);
-    setCurrentView('home');
-    setWorkspaceTab('home');
+    navigateTo({ view: 'home' });
     
     // Clear local storage
     localStorage.removeItem('vizai_access_token');
     localStorage.removeItem('vizai_refresh_token');
-    localStorage.removeItem('vizai_last_project');
-    localStorage.removeItem('vizai_last_project_id');
-    localStorage.removeItem('vizai_current_view');
-    localStorage.removeItem('vizai_workspace_tab');
   };
 
   const handleThemeToggle = () => {
@@ -394,7 +402,7 @@ export default function App() {
   const handleChartCreatedFromAI = (chart: {
     id?: string;
     name: string;
-    type: 'line' | 'bar' | 'pie' | 'area';
+    type: ChartType;
     dataSource: string;
     query: string;
     status: 'draft' | 'published';
@@ -423,7 +431,7 @@ export default function App() {
 
     // For charts saved as draft, keep AI Assistant open and navigate to charts page
     // Switch to charts tab to show the newly created chart
-    setWorkspaceTab('charts');
+    handleTabChange('charts');
     // Keep AI assistant open so user can continue generating charts
     if (!isAIAssistantOpen) {
       setIsAIAssistantOpen(true);
@@ -431,33 +439,42 @@ export default function App() {
   };
 
   const renderView = () => {
-    if (currentView === 'workspace' && selectedProject) {
-      // Use selectedProjectId if available, otherwise try to find it
-      const projectId = selectedProjectId || projects.find(p => p.name === selectedProject)?.id;
-      
+    if (route.view === 'workspace') {
+      if (!selectedProject) {
+        if (!hasLoadedProjects) {
+          return <LoadingSpinner size="lg" text="Loading project..." className="h-full" />;
+        }
+        return <NotFoundState resource="project" onBack={handleBackToHome} backLabel="Back to projects" />;
+      }
+
       return (
         <WorkspaceView 
           projectName={selectedProject} 
           onBack={handleBackToHome}
           isDark={isDark}
           activeTab={workspaceTab}
-          onTabChange={setWorkspaceTab}
+          onTabChange={handleTabChange}
+          dashboardId={route.dashboardId}
+          onDashboardChange={handleDashboardChange}
+          chartId={route.chartId}
+          onChartChange={handleChartChange}
           currentUser={currentUser ? { ...currentUser, id: MOCK_USER_ID } : undefined}
-          projectId={projectId || undefined}
+          projectId={route.projectId}
           chartCreatedTrigger={chartCreatedTrigger}
           dashboardRefreshTrigger={dashboardRefreshTrigger}
           pendingChartFromAI={pendingChartFromAI}
           onChartFromAIProcessed={() => setPendingChartFromAI(null)}
           onOpenAIAssistant={() => setIsAIAssistantOpen(prev => !prev)}
-          onEditChart={(chart) => {
-            setEditingChart(chart);
-            setIsAIAssistantOpen(true);
-          }}
+          kiosk={kiosk}
+          onEnterKiosk={handleEnterKiosk}
+          onExitKiosk={handleExitKiosk}
         />
       );
     }
 
-    switch (currentView) {
+    switch (route.view) {
+      case 'not-found':
+        return <NotFoundState resource="page" onBack={handleBackToHome} backLabel="Back to projects" />;
       case 'home':
         return <ProjectsView onProjectSelect={handleProjectSelect} />;
       case 'profile':
@@ -489,7 +506,6 @@ export default function App() {
       // Close AI assistant when navigating away from charts page (or any page)
       console.log('[App] Closing AI assistant - navigating from', prevTab, 'to', workspaceTab);
       setIsAIAssistantOpen(false);
-      setEditingChart(null); // Clear editing chart when navigating away
     }
     // Update ref for next comparison (only update if tab actually changed)
     if (prevTab !== workspaceTab) {
@@ -532,6 +548,20 @@ export default function App() {
     );
   }
 
+  // Kiosk (TV) mode: the dashboard alone, without app chrome
+  if (isKiosk) {
+    return (
+      <PinnedChartsProvider>
+        <div className="h-screen w-screen overflow-hidden bg-background">
+          <main className="h-full overflow-hidden">
+            {renderView()}
+          </main>
+          <Toaster />
+        </div>
+      </PinnedChartsProvider>
+    );
+  }
+
   return (
     <PinnedChartsProvider>
       <div className="h-screen w-screen overflow-hidden bg-background transition-colors duration-200">
@@ -539,7 +569,7 @@ export default function App() {
           {/* Top Bar - Always visible */}
           <TopBar
           currentView={currentView}
-          onNavigate={setCurrentView}
+          onNavigate={handleNavigate}
           selectedProject={isInWorkspace ? selectedProject : null}
           workspaceTab={isInWorkspace ? workspaceTab : undefined}
           projects={projects}
@@ -556,7 +586,7 @@ export default function App() {
           {isInWorkspace && (
             <WorkspaceSidebar
               activeTab={workspaceTab}
-              onTabChange={setWorkspaceTab}
+              onTabChange={handleTabChange}
               onOpenAIAssistant={() => setIsAIAssistantOpen(prev => !prev)}
             />
           )}
@@ -570,16 +600,10 @@ export default function App() {
           {isInWorkspace && workspaceTab !== 'databases' && workspaceTab !== 'team' && (
                     <AIAssistant
           isOpen={isAIAssistantOpen}
-          onOpenChange={(open) => {
-            setIsAIAssistantOpen(open);
-            if (!open) {
-              setEditingChart(null); // Clear editing chart when closing
-            }
-          }}
-          projectId={selectedProjectId || projects.find(p => p.name === selectedProject)?.id || undefined}
+          onOpenChange={setIsAIAssistantOpen}
+          projectId={selectedProjectId || undefined}
           currentTab={workspaceTab}
           onChartCreated={handleChartCreatedFromAI}
-          editingChart={editingChart}
         />
           )}
         </div>
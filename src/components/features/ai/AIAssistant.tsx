@@ -1,16 +1,20 @@
-import { useState, useEffect, useRef } from "react";
-import { Sparkles, X, Send, BarChart3, LineChart, PieChart, AreaChart, Plus, ChevronDown, ChevronUp, Code, Database, Check, RotateCcw } from "lucide-react";
+import { useState, useEffect, useMemo, useRef } from "react";
+import { Sparkles, X, Send, BarChart3, LineChart, PieChart, AreaChart, ScatterChart, Plus, ChevronDown, ChevronUp, Code, Database, Check, RotateCcw, ChartColumnStacked, BarChartHorizontal, ChartNoAxesCombined, Filter, Grid3x3, Hash, Table2 } from "lucide-react";
 import { Button } from "../../ui/button";
 import { Card } from "../../ui/card";
 import { Badge } from "../../ui/badge";
 import { GradientButton } from "../../shared/GradientButton";
 import { ChartPreviewDialog } from "../charts/ChartPreviewDialog";
-import { getDashboards, getDatabases, getCurrentUser, type Chart as SavedChart } from "../../../services/api";
+import { SqlIssueList } from "../charts/SqlIssueList";
+import { getDashboards, getDatabases, getCurrentUser, type Chart as SavedChart, type DatabaseSchema } from "../../../services/api";
 import { loadDatabaseMetadata, storeDatabaseMetadata, type DatabaseMetadataEntry } from "../../../utils/databaseMetadata";
+import { parseDatabaseSchema } from "../../../utils/databaseSchema";
+import { hasSqlErrors, lintSql, type SqlIssue } from "../../../utils/sqlLint";
 import { VizAIWebSocket, WebSocketResponse, type ChartSpec } from "../../../services/websocket";
 import { toast } from "sonner";
 import { AnimatePresence } from "framer-motion";
 import { useChartGenerationStore } from "../../../store/chartGenerationStore";
+import { normalizeChartType, type ChartType } from "../../../utils/chartTypes";
 
 interface Message {
   id: number;
@@ -22,7 +26,7 @@ interface Message {
 interface ChartSuggestion {
   id: string;
   name: string;
-  type: 'line' | 'bar' | 'pie' | 'area';
+  type: ChartType;
   description: string;
   query: string;
   reasoning: string;
@@ -66,31 +70,46 @@ interface AIAssistantProps {
   onChartCreated?: (chart: {
     id?: string;
     name: string;
-    type: 'line' | 'bar' | 'pie' | 'area';
+    type: ChartType;
     dataSource: string;
     query: string;
     status: 'draft' | 'published';
     dashboardId?: number | string;
   }) => void;
-  editingChart?: {
-    name: string;
-    type: 'line' | 'bar' | 'pie' | 'area';
-    description?: string;
-  } | null;
 }
 
 const chartTypeIcons = {
   line: LineChart,
   bar: BarChart3,
   pie: PieChart,
-  area: AreaChart
+  area: AreaChart,
+  donut: PieChart,
+  scatter: ScatterChart,
+  stacked_bar: ChartColumnStacked,
+  grouped_bar: BarChart3,
+  horizontal_bar: BarChartHorizontal,
+  combo: ChartNoAxesCombined,
+  funnel: Filter,
+  heatmap: Grid3x3,
+  kpi: Hash,
+  table: Table2
 };
 
 const chartTypeColors = {
   line: "bg-blue-500/10 text-blue-500 border-blue-500/20",
   bar: "bg-purple-500/10 text-purple-500 border-purple-500/20",
   pie: "bg-green-500/10 text-green-500 border-green-500/20",
-  area: "bg-orange-500/10 text-orange-500 border-orange-500/20"
+  area: "bg-orange-500/10 text-orange-500 border-orange-500/20",
+  donut: "bg-green-500/10 text-green-500 border-green-500/20",
+  scatter: "bg-accent/10 text-accent border-primary/20",
+  stacked_bar: "bg-purple-500/10 text-purple-500 border-purple-500/20",
+  grouped_bar: "bg-purple-500/10 text-purple-500 border-purple-500/20",
+  horizontal_bar: "bg-purple-500/10 text-purple-500 border-purple-500/20",
+  combo: "bg-blue-500/10 text-blue-500 border-blue-500/20",
+  funnel: "bg-green-500/10 text-green-500 border-green-500/20",
+  heatmap: "bg-orange-500/10 text-orange-500 border-orange-500/20",
+  kpi: "bg-accent/10 text-accent border-primary/20",
+  table: "bg-muted text-muted-foreground border-border"
 };
 
 const mapDatabaseMetadataToAssistantState = (entry: DatabaseMetadataEntry) => ({
@@ -100,15 +119,6 @@ const mapDatabaseMetadataToAssistantState = (entry: DatabaseMetadataEntry) => ({
   schema: entry.schema ?? null,
 });
 
-const normalizeChartType = (type?: string): 'line' | 'bar' | 'pie' | 'area' => {
-  if (!type) return 'line';
-  const lower = type.toLowerCase();
-  if (lower.includes('bar')) return 'bar';
-  if (lower.includes('pie') || lower.includes('donut')) return 'pie';
-  if (lower.includes('area')) return 'area';
-  return 'line';
-};
-
 const normalizeDbType = (type?: string): 'postgres' | 'mysql' | 'sqlite' | 'oracledb' => {
   if (!type) return 'postgres';
   const lower = type.toLowerCase();
@@ -137,7 +147,7 @@ const ensureSchemaString = (schema?: string | null): string => {
   }
 };
 
-export function AIAssistant({ isOpen, onOpenChange, projectId, currentTab, onChartCreated, editingChart }: AIAssistantProps) {
+export function AIAssistant({ isOpen, onOpenChange, projectId, currentTab, onChartCreated }: AIAssistantProps) {
   // Use Zustand store for persistent state
   const {
     messages: storeMessages,
@@ -683,7 +693,7 @@ export function AIAssistant({ isOpen, onOpenChange, projectId, currentTab, onCha
     }
   };
 
-  // Update initial message when editing a chart
+  // Show the initial prompt on a fresh start
   // IMPORTANT: Don't reset messages if we're restoring from store or if messages already exist
   useEffect(() => {
     // Skip if we just restored from store (give it time to complete)
@@ -691,17 +701,7 @@ export function AIAssistant({ isOpen, onOpenChange, projectId, currentTab, onCha
       return;
     }
     
-    if (editingChart && isOpen) {
-      setMessages([
-        {
-          id: 1,
-          type: 'ai',
-          content: `I'll help you modify "${editingChart.name}". What changes would you like to make? You can update the chart type, modify data sources, or adjust the visualization.`
-        }
-      ]);
-      setShowDatabaseSelection(false);
-      setSelectedDatabase('editing-mode');
-    } else if (!editingChart && isOpen && messages.length === 0) {
+    if (isOpen && messages.length === 0) {
       // Only reset to initial state if there are NO messages (fresh start)
       // Don't reset if we have restored messages from store
       const storeState = useChartGenerationStore.getState();
@@ -717,7 +717,7 @@ export function AIAssistant({ isOpen, onOpenChange, projectId, currentTab, onCha
         setSelectedDatabase('');
       }
     }
-  }, [editingChart, isOpen, messages.length]);
+  }, [isOpen, messages.length]);
 
   // Use fetched databases if available, otherwise fall back to mock databases
   const availableDatabases = databases.length > 0 
@@ -945,7 +945,28 @@ export function AIAssistant({ isOpen, onOpenChange, projectId, currentTab, onCha
     }
   };
 
+  // Generated SQL is checked before it can be previewed; each connection's schema is parsed once
+  const suggestionSqlIssues = useMemo(() => {
+    const schemas = new Map<string, DatabaseSchema>();
+    const issues = new Map<string, SqlIssue[]>();
+    for (const message of messages) {
+      for (const suggestion of message.chartSuggestions ?? []) {
+        const databaseId = suggestion.databaseId || suggestion.dataConnectionId;
+        if (databaseId && !schemas.has(databaseId)) {
+          schemas.set(databaseId, parseDatabaseSchema(databases.find((db) => db.id === databaseId)?.schema));
+        }
+        issues.set(suggestion.id, lintSql(suggestion.query, databaseId ? schemas.get(databaseId) : null));
+      }
+    }
+    return issues;
+  }, [messages, databases]);
+
   const handleCreateChart = (suggestion: ChartSuggestion) => {
+    if (hasSqlErrors(suggestionSqlIssues.get(suggestion.id) ?? [])) {
+      toast.error("This query can't be run: charts can only read data.");
+      return;
+    }
+
     // Find the selected database and format dataSource with database ID
     const selectedDb = availableDatabases.find(db => db.value === selectedDatabase || db.id === selectedDatabase);
     
@@ -1124,35 +1145,6 @@ export function AIAssistant({ isOpen, onOpenChange, projectId, currentTab, onCha
           </Button>
         </div>
 
-        {/* Editing Chart Context Banner */}
-        {editingChart && (
-          <div className="p-4 bg-muted/50 border-b border-border shrink-0">
-            <div className="flex items-center gap-3">
-              <div className={`w-10 h-10 rounded-lg flex items-center justify-center flex-shrink-0 ${chartTypeColors[editingChart.type]} border`}>
-                {(() => {
-                  const Icon = chartTypeIcons[editingChart.type];
-                  return <Icon className="w-5 h-5" />;
-                })()}
-              </div>
-              <div className="flex-1 min-w-0">
-                <div className="flex items-center gap-2 mb-0.5">
-                  <p className="text-xs text-muted-foreground">Editing Chart</p>
-                  <Badge variant="outline" className="text-xs h-5">
-                    {editingChart.type}
-                  </Badge>
-                </div>
-                <h4 className="text-sm text-foreground truncate">{editingChart.name}</h4>
-                {editingChart.description && (
-                  <p className="text-xs text-muted-foreground mt-0.5 truncate">{editingChart.description}</p>
-                )}
-              </div>
-            </div>
-            <p className="text-xs text-muted-foreground mt-3 leading-relaxed">
-              All chart modifications will be applied to this chart. Ask me to change the chart type, update data, or modify styling.
-            </p>
-          </div>
-        )}
-
         {/* Messages */}
         <div className="flex-1 overflow-y-auto px-6 py-6 space-y-4 bg-muted/20">
           {connectionError && (
@@ -1192,6 +1184,7 @@ export function AIAssistant({ isOpen, onOpenChange, projectId, currentTab, onCha
                       {message.chartSuggestions.map((suggestion) => {
                         const Icon = chartTypeIcons[suggestion.type];
                         const isExpanded = expandedSuggestion === suggestion.id;
+                        const sqlIssues = suggestionSqlIssues.get(suggestion.id) ?? [];
                         
                         return (
                           <Card key={suggestion.id} className="border-border p-3">
@@ -1212,6 +1205,8 @@ export function AIAssistant({ isOpen, onOpenChange, projectId, currentTab, onCha
                                 </div>
                               </div>
 
+                              <SqlIssueList issues={sqlIssues} />
+
                               <div className="flex gap-2">
                                 <button
                                   onClick={() => toggleSuggestionExpand(suggestion.id)}
@@ -1230,6 +1225,7 @@ export function AIAssistant({ isOpen, onOpenChange, projectId, currentTab, onCha
                                   onClick={() => handleCreateChart(suggestion)}
                                   size="sm"
                                   className="gap-2"
+                                  disabled={hasSqlErrors(sqlIssues)}
                                 >
                                   <Plus className="w-4 h-4" />
                                   Create
@@ -1291,7 +1287,7 @@ export function AIAssistant({ isOpen, onOpenChange, projectId, currentTab, onCha
           )}
 
           {/* Suggestions */}
-          {messages.length <= 4 && selectedDatabase && !messages.some(m => m.type === 'chart-suggestions') && !editingChart && dynamicSuggestions.length > 0 && (
+          {messages.length <= 4 && selectedDatabase && !messages.some(m => m.type === 'chart-suggestions') && dynamicSuggestions.length > 0 && (
             <div className="space-y-2 pt-4">
               <p className="text-xs text-muted-foreground px-2">Try asking:</p>
               {suggestions.map((suggestion, idx) => (
@@ -1402,6 +1398,16 @@ export function AIAssistant({ isOpen, onOpenChange, projectId, currentTab, onCha
         dashboards={dashboards}
         onAddToDashboard={handleAddChartToDashboard}
         onSaveAsDraft={handleSaveAsDraft}
+        onChartCreated={(savedChart) => {
+          onChartCreated?.({
+            id: savedChart.id,
+            name: savedChart.name,
+            type: savedChart.type,
+            dataSource: `Database ${savedChart.databaseId}`,
+            query: savedChart.query || "",
+            status: 'draft'
+          });
+        }}
       />
 
     </>
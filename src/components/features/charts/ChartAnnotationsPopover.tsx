@@ -0,0 +1,225 @@
+/**
+ * ChartAnnotationsPopover Component
+ *
+ * Lists a chart's annotations and lets the user add, edit and delete them:
+ * events marked at an x-axis value or date, and horizontal reference lines
+ * with a label (targets, thresholds).
+ *
+ * @example
+ * <ChartAnnotationsPopover
+ *   annotations={annotations}
+ *   xValues={data.map((row) => String(row.month))}
+ *   onChange={handleAnnotationsChange}
+ * />
+ */
+
+import { useId, useState } from "react";
+import { Flag, Minus, Pencil, Trash2 } from "lucide-react";
+import { Button } from "../../ui/button";
+import { Badge } from "../../ui/badge";
+import { Input } from "../../ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "../../ui/popover";
+import type { ChartAnnotation, ChartAnnotationType } from "../../../services/api";
+import {
+  EVENT_ANNOTATION_COLOR,
+  REFERENCE_LINE_COLOR,
+  createAnnotation,
+  describeAnnotation,
+} from "../../../utils/chartAnnotations";
+
+interface ChartAnnotationsPopoverProps {
+  annotations: ChartAnnotation[];
+  /** X-axis values offered as suggestions for event positions */
+  xValues?: string[];
+  onChange: (annotations: ChartAnnotation[]) => void;
+}
+
+interface AnnotationDraft {
+  type: ChartAnnotationType;
+  label: string;
+  position: string;
+}
+
+const EMPTY_DRAFT: AnnotationDraft = { type: "event", label: "", position: "" };
+
+const TYPE_OPTIONS: Array<{ value: ChartAnnotationType; label: string }> = [
+  { value: "event", label: "Event" },
+  { value: "reference_line", label: "Reference line" },
+];
+
+export function ChartAnnotationsPopover({ annotations, xValues = [], onChange }: ChartAnnotationsPopoverProps) {
+  const [draft, setDraft] = useState<AnnotationDraft>(EMPTY_DRAFT);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const datalistId = useId();
+
+  const position = draft.position.trim();
+  const referenceValue = Number(position);
+  const isValid =
+    draft.label.trim() !== "" &&
+    position !== "" &&
+    (draft.type === "event" || Number.isFinite(referenceValue));
+
+  const resetDraft = () => {
+    setDraft(EMPTY_DRAFT);
+    setEditingId(null);
+  };
+
+  const startEditing = (annotation: ChartAnnotation) => {
+    setEditingId(annotation.id);
+    setDraft({
+      type: annotation.type,
+      label: annotation.label,
+      position: annotation.type === "event" ? annotation.x ?? "" : String(annotation.y ?? ""),
+    });
+  };
+
+  const handleSubmit = () => {
+    if (!isValid) return;
+
+    const fields = draft.type === "event"
+      ? { label: draft.label.trim(), x: position, y: undefined }
+      : { label: draft.label.trim(), x: undefined, y: referenceValue };
+
+    onChange(
+      editingId
+        ? annotations.map((annotation) =>
+            annotation.id === editingId ? { ...annotation, type: draft.type, ...fields } : annotation
+          )
+        : [...annotations, createAnnotation(draft.type, fields)]
+    );
+    resetDraft();
+  };
+
+  const handleDelete = (annotation: ChartAnnotation) => {
+    onChange(annotations.filter((a) => a.id !== annotation.id));
+    if (editingId === annotation.id) resetDraft();
+  };
+
+  return (
+    <Popover onOpenChange={(open) => !open && resetDraft()}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="icon"
+          className="h-7 w-7 border-border bg-background hover:bg-muted"
+          title="Annotations and reference lines"
+        >
+          <Flag className="w-3.5 h-3.5" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="p-3 border-b border-border">
+          <p className="text-sm text-foreground">Annotations</p>
+          <p className="text-xs text-muted-foreground">Mark events and draw target or threshold lines</p>
+        </div>
+
+        {annotations.length > 0 && (
+          <div className="p-2 space-y-0.5 border-b border-border overflow-y-auto" style={{ maxHeight: 192 }}>
+            {annotations.map((annotation) => {
+              const isEvent = annotation.type === "event";
+              const Icon = isEvent ? Flag : Minus;
+              return (
+                <div
+                  key={annotation.id}
+                  className={`flex items-center gap-2 rounded-md px-2 py-1.5 ${
+                    editingId === annotation.id ? "bg-primary/10" : "hover:bg-muted"
+                  }`}
+                >
+                  <Icon
+                    className="w-3.5 h-3.5 shrink-0"
+                    style={{ color: isEvent ? EVENT_ANNOTATION_COLOR : REFERENCE_LINE_COLOR }}
+                  />
+                  <span className="flex-1 min-w-0 truncate text-sm text-foreground">{describeAnnotation(annotation)}</span>
+                  <button
+                    type="button"
+                    onClick={() => startEditing(annotation)}
+                    className="w-6 h-6 flex items-center justify-center rounded text-muted-foreground hover:text-foreground"
+                    aria-label={`Edit ${annotation.label}`}
+                  >
+                    <Pencil className="w-3 h-3" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(annotation)}
+                    className="w-6 h-6 flex items-center justify-center rounded text-muted-foreground hover:text-destructive"
+                    aria-label={`Delete ${annotation.label}`}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <form
+          className="p-3 space-y-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSubmit();
+          }}
+        >
+          <div className="flex items-center gap-1">
+            {TYPE_OPTIONS.map((option) => (
+              <Button
+                key={option.value}
+                type="button"
+                variant={draft.type === option.value ? "secondary" : "ghost"}
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => setDraft((prev) => ({ ...prev, type: option.value, position: "" }))}
+              >
+                {option.label}
+              </Button>
+            ))}
+            {editingId && (
+              <Badge variant="outline" className="ml-auto text-xs">
+                Editing
+              </Badge>
+            )}
+          </div>
+          <Input
+            value={draft.label}
+            onChange={(e) => setDraft((prev) => ({ ...prev, label: e.target.value }))}
+            placeholder={draft.type === "event" ? "Label, e.g. Pricing change" : "Label, e.g. Target"}
+            className="h-8 text-sm"
+          />
+          {draft.type === "event" ? (
+            <>
+              <Input
+                value={draft.position}
+                onChange={(e) => setDraft((prev) => ({ ...prev, position: e.target.value }))}
+                placeholder="Date (YYYY-MM-DD) or x-axis value"
+                className="h-8 text-sm"
+                list={datalistId}
+              />
+              <datalist id={datalistId}>
+                {Array.from(new Set(xValues)).slice(0, 100).map((value) => (
+                  <option key={value} value={value} />
+                ))}
+              </datalist>
+            </>
+          ) : (
+            <Input
+              type="number"
+              value={draft.position}
+              onChange={(e) => setDraft((prev) => ({ ...prev, position: e.target.value }))}
+              placeholder="Value"
+              className="h-8 text-sm"
+            />
+          )}
+          <div className="flex justify-end gap-2">
+            {editingId && (
+              <Button type="button" variant="ghost" size="sm" className="h-8" onClick={resetDraft}>
+                Cancel
+              </Button>
+            )}
+            <Button type="submit" size="sm" className="h-8" disabled={!isValid}>
+              {editingId ? "Save" : "Add"}
+            </Button>
+          </div>
+        </form>
+      </PopoverContent>
+    </Popover>
+  );
+}
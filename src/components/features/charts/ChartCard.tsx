@@ -2,7 +2,14 @@
  * ChartCard Component
  * 
  * Reusable chart visualization component using Recharts library.
- * Supports multiple chart types: line, bar, pie, and area charts.
+ * Supports line, bar (grouped/stacked/horizontal), line+bar combo, area, pie, donut,
+ * scatter and funnel charts, plus KPI tiles, sortable tables and heatmaps.
+ * Pass `exportTitle` to add a PNG/SVG download menu on hover, and `onPointClick`
+ * to make bars, points and slices clickable (used for drill-down). Line, area,
+ * bar and combo charts draw `annotations` (events and reference lines); pass
+ * `onAnnotationsChange` to edit them from the hover menu. Charts whose SQL has
+ * `{{name}}` variables can show a parameter bar above the chart by passing
+ * `parameters` and `onParameterChange`.
  * 
  * @component
  * @example
@@ -16,15 +23,40 @@
  * />
  * ```
  */
-import { ResponsiveContainer, LineChart, Line, BarChart, Bar, PieChart, Pie, AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, Legend, Cell } from "recharts";
+import { useRef, useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { ResponsiveContainer, LineChart, Line, BarChart, Bar, PieChart, Pie, AreaChart, Area, ScatterChart, Scatter, ComposedChart, FunnelChart, Funnel, LabelList, ReferenceLine, XAxis, YAxis, ZAxis, CartesianGrid, Tooltip, Legend, Cell } from "recharts";
 import { CustomChartTooltip } from "./ChartTooltip";
+import { KpiTile } from "./KpiTile";
+import { DataTableChart } from "./DataTableChart";
+import { HeatmapChart } from "./HeatmapChart";
+import { ChartAnnotationsPopover } from "./ChartAnnotationsPopover";
+import { ChartParameterBar, PARAMETER_BAR_HEIGHT } from "./ChartParameterBar";
+import { Button } from "../../ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "../../ui/dropdown-menu";
+import type { ChartType } from "../../../utils/chartTypes";
+import type { ChartPointSelection } from "../../../utils/chartDrill";
+import type { ChartAnnotation, ChartParameter, ChartParameterValues } from "../../../services/api";
+import {
+  EVENT_ANNOTATION_COLOR,
+  REFERENCE_LINE_COLOR,
+  resolveEventPosition,
+  supportsAnnotations,
+} from "../../../utils/chartAnnotations";
+import { EXPORT_IGNORE_ATTRIBUTE, downloadElementAsPng, downloadElementAsSvg } from "../../../utils/dashboardExport";
 
 /**
  * Props interface for ChartCard component
  */
 interface ChartCardProps {
   /** Chart type to render */
-  type: 'line' | 'bar' | 'pie' | 'area';
+  type: ChartType;
   /** Data array to visualize */
   data: any[];
   /** Chart height in pixels */
@@ -36,6 +68,10 @@ interface ChartCardProps {
   };
   /** Key for X-axis data */
   xAxisKey?: string;
+  /** Scatter only: numeric column controlling point size (inferred when omitted) */
+  sizeKey?: string;
+  /** Scatter only: categorical column used to color points (inferred when omitted) */
+  colorKey?: string;
   /** Custom color array for chart elements */
   colors?: string[];
   /** Whether to show legend */
@@ -44,6 +80,21 @@ interface ChartCardProps {
   showGrid?: boolean;
   /** Width of stroke/line in pixels */
   strokeWidth?: number;
+  /** Enables PNG/SVG download; used as the file name */
+  exportTitle?: string;
+  /** Called with the clicked bar, point or slice (not available for KPI tiles, tables and heatmaps) */
+  onPointClick?: (point: ChartPointSelection) => void;
+  /** Events and reference lines (drawn on line, area, bar and combo charts) */
+  annotations?: ChartAnnotation[];
+  /** Enables adding, editing and deleting annotations from the hover menu */
+  onAnnotationsChange?: (annotations: ChartAnnotation[]) => void;
+  /** Variables in the chart's SQL; the bar takes its height from `height` */
+  parameters?: ChartParameter[];
+  parameterValues?: ChartParameterValues;
+  /** Connection the lookup queries of list parameters run on */
+  connectionId?: string;
+  /** Shows the parameter bar; called when a value is applied */
+  onParameterChange?: (name: string, value: string | null) => void;
 }
 
 /**
@@ -63,19 +114,119 @@ const DEFAULT_COLORS = [
 const PIE_COLORS = ["#06B6D4", "#6366F1", "#8B5CF6", "#F59E0B", "#EF4444"];
 
 /**
- * Renders a chart based on the specified type with consistent styling
+ * Renders a chart, optionally with a PNG/SVG download menu
  */
 export function ChartCard({
+  exportTitle,
+  onAnnotationsChange,
+  parameters,
+  parameterValues,
+  connectionId,
+  onParameterChange,
+  ...props
+}: ChartCardProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const showParameters = !!onParameterChange && !!parameters && parameters.length > 0;
+  const chartProps = showParameters
+    ? { ...props, height: Math.max(120, (props.height ?? 300) - PARAMETER_BAR_HEIGHT) }
+    : props;
+  const canAnnotate = !!onAnnotationsChange && supportsAnnotations(chartProps.type);
+
+  const parameterBar = showParameters ? (
+    <ChartParameterBar
+      parameters={parameters}
+      values={parameterValues || {}}
+      connectionId={connectionId}
+      onChange={onParameterChange}
+    />
+  ) : null;
+
+  if ((!exportTitle && !canAnnotate) || !chartProps.data || chartProps.data.length === 0) {
+    return (
+      <>
+        {parameterBar}
+        <ChartVisualization {...chartProps} />
+      </>
+    );
+  }
+
+  const handleDownload = async (format: 'png' | 'svg') => {
+    if (!containerRef.current || !exportTitle) return;
+    setIsExporting(true);
+    try {
+      if (format === 'png') {
+        await downloadElementAsPng(containerRef.current, exportTitle);
+      } else {
+        await downloadElementAsSvg(containerRef.current, exportTitle);
+      }
+    } catch (error) {
+      console.error('Failed to export chart:', error);
+      toast.error('Failed to download chart image');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <>
+      {parameterBar}
+      <div ref={containerRef} className="relative group">
+        <ChartVisualization {...chartProps} />
+        <div
+          {...{ [EXPORT_IGNORE_ATTRIBUTE]: true }}
+          className="absolute top-0 right-2 z-10 flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity"
+        >
+          {canAnnotate && (
+            <ChartAnnotationsPopover
+              annotations={chartProps.annotations || []}
+              xValues={chartProps.data.map((row) => String(row?.[chartProps.xAxisKey || 'name'] ?? ''))}
+              onChange={onAnnotationsChange!}
+            />
+          )}
+          {exportTitle && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="h-7 w-7 border-border bg-background hover:bg-muted"
+                  title="Download chart image"
+                  disabled={isExporting}
+                >
+                  {isExporting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Download className="w-3.5 h-3.5" />}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => handleDownload('png')}>Download PNG</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleDownload('svg')}>Download SVG</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
+
+/**
+ * Renders a chart based on the specified type with consistent styling
+ */
+function ChartVisualization({
   type,
   data,
   height = 300,
   dataKeys = { primary: 'value' },
   xAxisKey = 'name',
+  sizeKey,
+  colorKey,
   colors = DEFAULT_COLORS,
   showLegend = true,
   showGrid = true,
-  strokeWidth = 2
-}: ChartCardProps) {
+  strokeWidth = 2,
+  onPointClick,
+  annotations = []
+}: Omit<ChartCardProps, 'exportTitle' | 'onAnnotationsChange' | 'parameters' | 'parameterValues' | 'connectionId' | 'onParameterChange'>) {
   
   // Validate data
   if (!data || data.length === 0) {
@@ -101,6 +252,11 @@ export function ChartCard({
     );
   }
 
+  // Tables show every column as-is, so they skip the series key resolution below
+  if (type === 'table') {
+    return <DataTableChart data={data} height={height} />;
+  }
+
   // Check if primary dataKey exists
   let finalDataKeys = { ...dataKeys };
   if (!(dataKeys.primary in sampleData)) {
@@ -160,6 +316,63 @@ export function ChartCard({
   };
 
   // Render appropriate chart type based on props
+  // Cartesian charts report the hovered row; the series is only known when a single one is plotted
+  const handleChartClick = onPointClick
+    ? (state: any) => {
+        const index = state?.activeTooltipIndex;
+        if (typeof index !== 'number' || !data[index]) return;
+        const payload = state.activePayload ?? [];
+        onPointClick({
+          row: data[index],
+          xValue: data[index][finalXAxisKey],
+          seriesKey: payload.length === 1 ? String(payload[0].dataKey) : undefined,
+        });
+      }
+    : undefined;
+  // Bars (and slices) know exactly which series and row were clicked
+  const handleSeriesClick = (seriesKey?: string, labelKey: string = finalXAxisKey) => onPointClick
+    ? (_: unknown, index?: number) => {
+        if (typeof index !== 'number' || !data[index]) return;
+        onPointClick({ row: data[index], xValue: data[index][labelKey], seriesKey });
+      }
+    : undefined;
+  const clickableStyle = onPointClick ? { cursor: 'pointer' } : undefined;
+
+  // Events mark an x-axis position, reference lines a value; horizontal bars swap the axes
+  const referenceValues = annotations
+    .filter((annotation) => annotation.type === 'reference_line' && typeof annotation.y === 'number')
+    .map((annotation) => annotation.y as number);
+  const renderAnnotations = (
+    plottedData: any[],
+    { isTimeScale = false, isHorizontal = false, yAxisId }: { isTimeScale?: boolean; isHorizontal?: boolean; yAxisId?: string } = {}
+  ) =>
+    annotations.map((annotation) => {
+      const isEvent = annotation.type === 'event';
+      const position = isEvent
+        ? resolveEventPosition(annotation, plottedData, finalXAxisKey, isTimeScale)
+        : annotation.y;
+      if (position === undefined || position === null) return null;
+
+      const isVerticalLine = isEvent !== isHorizontal;
+      const color = isEvent ? EVENT_ANNOTATION_COLOR : REFERENCE_LINE_COLOR;
+      return (
+        <ReferenceLine
+          key={annotation.id}
+          {...(isVerticalLine ? { x: position } : { y: position })}
+          yAxisId={yAxisId}
+          stroke={color}
+          strokeDasharray={isEvent ? "4 4" : "6 3"}
+          ifOverflow={isEvent ? "discard" : "extendDomain"}
+          label={{
+            value: annotation.label,
+            position: isVerticalLine ? 'insideTopLeft' : 'insideTopRight',
+            fill: color,
+            fontSize: 11,
+          }}
+        />
+      );
+    });
+
   switch (type) {
     case 'line':
       // Check if x-axis values are dates
@@ -203,7 +416,12 @@ export function ChartCard({
         <div className="w-full overflow-x-auto scrollbar-thin scrollbar-thumb-border scrollbar-track-transparent">
           <div style={{ minWidth: `${minChartWidth}px` }}>
             <ResponsiveContainer width="100%" height={height}>
-              <LineChart data={displayData} margin={{ top: 10, right: 10, left: 10, bottom: lineBottomMargin }}>
+              <LineChart
+                data={displayData}
+                margin={{ top: 10, right: 10, left: 10, bottom: lineBottomMargin }}
+                onClick={handleChartClick}
+                style={clickableStyle}
+              >
             {showGrid && <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />}
             <XAxis 
               dataKey={finalXAxisKey} 
@@ -237,6 +455,7 @@ export function ChartCard({
               cursor={{ stroke: colors[0] || "#8B5CF6", strokeWidth: 1, strokeDasharray: '5 5' }}
             />
             {showLegend && <Legend wrapperStyle={{ paddingTop: '10px' }} />}
+            {renderAnnotations(data, { isTimeScale: !!isDateAxis })}
             {/* Render primary line */}
             <Line
               type="monotone"
@@ -306,6 +525,17 @@ export function ChartCard({
       );
 
     case 'bar':
+    case 'grouped_bar':
+    case 'stacked_bar':
+    case 'horizontal_bar':
+      const isStacked = type === 'stacked_bar';
+      const isHorizontal = type === 'horizontal_bar';
+      const barStackId = isStacked ? 'stack' : undefined;
+      // Stacked segments are square; otherwise round the outer end of each bar
+      const barRadius: [number, number, number, number] = isStacked
+        ? [0, 0, 0, 0]
+        : isHorizontal ? [0, 8, 8, 0] : [8, 8, 0, 0];
+
       // Calculate max value across all numeric keys to set proper Y-axis domain
       // This ensures bars are visible even with zero or small values
       const calculateMaxValue = () => {
@@ -318,13 +548,23 @@ export function ChartCard({
         
         let maxValue = 0;
         data.forEach(row => {
+          let rowTotal = 0;
           numericKeys.forEach(key => {
             const val = typeof row[key] === 'number' ? row[key] : Number(row[key]);
-            if (!isNaN(val) && val !== null && val !== undefined && val > maxValue) {
-              maxValue = val;
+            if (!isNaN(val) && val !== null && val !== undefined) {
+              rowTotal += val;
+              if (val > maxValue) {
+                maxValue = val;
+              }
             }
           });
+          // Stacked bars need room for the whole stack
+          if (isStacked && rowTotal > maxValue) {
+            maxValue = rowTotal;
+          }
         });
+        // Keep reference lines (targets, thresholds) inside the chart
+        maxValue = Math.max(maxValue, ...referenceValues);
         
         // Ensure domain always starts at 0 for proper bar rendering
         // If all values are zero or empty, show a small range so bars are visible
@@ -388,49 +628,74 @@ export function ChartCard({
       const bottomMargin = shouldRotateLabels ? 60 : 20;
       
       // Calculate minimum width for horizontal scrolling - allow comfortable spacing per bar
-      const minBarChartWidth = Math.max(400, barCount * 80);
+      const minBarChartWidth = isHorizontal ? 0 : Math.max(400, barCount * 80);
+
+      // Horizontal bars swap axes: categories down the Y axis, values along X
+      const categoryAxisProps = {
+        dataKey: finalXAxisKey,
+        ...commonAxisStyle,
+        tick: { fontSize: 11, fill: "hsl(var(--muted-foreground))" },
+        axisLine: { stroke: "hsl(var(--border))" },
+      };
+      const valueAxisProps = {
+        ...commonAxisStyle,
+        domain: finalDomain,
+        tick: { fontSize: 11, fill: "hsl(var(--muted-foreground))" },
+        axisLine: { stroke: "hsl(var(--border))" },
+        allowDecimals: false,
+        hide: !hasNumericData,
+      };
       
       return (
         <div className="w-full overflow-x-auto scrollbar-thin scrollbar-thumb-border scrollbar-track-transparent">
           <div style={{ minWidth: `${minBarChartWidth}px` }}>
             <ResponsiveContainer width="100%" height={height}>
-              <BarChart data={normalizedBarData} margin={{ top: 10, right: 10, left: 10, bottom: bottomMargin }}>
+              <BarChart
+                data={normalizedBarData}
+                layout={isHorizontal ? "vertical" : "horizontal"}
+                margin={{ top: 10, right: 10, left: 10, bottom: isHorizontal ? 10 : bottomMargin }}
+                style={clickableStyle}
+              >
             {showGrid && <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />}
-            <XAxis 
-              dataKey={finalXAxisKey} 
-              {...commonAxisStyle}
-              tick={{ fontSize: 11, fill: "hsl(var(--muted-foreground))" }}
-              axisLine={{ stroke: "hsl(var(--border))" }}
-              angle={shouldRotateLabels ? -45 : 0}
-              textAnchor={shouldRotateLabels ? "end" : "middle"}
-              height={shouldRotateLabels ? 60 : undefined}
-            />
-            <YAxis 
-              {...commonAxisStyle}
-              domain={finalDomain}
-              tick={{ fontSize: 11, fill: "hsl(var(--muted-foreground))" }}
-              axisLine={{ stroke: "hsl(var(--border))" }}
-              allowDecimals={false}
-              hide={!hasNumericData}
-            />
+            {isHorizontal ? (
+              <>
+                <XAxis type="number" {...valueAxisProps} />
+                <YAxis type="category" width={120} {...categoryAxisProps} />
+              </>
+            ) : (
+              <>
+                <XAxis 
+                  {...categoryAxisProps}
+                  angle={shouldRotateLabels ? -45 : 0}
+                  textAnchor={shouldRotateLabels ? "end" : "middle"}
+                  height={shouldRotateLabels ? 60 : undefined}
+                />
+                <YAxis {...valueAxisProps} />
+              </>
+            )}
             <Tooltip content={<CustomChartTooltip />} />
             {showLegend && <Legend wrapperStyle={{ paddingTop: '10px' }} />}
+            {renderAnnotations(normalizedBarData, { isHorizontal })}
             {/* Primary series */}
             <Bar 
               dataKey={finalDataKeys.primary} 
               fill={colors[0] || "#8B5CF6"} 
-              radius={hasNumericData ? [8, 8, 0, 0] : [0, 0, 0, 0]}
+              radius={hasNumericData ? barRadius : [0, 0, 0, 0]}
               name={finalDataKeys.primary}
               opacity={hasNumericData ? 1 : 0.4}
               barSize={hasNumericData ? undefined : 2}
+              stackId={barStackId}
+              onClick={handleSeriesClick(finalDataKeys.primary)}
             />
             {/* Secondary if present */}
             {finalDataKeys.secondary && finalDataKeys.secondary in sampleData && (
               <Bar 
                 dataKey={finalDataKeys.secondary} 
                 fill={colors[1] || "#6366F1"} 
-                radius={[8, 8, 0, 0]} 
+                radius={barRadius} 
                 name={finalDataKeys.secondary}
+                stackId={barStackId}
+                onClick={handleSeriesClick(finalDataKeys.secondary)}
               />
             )}
             {/* Additional numeric series */}
@@ -451,8 +716,10 @@ export function ChartCard({
                     key={key}
                     dataKey={key}
                     fill={colors[colorIndex] || DEFAULT_COLORS[colorIndex % DEFAULT_COLORS.length]}
-                    radius={[8, 8, 0, 0]}
+                    radius={barRadius}
                     name={key}
+                    stackId={barStackId}
+                    onClick={handleSeriesClick(key)}
                   />
                 );
               });
@@ -464,8 +731,10 @@ export function ChartCard({
       );
 
     case 'pie':
+    case 'donut':
       const outerRadius = Math.min(height * 0.3, 100);
-      const innerRadius = outerRadius * 0.6; // Donut chart with 60% inner radius
+      const innerRadius = type === 'donut' ? outerRadius * 0.6 : 0; // Donut chart with 60% inner radius
+      const pieTotal = data.reduce((sum, row) => sum + (Number(row[finalDataKeys.primary]) || 0), 0);
       
       // For pie charts, determine the label key (nameKey) for Recharts
       // Check if "label" field exists in the data, otherwise use finalXAxisKey or first non-numeric key
@@ -510,7 +779,9 @@ export function ChartCard({
                   fill="#8884d8"
                   dataKey={finalDataKeys.primary}
                   nameKey={pieLabelKey}
-                  paddingAngle={2}
+                  paddingAngle={type === 'donut' ? 2 : 0}
+                  onClick={handleSeriesClick(undefined, pieLabelKey)}
+                  style={clickableStyle}
                 >
                   {data.map((_, index) => (
                     <Cell key={`cell-${index}`} fill={PIE_COLORS[index % PIE_COLORS.length]} />
@@ -524,6 +795,20 @@ export function ChartCard({
                     return [`${labelText}: ${value} (${percentage}%)`, ''];
                   }}
                 />
+                {/* Donut charts show the total in the hole */}
+                {type === 'donut' && (
+                  <text
+                    x="50%"
+                    y="50%"
+                    textAnchor="middle"
+                    dominantBaseline="middle"
+                    fill="hsl(var(--foreground))"
+                    fontSize={16}
+                    fontWeight={600}
+                  >
+                    {pieTotal.toLocaleString()}
+                  </text>
+                )}
               </PieChart>
             </ResponsiveContainer>
           </div>
@@ -561,7 +846,12 @@ export function ChartCard({
         <div className="w-full overflow-x-auto scrollbar-thin scrollbar-thumb-border scrollbar-track-transparent">
           <div style={{ minWidth: `${minAreaChartWidth}px` }}>
             <ResponsiveContainer width="100%" height={height}>
-              <AreaChart data={data} margin={{ top: 10, right: 10, left: 10, bottom: 10 }}>
+              <AreaChart
+                data={data}
+                margin={{ top: 10, right: 10, left: 10, bottom: 10 }}
+                onClick={handleChartClick}
+                style={clickableStyle}
+              >
             <defs>
               <linearGradient id={`gradient-${dataKeys.primary}`} x1="0" y1="0" x2="0" y2="1">
                 <stop offset="5%" stopColor={colors[0]} stopOpacity={0.4}/>
@@ -591,6 +881,7 @@ export function ChartCard({
               cursor={{ stroke: colors[0] || "#8B5CF6", strokeWidth: 1, strokeDasharray: '5 5' }}
             />
             {showLegend && <Legend wrapperStyle={{ paddingTop: '10px' }} />}
+            {renderAnnotations(data)}
             <Area
               type="monotone"
               dataKey={finalDataKeys.primary}
@@ -623,6 +914,212 @@ export function ChartCard({
         </div>
       );
 
+    case 'combo':
+      // Bars for the primary series on the left axis, a line for the secondary series on the right
+      const comboLineKey = finalDataKeys.secondary && finalDataKeys.secondary in sampleData
+        ? finalDataKeys.secondary
+        : undefined;
+      const minComboChartWidth = Math.max(400, data.length * 60);
+
+      return (
+        <div className="w-full overflow-x-auto">
+          <div style={{ minWidth: `${minComboChartWidth}px` }}>
+            <ResponsiveContainer width="100%" height={height}>
+              <ComposedChart
+                data={data}
+                margin={{ top: 10, right: 10, left: 10, bottom: 10 }}
+                onClick={handleChartClick}
+                style={clickableStyle}
+              >
+                {showGrid && <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />}
+                <XAxis
+                  dataKey={finalXAxisKey}
+                  {...commonAxisStyle}
+                  tick={{ fontSize: 11, fill: "hsl(var(--muted-foreground))" }}
+                  axisLine={{ stroke: "hsl(var(--border))" }}
+                />
+                <YAxis
+                  yAxisId="left"
+                  {...commonAxisStyle}
+                  tick={{ fontSize: 11, fill: "hsl(var(--muted-foreground))" }}
+                  axisLine={{ stroke: "hsl(var(--border))" }}
+                />
+                {comboLineKey && (
+                  <YAxis
+                    yAxisId="right"
+                    orientation="right"
+                    {...commonAxisStyle}
+                    tick={{ fontSize: 11, fill: "hsl(var(--muted-foreground))" }}
+                    axisLine={{ stroke: "hsl(var(--border))" }}
+                  />
+                )}
+                <Tooltip content={<CustomChartTooltip />} />
+                {showLegend && <Legend wrapperStyle={{ paddingTop: '10px' }} />}
+                {renderAnnotations(data, { yAxisId: "left" })}
+                <Bar
+                  yAxisId="left"
+                  dataKey={finalDataKeys.primary}
+                  fill={colors[0] || "#8B5CF6"}
+                  radius={[8, 8, 0, 0]}
+                  name={finalDataKeys.primary}
+                  isAnimationActive={false}
+                />
+                <Line
+                  yAxisId={comboLineKey ? "right" : "left"}
+                  type="monotone"
+                  dataKey={comboLineKey || finalDataKeys.primary}
+                  stroke={colors[1] || "#6366F1"}
+                  strokeWidth={strokeWidth}
+                  dot={false}
+                  activeDot={{ r: 6, fill: colors[1] || "#6366F1", strokeWidth: 2, stroke: '#fff' }}
+                  connectNulls={true}
+                  isAnimationActive={false}
+                  name={comboLineKey || `${finalDataKeys.primary} (trend)`}
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      );
+
+    case 'funnel':
+      const funnelNameKey = 'name' in sampleData ? 'name' : finalXAxisKey;
+
+      return (
+        <ResponsiveContainer width="100%" height={height}>
+          <FunnelChart margin={{ top: 10, right: 120, left: 10, bottom: 10 }}>
+            <Tooltip content={<CustomChartTooltip />} />
+            <Funnel
+              data={data}
+              dataKey={finalDataKeys.primary}
+              nameKey={funnelNameKey}
+              isAnimationActive={false}
+              onClick={handleSeriesClick(undefined, funnelNameKey)}
+              style={clickableStyle}
+            >
+              {data.map((_, index) => (
+                <Cell key={`cell-${index}`} fill={PIE_COLORS[index % PIE_COLORS.length]} />
+              ))}
+              <LabelList
+                position="right"
+                dataKey={funnelNameKey}
+                fill="hsl(var(--muted-foreground))"
+                stroke="none"
+                fontSize={11}
+              />
+            </Funnel>
+          </FunnelChart>
+        </ResponsiveContainer>
+      );
+
+    case 'kpi':
+      return (
+        <KpiTile
+          data={data}
+          valueKey={finalDataKeys.primary}
+          xAxisKey={finalXAxisKey !== 'index' ? finalXAxisKey : undefined}
+          height={height}
+          color={colors[0]}
+        />
+      );
+
+    case 'heatmap':
+      return (
+        <HeatmapChart
+          data={data}
+          xAxisKey={finalXAxisKey}
+          valueKey={finalDataKeys.primary}
+          height={height}
+          color={colors[0]}
+        />
+      );
+
+    case 'scatter':
+      const isNumericValue = (val: any) =>
+        typeof val === 'number' || (val !== null && val !== undefined && val !== '' && !isNaN(Number(val)));
+
+      // Both axes must be numeric; fall back to the first numeric column that isn't plotted on Y
+      const scatterXKey = isNumericValue(sampleData[finalXAxisKey])
+        ? finalXAxisKey
+        : Object.keys(sampleData).find(key => key !== finalDataKeys.primary && isNumericValue(sampleData[key]));
+
+      if (!scatterXKey) {
+        return (
+          <div className="flex items-center justify-center h-full text-muted-foreground text-sm">
+            Scatter charts need two numeric columns
+          </div>
+        );
+      }
+
+      const scatterYKey = finalDataKeys.primary;
+      const scatterSizeKey = sizeKey && sizeKey in sampleData
+        ? sizeKey
+        : Object.keys(sampleData).find(key =>
+            key !== scatterXKey && key !== scatterYKey && isNumericValue(sampleData[key])
+          );
+      const scatterColorKey = colorKey && colorKey in sampleData
+        ? colorKey
+        : Object.keys(sampleData).find(key =>
+            key !== scatterXKey && key !== scatterYKey && key !== scatterSizeKey && !isNumericValue(sampleData[key])
+          );
+
+      const scatterPoints = data.map(row => ({
+        ...row,
+        [scatterXKey]: Number(row[scatterXKey]) || 0,
+        [scatterYKey]: Number(row[scatterYKey]) || 0,
+        ...(scatterSizeKey ? { [scatterSizeKey]: Number(row[scatterSizeKey]) || 0 } : {}),
+      }));
+
+      // One series per color category so each gets its own legend entry
+      const scatterGroups = new Map<string, any[]>();
+      scatterPoints.forEach(row => {
+        const group = scatterColorKey ? String(row[scatterColorKey] ?? 'Unknown') : scatterYKey;
+        if (!scatterGroups.has(group)) scatterGroups.set(group, []);
+        scatterGroups.get(group)!.push(row);
+      });
+      const scatterSeries = Array.from(scatterGroups.entries()).map(([name, points]) => ({ name, points }));
+
+      return (
+        <ResponsiveContainer width="100%" height={height}>
+          <ScatterChart margin={{ top: 10, right: 10, left: 10, bottom: 10 }}>
+            {showGrid && <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />}
+            <XAxis
+              dataKey={scatterXKey}
+              type="number"
+              name={scatterXKey}
+              domain={['auto', 'auto']}
+              {...commonAxisStyle}
+              tick={{ fontSize: 11, fill: "hsl(var(--muted-foreground))" }}
+              axisLine={{ stroke: "hsl(var(--border))" }}
+            />
+            <YAxis
+              dataKey={scatterYKey}
+              type="number"
+              name={scatterYKey}
+              domain={['auto', 'auto']}
+              {...commonAxisStyle}
+              tick={{ fontSize: 11, fill: "hsl(var(--muted-foreground))" }}
+              axisLine={{ stroke: "hsl(var(--border))" }}
+            />
+            {scatterSizeKey && <ZAxis dataKey={scatterSizeKey} type="number" range={[40, 400]} name={scatterSizeKey} />}
+            <Tooltip content={<CustomChartTooltip />} cursor={{ strokeDasharray: '3 3' }} />
+            {showLegend && scatterSeries.length > 1 && <Legend wrapperStyle={{ paddingTop: '10px' }} />}
+            {scatterSeries.map((series, index) => (
+              <Scatter
+                key={series.name}
+                name={series.name}
+                data={series.points}
+                fill={colors[index % colors.length] || DEFAULT_COLORS[index % DEFAULT_COLORS.length]}
+                fillOpacity={0.7}
+                isAnimationActive={false}
+                onClick={onPointClick ? (point: any) => point?.payload && onPointClick({ row: point.payload, xValue: point.payload[scatterXKey] }) : undefined}
+                style={clickableStyle}
+              />
+            ))}
+          </ScatterChart>
+        </ResponsiveContainer>
+      );
+
     default:
       return null;
   }
@@ -0,0 +1,367 @@
+/**
+ * ChartDrillPanel Component
+ *
+ * Side panel opened by clicking a chart point. Runs the generated drill query
+ * to show the rows behind the point (falling back to the chart's own result
+ * rows when it can't run), shows the SQL, and lets the rows be pivoted by
+ * another column into a child chart that can be added to the dashboard.
+ *
+ * @example
+ * <ChartDrillPanel
+ *   request={drillRequest}
+ *   projectId={projectId}
+ *   dashboardId={dashboardId}
+ *   onClose={() => setDrillRequest(null)}
+ *   onChildChartAdded={fetchDashboardCharts}
+ * />
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import { AlertCircle, Check, Copy, Loader2, Plus, Table2 } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "../../ui/badge";
+import { Button } from "../../ui/button";
+import { Label } from "../../ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../ui/select";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "../../ui/sheet";
+import { ChartCard } from "./ChartCard";
+import { DataTableChart } from "./DataTableChart";
+import { addChartToDashboard, getChartData, getDatabases, type ChartQueryParameters } from "../../../services/api";
+import { inferChartDataConfig } from "../../../utils/chartData";
+import { bindQueryParameters } from "../../../utils/chartParameters";
+import {
+  DRILL_ROW_LIMIT,
+  buildDrillQuery,
+  buildPivotQuery,
+  describeDrillTarget,
+  filterDrillRows,
+  type ChartDrillTarget,
+  type PivotAggregate,
+} from "../../../utils/chartDrill";
+import { CHART_TYPE_LABELS, type ChartType } from "../../../utils/chartTypes";
+
+/** What was clicked, and the chart it belongs to */
+export interface ChartDrillRequest {
+  chartId: string;
+  chartTitle: string;
+  query: string;
+  /** Values for the query's `{{name}}` variables, bound once the dialect is known */
+  parameters?: ChartQueryParameters;
+  connectionId: string;
+  target: ChartDrillTarget;
+  /** The chart's result rows, shown when the drill query can't run */
+  resultRows: any[];
+  fromDate?: string;
+  toDate?: string;
+}
+
+interface ChartDrillPanelProps {
+  request: ChartDrillRequest | null;
+  /** Used to look up the connection's SQL dialect */
+  projectId?: string;
+  /** Enables "Add to dashboard" for child charts */
+  dashboardId?: string;
+  onClose: () => void;
+  onChildChartAdded?: () => void;
+}
+
+const CHILD_CHART_TYPES: ChartType[] = ['bar', 'horizontal_bar', 'pie', 'donut', 'line', 'table'];
+
+const isNumericColumn = (rows: any[], column: string) =>
+  rows.some((row) => row?.[column] !== null && row?.[column] !== undefined) &&
+  rows.every((row) => row?.[column] === null || row?.[column] === undefined || !isNaN(Number(row[column])));
+
+export function ChartDrillPanel({ request, projectId, dashboardId, onClose, onChildChartAdded }: ChartDrillPanelProps) {
+  const [dbType, setDbType] = useState<string | null>(null);
+  const [rows, setRows] = useState<any[]>([]);
+  const [isLoadingRows, setIsLoadingRows] = useState(false);
+  const [queryError, setQueryError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const [dimension, setDimension] = useState("");
+  const [measure, setMeasure] = useState("count");
+  const [childType, setChildType] = useState<ChartType>('bar');
+  const [childData, setChildData] = useState<any[] | null>(null);
+  const [isLoadingChild, setIsLoadingChild] = useState(false);
+  const [isAddingChild, setIsAddingChild] = useState(false);
+
+  // The connection's dialect decides quoting and the row-limit syntax
+  useEffect(() => {
+    if (!request) return;
+    if (!projectId) {
+      setDbType('postgres');
+      return;
+    }
+
+    let cancelled = false;
+    setDbType(null);
+    getDatabases(projectId).then((response) => {
+      if (cancelled) return;
+      const connection = response.success ? response.data?.find((db) => db.id === request.connectionId) : undefined;
+      setDbType(connection?.type || 'postgres');
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [request, projectId]);
+
+  const drillQuery = useMemo(() => {
+    if (!request || !dbType) return null;
+    try {
+      const query = request.parameters
+        ? bindQueryParameters(request.query, request.parameters.definitions, request.parameters.values, dbType)
+        : request.query;
+      return buildDrillQuery(query, request.target, dbType);
+    } catch {
+      // A parameter value that can't be bound: fall back to the chart's rows
+      return null;
+    }
+  }, [request, dbType]);
+
+  useEffect(() => {
+    if (!request || !dbType) return;
+
+    let cancelled = false;
+    setIsLoadingRows(true);
+    setQueryError(null);
+    setChildData(null);
+    setDimension("");
+    setMeasure("count");
+
+    if (!drillQuery) {
+      setQueryError("The clicked value or a parameter value can't be used as a SQL filter.");
+      setRows(filterDrillRows(request.resultRows, request.target));
+      setIsLoadingRows(false);
+      return;
+    }
+
+    getChartData(request.chartId, request.connectionId, drillQuery.sql, request.fromDate, request.toDate).then((response) => {
+      if (cancelled) return;
+      if (response.success && response.data) {
+        setRows(response.data.data);
+      } else {
+        setQueryError(response.error?.message || "The drill query could not be run");
+        setRows(filterDrillRows(request.resultRows, request.target));
+      }
+      setIsLoadingRows(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [request, dbType, drillQuery]);
+
+  const columns = useMemo(() => Object.keys(rows[0] || {}), [rows]);
+  const filterColumns = new Set(request?.target.filters.map((filter) => filter.column.toLowerCase()));
+  const dimensionOptions = columns.filter((column) => !filterColumns.has(column.toLowerCase()) && !isNumericColumn(rows, column));
+  const measureOptions = columns.filter((column) => isNumericColumn(rows, column));
+  // Pivoting needs the query to run; the fallback rows are only the chart's own result
+  const canPivot = !!drillQuery && !queryError && dimensionOptions.length > 0;
+
+  const [aggregate, measureColumn] = measure === "count"
+    ? ['count' as PivotAggregate, null]
+    : (measure.split(':') as [PivotAggregate, string]);
+  const pivotSql = drillQuery && dimension && dbType
+    ? buildPivotQuery(drillQuery, dimension, aggregate, measureColumn, dbType)
+    : null;
+  const childConfig = useMemo(() => (childData ? inferChartDataConfig(childData, childType) : null), [childData, childType]);
+
+  const handleCopyQuery = async () => {
+    if (!drillQuery) return;
+    await navigator.clipboard.writeText(drillQuery.sql);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handlePreviewChild = async () => {
+    if (!request || !pivotSql) return;
+    setIsLoadingChild(true);
+    try {
+      const response = await getChartData(request.chartId, request.connectionId, pivotSql, request.fromDate, request.toDate);
+      if (response.success && response.data) {
+        setChildData(response.data.data);
+      } else {
+        toast.error(response.error?.message || "Failed to build the child chart");
+      }
+    } finally {
+      setIsLoadingChild(false);
+    }
+  };
+
+  const handleAddChild = async () => {
+    if (!request || !pivotSql || !dashboardId || !childConfig) return;
+    setIsAddingChild(true);
+    try {
+      const title = `${request.chartTitle}: ${request.target.filters.map((filter) => String(filter.value)).join(", ")} by ${dimension}`;
+      const response = await addChartToDashboard({
+        title,
+        query: pivotSql,
+        chart_type: childType,
+        dashboard_id: dashboardId,
+        data_connection_id: request.connectionId,
+        x_axis: dimension,
+        y_axis: childConfig.dataKeys.primary,
+      });
+      if (response.success) {
+        toast.success(`"${title}" added to the dashboard`);
+        onChildChartAdded?.();
+        onClose();
+      } else {
+        toast.error(response.error?.message || "Failed to add chart to dashboard");
+      }
+    } finally {
+      setIsAddingChild(false);
+    }
+  };
+
+  return (
+    <Sheet open={!!request} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent side="right" className="overflow-y-auto" style={{ width: "100%", maxWidth: 720 }}>
+        <SheetHeader>
+          <SheetTitle>Drill into {request?.chartTitle}</SheetTitle>
+          <SheetDescription>
+            {request ? describeDrillTarget(request.target) : ""}
+          </SheetDescription>
+        </SheetHeader>
+
+        {request && (
+          <div className="px-4 pb-6 space-y-6">
+            {/* Underlying rows */}
+            <section className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h4 className="text-sm text-foreground flex items-center gap-2">
+                  <Table2 className="w-4 h-4 text-muted-foreground" />
+                  Underlying rows
+                </h4>
+                {!isLoadingRows && dbType && (
+                  <Badge variant="outline" className="border-border text-muted-foreground">
+                    {rows.length >= DRILL_ROW_LIMIT ? `First ${DRILL_ROW_LIMIT}` : rows.length} row{rows.length === 1 ? "" : "s"}
+                  </Badge>
+                )}
+              </div>
+              {queryError && (
+                <div className="flex items-start gap-2 rounded-lg border border-warning/30 bg-warning/10 p-3 text-xs text-warning">
+                  <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                  <span>Showing the chart's own result rows. {queryError}</span>
+                </div>
+              )}
+              {isLoadingRows || !dbType ? (
+                <div className="flex items-center justify-center py-10 text-sm text-muted-foreground">
+                  <Loader2 className="w-5 h-5 animate-spin mr-2" />
+                  Loading rows...
+                </div>
+              ) : rows.length === 0 ? (
+                <p className="text-sm text-muted-foreground py-6 text-center">No rows match this point.</p>
+              ) : (
+                <div className="rounded-lg border border-border overflow-hidden">
+                  <DataTableChart data={rows} height={320} />
+                </div>
+              )}
+            </section>
+
+            {/* Generated SQL */}
+            {drillQuery && (
+              <section className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <h4 className="text-sm text-foreground">Drill query</h4>
+                  <Button variant="ghost" size="sm" onClick={handleCopyQuery} className="h-7">
+                    {copied ? <Check className="w-3.5 h-3.5 mr-1" /> : <Copy className="w-3.5 h-3.5 mr-1" />}
+                    {copied ? "Copied" : "Copy"}
+                  </Button>
+                </div>
+                <pre className="rounded-lg bg-muted p-3 text-xs font-mono text-foreground overflow-x-auto whitespace-pre-wrap">
+                  {drillQuery.sql}
+                </pre>
+                <p className="text-xs text-muted-foreground">
+                  {drillQuery.isDetail
+                    ? "Reads the source tables with the chart's grouping removed."
+                    : "Filters the chart's result; the chart query couldn't be expanded into source rows."}
+                </p>
+              </section>
+            )}
+
+            {/* Pivot into a child chart */}
+            {canPivot && (
+              <section className="space-y-3">
+                <h4 className="text-sm text-foreground">Pivot into a child chart</h4>
+                <div className="grid grid-cols-3 gap-3">
+                  <div className="space-y-2">
+                    <Label className="text-xs text-muted-foreground">Break down by</Label>
+                    <Select value={dimension} onValueChange={(value) => { setDimension(value); setChildData(null); }}>
+                      <SelectTrigger className="border-border">
+                        <SelectValue placeholder="Choose a column" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {dimensionOptions.map((column) => (
+                          <SelectItem key={column} value={column}>{column}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label className="text-xs text-muted-foreground">Measure</Label>
+                    <Select value={measure} onValueChange={(value) => { setMeasure(value); setChildData(null); }}>
+                      <SelectTrigger className="border-border">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="count">Count of rows</SelectItem>
+                        {measureOptions.flatMap((column) => [
+                          <SelectItem key={`sum:${column}`} value={`sum:${column}`}>Sum of {column}</SelectItem>,
+                          <SelectItem key={`avg:${column}`} value={`avg:${column}`}>Average {column}</SelectItem>,
+                        ])}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label className="text-xs text-muted-foreground">Chart type</Label>
+                    <Select value={childType} onValueChange={(value) => setChildType(value as ChartType)}>
+                      <SelectTrigger className="border-border">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CHILD_CHART_TYPES.map((type) => (
+                          <SelectItem key={type} value={type}>{CHART_TYPE_LABELS[type]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                {childConfig && childData && childData.length > 0 && (
+                  <div className="rounded-lg border border-border p-4">
+                    <ChartCard
+                      type={childType}
+                      data={childConfig.data}
+                      dataKeys={childConfig.dataKeys}
+                      xAxisKey={childConfig.xAxisKey}
+                      height={260}
+                      showLegend={false}
+                    />
+                  </div>
+                )}
+
+                <div className="flex items-center justify-end gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={handlePreviewChild}
+                    disabled={!pivotSql || isLoadingChild}
+                    className="border-border"
+                  >
+                    {isLoadingChild && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Preview
+                  </Button>
+                  {dashboardId && (
+                    <Button onClick={handleAddChild} disabled={!childConfig || !childData?.length || isAddingChild}>
+                      {isAddingChild ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+                      Add to dashboard
+                    </Button>
+                  )}
+                </div>
+              </section>
+            )}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,315 @@
+/**
+ * ChartHistoryPanel Component
+ *
+ * Side panel listing the saved versions of a chart with their author and time.
+ * Selecting a version shows what changed (title, type, axes and a line diff of
+ * the SQL) against the previous version or the current chart, and any earlier
+ * version can be restored in one click. Restoring saves it as a new version.
+ *
+ * @example
+ * <ChartHistoryPanel
+ *   chart={chartForHistory}
+ *   onClose={() => setChartForHistory(null)}
+ *   onRestore={handleChartEdited}
+ * />
+ */
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { AlertCircle, History, Loader2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "../../ui/badge";
+import { Button } from "../../ui/button";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "../../ui/sheet";
+import { getChartVersions, updateChart, type ChartVersion } from "../../../services/api";
+import {
+  CHART_FIELD_LABELS,
+  diffLines,
+  getChangedFields,
+  loadStoredVersions,
+  type ChartDefinition,
+} from "../../../utils/chartVersions";
+import { CHART_TYPE_LABELS } from "../../../utils/chartTypes";
+import type { EditableChart } from "./EditChartDialog";
+
+interface ChartHistoryPanelProps {
+  /** Chart whose history is shown; the panel is open while set */
+  chart: EditableChart | null;
+  onClose: () => void;
+  /** Called with the chart after a version has been restored */
+  onRestore: (restored: EditableChart) => void;
+}
+
+type CompareMode = "previous" | "current";
+
+const EMPTY_DEFINITION: ChartDefinition = { name: "", query: "", type: "line", xAxis: null, yAxis: null };
+
+const formatVersionTime = (value: string) =>
+  new Date(value).toLocaleString("en-US", { month: "short", day: "numeric", year: "numeric", hour: "numeric", minute: "2-digit" });
+
+const describeAxes = (definition: ChartDefinition) =>
+  `x: ${definition.xAxis || "auto"}, y: ${definition.yAxis || "auto"}`;
+
+export function ChartHistoryPanel({ chart, onClose, onRestore }: ChartHistoryPanelProps) {
+  const [versions, setVersions] = useState<ChartVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDeviceHistory, setIsDeviceHistory] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareMode, setCompareMode] = useState<CompareMode>("previous");
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const chartId = chart?.id;
+  // Axes the caller doesn't know (undefined) are taken from the latest version
+  const latest = versions[versions.length - 1];
+  const current: ChartDefinition | null = chart
+    ? {
+        name: chart.name,
+        query: chart.query,
+        type: chart.type,
+        xAxis: chart.xAxis !== undefined ? chart.xAxis : latest?.xAxis ?? null,
+        yAxis: chart.yAxis !== undefined ? chart.yAxis : latest?.yAxis ?? null,
+      }
+    : null;
+
+  // The backend history wins; saves recorded on this device are the fallback
+  const loadVersions = useCallback(async (id: string) => {
+    setIsLoading(true);
+    try {
+      const response = await getChartVersions(id);
+      const serverVersions = response.success ? response.data || [] : [];
+      const next = serverVersions.length > 0 ? serverVersions : loadStoredVersions(id);
+      setIsDeviceHistory(serverVersions.length === 0);
+      setVersions(next);
+      setSelectedId(next.length > 0 ? next[next.length - 1].id : null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!chartId) return;
+    setVersions([]);
+    setCompareMode("previous");
+    loadVersions(chartId);
+  }, [chartId, loadVersions]);
+
+  const selectedIndex = versions.findIndex((version) => version.id === selectedId);
+  const selected = selectedIndex >= 0 ? versions[selectedIndex] : null;
+  const isCurrent = (version: ChartVersion) => !!current && getChangedFields(version, current).length === 0;
+
+  // "previous": what the selected version changed; "current": what restoring it would change
+  const before = selected && current
+    ? compareMode === "current" ? current : versions[selectedIndex - 1] ?? EMPTY_DEFINITION
+    : null;
+  const after = selected;
+  const changedFields = before && after ? getChangedFields(before, after) : [];
+  const sqlDiff = useMemo(
+    () => (before && after ? diffLines(before.query, after.query) : []),
+    [before?.query, after?.query]
+  );
+
+  const handleRestore = async (version: ChartVersion) => {
+    if (!chart) return;
+
+    setRestoringId(version.id);
+    try {
+      const response = await updateChart(chart.id, {
+        name: version.name,
+        type: version.type,
+        query: version.query,
+        databaseId: chart.databaseId,
+        config: {
+          xAxis: version.xAxis ?? null,
+          yAxis: version.yAxis ?? null,
+        },
+        is_time_based: chart.isTimeBased,
+      });
+
+      if (!response.success) {
+        toast.error(response.error?.message || "Failed to restore chart version");
+        return;
+      }
+
+      onRestore({
+        ...chart,
+        name: version.name,
+        type: version.type,
+        query: version.query,
+        xAxis: version.xAxis ?? null,
+        yAxis: version.yAxis ?? null,
+      });
+      toast.success(`Restored version ${version.version} of "${version.name}"`);
+      await loadVersions(chart.id);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const renderFieldChange = (field: "name" | "type" | "axes") => {
+    if (!before || !after || !changedFields.includes(field)) return null;
+    const format = (definition: ChartDefinition) =>
+      field === "name"
+        ? definition.name || "Untitled"
+        : field === "type"
+          ? CHART_TYPE_LABELS[definition.type]
+          : describeAxes(definition);
+
+    return (
+      <div key={field} className="flex items-start gap-2 text-sm">
+        <span className="text-muted-foreground w-12 shrink-0">{CHART_FIELD_LABELS[field]}</span>
+        <span className="min-w-0" style={{ overflowWrap: "anywhere" }}>
+          {before !== EMPTY_DEFINITION && (
+            <span className="text-destructive mr-2" style={{ textDecoration: "line-through" }}>{format(before)}</span>
+          )}
+          <span className="text-success">{format(after)}</span>
+        </span>
+      </div>
+    );
+  };
+
+  return (
+    <Sheet open={!!chart} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent side="right" className="overflow-y-auto" style={{ width: "100%", maxWidth: 720 }}>
+        <SheetHeader>
+          <SheetTitle>Version history</SheetTitle>
+          <SheetDescription>{chart?.name}</SheetDescription>
+        </SheetHeader>
+
+        {chart && (
+          <div className="px-4 pb-6 space-y-6">
+            {isDeviceHistory && versions.length > 0 && (
+              <div className="flex items-start gap-2 rounded-lg border border-warning/30 bg-warning/10 p-3 text-xs text-warning">
+                <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                <span>Showing changes saved from this device; the server history is unavailable.</span>
+              </div>
+            )}
+
+            {isLoading && versions.length === 0 ? (
+              <div className="flex items-center justify-center py-10 text-sm text-muted-foreground">
+                <Loader2 className="w-5 h-5 animate-spin mr-2" />
+                Loading history...
+              </div>
+            ) : versions.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-10 text-center">
+                <History className="w-8 h-8 text-muted-foreground mb-3" />
+                <p className="text-sm text-foreground mb-1">No versions recorded yet</p>
+                <p className="text-xs text-muted-foreground">Changes to the title, SQL, type or axes will appear here.</p>
+              </div>
+            ) : (
+              <>
+                {/* Versions, newest first */}
+                <section className="space-y-2">
+                  {[...versions].reverse().map((version) => {
+                    const index = versions.indexOf(version);
+                    const fields = index > 0 ? getChangedFields(versions[index - 1], version) : [];
+                    const isSelected = version.id === selectedId;
+                    return (
+                      <div
+                        key={version.id}
+                        role="button"
+                        tabIndex={0}
+                        onClick={() => setSelectedId(version.id)}
+                        onKeyDown={(e) => e.key === "Enter" && setSelectedId(version.id)}
+                        className={`flex items-center gap-3 rounded-lg border p-3 cursor-pointer transition-colors ${
+                          isSelected ? "border-primary/30 bg-primary/10" : "border-border hover:bg-muted"
+                        }`}
+                      >
+                        <Badge variant="outline" className="border-border shrink-0">v{version.version}</Badge>
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm text-foreground truncate">{version.author || "Unknown author"}</p>
+                          <p className="text-xs text-muted-foreground">{formatVersionTime(version.createdAt)}</p>
+                        </div>
+                        <div className="flex flex-wrap justify-end gap-1">
+                          {index === 0 ? (
+                            <Badge variant="secondary" className="text-xs">Created</Badge>
+                          ) : (
+                            fields.map((field) => (
+                              <Badge key={field} variant="secondary" className="text-xs">{CHART_FIELD_LABELS[field]}</Badge>
+                            ))
+                          )}
+                          {isCurrent(version) && (
+                            <Badge variant="outline" className="text-xs border-primary/30 text-primary bg-primary/10">Current</Badge>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </section>
+
+                {/* Changes in the selected version */}
+                {selected && before && after && (
+                  <section className="space-y-3">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-1">
+                        <Button
+                          variant={compareMode === "previous" ? "secondary" : "ghost"}
+                          size="sm"
+                          className="h-7 text-xs"
+                          onClick={() => setCompareMode("previous")}
+                        >
+                          Changes in v{selected.version}
+                        </Button>
+                        <Button
+                          variant={compareMode === "current" ? "secondary" : "ghost"}
+                          size="sm"
+                          className="h-7 text-xs"
+                          onClick={() => setCompareMode("current")}
+                        >
+                          Compare with current
+                        </Button>
+                      </div>
+                      {!isCurrent(selected) && (
+                        <Button
+                          size="sm"
+                          onClick={() => handleRestore(selected)}
+                          disabled={!!restoringId}
+                        >
+                          {restoringId === selected.id ? (
+                            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                          ) : (
+                            <RotateCcw className="w-4 h-4 mr-2" />
+                          )}
+                          Restore v{selected.version}
+                        </Button>
+                      )}
+                    </div>
+
+                    {changedFields.length === 0 ? (
+                      <p className="text-sm text-muted-foreground py-4 text-center">
+                        {compareMode === "current" ? "This version matches the current chart." : "No changes in this version."}
+                      </p>
+                    ) : (
+                      <>
+                        {(["name", "type", "axes"] as const).map(renderFieldChange)}
+                        {changedFields.includes("query") && (
+                          <div className="rounded-lg border border-border overflow-x-auto">
+                            <pre className="text-xs font-mono py-2">
+                              {sqlDiff.map((line, index) => (
+                                <div
+                                  key={index}
+                                  className={`px-3 whitespace-pre-wrap ${
+                                    line.kind === "added"
+                                      ? "bg-success/10 text-success"
+                                      : line.kind === "removed"
+                                        ? "bg-destructive/10 text-destructive"
+                                        : "text-muted-foreground"
+                                  }`}
+                                >
+                                  {line.kind === "added" ? "+ " : line.kind === "removed" ? "- " : "  "}
+                                  {line.text}
+                                </div>
+                              ))}
+                            </pre>
+                          </div>
+                        )}
+                      </>
+                    )}
+                  </section>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
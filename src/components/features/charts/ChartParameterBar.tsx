@@ -0,0 +1,141 @@
+/**
+ * ChartParameterBar Component
+ *
+ * Inputs for the `{{name}}` variables in a chart's SQL, shown above the chart.
+ * Text and number values apply on Enter or when the field loses focus; dates
+ * and list values apply as soon as they are picked. List options come from
+ * the parameter's lookup query, run on the chart's connection, or from its
+ * fixed values.
+ *
+ * @example
+ * <ChartParameterBar
+ *   parameters={parameters}
+ *   values={parameterValues}
+ *   connectionId={chart.databaseConnectionId}
+ *   onChange={(name, value) => handleParameterChange(chart, name, value)}
+ * />
+ */
+
+import { useEffect, useState } from "react";
+import { Variable } from "lucide-react";
+import { Input } from "../../ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../ui/select";
+import { getChartParameterOptions, type ChartParameter, type ChartParameterValues } from "../../../services/api";
+import { isValidParameterValue } from "../../../utils/chartParameters";
+
+interface ChartParameterBarProps {
+  parameters: ChartParameter[];
+  values: ChartParameterValues;
+  /** Connection the lookup queries of list parameters run on */
+  connectionId?: string;
+  onChange: (name: string, value: string | null) => void;
+}
+
+/** Height of the bar, taken from the chart when both share a fixed height */
+export const PARAMETER_BAR_HEIGHT = 44;
+
+export function ChartParameterBar({ parameters, values, connectionId, onChange }: ChartParameterBarProps) {
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [lookupOptions, setLookupOptions] = useState<Record<string, string[]>>({});
+
+  const valuesKey = JSON.stringify(values);
+  useEffect(() => {
+    setDrafts(Object.fromEntries(Object.entries(values).map(([name, value]) => [name, value ?? ""])));
+  }, [valuesKey]);
+
+  const lookupKey = parameters
+    .filter((parameter) => parameter.type === "enum" && parameter.lookupQuery)
+    .map((parameter) => `${parameter.name}\u0000${parameter.lookupQuery}`)
+    .join("\u0001");
+  useEffect(() => {
+    if (!connectionId || !lookupKey) return;
+
+    let cancelled = false;
+    const lookups = lookupKey.split("\u0001").map((entry) => entry.split("\u0000") as [string, string]);
+    Promise.all(lookups.map(([, query]) => getChartParameterOptions(connectionId, query))).then((responses) => {
+      if (cancelled) return;
+      setLookupOptions(Object.fromEntries(
+        responses.flatMap((response, index) => (response.success && response.data ? [[lookups[index][0], response.data]] : []))
+      ));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [connectionId, lookupKey]);
+
+  const commit = (parameter: ChartParameter, raw: string) => {
+    const value = raw.trim() === "" ? null : raw.trim();
+    if (!isValidParameterValue(parameter, value) || value === (values[parameter.name] ?? null)) return;
+    onChange(parameter.name, value);
+  };
+
+  const renderControl = (parameter: ChartParameter) => {
+    const label = parameter.label || parameter.name;
+    const draft = drafts[parameter.name] ?? "";
+
+    if (parameter.type === "enum") {
+      const current = values[parameter.name];
+      const options = lookupOptions[parameter.name] ?? parameter.options ?? [];
+      const choices = current && !options.includes(current) ? [current, ...options] : options;
+      return (
+        <Select value={current ?? undefined} onValueChange={(value) => onChange(parameter.name, value)}>
+          <SelectTrigger className="h-8 w-fit text-xs border-border" aria-label={label} style={{ minWidth: 120 }}>
+            <SelectValue placeholder={choices.length > 0 ? "Choose" : "No values"} />
+          </SelectTrigger>
+          <SelectContent>
+            {choices.map((option) => (
+              <SelectItem key={option} value={option} className="text-xs">{option}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    if (parameter.type === "date") {
+      return (
+        <Input
+          type="date"
+          value={draft}
+          onChange={(e) => {
+            setDrafts((prev) => ({ ...prev, [parameter.name]: e.target.value }));
+            commit(parameter, e.target.value);
+          }}
+          className="h-8 w-fit text-xs"
+          aria-label={label}
+        />
+      );
+    }
+
+    const isInvalid = !isValidParameterValue(parameter, draft.trim());
+    return (
+      <Input
+        type={parameter.type === "number" ? "number" : "text"}
+        value={draft}
+        onChange={(e) => setDrafts((prev) => ({ ...prev, [parameter.name]: e.target.value }))}
+        onBlur={() => commit(parameter, draft)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") commit(parameter, draft);
+        }}
+        placeholder="Any value"
+        className="h-8 text-xs"
+        style={{ width: parameter.type === "number" ? 96 : 140 }}
+        aria-label={label}
+        aria-invalid={isInvalid}
+      />
+    );
+  };
+
+  if (parameters.length === 0) return null;
+
+  return (
+    <div className="flex items-center gap-3 overflow-x-auto" style={{ height: PARAMETER_BAR_HEIGHT }}>
+      <Variable className="w-4 h-4 text-muted-foreground shrink-0" aria-hidden />
+      {parameters.map((parameter) => (
+        <label key={parameter.name} className="flex items-center gap-1.5 shrink-0">
+          <span className="text-xs text-muted-foreground">{parameter.label || parameter.name}</span>
+          {renderControl(parameter)}
+        </label>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+/**
+ * ChartParametersEditor Component
+ *
+ * Declares the `{{name}}` variables found in a chart's SQL: each gets a type
+ * (text, number, date or list), an optional label and default value, and list
+ * parameters get either a lookup query whose first column lists the allowed
+ * values or a fixed, comma-separated list.
+ *
+ * @example
+ * <ChartParametersEditor
+ *   parameters={resolveChartParameters(sql, declaredParameters)}
+ *   onChange={handleParameterDeclarationChange}
+ * />
+ */
+
+import { Input } from "../../ui/input";
+import { Label } from "../../ui/label";
+import { Textarea } from "../../ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../ui/select";
+import type { ChartParameter, ChartParameterType } from "../../../services/api";
+import { CHART_PARAMETER_TYPES, PARAMETER_TYPE_LABELS, isValidParameterValue } from "../../../utils/chartParameters";
+
+interface ChartParametersEditorProps {
+  parameters: ChartParameter[];
+  onChange: (parameter: ChartParameter) => void;
+}
+
+const DEFAULT_PLACEHOLDERS: Record<ChartParameterType, string> = {
+  string: "e.g. EMEA",
+  number: "e.g. 100",
+  date: "YYYY-MM-DD",
+  enum: "One of the values",
+};
+
+export function ChartParametersEditor({ parameters, onChange }: ChartParametersEditorProps) {
+  if (parameters.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      {parameters.map((parameter) => {
+        const update = (fields: Partial<ChartParameter>) => onChange({ ...parameter, ...fields });
+        const isDefaultInvalid = !isValidParameterValue(parameter, parameter.defaultValue);
+
+        return (
+          <div key={parameter.name} className="rounded-lg border border-border p-3 space-y-3">
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground">
+                  <span className="font-mono">{`{{${parameter.name}}}`}</span>
+                </Label>
+                <Select
+                  value={parameter.type}
+                  onValueChange={(value) => update({ type: value as ChartParameterType, defaultValue: null })}
+                >
+                  <SelectTrigger className="h-8 text-xs border-border">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CHART_PARAMETER_TYPES.map((type) => (
+                      <SelectItem key={type} value={type} className="text-xs">{PARAMETER_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground">Label</Label>
+                <Input
+                  value={parameter.label ?? ""}
+                  onChange={(e) => update({ label: e.target.value || undefined })}
+                  placeholder={parameter.name}
+                  className="h-8 text-xs"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground">Default</Label>
+                <Input
+                  type={parameter.type === "number" ? "number" : parameter.type === "date" ? "date" : "text"}
+                  value={parameter.defaultValue ?? ""}
+                  onChange={(e) => update({ defaultValue: e.target.value === "" ? null : e.target.value })}
+                  placeholder={DEFAULT_PLACEHOLDERS[parameter.type]}
+                  className="h-8 text-xs"
+                  aria-invalid={isDefaultInvalid}
+                />
+              </div>
+            </div>
+
+            {parameter.type === "enum" && (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label className="text-xs text-muted-foreground">Lookup query</Label>
+                  <Textarea
+                    value={parameter.lookupQuery ?? ""}
+                    onChange={(e) => update({ lookupQuery: e.target.value || undefined })}
+                    placeholder="SELECT DISTINCT region FROM orders"
+                    className="text-xs font-mono"
+                    rows={2}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-xs text-muted-foreground">Or fixed values</Label>
+                  {/* Parsed when the field loses focus, so commas can be typed freely */}
+                  <Input
+                    defaultValue={(parameter.options ?? []).join(", ")}
+                    onBlur={(e) => {
+                      const options = e.target.value.split(",").map((option) => option.trim()).filter(Boolean);
+                      update({ options: options.length > 0 ? options : undefined });
+                    }}
+                    placeholder="EMEA, APAC, AMER"
+                    className="h-8 text-xs"
+                    disabled={!!parameter.lookupQuery}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { Plus, ChevronDown, LayoutDashboard, Clock, Loader2 } from "lucide-react";
+import { Plus, ChevronDown, LayoutDashboard, Clock, Loader2, Code2, ListTree, AlertCircle } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -18,17 +18,54 @@ import {
   DropdownMenuLabel,
   DropdownMenuSeparator,
 } from "../../ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../../ui/select";
 import { ChartCard } from "./ChartCard";
+import { ChartParameterBar } from "./ChartParameterBar";
+import { ChartSqlEditorPanel, type SqlEditorChart } from "./ChartSqlEditorPanel";
+import { QueryPlanTree } from "./QueryPlanTree";
+import { SqlIssueList } from "./SqlIssueList";
 import { toast } from "sonner";
-import { addChartToDashboard, createChart, getChartData, type Chart as SavedChart, type ChartData as ApiChartData } from "../../../services/api";
+import {
+  addChartToDashboard,
+  createChart,
+  explainQuery,
+  getChartAnnotations,
+  getChartData,
+  getChartParameters,
+  getDatabaseSchema,
+  updateChartAnnotations,
+  type Chart as SavedChart,
+  type ChartAnnotation,
+  type ChartData as ApiChartData,
+  type ChartParameter,
+  type ChartParameterValues,
+  type DatabaseSchema,
+  type QueryPlan,
+} from "../../../services/api";
+import { loadStoredAnnotations, storeAnnotations } from "../../../utils/chartAnnotations";
+import {
+  getDefaultParameterValues,
+  loadStoredParameters,
+  resolveChartParameters,
+  storeParameters,
+} from "../../../utils/chartParameters";
 import { getDefaultChartDataConfig, inferChartDataConfig, type ChartDataConfig } from "../../../utils/chartData";
 import * as React from "react";
 import type { ChartSpec } from "../../../services/websocket";
+import { CHART_TYPES, CHART_TYPE_LABELS, isRadialChartType, type ChartType } from "../../../utils/chartTypes";
+import { getQueryPlanWarnings } from "../../../utils/queryPlan";
+import { hasSqlErrors, lintSql } from "../../../utils/sqlLint";
 
 interface PreviewChart {
   id?: string;
   name: string;
-  type: 'line' | 'bar' | 'pie' | 'area';
+  type: ChartType;
   description?: string;
   query?: string;
   reasoning?: string;
@@ -60,9 +97,15 @@ interface ChartPreviewDialogProps {
   onSaveAsDraft?: (savedChart?: SavedChart) => void;
   isExistingChart?: boolean;
   chartStatus?: 'draft' | 'published';
+  /** Id of the saved chart, enabling its annotations and SQL to be edited in the preview */
+  savedChartId?: string;
+  /** Called after the SQL editor saved its query as a new chart */
+  onChartCreated?: (savedChart: SavedChart) => void;
+  /** Called after the SQL editor updated the saved chart */
+  onChartUpdated?: (savedChart: SavedChart) => void;
 }
 
-export function ChartPreviewDialog({ isOpen, onClose, chart, dashboards = [], projectId, onAddToDashboard, onSaveAsDraft, isExistingChart = false, chartStatus: _chartStatus }: ChartPreviewDialogProps) {
+export function ChartPreviewDialog({ isOpen, onClose, chart, dashboards = [], projectId, onAddToDashboard, onSaveAsDraft, isExistingChart = false, chartStatus: _chartStatus, savedChartId, onChartCreated, onChartUpdated }: ChartPreviewDialogProps) {
   const [isSavingDraft, setIsSavingDraft] = React.useState(false);
   const isSavingDraftRef = React.useRef(false);
   const [isAddingToDashboard, setIsAddingToDashboard] = React.useState(false);
@@ -74,6 +117,20 @@ export function ChartPreviewDialog({ isOpen, onClose, chart, dashboards = [], pr
   const [chartDataMetadata, setChartDataMetadata] = React.useState<ApiChartData['metadata'] | undefined>(undefined);
   const [chartDataError, setChartDataError] = React.useState<string | undefined>(undefined);
   const [isExecutingQuery, setIsExecutingQuery] = React.useState(false);
+  // Visualization picked in the preview; saved instead of the suggested chart.type
+  const [selectedType, setSelectedType] = React.useState<ChartType>(chart?.type ?? 'line');
+  const [rawRows, setRawRows] = React.useState<any[] | undefined>(undefined);
+  const [annotations, setAnnotations] = React.useState<ChartAnnotation[]>([]);
+  const [sqlEditorChart, setSqlEditorChart] = React.useState<SqlEditorChart | null>(null);
+  const [declaredParameters, setDeclaredParameters] = React.useState<ChartParameter[]>([]);
+  // Values picked in the parameter bar; the rest use their defaults
+  const [pickedParameterValues, setPickedParameterValues] = React.useState<ChartParameterValues>({});
+  // Connection schema, used to flag SELECT * on wide tables
+  const [schema, setSchema] = React.useState<DatabaseSchema | null>(null);
+  // EXPLAIN plan of the query, shown under it once requested
+  const [queryPlan, setQueryPlan] = React.useState<QueryPlan | null>(null);
+  const [queryPlanError, setQueryPlanError] = React.useState<string | null>(null);
+  const [isExplaining, setIsExplaining] = React.useState(false);
   const [windowWidth, setWindowWidth] = React.useState<number>(typeof window !== 'undefined' ? window.innerWidth : 1024);
 
   // Track window width for responsive chart height
@@ -90,6 +147,107 @@ export function ChartPreviewDialog({ isOpen, onClose, chart, dashboards = [], pr
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
+  // Load the saved chart's annotations, showing the copy stored on this device until the server responds
+  React.useEffect(() => {
+    if (!isOpen || !savedChartId) {
+      setAnnotations([]);
+      return;
+    }
+
+    let cancelled = false;
+    setAnnotations(loadStoredAnnotations(savedChartId) || []);
+
+    const loadAnnotations = async () => {
+      const response = await getChartAnnotations(savedChartId);
+      if (cancelled || !response.success || !response.data || response.data.length === 0) return;
+      setAnnotations(response.data);
+      storeAnnotations(savedChartId, response.data);
+    };
+
+    loadAnnotations();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, savedChartId]);
+
+  // Load the saved chart's parameter declarations the same way
+  React.useEffect(() => {
+    setPickedParameterValues({});
+    if (!isOpen || !savedChartId) {
+      setDeclaredParameters([]);
+      return;
+    }
+
+    let cancelled = false;
+    setDeclaredParameters(loadStoredParameters(savedChartId) || []);
+
+    const loadParameters = async () => {
+      const response = await getChartParameters(savedChartId);
+      if (cancelled || !response.success || !response.data || response.data.length === 0) return;
+      setDeclaredParameters(response.data);
+      storeParameters(savedChartId, response.data);
+    };
+
+    loadParameters();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, savedChartId]);
+
+  const parameters = React.useMemo(
+    () => resolveChartParameters(chart?.query ?? "", declaredParameters),
+    [chart?.query, declaredParameters]
+  );
+  const parameterValues = React.useMemo(
+    () => ({ ...getDefaultParameterValues(parameters), ...pickedParameterValues }),
+    [parameters, pickedParameterValues]
+  );
+  const hasPickedParameterValues = Object.keys(pickedParameterValues).length > 0;
+  const parametersKey = parameters.length > 0 ? JSON.stringify([parameters, parameterValues]) : "";
+
+  const schemaDatabaseId = chart?.databaseId || chart?.dataConnectionId;
+  React.useEffect(() => {
+    if (!isOpen || !projectId || !schemaDatabaseId) {
+      setSchema(null);
+      return;
+    }
+
+    let cancelled = false;
+    getDatabaseSchema(String(projectId), String(schemaDatabaseId)).then((response) => {
+      if (!cancelled) setSchema(response.success && response.data ? response.data : null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, projectId, schemaDatabaseId]);
+
+  const sqlIssues = React.useMemo(() => lintSql(chart?.query ?? "", schema), [chart?.query, schema]);
+  const hasBlockingSqlIssues = hasSqlErrors(sqlIssues);
+
+  // A plan belongs to the query it was requested for
+  React.useEffect(() => {
+    setQueryPlan(null);
+    setQueryPlanError(null);
+  }, [isOpen, chart?.query, schemaDatabaseId]);
+
+  const queryPlanWarnings = React.useMemo(
+    () => (queryPlan ? getQueryPlanWarnings(queryPlan, schema) : []),
+    [queryPlan, schema]
+  );
+
+  const handleAnnotationsChange = async (next: ChartAnnotation[]) => {
+    if (!savedChartId) return;
+    setAnnotations(next);
+    storeAnnotations(savedChartId, next);
+
+    const response = await updateChartAnnotations(savedChartId, next);
+    if (!response.success) {
+      toast.warning("Annotations saved on this device only", {
+        description: response.error?.message || "The server could not store the annotations.",
+      });
+    }
+  };
+
   // Calculate responsive chart height
   const getChartHeight = () => {
     if (windowWidth < 640) return 200; // Mobile
@@ -113,6 +271,7 @@ export function ChartPreviewDialog({ isOpen, onClose, chart, dashboards = [], pr
   React.useEffect(() => {
     if (!isOpen) {
       setIsDropdownOpen(false);
+      setSqlEditorChart(null);
       setIsAddingToDashboard(false);
       setAddingToDashboardId(null);
       // Reset refs when dialog closes
@@ -158,12 +317,16 @@ export function ChartPreviewDialog({ isOpen, onClose, chart, dashboards = [], pr
   React.useEffect(() => {
     if (!chart) {
       setChartDataConfig(getDefaultChartDataConfig());
+      setRawRows(undefined);
       setChartDataMetadata(undefined);
       setChartDataError(undefined);
       setIsExecutingQuery(false);
       return;
     }
 
+    setSelectedType(chart.type);
+    setRawRows(chart.data);
+
     if (chart.data && chart.dataKeys && chart.xAxisKey) {
       // Ensure data is sorted for line/area charts even when pre-populated
       let processedData = chart.data;
@@ -226,7 +389,14 @@ export function ChartPreviewDialog({ isOpen, onClose, chart, dashboards = [], pr
       return;
     }
 
-    if (chart.data && chart.data.length > 0 && !chart.isLoadingData && !chart.dataError) {
+    // Listed under "SQL Query"; getChartData would reject it anyway
+    if (hasSqlErrors(lintSql(chart.query!))) {
+      setChartDataError("The query was not run: charts can only read data.");
+      setIsExecutingQuery(false);
+      return;
+    }
+
+    if (chart.data && chart.data.length > 0 && !chart.isLoadingData && !chart.dataError && !hasPickedParameterValues) {
       return;
     }
 
@@ -237,7 +407,16 @@ export function ChartPreviewDialog({ isOpen, onClose, chart, dashboards = [], pr
       setChartDataError(undefined);
 
       try {
-        const response = await getChartData(chart.id ?? "preview", databaseId, chart.query!);
+        const response = await getChartData(
+          chart.id ?? "preview",
+          databaseId,
+          chart.query!,
+          undefined,
+          undefined,
+          false,
+          parameters.length > 0 ? { definitions: parameters, values: parameterValues } : undefined,
+          { recordHistory: true }
+        );
 
         if (cancelled) {
           return;
@@ -245,6 +424,7 @@ export function ChartPreviewDialog({ isOpen, onClose, chart, dashboards = [], pr
 
         if (response.success && response.data) {
           const config = inferChartDataConfig(response.data.data, chart.type);
+          setRawRows(response.data.data);
           setChartDataConfig(config);
           setChartDataMetadata(response.data.metadata);
           setChartDataError(undefined);
@@ -272,7 +452,7 @@ export function ChartPreviewDialog({ isOpen, onClose, chart, dashboards = [], pr
     return () => {
       cancelled = true;
     };
-  }, [isOpen, chart?.id, chart?.query, chart?.type, chart?.databaseId, chart?.dataConnectionId, chart?.dataSource]);
+  }, [isOpen, chart?.id, chart?.query, chart?.type, chart?.databaseId, chart?.dataConnectionId, chart?.dataSource, parametersKey]);
   
   const extractDatabaseId = () => {
     if (chart?.databaseId) {
@@ -320,7 +500,19 @@ export function ChartPreviewDialog({ isOpen, onClose, chart, dashboards = [], pr
       ? new Date(chartDataMetadata.cachedAt).toLocaleString()
       : chartDataMetadata?.cachedAt ?? null;
 
+  // Switching visualization re-infers the config from the raw result set
+  const isTypeOverridden = selectedType !== chart.type && !!rawRows && rawRows.length > 0;
+  const displayConfig = isTypeOverridden ? inferChartDataConfig(rawRows, selectedType) : chartDataConfig;
+
   const resolveAxisFields = () => {
+    // Pie/donut rows are reshaped to name/value, so keep the original fields there
+    if (isTypeOverridden && !isRadialChartType(selectedType)) {
+      return {
+        xAxis: displayConfig.xAxisKey || null,
+        yAxis: displayConfig.dataKeys.primary || null,
+      };
+    }
+
     const resolvedXAxis =
       chart?.xAxisKey ||
       chart?.xAxisField ||
@@ -388,10 +580,10 @@ export function ChartPreviewDialog({ isOpen, onClose, chart, dashboards = [], pr
         title: chart.name,
         query: chart.query || "",
         report: chart.reasoning || chart.description || "",
-        type: chart.type,
+        type: selectedType,
         relevance: "",
         is_time_based: isTimeBased,
-        chart_type: chart.type,
+        chart_type: selectedType,
         dashboard_id: String(dashboardId),
         data_connection_id: databaseId,
       x_axis: axisFields.xAxis || undefined,
@@ -465,7 +657,7 @@ export function ChartPreviewDialog({ isOpen, onClose, chart, dashboards = [], pr
     try {
       const response = await createChart(String(projectId), {
         name: chart.name,
-        type: chart.type,
+        type: selectedType,
         query: chart.query,
         databaseId,
         is_time_based: isTimeBased,
@@ -490,6 +682,46 @@ export function ChartPreviewDialog({ isOpen, onClose, chart, dashboards = [], pr
     }
   };
 
+  const handleEditSql = () => {
+    if (!chart || !resolvedDatabaseId) return;
+    const axisFields = resolveAxisFields();
+    setSqlEditorChart({
+      id: savedChartId,
+      name: chart.name,
+      type: selectedType,
+      query: chart.query || "",
+      connectionId: String(resolvedDatabaseId),
+      xAxis: axisFields.xAxis,
+      yAxis: axisFields.yAxis,
+      isTimeBased: chart.spec?.type === 'time_series' ? true :
+                   chart.spec?.type === 'aggregate' ? false :
+                   chart.spec?.is_time_based ?? false,
+    });
+  };
+
+  const handleExplain = async () => {
+    if (!chart?.query || !resolvedDatabaseId) return;
+
+    setIsExplaining(true);
+    setQueryPlanError(null);
+    try {
+      const response = await explainQuery(
+        chart.id ?? "preview",
+        String(resolvedDatabaseId),
+        chart.query,
+        parameters.length > 0 ? { definitions: parameters, values: parameterValues } : undefined
+      );
+      if (response.success && response.data) {
+        setQueryPlan(response.data);
+      } else {
+        setQueryPlan(null);
+        setQueryPlanError(response.error?.message || "The query plan could not be loaded");
+      }
+    } finally {
+      setIsExplaining(false);
+    }
+  };
+
   const handleOpenChange = (open: boolean) => {
     if (!open) {
       // Force close dropdown immediately to prevent portal overlay from blocking
@@ -568,9 +800,18 @@ export function ChartPreviewDialog({ isOpen, onClose, chart, dashboards = [], pr
                 <DialogTitle className="text-sm sm:text-base flex-1 min-w-0 truncate whitespace-nowrap">
                   {chart.name}
                 </DialogTitle>
-                <Badge variant="outline" className="capitalize w-fit text-xs flex-shrink-0">
-                  {chart.type} Chart
-                </Badge>
+                <Select value={selectedType} onValueChange={(value) => setSelectedType(value as ChartType)}>
+                  <SelectTrigger className="h-7 w-fit text-xs flex-shrink-0 border-border" aria-label="Chart type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CHART_TYPES.map((type) => (
+                      <SelectItem key={type} value={type} className="text-xs">
+                        {CHART_TYPE_LABELS[type]} Chart
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
               <DialogDescription className="text-xs break-words line-clamp-2">
                 {chart.description || chart.reasoning || "Review the chart details before saving or adding it to a dashboard."}
@@ -600,6 +841,15 @@ export function ChartPreviewDialog({ isOpen, onClose, chart, dashboards = [], pr
         <div className="flex-1 overflow-y-auto px-3 sm:px-4 md:px-5 min-h-0">
           {/* Chart Visualization */}
           <div className="bg-muted/30 rounded-lg border border-border p-2 sm:p-3 md:p-4 mb-4">
+            {/* Kept outside the chart area so values can still be changed when a run returns nothing */}
+            {!missingConfigMessage && parameters.length > 0 && (
+              <ChartParameterBar
+                parameters={parameters}
+                values={parameterValues}
+                connectionId={resolvedDatabaseId ? String(resolvedDatabaseId) : undefined}
+                onChange={(name, value) => setPickedParameterValues((prev) => ({ ...prev, [name]: value }))}
+              />
+            )}
             <div className="relative w-full" style={{ height: `${getChartHeight()}px` }}>
               {missingConfigMessage ? (
                 <div className="absolute inset-0 flex items-center justify-center">
@@ -633,12 +883,14 @@ export function ChartPreviewDialog({ isOpen, onClose, chart, dashboards = [], pr
                   )}
                   {!isExecutingQuery && !chartDataError && !noDataReturned && (
                     <ChartCard
-                      type={chart.type}
-                      data={chartDataConfig.data}
-                      dataKeys={chartDataConfig.dataKeys}
-                      xAxisKey={chartDataConfig.xAxisKey}
-                      showLegend={!!chartDataConfig.dataKeys.secondary && chart.type !== 'pie'}
+                      type={selectedType}
+                      data={displayConfig.data}
+                      dataKeys={displayConfig.dataKeys}
+                      xAxisKey={displayConfig.xAxisKey}
+                      showLegend={!!displayConfig.dataKeys.secondary && !isRadialChartType(selectedType)}
                       height={getChartHeight()}
+                      annotations={annotations}
+                      onAnnotationsChange={savedChartId ? handleAnnotationsChange : undefined}
                     />
                   )}
                 </>
@@ -670,13 +922,60 @@ export function ChartPreviewDialog({ isOpen, onClose, chart, dashboards = [], pr
               </div>
             </div>
             <div>
-              <p className="text-xs text-muted-foreground mb-1.5 font-medium">SQL Query:</p>
+              <div className="flex items-center justify-between gap-2 mb-1.5">
+                <p className="text-xs text-muted-foreground font-medium">SQL Query:</p>
+                {hasConnection && (
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 text-xs"
+                      onClick={handleExplain}
+                      disabled={!hasQuery || isExplaining || hasBlockingSqlIssues}
+                    >
+                      {isExplaining ? <Loader2 className="w-3.5 h-3.5 mr-1 animate-spin" /> : <ListTree className="w-3.5 h-3.5 mr-1" />}
+                      Explain
+                    </Button>
+                    <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={handleEditSql}>
+                      <Code2 className="w-3.5 h-3.5 mr-1" />
+                      Edit SQL
+                    </Button>
+                  </div>
+                )}
+              </div>
+              <SqlIssueList issues={sqlIssues} className="mb-1.5" />
               <pre className="text-xs bg-muted/50 p-2.5 pl-4 rounded-lg overflow-x-auto max-h-[300px] overflow-y-auto">
                 <code className="text-foreground break-words whitespace-pre-wrap">
                   {chart.query || "-- No query provided --"}
                 </code>
               </pre>
             </div>
+            {(queryPlan || queryPlanError) && (
+              <div>
+                <div className="flex items-center justify-between gap-2 mb-1.5">
+                  <p className="text-xs text-muted-foreground font-medium">Query Plan:</p>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={() => {
+                      setQueryPlan(null);
+                      setQueryPlanError(null);
+                    }}
+                  >
+                    Hide
+                  </Button>
+                </div>
+                {queryPlanError ? (
+                  <div className="flex items-start gap-2 rounded-lg border border-destructive/30 bg-destructive/10 p-2 text-xs text-destructive">
+                    <AlertCircle className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" />
+                    <span className="min-w-0" style={{ overflowWrap: "anywhere" }}>{queryPlanError}</span>
+                  </div>
+                ) : (
+                  queryPlan && <QueryPlanTree plan={queryPlan} warnings={queryPlanWarnings} />
+                )}
+              </div>
+            )}
           </div>
         </div>
 
@@ -687,7 +986,7 @@ export function ChartPreviewDialog({ isOpen, onClose, chart, dashboards = [], pr
             <Button
               variant="outline"
               onClick={handleSaveAsDraft}
-              disabled={isSavingDraft}
+              disabled={isSavingDraft || hasBlockingSqlIssues}
               className="flex-1 text-xs sm:text-sm h-8 sm:h-9"
             >
               {isSavingDraft ? "Saving..." : "Save for later"}
@@ -698,7 +997,7 @@ export function ChartPreviewDialog({ isOpen, onClose, chart, dashboards = [], pr
             <DropdownMenuTrigger asChild>
               <GradientButton 
                 className="gap-1.5 flex-1 text-xs sm:text-sm h-8 sm:h-9"
-                disabled={isAddingToDashboard}
+                disabled={isAddingToDashboard || hasBlockingSqlIssues}
               >
                 {isAddingToDashboard ? (
                   <>
@@ -760,6 +1059,20 @@ export function ChartPreviewDialog({ isOpen, onClose, chart, dashboards = [], pr
           </DropdownMenu>
         </div>
       </DialogContent>
+
+      <ChartSqlEditorPanel
+        chart={sqlEditorChart}
+        projectId={projectId !== undefined ? String(projectId) : undefined}
+        onClose={() => setSqlEditorChart(null)}
+        onChartCreated={(savedChart) => {
+          onChartCreated?.(savedChart);
+          onClose();
+        }}
+        onChartUpdated={(savedChart) => {
+          onChartUpdated?.(savedChart);
+          onClose();
+        }}
+      />
     </Dialog>
   );
 }
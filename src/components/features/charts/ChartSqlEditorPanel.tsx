@@ -0,0 +1,450 @@
+/**
+ * ChartSqlEditorPanel Component
+ *
+ * Side panel for editing a chart's SQL by hand. The editor completes table and
+ * column names from the connection's stored schema, "Run" previews the result
+ * as the chosen chart type or as rows, and a failed run shows the database
+ * error with the offending part of the query underlined. The query can then be
+ * saved as a new chart, or replace the query of the saved chart it came from.
+ * `{{name}}` variables in the query are declared below the editor; runs use
+ * their default values. Queries that are not read-only are flagged as they are
+ * typed and cannot be run or saved.
+ *
+ * @example
+ * <ChartSqlEditorPanel
+ *   chart={sqlEditorChart}
+ *   projectId={projectId}
+ *   onClose={() => setSqlEditorChart(null)}
+ *   onChartCreated={() => fetchCharts()}
+ *   onChartUpdated={() => fetchCharts()}
+ * />
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import { AlertCircle, Loader2, Play, Plus, Save } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "../../ui/badge";
+import { Button } from "../../ui/button";
+import { Input } from "../../ui/input";
+import { Label } from "../../ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../ui/select";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "../../ui/sheet";
+import { ChartCard } from "./ChartCard";
+import { ChartParametersEditor } from "./ChartParametersEditor";
+import { DataTableChart } from "./DataTableChart";
+import { SqlEditor } from "./SqlEditor";
+import { SqlIssueList } from "./SqlIssueList";
+import {
+  createChart,
+  getChartData,
+  getChartParameters,
+  getDatabaseSchema,
+  updateChart,
+  updateChartParameters,
+  type Chart as SavedChart,
+  type ChartData,
+  type ChartParameter,
+  type DatabaseSchema,
+} from "../../../services/api";
+import { inferChartDataConfig } from "../../../utils/chartData";
+import {
+  getDefaultParameterValues,
+  loadStoredParameters,
+  resolveChartParameters,
+  storeParameters,
+} from "../../../utils/chartParameters";
+import { CHART_TYPES, CHART_TYPE_LABELS, isRadialChartType, type ChartType } from "../../../utils/chartTypes";
+import { recordBaselineVersion } from "../../../utils/chartVersions";
+import { getLineNumber, locateSqlError } from "../../../utils/sqlEditor";
+import { hasSqlErrors, lintSql } from "../../../utils/sqlLint";
+
+/** The query being edited and where it runs */
+export interface SqlEditorChart {
+  /** Saved chart id; without it only "Save as new chart" is offered */
+  id?: string;
+  name: string;
+  type: ChartType;
+  query: string;
+  connectionId: string;
+  xAxis?: string | null;
+  yAxis?: string | null;
+  isTimeBased?: boolean;
+}
+
+interface ChartSqlEditorPanelProps {
+  /** Chart whose SQL is edited; the panel is open while set */
+  chart: SqlEditorChart | null;
+  /** Needed to save a new chart and to look up the connection's schema */
+  projectId?: string;
+  onClose: () => void;
+  onChartCreated?: (chart: SavedChart) => void;
+  onChartUpdated?: (chart: SavedChart) => void;
+}
+
+type ResultView = "chart" | "rows";
+
+const isNumericValue = (value: unknown) =>
+  typeof value === "number" || (value !== null && value !== undefined && value !== "" && !isNaN(Number(value)));
+
+export function ChartSqlEditorPanel({ chart, projectId, onClose, onChartCreated, onChartUpdated }: ChartSqlEditorPanelProps) {
+  const [sql, setSql] = useState("");
+  const [name, setName] = useState("");
+  const [type, setType] = useState<ChartType>('line');
+  const [schema, setSchema] = useState<DatabaseSchema | null>(null);
+  const [schemaError, setSchemaError] = useState<string | null>(null);
+  const [result, setResult] = useState<ChartData | null>(null);
+  const [runError, setRunError] = useState<string | null>(null);
+  // The SQL the current result or error belongs to
+  const [ranSql, setRanSql] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [resultView, setResultView] = useState<ResultView>("chart");
+  const [savingAs, setSavingAs] = useState<"new" | "update" | null>(null);
+  // Declarations kept for variables that are removed from the SQL and typed again
+  const [declaredParameters, setDeclaredParameters] = useState<ChartParameter[]>([]);
+
+  useEffect(() => {
+    if (!chart) return;
+    setSql(chart.query);
+    setName(chart.name);
+    setType(chart.type);
+    setResult(null);
+    setRunError(null);
+    setRanSql(null);
+    setResultView("chart");
+  }, [chart]);
+
+  const chartId = chart?.id;
+
+  useEffect(() => {
+    setDeclaredParameters(chartId ? loadStoredParameters(chartId) || [] : []);
+    if (!chartId) return;
+
+    let cancelled = false;
+    getChartParameters(chartId).then((response) => {
+      if (!cancelled && response.success && response.data && response.data.length > 0) {
+        setDeclaredParameters(response.data);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [chartId]);
+
+  const connectionId = chart?.connectionId;
+
+  useEffect(() => {
+    if (!projectId || !connectionId) {
+      setSchema(null);
+      return;
+    }
+
+    let cancelled = false;
+    setSchemaError(null);
+    getDatabaseSchema(projectId, connectionId).then((response) => {
+      if (cancelled) return;
+      if (response.success && response.data) {
+        setSchema(response.data);
+      } else {
+        setSchema(null);
+        setSchemaError(response.error?.message || "Schema unavailable");
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, connectionId]);
+
+  const isResultCurrent = ranSql !== null && ranSql === sql;
+  const sqlIssues = useMemo(() => lintSql(sql, schema), [sql, schema]);
+  const hasBlockingSqlIssues = hasSqlErrors(sqlIssues);
+  // Only underline while the query is still the one that failed, otherwise the first lint error
+  const errorLocation = useMemo(() => {
+    if (runError && isResultCurrent) return locateSqlError(sql, runError);
+    const blocking = sqlIssues.find((issue) => issue.severity === "error");
+    return blocking ? { start: blocking.start, end: blocking.end, line: getLineNumber(sql, blocking.start) } : null;
+  }, [runError, isResultCurrent, sql, sqlIssues]);
+  const rows = result?.data ?? [];
+  const config = useMemo(() => (rows.length > 0 ? inferChartDataConfig(rows, type) : null), [rows, type]);
+  const canSave = isResultCurrent && !runError && !hasBlockingSqlIssues && name.trim() !== "" && !savingAs;
+  const parameters = useMemo(() => resolveChartParameters(sql, declaredParameters), [sql, declaredParameters]);
+
+  const handleParameterDeclarationChange = (parameter: ChartParameter) => {
+    const previous = parameters.find((declared) => declared.name === parameter.name);
+    setDeclaredParameters((prev) => [...prev.filter((declared) => declared.name !== parameter.name), parameter]);
+    // The preview ran with the old default, so it has to be run again
+    if (previous?.type !== parameter.type || previous?.defaultValue !== parameter.defaultValue) {
+      setRanSql(null);
+    }
+  };
+
+  const handleRun = async () => {
+    if (!chart || !sql.trim() || isRunning || hasBlockingSqlIssues) return;
+
+    setIsRunning(true);
+    setRanSql(sql);
+    setRunError(null);
+    try {
+      const response = await getChartData(
+        chart.id ?? "sql-editor",
+        chart.connectionId,
+        sql,
+        undefined,
+        undefined,
+        true,
+        { definitions: parameters, values: getDefaultParameterValues(parameters) },
+        { recordHistory: true }
+      );
+      if (response.success && response.data) {
+        setResult(response.data);
+      } else {
+        setResult(null);
+        setRunError(response.error?.message || "The query could not be run");
+      }
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  // Axes come from the previewed result; pie/donut rows are reshaped, so use the raw columns there
+  const resolveAxisFields = () => {
+    if (isRadialChartType(type)) {
+      const columns = Object.keys(rows[0] || {});
+      return {
+        xAxis: columns.find((column) => !isNumericValue(rows[0][column])),
+        yAxis: columns.find((column) => isNumericValue(rows[0][column])),
+      };
+    }
+    return {
+      xAxis: config?.xAxisKey || undefined,
+      yAxis: config?.dataKeys.primary || undefined,
+    };
+  };
+
+  const handleSave = async (mode: "new" | "update") => {
+    if (!chart || !canSave) return;
+    if (mode === "new" && !projectId) {
+      toast.error("Chart or project information is missing");
+      return;
+    }
+
+    setSavingAs(mode);
+    try {
+      const definition = {
+        name: name.trim(),
+        type,
+        query: sql,
+        databaseId: chart.connectionId,
+        is_time_based: chart.isTimeBased ?? false,
+        config: resolveAxisFields(),
+      };
+      if (mode === "update" && chart.id) {
+        // Charts saved before history was tracked keep their current definition as the first version
+        recordBaselineVersion(chart.id, {
+          name: chart.name,
+          query: chart.query,
+          type: chart.type,
+          xAxis: chart.xAxis ?? null,
+          yAxis: chart.yAxis ?? null,
+        });
+      }
+
+      const response = mode === "update" && chart.id
+        ? await updateChart(chart.id, definition)
+        : await createChart(String(projectId), definition);
+
+      if (!response.success || !response.data) {
+        toast.error(response.error?.message || (mode === "update" ? "Failed to update chart" : "Failed to save chart"));
+        return;
+      }
+
+      // Saved with the chart, so the parameter bar on dashboards picks them up
+      storeParameters(response.data.id, parameters);
+      if (parameters.length > 0 || (mode === "update" && declaredParameters.length > 0)) {
+        const parametersResponse = await updateChartParameters(response.data.id, parameters);
+        if (!parametersResponse.success) {
+          toast.warning("Parameters saved on this device only");
+        }
+      }
+
+      if (mode === "update") {
+        toast.success(`Chart "${definition.name}" updated`);
+        onChartUpdated?.(response.data);
+      } else {
+        toast.success(`Chart "${definition.name}" saved`);
+        onChartCreated?.(response.data);
+      }
+      onClose();
+    } finally {
+      setSavingAs(null);
+    }
+  };
+
+  return (
+    <Sheet open={!!chart} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent
+        side="right"
+        className="overflow-y-auto"
+        style={{ width: "100%", maxWidth: 720 }}
+        onEscapeKeyDown={(e) => {
+          // Escape closes the completion list first
+          if (e.target instanceof HTMLElement && e.target.closest('[data-completions-open="true"]')) {
+            e.preventDefault();
+          }
+        }}
+      >
+        <SheetHeader>
+          <SheetTitle>Edit SQL</SheetTitle>
+          <SheetDescription>{chart?.name}</SheetDescription>
+        </SheetHeader>
+
+        {chart && (
+          <div className="px-4 pb-6 space-y-6">
+            <section className="space-y-3">
+              <SqlEditor
+                value={sql}
+                onChange={setSql}
+                schema={schema}
+                errorLocation={errorLocation}
+                onRun={handleRun}
+                placeholder="SELECT ..."
+              />
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-xs text-muted-foreground">
+                  {schemaError
+                    ? `Autocomplete is limited to SQL keywords: ${schemaError}`
+                    : "Ctrl+Space for suggestions, Ctrl+Enter to run"}
+                </p>
+                <Button size="sm" onClick={handleRun} disabled={isRunning || !sql.trim() || hasBlockingSqlIssues}>
+                  {isRunning ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Play className="w-4 h-4 mr-2" />}
+                  Run
+                </Button>
+              </div>
+              <SqlIssueList issues={sqlIssues} />
+            </section>
+
+            {parameters.length > 0 && (
+              <section className="space-y-3">
+                <div>
+                  <Label className="text-sm">Parameters</Label>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Runs use the default values; viewers can change them above the chart.
+                  </p>
+                </div>
+                <ChartParametersEditor parameters={parameters} onChange={handleParameterDeclarationChange} />
+              </section>
+            )}
+
+            {runError && isResultCurrent && (
+              <div className="flex items-start gap-2 rounded-lg border border-destructive/30 bg-destructive/10 p-3 text-xs text-destructive">
+                <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                <div className="min-w-0" style={{ overflowWrap: "anywhere" }}>
+                  {errorLocation && <p className="font-medium mb-1">Line {errorLocation.line}</p>}
+                  <p className="whitespace-pre-wrap">{runError}</p>
+                </div>
+              </div>
+            )}
+
+            {/* Result preview */}
+            {result && (
+              <section className="space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant={resultView === "chart" ? "secondary" : "ghost"}
+                      size="sm"
+                      className="h-7 text-xs"
+                      onClick={() => setResultView("chart")}
+                    >
+                      Chart
+                    </Button>
+                    <Button
+                      variant={resultView === "rows" ? "secondary" : "ghost"}
+                      size="sm"
+                      className="h-7 text-xs"
+                      onClick={() => setResultView("rows")}
+                    >
+                      Rows
+                    </Button>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {!isResultCurrent && (
+                      <Badge variant="outline" className="border-warning/30 text-warning">Query changed</Badge>
+                    )}
+                    <Badge variant="outline" className="border-border text-muted-foreground">
+                      {result.metadata.rowCount} row{result.metadata.rowCount === 1 ? "" : "s"}
+                      {result.metadata.executionTime > 0 ? ` · ${result.metadata.executionTime} ms` : ""}
+                    </Badge>
+                  </div>
+                </div>
+
+                {rows.length === 0 ? (
+                  <p className="text-sm text-muted-foreground py-6 text-center">The query returned no rows.</p>
+                ) : resultView === "rows" || !config ? (
+                  <div className="rounded-lg border border-border overflow-hidden">
+                    <DataTableChart data={rows} height={300} />
+                  </div>
+                ) : (
+                  <div className="rounded-lg border border-border p-4">
+                    <ChartCard
+                      type={type}
+                      data={config.data}
+                      dataKeys={config.dataKeys}
+                      xAxisKey={config.xAxisKey}
+                      height={280}
+                      showLegend={!!config.dataKeys.secondary && !isRadialChartType(type)}
+                    />
+                  </div>
+                )}
+              </section>
+            )}
+
+            {/* Save */}
+            <section className="space-y-3 border-t border-border pt-6">
+              <div className="grid grid-cols-3 gap-3">
+                <div className="col-span-2 space-y-2">
+                  <Label className="text-xs text-muted-foreground">Title</Label>
+                  <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Chart title" />
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-xs text-muted-foreground">Chart type</Label>
+                  <Select value={type} onValueChange={(value) => setType(value as ChartType)}>
+                    <SelectTrigger className="border-border">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CHART_TYPES.map((option) => (
+                        <SelectItem key={option} value={option}>{CHART_TYPE_LABELS[option]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {!isResultCurrent && (
+                <p className="text-xs text-muted-foreground">Run the query to preview it before saving.</p>
+              )}
+
+              <div className="flex items-center justify-end gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => handleSave("new")}
+                  disabled={!canSave || !projectId}
+                  className="border-border"
+                >
+                  {savingAs === "new" ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+                  Save as new chart
+                </Button>
+                {chart.id && (
+                  <Button onClick={() => handleSave("update")} disabled={!canSave}>
+                    {savingAs === "update" ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+                    Update chart
+                  </Button>
+                )}
+              </div>
+            </section>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
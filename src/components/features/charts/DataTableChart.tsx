@@ -0,0 +1,123 @@
+/**
+ * DataTableChart Component
+ *
+ * Renders a query result as a scrollable table. Clicking a column header
+ * sorts by that column (ascending, descending, then back to query order).
+ */
+import { useMemo, useState, type CSSProperties } from "react";
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../../ui/table";
+
+interface DataTableChartProps {
+  /** Rows of the result set */
+  data: any[];
+  /** Table height in pixels (the body scrolls beyond this) */
+  height?: number;
+}
+
+type SortDirection = 'asc' | 'desc';
+
+// Numbers line up on the right, with digits of equal width
+const NUMERIC_CELL_STYLE: CSSProperties = { textAlign: 'right', fontVariantNumeric: 'tabular-nums' };
+
+const isNumeric = (value: any) =>
+  typeof value === 'number' || (value !== null && value !== undefined && value !== '' && !isNaN(Number(value)));
+
+const compareValues = (a: any, b: any): number => {
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  if (isNumeric(a) && isNumeric(b)) return Number(a) - Number(b);
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+};
+
+const formatCell = (value: any): string => {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'number') return value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export function DataTableChart({ data, height = 300 }: DataTableChartProps) {
+  const [sort, setSort] = useState<{ key: string; direction: SortDirection } | null>(null);
+
+  const columns = useMemo(() => {
+    const keys = new Set<string>();
+    data.slice(0, 50).forEach((row) => {
+      if (row && typeof row === 'object') {
+        Object.keys(row).forEach((key) => keys.add(key));
+      }
+    });
+    return Array.from(keys);
+  }, [data]);
+
+  const numericColumns = useMemo(
+    () => new Set(columns.filter((key) => data.every((row) => row?.[key] === null || row?.[key] === undefined || isNumeric(row[key])))),
+    [columns, data]
+  );
+
+  const sortedRows = useMemo(() => {
+    if (!sort) return data;
+    const sorted = [...data].sort((a, b) => compareValues(a?.[sort.key], b?.[sort.key]));
+    return sort.direction === 'desc' ? sorted.reverse() : sorted;
+  }, [data, sort]);
+
+  const handleSort = (key: string) => {
+    setSort((current) => {
+      if (!current || current.key !== key) return { key, direction: 'asc' };
+      if (current.direction === 'asc') return { key, direction: 'desc' };
+      return null;
+    });
+  };
+
+  if (columns.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-full text-muted-foreground text-sm">
+        No data available
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full overflow-auto rounded-lg border border-border" style={{ maxHeight: `${height}px` }}>
+      <Table>
+        <TableHeader className="sticky top-0 bg-background z-10">
+          <TableRow>
+            {columns.map((key) => {
+              const SortIcon = sort?.key !== key ? ArrowUpDown : sort.direction === 'asc' ? ArrowUp : ArrowDown;
+              return (
+                <TableHead key={key} style={numericColumns.has(key) ? NUMERIC_CELL_STYLE : undefined}>
+                  <button
+                    type="button"
+                    onClick={() => handleSort(key)}
+                    className="inline-flex items-center gap-1 hover:text-foreground transition-colors"
+                  >
+                    {key}
+                    <SortIcon className={`w-3.5 h-3.5 ${sort?.key === key ? 'text-foreground' : 'text-muted-foreground'}`} />
+                  </button>
+                </TableHead>
+              );
+            })}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {sortedRows.map((row, rowIndex) => (
+            <TableRow key={rowIndex}>
+              {columns.map((key) => (
+                <TableCell key={key} style={numericColumns.has(key) ? NUMERIC_CELL_STYLE : undefined}>
+                  {formatCell(row?.[key])}
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
-import React, { useState } from "react";
-import { Wand2, Loader2 } from "lucide-react";
+import { useState, useEffect, useRef } from "react";
+import { Wand2, Loader2, ArrowRight, Check, RotateCcw, MessageSquare } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -10,147 +10,462 @@ import {
 import { Button } from "../../ui/button";
 import { Textarea } from "../../ui/textarea";
 import { Badge } from "../../ui/badge";
+import { Card } from "../../ui/card";
 import { toast } from "sonner";
+import { ChartCard } from "./ChartCard";
+import { getCurrentUser, getChartData, updateChart } from "../../../services/api";
+import { VizAIWebSocket, type WebSocketResponse, type ChartSpec } from "../../../services/websocket";
+import { getDefaultChartDataConfig, inferChartDataConfig, type ChartDataConfig } from "../../../utils/chartData";
+import { normalizeChartType, type ChartType } from "../../../utils/chartTypes";
+import { recordBaselineVersion } from "../../../utils/chartVersions";
+
+export interface EditableChart {
+  id: string;
+  name: string;
+  type: ChartType;
+  query: string;
+  databaseId: string;
+  xAxis?: string | null;
+  yAxis?: string | null;
+  isTimeBased?: boolean;
+}
 
 interface EditChartDialogProps {
   isOpen: boolean;
   onClose: () => void;
-  chartName: string;
-  chartType: 'line' | 'bar' | 'pie' | 'area';
-  onSave: (updatedChart: {
-    name: string;
-    type: 'line' | 'bar' | 'pie' | 'area';
-    query: string;
-    description: string;
-  }) => void;
+  /** Chart being edited; its query, type and axes are sent to the AI with the instruction */
+  chart: EditableChart | null;
+  /** Called with the persisted chart after the user accepts the proposed change */
+  onSave: (updatedChart: EditableChart) => void;
 }
 
-export function EditChartDialog({ isOpen, onClose, chartName, chartType, onSave }: EditChartDialogProps) {
+interface PreviewState {
+  config: ChartDataConfig;
+  isLoading: boolean;
+  error?: string;
+}
+
+const EMPTY_PREVIEW: PreviewState = { config: getDefaultChartDataConfig(), isLoading: false };
+
+export function EditChartDialog({ isOpen, onClose, chart, onSave }: EditChartDialogProps) {
   const [editPrompt, setEditPrompt] = useState("");
   const [isProcessing, setIsProcessing] = useState(false);
+  const [isConnecting, setIsConnecting] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [clarification, setClarification] = useState<string | null>(null);
+  const [summary, setSummary] = useState<string | null>(null);
+  const [proposedChart, setProposedChart] = useState<EditableChart | null>(null);
+  const [beforePreview, setBeforePreview] = useState<PreviewState>(EMPTY_PREVIEW);
+  const [afterPreview, setAfterPreview] = useState<PreviewState>(EMPTY_PREVIEW);
+
+  const wsClientRef = useRef<VizAIWebSocket | null>(null);
+  const workflowStateRef = useRef<Record<string, any> | null>(null);
+  // The WebSocket handler outlives renders, so it reads the chart through a ref
+  const chartRef = useRef<EditableChart | null>(chart);
+  chartRef.current = chart;
+
+  const resetEditState = () => {
+    setEditPrompt("");
+    setIsProcessing(false);
+    setClarification(null);
+    setSummary(null);
+    setProposedChart(null);
+    setBeforePreview(EMPTY_PREVIEW);
+    setAfterPreview(EMPTY_PREVIEW);
+    workflowStateRef.current = null;
+  };
+
+  const loadPreview = async (
+    target: EditableChart,
+    previewId: string,
+    setPreview: (state: PreviewState) => void
+  ) => {
+    setPreview({ ...EMPTY_PREVIEW, isLoading: true });
+    const response = await getChartData(previewId, target.databaseId, target.query);
+    if (response.success && response.data) {
+      setPreview({ config: inferChartDataConfig(response.data.data, target.type), isLoading: false });
+    } else {
+      setPreview({ ...EMPTY_PREVIEW, error: response.error?.message || "Failed to run query" });
+    }
+  };
+
+  // Open a dedicated chart_edit session while the dialog is shown
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    let isActive = true;
+    let client: VizAIWebSocket | null = null;
+
+    const handleChartEdit = (response: WebSocketResponse) => {
+      const currentChart = chartRef.current;
+      if (!isActive || !currentChart) return;
+
+      if (response.status === 'error') {
+        setIsProcessing(false);
+        toast.error(response.error || response.message || "Unable to edit this chart right now");
+        return;
+      }
+
+      workflowStateRef.current = response.state ?? null;
+
+      if (response.status === 'collecting') {
+        setIsProcessing(false);
+        setClarification(response.message || "Could you give me a bit more detail about the change?");
+        setEditPrompt("");
+        return;
+      }
+
+      const spec = (response.state?.chart_spec ?? response.state?.chart_specs?.[0]) as ChartSpec | undefined;
+      if (!spec?.query) {
+        setIsProcessing(false);
+        toast.error("The AI did not return an updated chart. Try rephrasing your request.");
+        return;
+      }
+
+      const updated: EditableChart = {
+        id: currentChart.id,
+        name: spec.title || currentChart.name,
+        type: normalizeChartType(spec.chart_type),
+        query: spec.query,
+        databaseId: spec.data_connection_id || currentChart.databaseId,
+        // An axis the edit sets to null is cleared, not kept
+        xAxis: spec.x_axis !== undefined ? spec.x_axis : currentChart.xAxis,
+        yAxis: spec.y_axis !== undefined ? spec.y_axis : currentChart.yAxis,
+        isTimeBased: spec.is_time_based ?? currentChart.isTimeBased,
+      };
+
+      setIsProcessing(false);
+      setClarification(null);
+      setSummary(spec.report || response.message || null);
+      setProposedChart(updated);
+      loadPreview(currentChart, currentChart.id, setBeforePreview);
+      loadPreview(updated, `${currentChart.id}-edit-preview`, setAfterPreview);
+    };
+
+    const connect = async () => {
+      setIsConnecting(true);
+      try {
+        const userResponse = await getCurrentUser();
+        if (!isActive) return;
+        if (!userResponse.success || !userResponse.data?.id) {
+          throw new Error(userResponse.error?.message || "Unable to load user information");
+        }
+
+        client = new VizAIWebSocket(userResponse.data.id);
+        client.on('chart_edit', handleChartEdit);
+        client.onError(() => {
+          if (isActive) setIsProcessing(false);
+        });
+        await client.connect();
+        if (isActive) {
+          wsClientRef.current = client;
+        }
+      } catch (error: any) {
+        if (isActive) {
+          toast.error(error?.message || "Failed to connect to the AI assistant");
+        }
+      } finally {
+        if (isActive) setIsConnecting(false);
+      }
+    };
+
+    connect();
+
+    return () => {
+      isActive = false;
+      if (client) {
+        client.off('chart_edit', handleChartEdit);
+        client.disconnect();
+      }
+      wsClientRef.current = null;
+    };
+  }, [isOpen]);
 
   const handleSubmit = () => {
     if (!editPrompt.trim()) {
       toast.error("Please describe your changes");
       return;
     }
+    if (!chart) return;
+
+    const client = wsClientRef.current;
+    if (!client || !client.isConnected()) {
+      toast.error("Not connected to the AI assistant. Please try again in a moment.");
+      return;
+    }
 
     setIsProcessing(true);
+    const chartPayload = {
+      chart_id: chart.id,
+      title: chart.name,
+      query: chart.query,
+      chart_type: chart.type,
+      data_connection_id: chart.databaseId,
+      x_axis: chart.xAxis ?? null,
+      y_axis: chart.yAxis ?? null,
+      is_time_based: chart.isTimeBased ?? false,
+    };
 
-    // Simulate AI processing
-    setTimeout(() => {
-      // Mock updated chart based on prompt
-      const updatedChart = {
-        name: chartName,
-        type: chartType,
-        query: "SELECT updated_column, SUM(value) FROM table WHERE condition GROUP BY updated_column",
-        description: `Updated based on: "${editPrompt}"`
-      };
+    // A pending clarifying question is answered within the same workflow
+    if (clarification && workflowStateRef.current) {
+      client.chartEdit({
+        ...chartPayload,
+        user_response: editPrompt.trim(),
+        existing_state: workflowStateRef.current,
+      });
+    } else {
+      client.chartEdit({ ...chartPayload, instruction: editPrompt.trim() });
+    }
+  };
+
+  const handleDiscard = () => {
+    setProposedChart(null);
+    setSummary(null);
+    setAfterPreview(EMPTY_PREVIEW);
+    workflowStateRef.current = null;
+  };
+
+  const handleAccept = async () => {
+    if (!chart || !proposedChart) return;
 
-      onSave(updatedChart);
+    setIsSaving(true);
+    try {
+      // Charts saved before history was tracked keep their current definition as the first version
+      recordBaselineVersion(chart.id, {
+        name: chart.name,
+        query: chart.query,
+        type: chart.type,
+        xAxis: chart.xAxis ?? null,
+        yAxis: chart.yAxis ?? null,
+      });
+
+      const response = await updateChart(chart.id, {
+        name: proposedChart.name,
+        type: proposedChart.type,
+        query: proposedChart.query,
+        databaseId: proposedChart.databaseId,
+        config: {
+          xAxis: proposedChart.xAxis ?? null,
+          yAxis: proposedChart.yAxis ?? null,
+        },
+        is_time_based: proposedChart.isTimeBased,
+      });
+
+      if (!response.success) {
+        toast.error(response.error?.message || "Failed to save chart changes");
+        return;
+      }
+
+      onSave(proposedChart);
       toast.success("Chart updated successfully!");
-      setIsProcessing(false);
-      setEditPrompt("");
+      resetEditState();
       onClose();
-    }, 1500);
+    } finally {
+      setIsSaving(false);
+    }
   };
 
   const handleClose = () => {
-    setEditPrompt("");
+    if (isSaving) return;
+    resetEditState();
     onClose();
   };
 
+  const renderPreview = (label: string, target: EditableChart, preview: PreviewState, highlight = false) => (
+    <Card className={`p-4 border ${highlight ? "border-primary/30" : "border-border"} min-w-0`}>
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <div className="min-w-0">
+          <p className="text-xs text-muted-foreground">{label}</p>
+          <h4 className="text-sm text-foreground truncate">{target.name}</h4>
+        </div>
+        <Badge variant="outline" className="capitalize flex-shrink-0">{target.type}</Badge>
+      </div>
+      <div className="flex items-center justify-center" style={{ minHeight: 220 }}>
+        {preview.isLoading ? (
+          <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+        ) : preview.error ? (
+          <p className="text-xs text-destructive text-center px-4">{preview.error}</p>
+        ) : preview.config.data.length === 0 ? (
+          <p className="text-xs text-muted-foreground">The query returned no rows</p>
+        ) : (
+          <div className="w-full">
+            <ChartCard
+              type={target.type}
+              data={preview.config.data}
+              dataKeys={preview.config.dataKeys}
+              xAxisKey={preview.config.xAxisKey}
+              height={220}
+            />
+          </div>
+        )}
+      </div>
+      <pre className="mt-3 p-3 rounded-md bg-muted/30 border border-border text-xs font-mono text-muted-foreground overflow-auto max-h-48 whitespace-pre-wrap">
+        {target.query}
+      </pre>
+    </Card>
+  );
+
+  const isReviewing = !!proposedChart && !!chart;
+
   return (
     <Dialog open={isOpen} onOpenChange={handleClose}>
-      <DialogContent className="max-w-2xl">
+      <DialogContent className={isReviewing ? "max-w-5xl" : "max-w-2xl"}>
         <DialogHeader>
           <div className="flex items-center gap-3 mb-2">
             <DialogTitle>Edit Chart with AI</DialogTitle>
-            <Badge variant="outline" className="capitalize">
-              {chartType} Chart
-            </Badge>
+            {chart && (
+              <Badge variant="outline" className="capitalize">
+                {chart.type} Chart
+              </Badge>
+            )}
           </div>
           <DialogDescription>
-            Describe how you want to modify "{chartName}" using natural language
+            {isReviewing
+              ? "Compare the proposed change with the current chart. Nothing is saved until you accept."
+              : `Describe how you want to modify "${chart?.name ?? ""}" using natural language`}
           </DialogDescription>
         </DialogHeader>
 
-        <div className="space-y-4">
-          {/* Edit Prompt Input */}
-          <div>
-            <label className="text-sm text-muted-foreground mb-2 block">
-              What would you like to change?
-            </label>
-            <Textarea
-              placeholder="E.g., 'Change the time range to last 12 months' or 'Add a comparison with last year' or 'Show only data from North America region'"
-              value={editPrompt}
-              onChange={(e) => setEditPrompt(e.target.value)}
-              className="min-h-[120px] resize-none"
-              disabled={isProcessing}
-            />
+        {isReviewing ? (
+          <div className="space-y-4">
+            {summary && (
+              <p className="text-sm text-muted-foreground rounded-md bg-muted/30 border border-border p-3">{summary}</p>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-start">
+              {renderPreview("Current", chart!, beforePreview)}
+              {renderPreview("Proposed", proposedChart!, afterPreview, true)}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {/* Clarifying question from the AI */}
+            {clarification && (
+              <div className="flex items-start gap-2 rounded-md bg-primary/5 border border-primary/20 p-3">
+                <MessageSquare className="w-4 h-4 text-primary flex-shrink-0 mt-0.5" />
+                <p className="text-sm text-foreground">{clarification}</p>
+              </div>
+            )}
+
+            {/* Edit Prompt Input */}
+            <div>
+              <label className="text-sm text-muted-foreground mb-2 block">
+                {clarification ? "Your answer" : "What would you like to change?"}
+              </label>
+              <Textarea
+                placeholder="E.g., 'Change the time range to last 12 months' or 'Add a comparison with last year' or 'Show only data from North America region'"
+                value={editPrompt}
+                onChange={(e) => setEditPrompt(e.target.value)}
+                className="resize-none"
+                style={{ minHeight: 120 }}
+                disabled={isProcessing}
+              />
+            </div>
+
+            {/* Example Prompts */}
+            {!clarification && (
+              <div className="space-y-2">
+                <p className="text-xs text-muted-foreground">Example prompts:</p>
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-xs h-7 py-1.5 px-3"
+                    onClick={() => setEditPrompt("Change the date range to last 6 months")}
+                    disabled={isProcessing}
+                  >
+                    Change date range to 6 months
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-xs h-7 py-1.5 px-3"
+                    onClick={() => setEditPrompt("Add a breakdown by product category")}
+                    disabled={isProcessing}
+                  >
+                    Add category breakdown
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-xs h-7 py-1.5 px-3"
+                    onClick={() => setEditPrompt("Show this as a bar chart instead")}
+                    disabled={isProcessing}
+                  >
+                    Switch to bar chart
+                  </Button>
+                </div>
+              </div>
+            )}
           </div>
+        )}
 
-          {/* Example Prompts */}
-          <div className="space-y-2">
-            <p className="text-xs text-muted-foreground">Example prompts:</p>
-            <div className="flex flex-wrap gap-2">
+        {/* Actions */}
+        <div className="flex items-center justify-end gap-3 pt-4 border-t border-border">
+          {isReviewing ? (
+            <>
               <Button
                 variant="outline"
-                size="sm"
-                className="text-xs h-auto py-1.5 px-3"
-                onClick={() => setEditPrompt("Change the date range to last 6 months")}
-                disabled={isProcessing}
+                onClick={handleDiscard}
+                disabled={isSaving}
+                className="gap-2"
               >
-                Change date range to 6 months
+                <RotateCcw className="w-4 h-4" />
+                Try a different change
               </Button>
               <Button
-                variant="outline"
-                size="sm"
-                className="text-xs h-auto py-1.5 px-3"
-                onClick={() => setEditPrompt("Add a breakdown by product category")}
-                disabled={isProcessing}
+                onClick={handleAccept}
+                disabled={isSaving || afterPreview.isLoading}
+                className="bg-gradient-to-r from-primary to-accent text-white gap-2"
               >
-                Add category breakdown
+                {isSaving ? (
+                  <>
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  <>
+                    <Check className="w-4 h-4" />
+                    Accept Changes
+                  </>
+                )}
               </Button>
+            </>
+          ) : (
+            <>
               <Button
                 variant="outline"
-                size="sm"
-                className="text-xs h-auto py-1.5 px-3"
-                onClick={() => setEditPrompt("Filter to show only premium customers")}
+                onClick={handleClose}
                 disabled={isProcessing}
               >
-                Filter premium customers
+                Cancel
               </Button>
-            </div>
-          </div>
-        </div>
-
-        {/* Actions */}
-        <div className="flex items-center justify-end gap-3 pt-4 border-t border-border">
-          <Button
-            variant="outline"
-            onClick={handleClose}
-            disabled={isProcessing}
-          >
-            Cancel
-          </Button>
-          <Button
-            onClick={handleSubmit}
-            disabled={isProcessing || !editPrompt.trim()}
-            className="bg-gradient-to-r from-primary to-accent text-white gap-2"
-          >
-            {isProcessing ? (
-              <>
-                <Loader2 className="w-4 h-4 animate-spin" />
-                Processing...
-              </>
-            ) : (
-              <>
-                <Wand2 className="w-4 h-4" />
-                Apply Changes
-              </>
-            )}
-          </Button>
+              <Button
+                onClick={handleSubmit}
+                disabled={isProcessing || isConnecting || !editPrompt.trim()}
+                className="bg-gradient-to-r from-primary to-accent text-white gap-2"
+              >
+                {isProcessing ? (
+                  <>
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Processing...
+                  </>
+                ) : isConnecting ? (
+                  <>
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Connecting...
+                  </>
+                ) : (
+                  <>
+                    <Wand2 className="w-4 h-4" />
+                    Preview Changes
+                    <ArrowRight className="w-4 h-4" />
+                  </>
+                )}
+              </Button>
+            </>
+          )}
         </div>
       </DialogContent>
     </Dialog>
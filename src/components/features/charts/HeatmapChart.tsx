@@ -0,0 +1,183 @@
+/**
+ * HeatmapChart Component
+ *
+ * Color-intensity grid for a numeric column. Date x-axes render as a
+ * calendar (weeks × weekdays, latest year); categorical x-axes render as a
+ * matrix against the first other categorical column in the result set.
+ */
+import { useMemo } from "react";
+
+interface HeatmapChartProps {
+  /** Rows of the result set */
+  data: any[];
+  /** Column for the horizontal dimension (a date for calendar heatmaps) */
+  xAxisKey: string;
+  /** Numeric column driving cell intensity */
+  valueKey: string;
+  /** Optional column for the vertical dimension (inferred when omitted) */
+  yAxisKey?: string;
+  /** Chart height in pixels */
+  height?: number;
+  /** Base cell color */
+  color?: string;
+}
+
+interface HeatmapCell {
+  key: string;
+  label: string;
+  value: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_CALENDAR_DAYS = 371; // 53 weeks
+const WEEKDAY_LABELS = ['Sun', '', 'Tue', '', 'Thu', '', 'Sat'];
+
+const isDateLike = (value: any) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value);
+
+const toNumber = (value: any) => {
+  const num = typeof value === 'number' ? value : Number(value);
+  return isNaN(num) ? 0 : num;
+};
+
+const toDayKey = (date: Date) => date.toISOString().slice(0, 10);
+
+export function HeatmapChart({ data, xAxisKey, valueKey, yAxisKey, height = 300, color = "#8B5CF6" }: HeatmapChartProps) {
+  const sample = data[0] || {};
+  const isCalendar = isDateLike(sample[xAxisKey]);
+
+  const resolvedYKey = useMemo(() => {
+    if (isCalendar) return undefined;
+    if (yAxisKey && yAxisKey in sample) return yAxisKey;
+    return Object.keys(sample).find(
+      (key) => key !== xAxisKey && key !== valueKey && typeof sample[key] === 'string' && isNaN(Number(sample[key]))
+    );
+  }, [isCalendar, yAxisKey, sample, xAxisKey, valueKey]);
+
+  const grid = useMemo(() => {
+    const totals = new Map<string, number>();
+
+    if (isCalendar) {
+      data.forEach((row) => {
+        const day = String(row[xAxisKey]).slice(0, 10);
+        totals.set(day, (totals.get(day) || 0) + toNumber(row[valueKey]));
+      });
+
+      const days = Array.from(totals.keys()).sort();
+      const end = new Date(`${days[days.length - 1]}T00:00:00Z`);
+      const firstDay = new Date(`${days[0]}T00:00:00Z`);
+      const start = new Date(Math.max(firstDay.getTime(), end.getTime() - (MAX_CALENDAR_DAYS - 1) * DAY_MS));
+      // Align to the start of the week so rows line up with weekdays
+      start.setUTCDate(start.getUTCDate() - start.getUTCDay());
+
+      const columns: HeatmapCell[][] = [];
+      for (let time = start.getTime(); time <= end.getTime(); time += DAY_MS) {
+        const date = new Date(time);
+        const key = toDayKey(date);
+        if (date.getUTCDay() === 0) columns.push([]);
+        columns[columns.length - 1].push({
+          key,
+          label: date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' }),
+          value: totals.has(key) ? totals.get(key)! : null,
+        });
+      }
+
+      return { rowLabels: WEEKDAY_LABELS, columnLabels: [] as string[], columns };
+    }
+
+    const xValues: string[] = [];
+    const yValues: string[] = [];
+    data.forEach((row) => {
+      const x = String(row[xAxisKey] ?? 'Unknown');
+      const y = resolvedYKey ? String(row[resolvedYKey] ?? 'Unknown') : valueKey;
+      if (!xValues.includes(x)) xValues.push(x);
+      if (!yValues.includes(y)) yValues.push(y);
+      totals.set(`${x}\u0000${y}`, (totals.get(`${x}\u0000${y}`) || 0) + toNumber(row[valueKey]));
+    });
+
+    const columns = xValues.map((x) =>
+      yValues.map((y) => {
+        const key = `${x}\u0000${y}`;
+        return { key, label: `${x} · ${y}`, value: totals.has(key) ? totals.get(key)! : null };
+      })
+    );
+
+    return { rowLabels: yValues, columnLabels: xValues, columns };
+  }, [data, isCalendar, xAxisKey, valueKey, resolvedYKey]);
+
+  const values = grid.columns.flat().map((cell) => cell.value).filter((value): value is number => value !== null);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+
+  const getOpacity = (value: number | null) => {
+    if (value === null) return 0;
+    if (max === min) return 1;
+    return 0.15 + ((value - min) / (max - min)) * 0.85;
+  };
+
+  if (values.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-full text-muted-foreground text-sm">
+        No data available
+      </div>
+    );
+  }
+
+  const labelHeight = grid.columnLabels.length > 0 ? 24 : 0;
+  const cellSize = Math.max(
+    10,
+    Math.min(28, Math.floor((height - labelHeight - 24) / Math.max(grid.rowLabels.length, 1)) - 2)
+  );
+
+  return (
+    <div className="w-full overflow-auto" style={{ maxHeight: `${height}px` }}>
+      <div className="inline-flex gap-2 p-1">
+        {/* Row labels */}
+        <div className="flex flex-col gap-0.5 flex-shrink-0" style={{ paddingTop: labelHeight }}>
+          {grid.rowLabels.map((label, index) => (
+            <div
+              key={index}
+              className="text-xs text-muted-foreground flex items-center justify-end pr-2 whitespace-nowrap"
+              style={{ height: cellSize }}
+            >
+              {label}
+            </div>
+          ))}
+        </div>
+        {/* Columns */}
+        <div className="flex gap-0.5">
+          {grid.columns.map((column, columnIndex) => (
+            <div key={columnIndex} className="flex flex-col gap-0.5">
+              {labelHeight > 0 && (
+                <div
+                  className="text-xs text-muted-foreground truncate text-center"
+                  style={{ height: labelHeight, width: cellSize }}
+                  title={grid.columnLabels[columnIndex]}
+                >
+                  {grid.columnLabels[columnIndex]}
+                </div>
+              )}
+              {column.map((cell) => (
+                <div
+                  key={cell.key}
+                  className="rounded-sm border border-border/50"
+                  style={{
+                    width: cellSize,
+                    height: cellSize,
+                    backgroundColor: cell.value === null ? 'transparent' : color,
+                    opacity: cell.value === null ? 1 : getOpacity(cell.value),
+                  }}
+                  title={`${cell.label}: ${cell.value === null ? 'no data' : cell.value.toLocaleString()}`}
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+      <div className="flex items-center gap-2 mt-3 text-xs text-muted-foreground">
+        <span>{min.toLocaleString()}</span>
+        <div className="h-2 w-24 rounded-sm" style={{ background: `linear-gradient(to right, ${color}26, ${color})` }} />
+        <span>{max.toLocaleString()}</span>
+      </div>
+    </div>
+  );
+}
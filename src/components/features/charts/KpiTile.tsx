@@ -0,0 +1,114 @@
+/**
+ * KpiTile Component
+ *
+ * Single-number visualization showing the latest value of a series and its
+ * change versus the previous period. The comparison comes from an explicit
+ * comparison column when the query returns one (e.g. `current, previous`),
+ * otherwise from the previous row of the (x-axis sorted) result set.
+ */
+import { ResponsiveContainer, LineChart, Line } from "recharts";
+import { TrendingUp, TrendingDown, Minus } from "lucide-react";
+
+interface KpiTileProps {
+  /** Rows of the result set, sorted by the x-axis */
+  data: any[];
+  /** Numeric column holding the KPI value */
+  valueKey: string;
+  /** Column describing the period of each row */
+  xAxisKey?: string;
+  /** Optional column holding the previous-period value on the same row (inferred from names like `previous_*`) */
+  comparisonKey?: string;
+  /** Tile height in pixels */
+  height?: number;
+  /** Accent color for the sparkline */
+  color?: string;
+}
+
+const toNumber = (value: any): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const num = typeof value === 'number' ? value : Number(value);
+  return isNaN(num) ? null : num;
+};
+
+const formatKpiValue = (value: number): string =>
+  Math.abs(value) >= 10000
+    ? new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 }).format(value)
+    : value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+
+const COMPARISON_KEY_PATTERN = /prev|prior|last|compar|baseline/i;
+
+export function KpiTile({ data, valueKey, xAxisKey, comparisonKey, height = 300, color = "#8B5CF6" }: KpiTileProps) {
+  const resolvedComparisonKey = comparisonKey ?? Object.keys(data[0] || {}).find(
+    (key) => key !== valueKey && key !== xAxisKey && COMPARISON_KEY_PATTERN.test(key)
+  );
+  const rows = data.filter((row) => toNumber(row?.[valueKey]) !== null);
+
+  if (rows.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-full text-muted-foreground text-sm">
+        No numeric value to display
+      </div>
+    );
+  }
+
+  const latest = rows[rows.length - 1];
+  const current = toNumber(latest[valueKey])!;
+
+  const hasComparisonColumn = !!resolvedComparisonKey && toNumber(latest[resolvedComparisonKey]) !== null;
+  const previousRow = rows.length > 1 ? rows[rows.length - 2] : null;
+  const previous = hasComparisonColumn
+    ? toNumber(latest[resolvedComparisonKey!])
+    : previousRow
+      ? toNumber(previousRow[valueKey])
+      : null;
+
+  const delta = previous !== null ? current - previous : null;
+  const deltaPercent = delta !== null && previous ? (delta / Math.abs(previous)) * 100 : null;
+  const comparisonLabel = hasComparisonColumn
+    ? resolvedComparisonKey
+    : previousRow && xAxisKey && previousRow[xAxisKey] !== undefined
+      ? String(previousRow[xAxisKey])
+      : 'previous period';
+
+  const trend = delta === null || delta === 0 ? 'flat' : delta > 0 ? 'up' : 'down';
+  const TrendIcon = trend === 'up' ? TrendingUp : trend === 'down' ? TrendingDown : Minus;
+  const trendClass = trend === 'up' ? 'text-success' : trend === 'down' ? 'text-destructive' : 'text-muted-foreground';
+
+  const showSparkline = !hasComparisonColumn && rows.length > 2;
+
+  return (
+    <div className="flex flex-col items-center justify-center gap-2 w-full" style={{ height: `${height}px` }}>
+      {xAxisKey && latest[xAxisKey] !== undefined && (
+        <p className="text-xs text-muted-foreground">{String(latest[xAxisKey])}</p>
+      )}
+      <p className="text-4xl font-semibold text-foreground">{formatKpiValue(current)}</p>
+      <p className="text-sm text-muted-foreground">{valueKey}</p>
+      {delta !== null && (
+        <div className={`flex items-center gap-1.5 text-sm ${trendClass}`}>
+          <TrendIcon className="w-4 h-4" />
+          <span>
+            {delta > 0 ? '+' : ''}{formatKpiValue(delta)}
+            {deltaPercent !== null && ` (${deltaPercent > 0 ? '+' : ''}${deltaPercent.toFixed(1)}%)`}
+          </span>
+          <span className="text-muted-foreground">vs {comparisonLabel}</span>
+        </div>
+      )}
+      {showSparkline && (
+        <div className="w-full max-w-xs mt-3" style={{ height: 48 }}>
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={rows}>
+              <Line
+                type="monotone"
+                dataKey={valueKey}
+                stroke={color}
+                strokeWidth={2}
+                dot={false}
+                isAnimationActive={false}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,561 @@
+/**
+ * QueryLibraryPanel Component
+ *
+ * Side panel with the project's query history and saved queries. History
+ * lists every query run on the project's connections with who ran it, how
+ * long it took, how many rows it returned and whether it failed; any entry can
+ * be run again, saved to the library with a name and tags, or turned into a
+ * chart in the SQL editor. Both lists can be searched, and saved queries
+ * filtered by tag.
+ *
+ * @example
+ * <QueryLibraryPanel
+ *   open={isQueryLibraryOpen}
+ *   projectId={projectId}
+ *   connections={databases}
+ *   onClose={() => setIsQueryLibraryOpen(false)}
+ *   onChartCreated={() => fetchCharts()}
+ * />
+ */
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  AlertCircle,
+  BarChart3,
+  BookmarkPlus,
+  CheckCircle2,
+  Loader2,
+  Pencil,
+  Play,
+  ScrollText,
+  Search,
+  Trash2,
+  X,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "../../ui/badge";
+import { Button } from "../../ui/button";
+import { Input } from "../../ui/input";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "../../ui/sheet";
+import { ChartSqlEditorPanel, type SqlEditorChart } from "./ChartSqlEditorPanel";
+import { DataTableChart } from "./DataTableChart";
+import {
+  getChartData,
+  getQueryHistory,
+  getSavedQueries,
+  updateSavedQueries,
+  type Chart as SavedChart,
+  type ChartData,
+  type QueryHistoryEntry,
+  type SavedQuery,
+} from "../../../services/api";
+import {
+  clearQueryHistory,
+  getSavedQueryTags,
+  loadQueryHistory,
+  loadStoredSavedQueries,
+  matchesSearch,
+  parseTags,
+  storeSavedQueries,
+  subscribeToQueryHistory,
+} from "../../../utils/queryLibrary";
+
+interface QueryLibraryPanelProps {
+  open: boolean;
+  projectId?: string;
+  /** The project's connections; history is limited to them and shows their names */
+  connections: Array<{ id: string; name: string }>;
+  onClose: () => void;
+  onChartCreated?: (chart: SavedChart) => void;
+}
+
+type LibraryView = "history" | "saved";
+
+interface QueryRun {
+  isRunning: boolean;
+  result?: ChartData;
+  error?: string;
+}
+
+/** Name and tags being entered for a query, keyed by the history entry or saved query */
+interface QueryDraft {
+  key: string;
+  name: string;
+  tags: string;
+}
+
+const formatRunTime = (value: string) =>
+  new Date(value).toLocaleString("en-US", { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+
+export function QueryLibraryPanel({ open, projectId, connections, onClose, onChartCreated }: QueryLibraryPanelProps) {
+  const [view, setView] = useState<LibraryView>("history");
+  const [search, setSearch] = useState("");
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [history, setHistory] = useState<QueryHistoryEntry[]>([]);
+  const [isDeviceHistory, setIsDeviceHistory] = useState(false);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const [savedQueries, setSavedQueries] = useState<SavedQuery[]>([]);
+  const [runs, setRuns] = useState<Record<string, QueryRun>>({});
+  const [draft, setDraft] = useState<QueryDraft | null>(null);
+  const [chartToCreate, setChartToCreate] = useState<SqlEditorChart | null>(null);
+
+  const connectionIdsKey = connections.map((connection) => connection.id).join(",");
+  const connectionNames = useMemo(
+    () => new Map(connections.map((connection) => [String(connection.id), connection.name])),
+    [connections]
+  );
+
+  // The backend history wins; runs recorded on this device are the fallback
+  const loadHistory = useCallback(async () => {
+    if (!projectId) return;
+    setIsLoadingHistory(true);
+    try {
+      const response = await getQueryHistory(projectId);
+      const serverHistory = response.success ? response.data || [] : [];
+      setIsDeviceHistory(serverHistory.length === 0);
+      setHistory(
+        serverHistory.length > 0 ? serverHistory : loadQueryHistory(connectionIdsKey ? connectionIdsKey.split(",") : undefined)
+      );
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  }, [projectId, connectionIdsKey]);
+
+  useEffect(() => {
+    if (!open) return;
+    loadHistory();
+    return subscribeToQueryHistory(loadHistory);
+  }, [open, loadHistory]);
+
+  // Saved queries: the copy on this device first, replaced by the server's when it responds
+  useEffect(() => {
+    if (!open || !projectId) return;
+
+    let cancelled = false;
+    setSavedQueries(loadStoredSavedQueries(projectId) || []);
+    getSavedQueries(projectId).then((response) => {
+      if (cancelled || !response.success || !response.data || response.data.length === 0) return;
+      setSavedQueries(response.data);
+      storeSavedQueries(projectId, response.data);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, projectId]);
+
+  useEffect(() => {
+    if (open) return;
+    setRuns({});
+    setDraft(null);
+    setSearch("");
+    setTagFilter(null);
+  }, [open]);
+
+  const persistSavedQueries = async (next: SavedQuery[]) => {
+    if (!projectId) return;
+    setSavedQueries(next);
+    storeSavedQueries(projectId, next);
+
+    const response = await updateSavedQueries(projectId, next);
+    if (!response.success) {
+      toast.warning("Saved queries stored on this device only", {
+        description: response.error?.message || "The server could not store the saved queries.",
+      });
+    }
+  };
+
+  const runQuery = async (key: string, query: string, connectionId: string) => {
+    setRuns((prev) => ({ ...prev, [key]: { isRunning: true } }));
+    const response = await getChartData("query-library", connectionId, query, undefined, undefined, true, undefined, {
+      recordHistory: true,
+    });
+    setRuns((prev) => ({
+      ...prev,
+      [key]: response.success && response.data
+        ? { isRunning: false, result: response.data }
+        : { isRunning: false, error: response.error?.message || "The query could not be run" },
+    }));
+  };
+
+  const handleSaveDraft = async () => {
+    if (!draft || !draft.name.trim()) return;
+
+    const now = new Date().toISOString();
+    const existing = savedQueries.find((query) => query.id === draft.key);
+    if (existing) {
+      await persistSavedQueries(
+        savedQueries.map((query) =>
+          query.id === existing.id ? { ...query, name: draft.name.trim(), tags: parseTags(draft.tags), updatedAt: now } : query
+        )
+      );
+    } else {
+      const entry = history.find((item) => item.id === draft.key);
+      if (!entry) return;
+      await persistSavedQueries([
+        ...savedQueries,
+        {
+          id: `${Date.now()}`,
+          name: draft.name.trim(),
+          query: entry.query,
+          connectionId: entry.connectionId,
+          tags: parseTags(draft.tags),
+          createdBy: entry.ranBy ?? null,
+          createdAt: now,
+          updatedAt: now,
+        },
+      ]);
+      toast.success(`Saved "${draft.name.trim()}" to the library`);
+    }
+    setDraft(null);
+  };
+
+  const handleDelete = async (savedQuery: SavedQuery) => {
+    await persistSavedQueries(savedQueries.filter((query) => query.id !== savedQuery.id));
+    toast.success(`Deleted "${savedQuery.name}"`);
+  };
+
+  const handleClearHistory = () => {
+    clearQueryHistory(connectionIdsKey ? connectionIdsKey.split(",") : undefined);
+    toast.success("Query history on this device cleared");
+  };
+
+  const filteredHistory = history.filter((entry) =>
+    matchesSearch(search, [entry.query, entry.ranBy, connectionNames.get(String(entry.connectionId)), entry.error])
+  );
+  const tags = getSavedQueryTags(savedQueries);
+  const filteredSaved = savedQueries
+    .filter((query) => !tagFilter || query.tags.includes(tagFilter))
+    .filter((query) => matchesSearch(search, [query.name, query.query, ...query.tags]))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const renderSql = (query: string) => (
+    <pre className="text-xs font-mono bg-muted/50 p-2 rounded-lg overflow-auto whitespace-pre-wrap" style={{ maxHeight: 120 }}>
+      {query}
+    </pre>
+  );
+
+  const renderRun = (key: string) => {
+    const run = runs[key];
+    if (!run || run.isRunning) return null;
+    if (run.error) {
+      return (
+        <div className="flex items-start gap-2 rounded-lg border border-destructive/30 bg-destructive/10 p-2 text-xs text-destructive">
+          <AlertCircle className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" />
+          <span className="min-w-0" style={{ overflowWrap: "anywhere" }}>{run.error}</span>
+        </div>
+      );
+    }
+    if (!run.result) return null;
+
+    const rows = run.result.data;
+    return (
+      <div className="space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <Badge variant="outline" className="border-border text-muted-foreground">
+            {run.result.metadata.rowCount} row{run.result.metadata.rowCount === 1 ? "" : "s"}
+            {run.result.metadata.executionTime > 0 ? ` · ${run.result.metadata.executionTime} ms` : ""}
+          </Badge>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => setRuns((prev) => {
+              const { [key]: _removed, ...rest } = prev;
+              return rest;
+            })}
+          >
+            <X className="w-3.5 h-3.5 mr-1" />
+            Hide result
+          </Button>
+        </div>
+        {rows.length === 0 ? (
+          <p className="text-xs text-muted-foreground py-2 text-center">The query returned no rows.</p>
+        ) : (
+          <div className="rounded-lg border border-border overflow-hidden">
+            <DataTableChart data={rows} height={220} />
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderDraftForm = () =>
+    draft && (
+      <div className="grid grid-cols-3 gap-2">
+        <Input
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          onKeyDown={(e) => e.key === "Enter" && handleSaveDraft()}
+          placeholder="Name"
+          className="h-8 text-xs"
+          autoFocus
+        />
+        <Input
+          value={draft.tags}
+          onChange={(e) => setDraft({ ...draft, tags: e.target.value })}
+          onKeyDown={(e) => e.key === "Enter" && handleSaveDraft()}
+          placeholder="Tags, comma separated"
+          className="h-8 text-xs"
+        />
+        <div className="flex items-center justify-end gap-1">
+          <Button variant="ghost" size="sm" className="h-8 text-xs" onClick={() => setDraft(null)}>
+            Cancel
+          </Button>
+          <Button size="sm" className="h-8 text-xs" onClick={handleSaveDraft} disabled={!draft.name.trim()}>
+            Save
+          </Button>
+        </div>
+      </div>
+    );
+
+  const renderActions = (key: string, query: string, connectionId: string, name: string) => (
+    <div className="flex items-center gap-1">
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-7 text-xs"
+        onClick={() => runQuery(key, query, connectionId)}
+        disabled={runs[key]?.isRunning}
+      >
+        {runs[key]?.isRunning ? <Loader2 className="w-3.5 h-3.5 mr-1 animate-spin" /> : <Play className="w-3.5 h-3.5 mr-1" />}
+        Run
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-7 text-xs"
+        onClick={() => setChartToCreate({ name, type: "table", query, connectionId })}
+      >
+        <BarChart3 className="w-3.5 h-3.5 mr-1" />
+        New chart
+      </Button>
+    </div>
+  );
+
+  const renderHistory = () => {
+    if (isLoadingHistory && history.length === 0) {
+      return (
+        <div className="flex items-center justify-center py-10 text-sm text-muted-foreground">
+          <Loader2 className="w-5 h-5 animate-spin mr-2" />
+          Loading history...
+        </div>
+      );
+    }
+    if (history.length === 0) {
+      return (
+        <div className="flex flex-col items-center justify-center py-10 text-center">
+          <ScrollText className="w-8 h-8 text-muted-foreground mb-3" />
+          <p className="text-sm text-foreground mb-1">No queries run yet</p>
+          <p className="text-xs text-muted-foreground">Queries run by charts, previews and the SQL editor will appear here.</p>
+        </div>
+      );
+    }
+
+    return (
+      <>
+        {isDeviceHistory && (
+          <div className="flex items-center justify-between gap-2 rounded-lg border border-warning/30 bg-warning/10 p-3 text-xs text-warning">
+            <div className="flex items-start gap-2">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span>Showing queries run from this device; the server history is unavailable.</span>
+            </div>
+            <Button variant="ghost" size="sm" className="h-7 text-xs shrink-0" onClick={handleClearHistory}>
+              Clear
+            </Button>
+          </div>
+        )}
+        {filteredHistory.length === 0 && (
+          <p className="text-sm text-muted-foreground py-6 text-center">No queries match "{search}".</p>
+        )}
+        {filteredHistory.map((entry) => (
+          <div key={entry.id} className="rounded-lg border border-border p-3 space-y-2">
+            <div className="flex items-center gap-2 text-xs">
+              {entry.status === "success" ? (
+                <CheckCircle2 className="w-3.5 h-3.5 text-success shrink-0" />
+              ) : (
+                <AlertCircle className="w-3.5 h-3.5 text-destructive shrink-0" />
+              )}
+              <span className="text-foreground truncate">
+                {connectionNames.get(String(entry.connectionId)) || "Unknown connection"}
+              </span>
+              <span className="text-muted-foreground shrink-0">{formatRunTime(entry.ranAt)}</span>
+              {entry.ranBy && <span className="text-muted-foreground truncate">by {entry.ranBy}</span>}
+              <div className="flex items-center gap-1 ml-auto shrink-0">
+                {entry.rowCount !== null && (
+                  <Badge variant="outline" className="border-border text-muted-foreground">
+                    {entry.rowCount} row{entry.rowCount === 1 ? "" : "s"}
+                  </Badge>
+                )}
+                {entry.executionTime !== null && entry.executionTime > 0 && (
+                  <Badge variant="outline" className="border-border text-muted-foreground">{entry.executionTime} ms</Badge>
+                )}
+              </div>
+            </div>
+            {renderSql(entry.query)}
+            {entry.status === "error" && entry.error && (
+              <p className="text-xs text-destructive" style={{ overflowWrap: "anywhere" }}>{entry.error}</p>
+            )}
+            {draft?.key === entry.id ? (
+              renderDraftForm()
+            ) : (
+              <div className="flex items-center justify-between gap-2">
+                {renderActions(entry.id, entry.query, entry.connectionId, "")}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => setDraft({ key: entry.id, name: "", tags: "" })}
+                  disabled={!projectId}
+                >
+                  <BookmarkPlus className="w-3.5 h-3.5 mr-1" />
+                  Save
+                </Button>
+              </div>
+            )}
+            {renderRun(entry.id)}
+          </div>
+        ))}
+      </>
+    );
+  };
+
+  const renderSaved = () => {
+    if (savedQueries.length === 0) {
+      return (
+        <div className="flex flex-col items-center justify-center py-10 text-center">
+          <BookmarkPlus className="w-8 h-8 text-muted-foreground mb-3" />
+          <p className="text-sm text-foreground mb-1">No saved queries yet</p>
+          <p className="text-xs text-muted-foreground">Save a query from the history to keep it here with a name and tags.</p>
+        </div>
+      );
+    }
+
+    return (
+      <>
+        {tags.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1.5">
+            {tags.map((tag) => (
+              <Badge
+                key={tag}
+                variant={tagFilter === tag ? "default" : "outline"}
+                className="cursor-pointer text-xs"
+                onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+              >
+                {tag}
+              </Badge>
+            ))}
+          </div>
+        )}
+        {filteredSaved.length === 0 && (
+          <p className="text-sm text-muted-foreground py-6 text-center">No saved queries match.</p>
+        )}
+        {filteredSaved.map((savedQuery) => (
+          <div key={savedQuery.id} className="rounded-lg border border-border p-3 space-y-2">
+            {draft?.key === savedQuery.id ? (
+              renderDraftForm()
+            ) : (
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-sm text-foreground truncate">{savedQuery.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {connectionNames.get(String(savedQuery.connectionId)) || "Unknown connection"}
+                    {" · "}
+                    Updated {formatRunTime(savedQuery.updatedAt)}
+                    {savedQuery.createdBy ? ` · ${savedQuery.createdBy}` : ""}
+                  </p>
+                </div>
+                <div className="flex flex-wrap justify-end gap-1">
+                  {savedQuery.tags.map((tag) => (
+                    <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+            {renderSql(savedQuery.query)}
+            <div className="flex items-center justify-between gap-2">
+              {renderActions(savedQuery.id, savedQuery.query, savedQuery.connectionId, savedQuery.name)}
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  aria-label="Rename or retag"
+                  onClick={() => setDraft({ key: savedQuery.id, name: savedQuery.name, tags: savedQuery.tags.join(", ") })}
+                >
+                  <Pencil className="w-3.5 h-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                  aria-label="Delete saved query"
+                  onClick={() => handleDelete(savedQuery)}
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </Button>
+              </div>
+            </div>
+            {renderRun(savedQuery.id)}
+          </div>
+        ))}
+      </>
+    );
+  };
+
+  return (
+    <>
+      <Sheet open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+        <SheetContent side="right" className="overflow-y-auto" style={{ width: "100%", maxWidth: 720 }}>
+          <SheetHeader>
+            <SheetTitle>Queries</SheetTitle>
+            <SheetDescription>Queries run on this project's connections, and the project's saved queries</SheetDescription>
+          </SheetHeader>
+
+          <div className="px-4 pb-6 space-y-4">
+            <div className="flex items-center gap-2">
+              <div className="flex items-center gap-1">
+                <Button
+                  variant={view === "history" ? "secondary" : "ghost"}
+                  size="sm"
+                  className="h-8 text-xs"
+                  onClick={() => setView("history")}
+                >
+                  History
+                </Button>
+                <Button
+                  variant={view === "saved" ? "secondary" : "ghost"}
+                  size="sm"
+                  className="h-8 text-xs"
+                  onClick={() => setView("saved")}
+                >
+                  Saved{savedQueries.length > 0 ? ` (${savedQueries.length})` : ""}
+                </Button>
+              </div>
+              <div className="relative flex-1">
+                <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-muted-foreground" />
+                <Input
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder={view === "history" ? "Search SQL, connection or user" : "Search names, SQL or tags"}
+                  className="h-8 pl-8 text-xs"
+                />
+              </div>
+            </div>
+
+            {view === "history" ? renderHistory() : renderSaved()}
+          </div>
+        </SheetContent>
+      </Sheet>
+
+      <ChartSqlEditorPanel
+        chart={chartToCreate}
+        projectId={projectId}
+        onClose={() => setChartToCreate(null)}
+        onChartCreated={(chart) => {
+          setChartToCreate(null);
+          onChartCreated?.(chart);
+        }}
+      />
+    </>
+  );
+}
@@ -0,0 +1,119 @@
+/**
+ * QueryPlanTree Component
+ *
+ * Draws a query's execution plan as an indented tree, one row per step with
+ * the table it reads, estimated rows and cost. A bar under each step shows its
+ * cost relative to the most expensive step. Full table scans are marked, and
+ * those the plan warnings point at are highlighted with the warning above the
+ * tree.
+ *
+ * @example
+ * <QueryPlanTree plan={plan} warnings={getQueryPlanWarnings(plan, schema)} />
+ */
+
+import { AlertTriangle } from "lucide-react";
+import { Badge } from "../../ui/badge";
+import type { QueryPlan, QueryPlanNode } from "../../../services/api";
+import { flattenQueryPlan, type QueryPlanWarning } from "../../../utils/queryPlan";
+
+interface QueryPlanTreeProps {
+  plan: QueryPlan;
+  warnings: QueryPlanWarning[];
+}
+
+const INDENT = 16;
+
+const formatNumber = (value: number) =>
+  value.toLocaleString("en-US", { maximumFractionDigits: value < 10 ? 2 : 0 });
+
+export function QueryPlanTree({ plan, warnings }: QueryPlanTreeProps) {
+  const nodes = flattenQueryPlan(plan.roots);
+  if (nodes.length === 0) {
+    return <p className="text-xs text-muted-foreground py-2 text-center">The database returned a plan this view can't read.</p>;
+  }
+
+  const maxCost = Math.max(0, ...nodes.map((node) => node.cost ?? 0));
+  const root = plan.roots.length === 1 ? plan.roots[0] : null;
+  const warnedIds = new Set(warnings.map((warning) => warning.nodeId));
+
+  const renderNode = (node: QueryPlanNode, depth: number) => {
+    const isWarned = warnedIds.has(node.id);
+    return (
+      <div key={node.id}>
+        <div
+          className={`rounded-md px-2 py-1.5 ${isWarned ? "bg-warning/10" : ""}`}
+          style={{ marginLeft: depth * INDENT }}
+        >
+          <div className="flex items-center gap-2 text-xs">
+            {isWarned && <AlertTriangle className="w-3.5 h-3.5 text-warning shrink-0" />}
+            <span className={`font-medium ${isWarned ? "text-warning" : "text-foreground"}`}>{node.operation}</span>
+            {node.relation && <span className="font-mono text-muted-foreground truncate">{node.relation}</span>}
+            <div className="flex items-center gap-1 ml-auto shrink-0">
+              {node.isFullScan && !isWarned && (
+                <Badge variant="outline" className="border-border text-muted-foreground">Full scan</Badge>
+              )}
+              {node.estimatedRows !== null && (
+                <Badge variant="outline" className="border-border text-muted-foreground">
+                  ~{formatNumber(node.estimatedRows)} rows
+                </Badge>
+              )}
+              {node.cost !== null && (
+                <Badge variant="outline" className="border-border text-muted-foreground">cost {formatNumber(node.cost)}</Badge>
+              )}
+            </div>
+          </div>
+          {node.detail && (
+            <p className="text-xs text-muted-foreground font-mono truncate" title={node.detail}>{node.detail}</p>
+          )}
+          {maxCost > 0 && node.cost !== null && (
+            <div className="h-1.5 rounded-full bg-muted overflow-hidden mt-1">
+              <div
+                className="h-full rounded-full"
+                style={{
+                  width: `${Math.max(2, (node.cost / maxCost) * 100)}%`,
+                  background: isWarned ? "var(--warning)" : "color-mix(in oklab, var(--primary) 60%, transparent)",
+                }}
+              />
+            </div>
+          )}
+        </div>
+        {node.children.length > 0 && (
+          <div className="border-l border-border" style={{ marginLeft: depth * INDENT + 8 }}>
+            {node.children.map((child) => renderNode(child, 1))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      {root && (root.cost !== null || root.estimatedRows !== null) && (
+        <div className="flex flex-wrap items-center gap-1.5">
+          {root.cost !== null && (
+            <Badge variant="secondary" className="text-xs">Estimated cost {formatNumber(root.cost)}</Badge>
+          )}
+          {root.estimatedRows !== null && (
+            <Badge variant="secondary" className="text-xs">~{formatNumber(root.estimatedRows)} rows returned</Badge>
+          )}
+        </div>
+      )}
+      {warnings.length > 0 && (
+        <ul className="space-y-2">
+          {warnings.map((warning) => (
+            <li
+              key={warning.nodeId}
+              className="flex items-start gap-2 rounded-lg border border-warning/30 bg-warning/10 p-2 text-xs text-warning"
+            >
+              <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" />
+              <span className="min-w-0" style={{ overflowWrap: "anywhere" }}>{warning.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="rounded-lg border border-border p-2 space-y-0.5">
+        {plan.roots.map((node) => renderNode(node, 0))}
+      </div>
+    </div>
+  );
+}
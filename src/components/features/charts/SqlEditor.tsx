@@ -0,0 +1,344 @@
+/**
+ * SqlEditor Component
+ *
+ * SQL text area with syntax highlighting, line numbers and table / column
+ * autocomplete from a connection's schema. A highlighted copy of the query is
+ * drawn under a transparent textarea, so selection, undo and paste stay
+ * native. Completions open while typing a word or after `alias.`, or with
+ * Ctrl+Space; Ctrl/Cmd+Enter runs the query. The range of a backend error is
+ * underlined and its line number marked.
+ *
+ * @example
+ * <SqlEditor
+ *   value={sql}
+ *   onChange={setSql}
+ *   schema={schema}
+ *   errorLocation={errorLocation}
+ *   onRun={handleRun}
+ * />
+ */
+
+import { useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
+import type { ChangeEvent, CSSProperties, KeyboardEvent } from "react";
+import { Columns3, SquareFunction, Table2, Type } from "lucide-react";
+import type { DatabaseSchema } from "../../../services/api";
+import {
+  getSqlCompletions,
+  tokenizeSql,
+  type SqlCompletion,
+  type SqlCompletionKind,
+  type SqlCompletionResult,
+  type SqlErrorLocation,
+  type SqlTokenKind,
+} from "../../../utils/sqlEditor";
+
+interface SqlEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** Tables and columns offered as completions */
+  schema?: DatabaseSchema | null;
+  /** Part of the query the last error points at */
+  errorLocation?: SqlErrorLocation | null;
+  /** Called on Ctrl/Cmd+Enter */
+  onRun?: () => void;
+  /** Editor height in pixels */
+  height?: number;
+  placeholder?: string;
+}
+
+interface OpenCompletion extends SqlCompletionResult {
+  top: number;
+  left: number;
+}
+
+const LINE_HEIGHT = 20;
+const PADDING = 12;
+const POPUP_WIDTH = 288;
+const FUNCTION_COLOR = "#06B6D4";
+
+const TOKEN_CLASSES: Partial<Record<SqlTokenKind, string>> = {
+  keyword: "text-primary",
+  string: "text-success",
+  number: "text-warning",
+  comment: "text-muted-foreground",
+  identifier: "text-foreground",
+  operator: "text-muted-foreground",
+  punctuation: "text-muted-foreground",
+};
+
+const COMPLETION_ICONS: Record<SqlCompletionKind, typeof Table2> = {
+  table: Table2,
+  column: Columns3,
+  function: SquareFunction,
+  keyword: Type,
+};
+
+// Shared by the textarea and the highlight layer so their text lines up exactly
+const TEXT_STYLE: CSSProperties = {
+  padding: PADDING,
+  lineHeight: `${LINE_HEIGHT}px`,
+  whiteSpace: "pre",
+  tabSize: 2,
+};
+
+export function SqlEditor({
+  value,
+  onChange,
+  schema,
+  errorLocation,
+  onRun,
+  height = 280,
+  placeholder,
+}: SqlEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const highlightRef = useRef<HTMLPreElement>(null);
+  const gutterRef = useRef<HTMLDivElement>(null);
+  const measureRef = useRef<HTMLSpanElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  // Caret position to restore after a programmatic edit
+  const pendingCursorRef = useRef<number | null>(null);
+  const [completion, setCompletion] = useState<OpenCompletion | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const tokens = useMemo(() => tokenizeSql(value), [value]);
+  const lineCount = value.split("\n").length;
+
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    if (textarea && pendingCursorRef.current !== null) {
+      textarea.setSelectionRange(pendingCursorRef.current, pendingCursorRef.current);
+      pendingCursorRef.current = null;
+    }
+  }, [value]);
+
+  useEffect(() => {
+    const item = listRef.current?.children[activeIndex] as HTMLElement | undefined;
+    item?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex, completion]);
+
+  const syncScroll = () => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    if (highlightRef.current) {
+      highlightRef.current.scrollTop = textarea.scrollTop;
+      highlightRef.current.scrollLeft = textarea.scrollLeft;
+    }
+    if (gutterRef.current) {
+      gutterRef.current.scrollTop = textarea.scrollTop;
+    }
+  };
+
+  const updateCompletions = (sql: string, cursor: number, explicit: boolean) => {
+    const result = getSqlCompletions(sql, cursor, schema ?? null, explicit);
+    const textarea = textareaRef.current;
+    if (!result || !textarea) {
+      setCompletion(null);
+      return;
+    }
+
+    // Place the list under the start of the word being completed
+    const lines = sql.slice(0, result.from).split("\n");
+    const charWidth = (measureRef.current?.getBoundingClientRect().width ?? 70) / 10;
+    const gutterWidth = gutterRef.current?.offsetWidth ?? 0;
+    const left = gutterWidth + PADDING + lines[lines.length - 1].length * charWidth - textarea.scrollLeft;
+    const maxLeft = Math.max(0, textarea.offsetWidth + gutterWidth - POPUP_WIDTH);
+
+    setCompletion({
+      ...result,
+      top: PADDING + lines.length * LINE_HEIGHT - textarea.scrollTop,
+      left: Math.min(Math.max(gutterWidth, left), maxLeft),
+    });
+    setActiveIndex(0);
+  };
+
+  const replaceRange = (from: number, to: number, text: string) => {
+    pendingCursorRef.current = from + text.length;
+    onChange(value.slice(0, from) + text + value.slice(to));
+  };
+
+  const acceptCompletion = (item: SqlCompletion) => {
+    if (!completion) return;
+    replaceRange(completion.from, completion.to, item.insertText);
+    setCompletion(null);
+    textareaRef.current?.focus();
+  };
+
+  const handleChange = (e: ChangeEvent<HTMLTextAreaElement>) => {
+    const next = e.target.value;
+    onChange(next);
+
+    // Only typing continues a completion; deleting or pasting closes it
+    const typed = (e.nativeEvent as InputEvent).data;
+    if (typed && /^[\w.$]$/.test(typed)) {
+      updateCompletions(next, e.target.selectionStart, false);
+    } else {
+      setCompletion(null);
+    }
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    const textarea = e.currentTarget;
+
+    if ((e.metaKey || e.ctrlKey) && e.key === "Enter") {
+      e.preventDefault();
+      setCompletion(null);
+      onRun?.();
+      return;
+    }
+
+    if (e.ctrlKey && (e.key === " " || e.code === "Space")) {
+      e.preventDefault();
+      updateCompletions(value, textarea.selectionStart, true);
+      return;
+    }
+
+    if (completion) {
+      const count = completion.items.length;
+      if (e.key === "ArrowDown") {
+        e.preventDefault();
+        setActiveIndex((index) => (index + 1) % count);
+        return;
+      }
+      if (e.key === "ArrowUp") {
+        e.preventDefault();
+        setActiveIndex((index) => (index - 1 + count) % count);
+        return;
+      }
+      if (e.key === "Enter" || e.key === "Tab") {
+        e.preventDefault();
+        acceptCompletion(completion.items[activeIndex]);
+        return;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        setCompletion(null);
+        return;
+      }
+      if (e.key === "ArrowLeft" || e.key === "ArrowRight" || e.key === "Home" || e.key === "End") {
+        setCompletion(null);
+      }
+    }
+
+    if (e.key === "Tab" && !e.shiftKey) {
+      e.preventDefault();
+      replaceRange(textarea.selectionStart, textarea.selectionEnd, "  ");
+    }
+  };
+
+  const renderTokens = () =>
+    tokens.map((token, index) => {
+      const isError =
+        !!errorLocation &&
+        token.kind !== "whitespace" &&
+        token.start < errorLocation.end &&
+        token.start + token.text.length > errorLocation.start;
+      const style: CSSProperties = {
+        ...(token.kind === "function" ? { color: FUNCTION_COLOR } : {}),
+        ...(token.kind === "comment" ? { fontStyle: "italic" } : {}),
+        ...(isError
+          ? { textDecoration: "underline wavy", textDecorationColor: "var(--destructive)", textUnderlineOffset: 3 }
+          : {}),
+      };
+      return (
+        <span key={index} className={TOKEN_CLASSES[token.kind]} style={style}>
+          {token.text}
+        </span>
+      );
+    });
+
+  return (
+    <div className="relative">
+      <div
+        className="flex rounded-lg border border-border bg-muted/30 overflow-hidden font-mono text-xs"
+        style={{ height }}
+      >
+        {/* Line numbers */}
+        <div
+          ref={gutterRef}
+          aria-hidden
+          className="shrink-0 overflow-hidden select-none border-r border-border text-muted-foreground"
+          style={{ padding: `${PADDING}px 8px`, lineHeight: `${LINE_HEIGHT}px`, textAlign: "right", minWidth: 40 }}
+        >
+          {Array.from({ length: lineCount }, (_, index) => (
+            <div key={index} className={errorLocation?.line === index + 1 ? "text-destructive" : undefined}>
+              {index + 1}
+            </div>
+          ))}
+        </div>
+
+        <div className="relative flex-1 min-w-0">
+          <pre
+            ref={highlightRef}
+            aria-hidden
+            className="absolute inset-0 overflow-hidden pointer-events-none"
+            style={{ ...TEXT_STYLE, margin: 0 }}
+          >
+            {renderTokens()}
+            {"\n"}
+          </pre>
+          <textarea
+            ref={textareaRef}
+            value={value}
+            onChange={handleChange}
+            onKeyDown={handleKeyDown}
+            onScroll={() => {
+              syncScroll();
+              setCompletion(null);
+            }}
+            onClick={() => setCompletion(null)}
+            onBlur={() => setCompletion(null)}
+            placeholder={placeholder}
+            spellCheck={false}
+            autoCapitalize="off"
+            autoCorrect="off"
+            wrap="off"
+            aria-label="SQL query"
+            aria-autocomplete="list"
+            aria-expanded={!!completion}
+            data-completions-open={completion ? "true" : undefined}
+            className="absolute inset-0 w-full h-full resize-none bg-transparent outline-none overflow-auto placeholder:text-muted-foreground"
+            style={{ ...TEXT_STYLE, color: "transparent", caretColor: "var(--foreground)" }}
+          />
+        </div>
+      </div>
+
+      {/* Width of 10 characters, for placing the completion list */}
+      <span ref={measureRef} aria-hidden className="absolute font-mono text-xs" style={{ visibility: "hidden" }}>
+        0000000000
+      </span>
+
+      {completion && (
+        <div
+          ref={listRef}
+          role="listbox"
+          className="absolute z-50 rounded-md border border-border bg-popover shadow-lg overflow-y-auto py-1 font-mono text-xs"
+          style={{ top: completion.top, left: completion.left, width: POPUP_WIDTH, maxHeight: 220 }}
+        >
+          {completion.items.map((item, index) => {
+            const Icon = COMPLETION_ICONS[item.kind];
+            return (
+              <div
+                key={`${item.kind}:${item.label}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                onMouseDown={(e) => {
+                  // Keep focus in the textarea
+                  e.preventDefault();
+                  acceptCompletion(item);
+                }}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={`flex items-center gap-2 px-2 py-1 cursor-pointer ${
+                  index === activeIndex ? "bg-primary/10 text-foreground" : "text-foreground"
+                }`}
+              >
+                <Icon className="w-3.5 h-3.5 shrink-0 text-muted-foreground" />
+                <span className="flex-1 min-w-0 truncate">{item.label}</span>
+                {item.detail && <span className="text-muted-foreground truncate" style={{ maxWidth: 120 }}>{item.detail}</span>}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+/**
+ * SqlIssueList Component
+ *
+ * Lists the problems `lintSql` found in a chart query: errors (the query is not
+ * read-only and will not be run) in red, warnings (it may return more data
+ * than the chart needs) in amber. Errors come with a note that the check is
+ * advisory; the database connection is what keeps queries read-only.
+ *
+ * @example
+ * <SqlIssueList issues={lintSql(chart.query, schema)} />
+ */
+
+import { AlertCircle, AlertTriangle } from "lucide-react";
+import { hasSqlErrors, type SqlIssue } from "../../../utils/sqlLint";
+
+interface SqlIssueListProps {
+  issues: SqlIssue[];
+  className?: string;
+}
+
+export function SqlIssueList({ issues, className = "" }: SqlIssueListProps) {
+  if (issues.length === 0) return null;
+  return (
+    <ul className={`space-y-2 ${className}`}>
+      {issues.map((issue) => {
+        const isError = issue.severity === "error";
+        const Icon = isError ? AlertCircle : AlertTriangle;
+        return (
+          <li
+            key={`${issue.code}:${issue.start}`}
+            className={`flex items-start gap-2 rounded-lg border p-2 text-xs ${
+              isError
+                ? "border-destructive/30 bg-destructive/10 text-destructive"
+                : "border-warning/30 bg-warning/10 text-warning"
+            }`}
+          >
+            <Icon className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" />
+            <span className="min-w-0" style={{ overflowWrap: "anywhere" }}>{issue.message}</span>
+          </li>
+        );
+      })}
+      {hasSqlErrors(issues) && (
+        <li className="text-xs text-muted-foreground">
+          This check runs in the browser and is advisory only; the database connection must enforce read-only access.
+        </li>
+      )}
+    </ul>
+  );
+}
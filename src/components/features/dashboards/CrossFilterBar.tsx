@@ -0,0 +1,75 @@
+/**
+ * CrossFilterBar Component
+ *
+ * Chips for the cross-filters set by clicking chart categories. Each chip can
+ * be removed or drilled into; "Clear" removes them all.
+ *
+ * @example
+ * <CrossFilterBar
+ *   filters={crossFilters}
+ *   onRemove={handleRemoveCrossFilter}
+ *   onDrill={handleDrillIntoCrossFilter}
+ *   onClear={() => setCrossFilters([])}
+ * />
+ */
+
+import { MousePointerClick, Table2, X } from "lucide-react";
+import { Badge } from "../../ui/badge";
+import { Button } from "../../ui/button";
+import type { CrossFilter } from "../../../utils/crossFilter";
+
+interface CrossFilterBarProps {
+  filters: CrossFilter[];
+  onRemove: (filter: CrossFilter) => void;
+  /** Opens the drill-down panel for the point the filter came from */
+  onDrill?: (filter: CrossFilter) => void;
+  onClear: () => void;
+}
+
+export function CrossFilterBar({ filters, onRemove, onDrill, onClear }: CrossFilterBarProps) {
+  if (filters.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 mb-6">
+      <span className="flex items-center gap-1.5 text-sm text-muted-foreground">
+        <MousePointerClick className="w-4 h-4" />
+        Cross-filters
+      </span>
+
+      {filters.map((filter) => (
+        <Badge
+          key={filter.column}
+          variant="outline"
+          className="h-7 gap-1.5 px-2 border-primary/30 bg-primary/10 text-foreground"
+          title={`From "${filter.sourceChartTitle}"`}
+        >
+          <span className="text-muted-foreground">{filter.column}:</span>
+          <span className="truncate" style={{ maxWidth: 192 }}>{filter.value}</span>
+          {onDrill && (
+            <button
+              type="button"
+              onClick={() => onDrill(filter)}
+              className="w-5 h-5 flex items-center justify-center rounded hover:bg-primary/20"
+              aria-label={`Drill into ${filter.column} = ${filter.value}`}
+              title="Drill into rows"
+            >
+              <Table2 className="w-3 h-3" />
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => onRemove(filter)}
+            className="w-5 h-5 flex items-center justify-center rounded hover:bg-primary/20"
+            aria-label={`Remove ${filter.column} cross-filter`}
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </Badge>
+      ))}
+
+      <Button variant="ghost" size="sm" className="h-9 text-muted-foreground" onClick={onClear}>
+        Clear
+      </Button>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import React, { type MouseEvent } from "react";
-import { LayoutDashboard, Clock, BarChart3, Users, Trash2 } from "lucide-react";
+import { LayoutDashboard, Clock, BarChart3, Users, Trash2, Copy } from "lucide-react";
 import { Card } from "../../ui/card";
 import { ActionButtonGroup } from "../../shared/ActionButtonGroup";
 import { LineChart, Line, BarChart, Bar, AreaChart, Area, ResponsiveContainer } from "recharts";
@@ -18,6 +18,8 @@ interface DashboardCardProps {
   dashboard: Dashboard;
   viewMode: 'grid' | 'list';
   onDelete: (e: MouseEvent) => void;
+  /** Shows a duplicate action when provided */
+  onDuplicate?: (e: MouseEvent) => void;
   onClick: () => void;
 }
 
@@ -79,10 +81,35 @@ export function DashboardCard({
   dashboard, 
   viewMode,
   onDelete, 
+  onDuplicate,
   onClick 
 }: DashboardCardProps) {
   const Icon = dashboard.icon || LayoutDashboard;
 
+  const actions = [
+    ...(onDuplicate
+      ? [{
+          icon: <Copy />,
+          onClick: (e?: MouseEvent) => {
+            e?.stopPropagation();
+            onDuplicate(e as MouseEvent);
+          },
+          label: "Duplicate dashboard",
+          variant: "ghost" as const,
+        }]
+      : []),
+    {
+      icon: <Trash2 />,
+      onClick: (e?: MouseEvent) => {
+        e?.stopPropagation();
+        onDelete(e as MouseEvent);
+      },
+      label: "Delete dashboard",
+      variant: "ghost" as const,
+      className: "hover:text-destructive"
+    }
+  ];
+
   if (viewMode === 'list') {
     return (
       <div
@@ -133,20 +160,9 @@ export function DashboardCard({
           </div>
         </div>
 
-        {/* Delete Action - Top Right */}
+        {/* Actions - Top Right */}
         <ActionButtonGroup
-          actions={[
-            {
-              icon: <Trash2 />,
-              onClick: (e) => {
-                e?.stopPropagation();
-                onDelete(e as MouseEvent);
-              },
-              label: "Delete dashboard",
-              variant: "ghost",
-              className: "hover:text-destructive"
-            }
-          ]}
+          actions={actions}
           className="absolute top-3 right-3"
         />
       </div>
@@ -159,26 +175,15 @@ export function DashboardCard({
       className="border-border hover:border-primary/30 transition-all duration-200 cursor-pointer group overflow-hidden relative"
       onClick={onClick}
     >
-      {/* Delete Action - Top Right */}
+      {/* Actions - Top Right */}
       <ActionButtonGroup
-        actions={[
-          {
-            icon: <Trash2 />,
-            onClick: (e) => {
-              e?.stopPropagation();
-              onDelete(e as MouseEvent);
-            },
-            label: "Delete dashboard",
-            variant: "ghost",
-            className: "hover:text-destructive"
-          }
-        ]}
+        actions={actions}
         className="absolute top-3 right-3 z-10"
       />
 
       <div className="p-5 space-y-4">
         {/* Dashboard Header */}
-        <div className="flex items-start gap-3 pr-8">
+        <div className="flex items-start gap-3 pr-8" style={onDuplicate ? { paddingRight: 64 } : undefined}>
           <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-primary/20 to-accent/20 border border-primary/30 flex items-center justify-center flex-shrink-0">
             <Icon className="w-5 h-5 text-primary" />
           </div>
@@ -0,0 +1,405 @@
+/**
+ * DashboardCopyDialog Component
+ *
+ * Creates a dashboard from a template snapshot: either duplicating an existing
+ * dashboard or instantiating a saved template. The copy can go to another
+ * project and another database connection; when the connection changes, the
+ * tables and columns the queries use can be remapped to the target schema.
+ *
+ * @example
+ * <DashboardCopyDialog
+ *   open={!!copySource}
+ *   onOpenChange={(open) => !open && setCopySource(null)}
+ *   mode="duplicate"
+ *   template={copySource}
+ *   projectId={projectId}
+ *   onCreated={handleDashboardCopied}
+ * />
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import { ArrowRight, Copy, LayoutTemplate, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "../../ui/button";
+import { Input } from "../../ui/input";
+import { Label } from "../../ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "../../ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../ui/select";
+import { GradientButton } from "../../shared/GradientButton";
+import {
+  createDashboardFromTemplate,
+  getDatabaseSchema,
+  getDatabases,
+  getProjects,
+  type Database,
+  type DatabaseSchema,
+  type Project,
+} from "../../../services/api";
+import { storeLayout } from "../../../utils/dashboardLayout";
+import { storeWidgets } from "../../../utils/dashboardWidgets";
+import type { DashboardFilterState } from "../../../utils/dashboardFilters";
+import {
+  remapTemplate,
+  resolveTemplateFilters,
+  type DashboardTemplate,
+  type TemplateMapping,
+} from "../../../utils/dashboardTemplates";
+
+interface DashboardCopyDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** 'duplicate' copies an existing dashboard, 'template' instantiates a saved template */
+  mode: 'duplicate' | 'template';
+  template: DashboardTemplate | null;
+  /** Current project; the default target */
+  projectId: string;
+  /** Called once the dashboard and its charts have been created */
+  onCreated: (result: { dashboardId: string; projectId: string; filters: DashboardFilterState }) => void;
+}
+
+// Select values that aren't connection ids / schema names
+const ORIGINAL_CONNECTIONS = "__original__";
+const KEEP_NAME = "__keep__";
+
+const findByName = <T extends { name: string }>(items: T[], name: string): T | undefined => {
+  const lower = name.toLowerCase();
+  const bare = lower.split(".").pop();
+  return items.find((item) => item.name.toLowerCase() === lower) ??
+    items.find((item) => item.name.toLowerCase().split(".").pop() === bare);
+};
+
+// Pair each source column with the same-named column of the target table
+const matchColumns = (columns: string[], target?: DatabaseSchema['tables'][number]): Record<string, string> =>
+  Object.fromEntries(
+    columns.map((column) => [column, target ? findByName(target.columns, column)?.name ?? KEEP_NAME : KEEP_NAME])
+  );
+
+export function DashboardCopyDialog({ open, onOpenChange, mode, template, projectId, onCreated }: DashboardCopyDialogProps) {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [targetProjectId, setTargetProjectId] = useState(projectId);
+  const [connectionId, setConnectionId] = useState("");
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [databases, setDatabases] = useState<Database[]>([]);
+  const [isLoadingDatabases, setIsLoadingDatabases] = useState(false);
+  const [targetSchema, setTargetSchema] = useState<DatabaseSchema | null>(null);
+  const [isLoadingSchema, setIsLoadingSchema] = useState(false);
+  const [tableMap, setTableMap] = useState<Record<string, string>>({});
+  // Source table -> source column -> target column
+  const [columnMap, setColumnMap] = useState<Record<string, Record<string, string>>>({});
+  const [isCreating, setIsCreating] = useState(false);
+
+  const isSourceProject = !!template?.sourceProjectId && targetProjectId === template.sourceProjectId;
+  const usesOriginalConnections = connectionId === ORIGINAL_CONNECTIONS;
+  const needsRemap =
+    !!template && template.tables.length > 0 && !usesOriginalConnections && !!connectionId &&
+    connectionId !== template.sourceConnectionId;
+
+  // Reset the form whenever the dialog opens
+  useEffect(() => {
+    if (!open || !template) return;
+
+    setName(mode === 'duplicate' ? `${template.name} (copy)` : template.name);
+    setDescription(template.description);
+    setTargetProjectId(projectId);
+    setTableMap({});
+    setColumnMap({});
+
+    getProjects().then((response) => {
+      if (response.success && response.data) {
+        setProjects(response.data);
+      }
+    });
+  }, [open, template, mode, projectId]);
+
+  // Connections of the target project
+  useEffect(() => {
+    if (!open || !targetProjectId) return;
+
+    let cancelled = false;
+    setIsLoadingDatabases(true);
+    getDatabases(targetProjectId).then((response) => {
+      if (cancelled) return;
+      const connections = response.success && response.data ? response.data : [];
+      setDatabases(connections);
+      setConnectionId(
+        isSourceProject
+          ? ORIGINAL_CONNECTIONS
+          : connections.find((db) => db.id === template?.sourceConnectionId)?.id ?? connections[0]?.id ?? ""
+      );
+      setIsLoadingDatabases(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, targetProjectId, isSourceProject, template?.sourceConnectionId]);
+
+  // Target schema for remapping; tables and columns with the same name are matched up front
+  useEffect(() => {
+    if (!needsRemap || !template) {
+      setTargetSchema(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoadingSchema(true);
+    getDatabaseSchema(targetProjectId, connectionId).then((response) => {
+      if (cancelled) return;
+      const schema = response.success && response.data ? response.data : null;
+      setTargetSchema(schema);
+      setIsLoadingSchema(false);
+
+      const tables: Record<string, string> = {};
+      const columns: Record<string, Record<string, string>> = {};
+      template.tables.forEach((table) => {
+        const target = schema ? findByName(schema.tables, table.name) : undefined;
+        tables[table.name] = target?.name ?? KEEP_NAME;
+        columns[table.name] = matchColumns(table.columns, target);
+      });
+      setTableMap(tables);
+      setColumnMap(columns);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [needsRemap, template, targetProjectId, connectionId]);
+
+  const getTargetTable = (sourceTable: string) =>
+    targetSchema?.tables.find((table) => table.name === tableMap[sourceTable]);
+
+  const handleTableChange = (sourceTable: string, value: string) => {
+    setTableMap((prev) => ({ ...prev, [sourceTable]: value }));
+    // Re-match the table's columns against the newly chosen table
+    const target = targetSchema?.tables.find((table) => table.name === value);
+    const columns = template?.tables.find((table) => table.name === sourceTable)?.columns || [];
+    setColumnMap((prev) => ({ ...prev, [sourceTable]: matchColumns(columns, target) }));
+  };
+
+  const mapping = useMemo<TemplateMapping>(() => {
+    if (!needsRemap) return { tables: {}, columns: {} };
+
+    const tables: Record<string, string> = {};
+    Object.entries(tableMap).forEach(([source, target]) => {
+      if (target !== KEEP_NAME && target !== source) tables[source] = target;
+    });
+    // Column renames apply query-wide; the first mapping wins if two tables share a column name
+    const columns: Record<string, string> = {};
+    Object.values(columnMap).forEach((tableColumns) => {
+      Object.entries(tableColumns).forEach(([source, target]) => {
+        if (target !== KEEP_NAME && target !== source && !columns[source]) columns[source] = target;
+      });
+    });
+    return { tables, columns };
+  }, [needsRemap, tableMap, columnMap]);
+
+  const handleCreate = async () => {
+    if (!template || !name.trim()) return;
+
+    setIsCreating(true);
+    try {
+      const remapped = remapTemplate(template, mapping);
+      const response = await createDashboardFromTemplate(targetProjectId, remapped, {
+        name: name.trim(),
+        description: description.trim(),
+        connectionId: usesOriginalConnections ? null : connectionId,
+      });
+
+      if (!response.success || !response.data) {
+        toast.error(response.error?.message || "Failed to create dashboard");
+        return;
+      }
+
+      const { dashboard, chartIds, layout, failedCharts } = response.data;
+      storeLayout(dashboard.id, layout);
+      storeWidgets(dashboard.id, remapped.widgets || []);
+
+      if (failedCharts.length > 0) {
+        toast.warning(`"${dashboard.name}" created, but ${failedCharts.length} chart${failedCharts.length === 1 ? "" : "s"} could not be copied`, {
+          description: failedCharts.join(", "),
+        });
+      } else {
+        toast.success(`Dashboard "${dashboard.name}" created with ${template.charts.length} charts`);
+      }
+
+      onOpenChange(false);
+      onCreated({
+        dashboardId: dashboard.id,
+        projectId: targetProjectId,
+        filters: resolveTemplateFilters(remapped, chartIds),
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const canCreate = !!template && !!name.trim() && !!connectionId && !isCreating && !isLoadingDatabases && !isLoadingSchema;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isCreating && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{mode === 'duplicate' ? "Duplicate Dashboard" : "Use Template"}</DialogTitle>
+          <DialogDescription>
+            {template
+              ? `${template.charts.length} chart${template.charts.length === 1 ? "" : "s"} with their layout and filters will be copied.`
+              : ""}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 overflow-y-auto pr-2" style={{ maxHeight: "60vh" }}>
+          <div className="space-y-2">
+            <Label htmlFor="dashboard-copy-name">Name</Label>
+            <Input
+              id="dashboard-copy-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="border-border"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="dashboard-copy-description">Description</Label>
+            <Input
+              id="dashboard-copy-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="border-border"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Project</Label>
+            <Select value={targetProjectId} onValueChange={setTargetProjectId}>
+              <SelectTrigger className="border-border">
+                <SelectValue placeholder="Select a project" />
+              </SelectTrigger>
+              <SelectContent>
+                {(projects.length > 0 ? projects : [{ id: projectId, name: "Current project" }]).map((project) => (
+                  <SelectItem key={project.id} value={String(project.id)}>
+                    {project.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Database connection</Label>
+            <Select value={connectionId} onValueChange={setConnectionId} disabled={isLoadingDatabases}>
+              <SelectTrigger className="border-border">
+                <SelectValue placeholder={isLoadingDatabases ? "Loading connections..." : "Select a connection"} />
+              </SelectTrigger>
+              <SelectContent>
+                {isSourceProject && (
+                  <SelectItem value={ORIGINAL_CONNECTIONS}>Same as the original charts</SelectItem>
+                )}
+                {databases.map((db) => (
+                  <SelectItem key={db.id} value={db.id}>
+                    {db.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {!isLoadingDatabases && databases.length === 0 && (
+              <p className="text-xs text-muted-foreground">This project has no database connections yet.</p>
+            )}
+          </div>
+
+          {needsRemap && template && (
+            <div className="space-y-3">
+              <div>
+                <Label>Map tables and columns</Label>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Queries are rewritten to use the selected names. Review the charts after creating the dashboard.
+                </p>
+              </div>
+              {isLoadingSchema ? (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Loading schema...
+                </div>
+              ) : (
+                template.tables.map((table) => {
+                  const targetTable = getTargetTable(table.name);
+                  return (
+                    <div key={table.name} className="border border-border rounded-lg p-3 space-y-2">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm text-foreground font-mono flex-1 min-w-0 truncate" title={table.name}>
+                          {table.name}
+                        </span>
+                        <ArrowRight className="w-3.5 h-3.5 text-muted-foreground flex-shrink-0" />
+                        <Select value={tableMap[table.name] ?? KEEP_NAME} onValueChange={(value) => handleTableChange(table.name, value)}>
+                          <SelectTrigger className="h-8 flex-1 min-w-0 border-border">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={KEEP_NAME}>Keep as is</SelectItem>
+                            {(targetSchema?.tables || []).map((candidate) => (
+                              <SelectItem key={candidate.name} value={candidate.name}>
+                                {candidate.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {targetTable && table.columns.map((column) => (
+                        <div key={column} className="flex items-center gap-2 pl-4">
+                          <span className="text-xs text-muted-foreground font-mono flex-1 min-w-0 truncate" title={column}>
+                            {column}
+                          </span>
+                          <ArrowRight className="w-3 h-3 text-muted-foreground flex-shrink-0" />
+                          <Select
+                            value={columnMap[table.name]?.[column] ?? KEEP_NAME}
+                            onValueChange={(value) =>
+                              setColumnMap((prev) => ({ ...prev, [table.name]: { ...prev[table.name], [column]: value } }))
+                            }
+                          >
+                            <SelectTrigger className="h-8 flex-1 min-w-0 border-border text-xs">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={KEEP_NAME}>Keep as is</SelectItem>
+                              {targetTable.columns.map((candidate) => (
+                                <SelectItem key={candidate.name} value={candidate.name}>
+                                  {candidate.name}
+                                </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                      ))}
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isCreating}>
+            Cancel
+          </Button>
+          <GradientButton onClick={handleCreate} disabled={!canCreate}>
+            {isCreating ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : mode === 'duplicate' ? (
+              <Copy className="w-4 h-4 mr-2" />
+            ) : (
+              <LayoutTemplate className="w-4 h-4 mr-2" />
+            )}
+            {mode === 'duplicate' ? "Duplicate" : "Create Dashboard"}
+          </GradientButton>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
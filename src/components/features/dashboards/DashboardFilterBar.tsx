@@ -0,0 +1,178 @@
+/**
+ * DashboardFilterBar Component
+ *
+ * Dashboard-level filter controls: a global date range that applies to every
+ * time-based chart, and column-value filters built from the categorical
+ * columns of the loaded charts. Active filters are listed as removable chips.
+ *
+ * @example
+ * <DashboardFilterBar
+ *   filters={dashboardFilters}
+ *   filterOptions={filterOptions}
+ *   onChange={handleFiltersChange}
+ * />
+ */
+
+import { Calendar as CalendarIcon, Filter, X } from "lucide-react";
+import DatePicker from "react-datepicker";
+import "react-datepicker/dist/react-datepicker.css";
+import { Button } from "../../ui/button";
+import { Badge } from "../../ui/badge";
+import { Checkbox } from "../../ui/checkbox";
+import { Label } from "../../ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "../../ui/popover";
+import {
+  countActiveFilters,
+  type DashboardFilterState,
+  type FilterOption,
+} from "../../../utils/dashboardFilters";
+
+interface DashboardFilterBarProps {
+  /** Current filter state */
+  filters: DashboardFilterState;
+  /** Columns (and their values) that can be filtered on */
+  filterOptions: FilterOption[];
+  /** Called with the next filter state */
+  onChange: (filters: DashboardFilterState) => void;
+}
+
+const formatRangeDate = (date: Date) =>
+  date.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+
+export function DashboardFilterBar({ filters, filterOptions, onChange }: DashboardFilterBarProps) {
+  const { startDate, endDate } = filters.dateRange;
+  const activeColumnFilters = Object.entries(filters.columnFilters).filter(([, values]) => values.length > 0);
+  const activeCount = countActiveFilters(filters);
+
+  const setColumnValues = (column: string, values: string[]) => {
+    const columnFilters = { ...filters.columnFilters };
+    if (values.length > 0) {
+      columnFilters[column] = values;
+    } else {
+      delete columnFilters[column];
+    }
+    onChange({ ...filters, columnFilters });
+  };
+
+  const toggleValue = (column: string, value: string) => {
+    const current = filters.columnFilters[column] || [];
+    setColumnValues(
+      column,
+      current.includes(value) ? current.filter((v) => v !== value) : [...current, value]
+    );
+  };
+
+  const clearAll = () => {
+    onChange({ ...filters, dateRange: { startDate: null, endDate: null }, columnFilters: {} });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 mb-6">
+      <DatePicker
+        selectsRange
+        startDate={startDate}
+        endDate={endDate}
+        onChange={(dates) => {
+          const [start, end] = dates as [Date | null, Date | null];
+          onChange({ ...filters, dateRange: { startDate: start, endDate: end } });
+        }}
+        dateFormat="MMM d, yyyy"
+        showPopperArrow={false}
+        popperPlacement="bottom-start"
+        customInput={
+          <Button variant="outline" size="sm" type="button" className="h-9 border-border inline-flex items-center gap-2">
+            <CalendarIcon className="w-4 h-4" />
+            <span className="text-sm whitespace-nowrap">
+              {startDate && endDate
+                ? `${formatRangeDate(startDate)} - ${formatRangeDate(endDate)}`
+                : startDate
+                  ? `${formatRangeDate(startDate)} - End date`
+                  : "All dates"}
+            </span>
+          </Button>
+        }
+      />
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-9 border-border"
+            disabled={filterOptions.length === 0 && activeColumnFilters.length === 0}
+            title={filterOptions.length === 0 ? "No filterable columns in the loaded charts" : undefined}
+          >
+            <Filter className="w-4 h-4 mr-2" />
+            Filters
+            {activeColumnFilters.length > 0 && (
+              <Badge variant="secondary" className="ml-2 h-5 px-1.5">
+                {activeColumnFilters.length}
+              </Badge>
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-72 p-0">
+          <div className="overflow-y-auto p-3 space-y-4" style={{ maxHeight: 384 }}>
+            {filterOptions.map(({ column, values }) => {
+              const selected = filters.columnFilters[column] || [];
+              return (
+                <div key={column}>
+                  <div className="flex items-center justify-between mb-2">
+                    <p className="text-sm text-foreground">{column}</p>
+                    {selected.length > 0 && (
+                      <button
+                        type="button"
+                        onClick={() => setColumnValues(column, [])}
+                        className="text-xs text-muted-foreground hover:text-foreground"
+                      >
+                        Clear
+                      </button>
+                    )}
+                  </div>
+                  <div className="space-y-2">
+                    {values.map((value) => {
+                      const id = `dashboard-filter-${column}-${value}`;
+                      return (
+                        <div key={value} className="flex items-center gap-2">
+                          <Checkbox
+                            id={id}
+                            checked={selected.includes(value)}
+                            onCheckedChange={() => toggleValue(column, value)}
+                          />
+                          <Label htmlFor={id} className="text-sm text-muted-foreground cursor-pointer truncate">
+                            {value}
+                          </Label>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      {activeColumnFilters.map(([column, values]) => (
+        <Badge key={column} variant="outline" className="h-7 gap-1.5 px-2 border-primary/30 bg-primary/10 text-foreground">
+          <span className="text-muted-foreground">{column}:</span>
+          <span className="truncate" style={{ maxWidth: 192 }}>{values.join(", ")}</span>
+          <button
+            type="button"
+            onClick={() => setColumnValues(column, [])}
+            className="w-5 h-5 flex items-center justify-center rounded hover:bg-primary/20"
+            aria-label={`Remove ${column} filter`}
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </Badge>
+      ))}
+
+      {activeCount > 0 && (
+        <Button variant="ghost" size="sm" className="h-9 text-muted-foreground" onClick={clearAll}>
+          Clear all
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+/**
+ * DashboardGrid Component
+ *
+ * Lays dashboard charts out on a 12-column grid. Layouts are authored at the
+ * large breakpoint and derived for narrower containers. In edit mode each item
+ * gets a drag handle and a resize corner; the new layout is reported once the
+ * pointer is released so the parent can record it for undo and saving.
+ *
+ * @example
+ * <DashboardGrid
+ *   layout={layout}
+ *   isEditing={isEditingLayout}
+ *   onLayoutChange={handleLayoutChange}
+ *   renderItem={(chartId, { height }) => <MyChart id={chartId} height={height} />}
+ * />
+ */
+
+import { useEffect, useRef, useState, type CSSProperties, type ReactNode, type PointerEvent as ReactPointerEvent } from "react";
+import { GripVertical, MoveDiagonal2 } from "lucide-react";
+import type { DashboardLayoutItem } from "../../../services/api";
+import {
+  GRID_COLUMNS,
+  GRID_GAP,
+  GRID_ROW_HEIGHT,
+  getBreakpoint,
+  getBreakpointLayout,
+  getItemHeight,
+  isSameLayout,
+  moveItem,
+  resizeItem,
+  type LayoutBreakpoint,
+} from "../../../utils/dashboardLayout";
+
+interface DashboardGridProps {
+  /** Layout authored for the large (12-column) breakpoint */
+  layout: DashboardLayoutItem[];
+  /** Whether items can be dragged and resized */
+  isEditing?: boolean;
+  /** Called with the new large-breakpoint layout after each drag or resize */
+  onLayoutChange?: (layout: DashboardLayoutItem[]) => void;
+  /** Called when the container crosses a breakpoint */
+  onBreakpointChange?: (breakpoint: LayoutBreakpoint) => void;
+  /** Row height in pixels (defaults to GRID_ROW_HEIGHT); kiosk mode stretches rows to fill the screen */
+  rowHeight?: number;
+  /** Smallest size an item can be resized to (defaults to MIN_ITEM_SIZE) */
+  getMinSize?: (chartId: string) => { w: number; h: number } | undefined;
+  /** Renders the content of one grid item */
+  renderItem: (chartId: string, size: { height: number }) => ReactNode;
+}
+
+interface Interaction {
+  mode: 'move' | 'resize';
+  chartId: string;
+  startX: number;
+  startY: number;
+  origin: DashboardLayoutItem;
+  startLayout: DashboardLayoutItem[];
+}
+
+// Handles sit above the chart card; the dragged item above its neighbours
+const HANDLE_STYLE: CSSProperties = { zIndex: 20 };
+const EDITABLE_ITEM_STYLE: CSSProperties = { outline: '2px solid color-mix(in oklab, var(--primary) 30%, transparent)' };
+const ACTIVE_ITEM_STYLE: CSSProperties = { zIndex: 20, opacity: 0.9 };
+
+export function DashboardGrid({
+  layout,
+  isEditing = false,
+  onLayoutChange,
+  onBreakpointChange,
+  rowHeight = GRID_ROW_HEIGHT,
+  getMinSize,
+  renderItem,
+}: DashboardGridProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const interactionRef = useRef<Interaction | null>(null);
+  const [containerWidth, setContainerWidth] = useState(0);
+  const [previewLayout, setPreviewLayout] = useState<DashboardLayoutItem[] | null>(null);
+  const [activeChartId, setActiveChartId] = useState<string | null>(null);
+
+  // Track container width to pick the breakpoint and size grid cells
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+
+    setContainerWidth(element.clientWidth);
+    const observer = new ResizeObserver((entries) => {
+      setContainerWidth(entries[0].contentRect.width);
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const breakpoint = getBreakpoint(containerWidth);
+  const columns = GRID_COLUMNS[breakpoint];
+  const canEdit = isEditing && breakpoint === 'lg';
+
+  useEffect(() => {
+    onBreakpointChange?.(breakpoint);
+  }, [breakpoint, onBreakpointChange]);
+
+  const displayedLayout = getBreakpointLayout(previewLayout ?? layout, breakpoint);
+
+  const handlePointerDown = (mode: Interaction['mode'], item: DashboardLayoutItem) => (event: ReactPointerEvent<HTMLElement>) => {
+    if (!canEdit || event.button !== 0) return;
+    event.preventDefault();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    interactionRef.current = {
+      mode,
+      chartId: item.chartId,
+      startX: event.clientX,
+      startY: event.clientY,
+      origin: item,
+      startLayout: layout,
+    };
+    setActiveChartId(item.chartId);
+  };
+
+  const handlePointerMove = (event: ReactPointerEvent<HTMLElement>) => {
+    const interaction = interactionRef.current;
+    if (!interaction) return;
+
+    const columnWidth = (containerWidth - GRID_GAP * (columns - 1)) / columns;
+    const deltaColumns = Math.round((event.clientX - interaction.startX) / (columnWidth + GRID_GAP));
+    const deltaRows = Math.round((event.clientY - interaction.startY) / (rowHeight + GRID_GAP));
+    const { origin, startLayout, chartId } = interaction;
+
+    const next = interaction.mode === 'move'
+      ? moveItem(startLayout, chartId, origin.x + deltaColumns, origin.y + deltaRows)
+      : resizeItem(startLayout, chartId, origin.w + deltaColumns, origin.h + deltaRows, getMinSize?.(chartId));
+
+    setPreviewLayout((current) => (current && isSameLayout(current, next) ? current : next));
+  };
+
+  const handlePointerUp = (event: ReactPointerEvent<HTMLElement>) => {
+    const interaction = interactionRef.current;
+    if (!interaction) return;
+
+    event.currentTarget.releasePointerCapture(event.pointerId);
+    interactionRef.current = null;
+    setActiveChartId(null);
+
+    if (previewLayout && !isSameLayout(previewLayout, interaction.startLayout)) {
+      onLayoutChange?.(previewLayout);
+    }
+    setPreviewLayout(null);
+  };
+
+  const pointerHandlers = {
+    onPointerMove: handlePointerMove,
+    onPointerUp: handlePointerUp,
+    onPointerCancel: handlePointerUp,
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="grid"
+      style={{
+        gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+        gridAutoRows: `${rowHeight}px`,
+        gap: `${GRID_GAP}px`,
+      }}
+    >
+      {displayedLayout.map((item) => {
+        const sourceItem = layout.find((candidate) => candidate.chartId === item.chartId) ?? item;
+        const isActive = activeChartId === item.chartId;
+
+        return (
+          <div
+            key={item.chartId}
+            className={`relative min-w-0 ${canEdit ? 'rounded-xl' : ''} ${isActive ? 'shadow-2xl' : ''}`}
+            style={{
+              gridColumn: `${item.x + 1} / span ${item.w}`,
+              gridRow: `${item.y + 1} / span ${item.h}`,
+              ...(canEdit ? EDITABLE_ITEM_STYLE : {}),
+              ...(isActive ? ACTIVE_ITEM_STYLE : {}),
+            }}
+          >
+            {renderItem(item.chartId, { height: getItemHeight(item.h, rowHeight) })}
+
+            {canEdit && (
+              <>
+                <button
+                  type="button"
+                  aria-label="Drag to move chart"
+                  title="Drag to move"
+                  className="absolute top-3 left-3 w-8 h-8 rounded-md border border-border bg-background flex items-center justify-center text-muted-foreground hover:text-foreground touch-none"
+                  style={{ ...HANDLE_STYLE, cursor: isActive ? 'grabbing' : 'grab' }}
+                  onPointerDown={handlePointerDown('move', sourceItem)}
+                  {...pointerHandlers}
+                >
+                  <GripVertical className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  aria-label="Drag to resize chart"
+                  title="Drag to resize"
+                  className="absolute right-2 w-6 h-6 rounded-md border border-border bg-background flex items-center justify-center text-muted-foreground hover:text-foreground touch-none"
+                  style={{ ...HANDLE_STYLE, bottom: 8, cursor: 'nwse-resize' }}
+                  onPointerDown={handlePointerDown('resize', sourceItem)}
+                  {...pointerHandlers}
+                >
+                  <MoveDiagonal2 className="w-3.5 h-3.5" />
+                </button>
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
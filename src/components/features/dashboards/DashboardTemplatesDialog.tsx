@@ -0,0 +1,118 @@
+/**
+ * DashboardTemplatesDialog Component
+ *
+ * Lists the saved dashboard templates. Picking one hands it to the caller,
+ * which opens the copy dialog to create a dashboard from it.
+ *
+ * @example
+ * <DashboardTemplatesDialog
+ *   open={isTemplatesOpen}
+ *   onOpenChange={setIsTemplatesOpen}
+ *   onUseTemplate={handleUseTemplate}
+ * />
+ */
+
+import { useEffect, useState } from "react";
+import { BarChart3, LayoutTemplate, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "../../ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "../../ui/dialog";
+import {
+  deleteDashboardTemplate,
+  loadDashboardTemplates,
+  type DashboardTemplate,
+} from "../../../utils/dashboardTemplates";
+
+interface DashboardTemplatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onUseTemplate: (template: DashboardTemplate) => void;
+}
+
+export function DashboardTemplatesDialog({ open, onOpenChange, onUseTemplate }: DashboardTemplatesDialogProps) {
+  const [templates, setTemplates] = useState<DashboardTemplate[]>([]);
+
+  useEffect(() => {
+    if (open) {
+      setTemplates(loadDashboardTemplates());
+    }
+  }, [open]);
+
+  const handleDelete = (template: DashboardTemplate) => {
+    deleteDashboardTemplate(template.id);
+    setTemplates(loadDashboardTemplates());
+    toast.success(`Template "${template.name}" deleted`);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Dashboard Templates</DialogTitle>
+          <DialogDescription>
+            Start a new dashboard from a saved template. Templates can be used in any project.
+          </DialogDescription>
+        </DialogHeader>
+
+        {templates.length === 0 ? (
+          <div className="flex flex-col items-center text-center gap-3 py-10">
+            <div className="w-12 h-12 rounded-full bg-muted flex items-center justify-center">
+              <LayoutTemplate className="w-6 h-6 text-muted-foreground" />
+            </div>
+            <p className="text-sm text-muted-foreground max-w-xs">
+              No templates yet. Open a dashboard and choose "Save as template" to create one.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-2 overflow-y-auto pr-2" style={{ maxHeight: "60vh" }}>
+            {templates.map((template) => (
+              <div
+                key={template.id}
+                className="border border-border rounded-lg p-4 flex items-start gap-3 group hover:border-primary/30 transition-colors"
+              >
+                <div className="flex-1 min-w-0">
+                  <h4 className="text-sm text-foreground truncate">{template.name}</h4>
+                  {template.description && (
+                    <p className="text-xs text-muted-foreground line-clamp-2 mt-0.5">{template.description}</p>
+                  )}
+                  <div className="flex items-center gap-1.5 text-xs text-muted-foreground mt-3">
+                    <BarChart3 className="w-3.5 h-3.5" />
+                    <span>
+                      {template.charts.length} chart{template.charts.length === 1 ? "" : "s"} · saved{" "}
+                      {new Date(template.createdAt).toLocaleDateString()}
+                    </span>
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-muted-foreground hover:text-destructive opacity-0 group-hover:opacity-100 transition-opacity"
+                    onClick={() => handleDelete(template)}
+                    title="Delete template"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="border-border"
+                    onClick={() => onUseTemplate(template)}
+                  >
+                    Use
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
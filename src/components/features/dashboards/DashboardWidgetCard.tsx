@@ -0,0 +1,283 @@
+/**
+ * DashboardWidgetCard Component
+ *
+ * Renders a non-data dashboard widget (markdown text, section header, image or
+ * link) and its inline editor. Markdown is rendered without raw HTML, and
+ * image/link URLs are limited to http(s).
+ *
+ * @example
+ * <DashboardWidgetCard
+ *   widget={widget}
+ *   isEditing={editingWidgetId === widget.id}
+ *   onEdit={() => setEditingWidgetId(widget.id)}
+ *   onSave={handleSaveWidget}
+ *   onCancel={() => setEditingWidgetId(null)}
+ *   onRemove={() => handleRemoveWidget(widget.id)}
+ * />
+ */
+
+import { useEffect, useState } from "react";
+import ReactMarkdown, { type Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { Check, Edit2, ExternalLink, ImageOff, Link2, X } from "lucide-react";
+import { Button } from "../../ui/button";
+import { Card } from "../../ui/card";
+import { Input } from "../../ui/input";
+import { Textarea } from "../../ui/textarea";
+import type { DashboardWidget } from "../../../services/api";
+import { EXPORT_IGNORE_ATTRIBUTE } from "../../../utils/dashboardExport";
+import { WIDGET_TYPE_OPTIONS, getSafeUrl, isWidgetEmpty } from "../../../utils/dashboardWidgets";
+
+interface DashboardWidgetCardProps {
+  widget: DashboardWidget;
+  /** Whether the inline editor is open */
+  isEditing?: boolean;
+  /** Hides the edit and remove actions (kiosk mode) */
+  readOnly?: boolean;
+  onEdit?: () => void;
+  onSave?: (widget: DashboardWidget) => void;
+  onCancel?: () => void;
+  onRemove?: () => void;
+}
+
+const markdownComponents: Components = {
+  h1: ({ children }) => <h2 className="text-2xl text-foreground mb-3">{children}</h2>,
+  h2: ({ children }) => <h3 className="text-xl text-foreground mb-3">{children}</h3>,
+  h3: ({ children }) => <h4 className="text-lg text-foreground mb-2">{children}</h4>,
+  p: ({ children }) => <p className="text-sm text-foreground mb-3">{children}</p>,
+  ul: ({ children }) => <ul style={{ listStyleType: "disc" }} className="pl-5 mb-3 space-y-0.5 text-sm text-foreground">{children}</ul>,
+  ol: ({ children }) => <ol style={{ listStyleType: "decimal" }} className="pl-5 mb-3 space-y-0.5 text-sm text-foreground">{children}</ol>,
+  a: ({ href, children }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer" className="text-primary underline">
+      {children}
+    </a>
+  ),
+  blockquote: ({ children }) => (
+    <blockquote className="border-l-2 border-border pl-4 text-muted-foreground mb-3">{children}</blockquote>
+  ),
+  code: ({ children }) => <code className="font-mono text-xs bg-muted rounded px-1.5 py-0.5">{children}</code>,
+  hr: () => <hr className="border-border my-2" />,
+  table: ({ children }) => <table className="w-full text-sm mb-3">{children}</table>,
+  th: ({ children }) => <th className="text-left border-b border-border px-2 py-1 text-muted-foreground">{children}</th>,
+  td: ({ children }) => <td className="border-b border-border px-2 py-1 text-foreground">{children}</td>,
+};
+
+export function DashboardWidgetCard({
+  widget,
+  isEditing = false,
+  readOnly = false,
+  onEdit,
+  onSave,
+  onCancel,
+  onRemove,
+}: DashboardWidgetCardProps) {
+  const [draft, setDraft] = useState<DashboardWidget>(widget);
+  const [imageFailed, setImageFailed] = useState(false);
+
+  useEffect(() => {
+    if (isEditing) {
+      setDraft(widget);
+    }
+  }, [isEditing, widget]);
+
+  useEffect(() => {
+    setImageFailed(false);
+  }, [widget.url]);
+
+  const typeLabel = WIDGET_TYPE_OPTIONS.find((option) => option.value === widget.type)?.label ?? "Widget";
+  const isHeader = widget.type === 'header';
+  const updateDraft = (changes: Partial<DashboardWidget>) => setDraft((current) => ({ ...current, ...changes }));
+  const hasInvalidUrl = (draft.type === 'image' || draft.type === 'link') && !!draft.url?.trim() && !getSafeUrl(draft.url);
+
+  const renderEditor = () => (
+    <div className={`h-full ${draft.type === 'header' ? 'flex items-center gap-3' : 'flex flex-col gap-3'}`}>
+      {draft.type === 'markdown' && (
+        <>
+          <Textarea
+            value={draft.text}
+            onChange={(e) => updateDraft({ text: e.target.value })}
+            placeholder={"## Heading\nWrite notes with **markdown**: lists, links and tables."}
+            className="flex-1 min-h-0 resize-none font-mono text-sm border-border"
+            autoFocus
+          />
+          <p className="text-xs text-muted-foreground">Markdown is supported.</p>
+        </>
+      )}
+
+      {draft.type === 'header' && (
+        <div className="flex-1 grid grid-cols-2 gap-3">
+          <Input
+            value={draft.text}
+            onChange={(e) => updateDraft({ text: e.target.value })}
+            placeholder="Section title"
+            className="border-border"
+            autoFocus
+          />
+          <Input
+            value={draft.caption || ""}
+            onChange={(e) => updateDraft({ caption: e.target.value })}
+            placeholder="Subtitle (optional)"
+            className="border-border"
+          />
+        </div>
+      )}
+
+      {(draft.type === 'image' || draft.type === 'link') && (
+        <div className="flex-1 min-h-0 space-y-3 overflow-y-auto">
+          <Input
+            value={draft.url || ""}
+            onChange={(e) => updateDraft({ url: e.target.value })}
+            placeholder={draft.type === 'image' ? "Image URL (https://...)" : "Link URL (https://...)"}
+            aria-label={draft.type === 'image' ? "Image URL" : "Link URL"}
+            className="border-border"
+            aria-invalid={hasInvalidUrl}
+            title={hasInvalidUrl ? "Use an http:// or https:// URL" : undefined}
+            autoFocus
+          />
+          {draft.type === 'link' && (
+            <Input
+              value={draft.text}
+              onChange={(e) => updateDraft({ text: e.target.value })}
+              placeholder="Label"
+              aria-label="Label"
+              className="border-border"
+            />
+          )}
+          <Input
+            value={draft.caption || ""}
+            onChange={(e) => updateDraft({ caption: e.target.value })}
+            placeholder={draft.type === 'image' ? "Caption (optional)" : "Description (optional)"}
+            aria-label={draft.type === 'image' ? "Caption" : "Description"}
+            className="border-border"
+          />
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-2 flex-shrink-0">
+        <Button variant="outline" size="sm" onClick={onCancel} className="border-border">
+          Cancel
+        </Button>
+        <Button size="sm" onClick={() => onSave?.(draft)} disabled={hasInvalidUrl}>
+          <Check className="w-4 h-4 mr-1" />
+          Done
+        </Button>
+      </div>
+    </div>
+  );
+
+  const renderContent = () => {
+    if (isWidgetEmpty(widget)) {
+      return (
+        <button
+          type="button"
+          onClick={onEdit}
+          disabled={readOnly}
+          className="w-full h-full flex items-center justify-center rounded-lg border border-dashed border-border text-sm text-muted-foreground hover:bg-muted/50 transition-colors"
+        >
+          {readOnly ? `Empty ${typeLabel.toLowerCase()}` : `Click to add ${typeLabel.toLowerCase()}`}
+        </button>
+      );
+    }
+
+    const url = getSafeUrl(widget.url);
+
+    switch (widget.type) {
+      case 'header':
+        return (
+          <div className="h-full flex flex-col justify-end border-b border-border pb-2">
+            <h3 className="text-xl text-foreground truncate">{widget.text}</h3>
+            {widget.caption && <p className="text-sm text-muted-foreground truncate">{widget.caption}</p>}
+          </div>
+        );
+
+      case 'image':
+        return (
+          <figure className="h-full flex flex-col gap-2">
+            {imageFailed ? (
+              <div className="flex-1 min-h-0 flex flex-col items-center justify-center gap-2 text-muted-foreground">
+                <ImageOff className="w-6 h-6" />
+                <span className="text-sm">Image could not be loaded</span>
+              </div>
+            ) : (
+              <img
+                src={url!}
+                alt={widget.caption || ""}
+                onError={() => setImageFailed(true)}
+                className="flex-1 min-h-0 w-full"
+                style={{ objectFit: "contain" }}
+              />
+            )}
+            {widget.caption && (
+              <figcaption className="text-xs text-muted-foreground text-center truncate">{widget.caption}</figcaption>
+            )}
+          </figure>
+        );
+
+      case 'link':
+        return (
+          <a
+            href={url!}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="h-full flex items-center gap-3 rounded-lg hover:bg-muted/50 transition-colors"
+          >
+            <div className="w-10 h-10 rounded-lg bg-primary/10 text-primary flex items-center justify-center flex-shrink-0">
+              <Link2 className="w-5 h-5" />
+            </div>
+            <div className="min-w-0 flex-1">
+              <p className="text-sm text-foreground truncate">{widget.text || url}</p>
+              <p className="text-xs text-muted-foreground truncate">{widget.caption || new URL(url!, window.location.origin).host}</p>
+            </div>
+            <ExternalLink className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+          </a>
+        );
+
+      default:
+        return (
+          <div className="h-full overflow-y-auto">
+            <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>
+              {widget.text}
+            </ReactMarkdown>
+          </div>
+        );
+    }
+  };
+
+  return (
+    <Card
+      className={`relative group h-full overflow-hidden ${
+        isHeader ? (isEditing ? 'p-4 border border-border' : 'border-0 bg-transparent px-2') : 'p-6 border border-border'
+      }`}
+      style={isHeader && !isEditing ? { boxShadow: 'none' } : undefined}
+      data-dashboard-chart={widget.id}
+    >
+      {!readOnly && !isEditing && (
+        <div
+          {...{ [EXPORT_IGNORE_ATTRIBUTE]: true }}
+          className="absolute top-3 right-3 flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity z-10"
+        >
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-8 w-8 border-border hover:bg-muted"
+            onClick={onEdit}
+            title={`Edit ${typeLabel.toLowerCase()}`}
+          >
+            <Edit2 className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-8 w-8 border-border hover:bg-destructive/10 hover:text-destructive"
+            onClick={onRemove}
+            title={`Remove ${typeLabel.toLowerCase()}`}
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+
+      {isEditing ? renderEditor() : renderContent()}
+    </Card>
+  );
+}
@@ -0,0 +1,160 @@
+/**
+ * KioskSetupDialog Component
+ *
+ * Starts presentation (TV) mode for a dashboard. Other dashboards in the
+ * project can be added to a rotation that cycles on a timer.
+ *
+ * @example
+ * <KioskSetupDialog
+ *   open={isKioskDialogOpen}
+ *   onOpenChange={setIsKioskDialogOpen}
+ *   dashboardId={dashboardId}
+ *   dashboards={projectDashboards}
+ *   onStart={onEnterKiosk}
+ * />
+ */
+
+import { useEffect, useState } from "react";
+import { Tv } from "lucide-react";
+import { Button } from "../../ui/button";
+import { Checkbox } from "../../ui/checkbox";
+import { Label } from "../../ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "../../ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../ui/select";
+import { GradientButton } from "../../shared/GradientButton";
+import { REFRESH_INTERVAL_OPTIONS } from "../../../utils/dashboardRefresh";
+import {
+  DEFAULT_KIOSK_REFRESH_INTERVAL,
+  DEFAULT_KIOSK_ROTATION_SECONDS,
+  KIOSK_ROTATION_OPTIONS,
+  type KioskSettings,
+} from "../../../utils/kiosk";
+
+interface KioskSetupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Dashboard being presented; always first in the rotation */
+  dashboardId: string;
+  /** Dashboards in the project that can join the rotation */
+  dashboards: Array<{ id: string; name: string }>;
+  onStart: (settings: Omit<KioskSettings, 'enabled'>) => void;
+}
+
+const formatSeconds = (seconds: number) =>
+  seconds < 60 ? `${seconds} seconds` : `${seconds / 60} minute${seconds === 60 ? '' : 's'}`;
+
+export function KioskSetupDialog({ open, onOpenChange, dashboardId, dashboards, onStart }: KioskSetupDialogProps) {
+  const [rotationIds, setRotationIds] = useState<string[]>([]);
+  const [rotationSeconds, setRotationSeconds] = useState(DEFAULT_KIOSK_ROTATION_SECONDS);
+  const [refreshInterval, setRefreshInterval] = useState(DEFAULT_KIOSK_REFRESH_INTERVAL);
+
+  useEffect(() => {
+    if (open) {
+      setRotationIds([]);
+    }
+  }, [open]);
+
+  const otherDashboards = dashboards.filter((dashboard) => dashboard.id !== dashboardId);
+
+  const toggleDashboard = (id: string) => {
+    setRotationIds((prev) => (prev.includes(id) ? prev.filter((value) => value !== id) : [...prev, id]));
+  };
+
+  const handleStart = () => {
+    onStart({
+      rotation: rotationIds.length > 0 ? [dashboardId, ...rotationIds] : [],
+      rotationSeconds,
+      refreshInterval,
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Present Dashboard</DialogTitle>
+          <DialogDescription>
+            Show this dashboard full screen for wall displays. Data refreshes automatically.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label>Refresh data</Label>
+            <Select value={String(refreshInterval)} onValueChange={(value) => setRefreshInterval(Number(value))}>
+              <SelectTrigger className="border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {REFRESH_INTERVAL_OPTIONS.filter((option) => option.value > 0).map((option) => (
+                  <SelectItem key={option.value} value={String(option.value)}>
+                    Every {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {otherDashboards.length > 0 && (
+            <div className="space-y-2">
+              <Label>Rotate through other dashboards</Label>
+              <div className="border border-border rounded-lg p-3 space-y-2 overflow-y-auto" style={{ maxHeight: 200 }}>
+                {otherDashboards.map((dashboard) => {
+                  const id = `kiosk-dashboard-${dashboard.id}`;
+                  return (
+                    <div key={dashboard.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={id}
+                        checked={rotationIds.includes(dashboard.id)}
+                        onCheckedChange={() => toggleDashboard(dashboard.id)}
+                      />
+                      <Label htmlFor={id} className="text-sm text-muted-foreground cursor-pointer">
+                        {dashboard.name}
+                      </Label>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {rotationIds.length > 0 && (
+            <div className="space-y-2">
+              <Label>Show each dashboard for</Label>
+              <Select value={String(rotationSeconds)} onValueChange={(value) => setRotationSeconds(Number(value))}>
+                <SelectTrigger className="border-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {KIOSK_ROTATION_OPTIONS.map((seconds) => (
+                    <SelectItem key={seconds} value={String(seconds)}>
+                      {formatSeconds(seconds)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <GradientButton onClick={handleStart}>
+            <Tv className="w-4 h-4 mr-2" />
+            Start Presenting
+          </GradientButton>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,105 @@
+/**
+ * SaveTemplateDialog Component
+ *
+ * Names a dashboard template before it is saved. The caller builds and stores
+ * the template itself.
+ *
+ * @example
+ * <SaveTemplateDialog
+ *   open={isSaveTemplateOpen}
+ *   onOpenChange={setIsSaveTemplateOpen}
+ *   defaultName={dashboardName}
+ *   onSave={handleSaveTemplate}
+ * />
+ */
+
+import { useEffect, useState } from "react";
+import { LayoutTemplate, Loader2 } from "lucide-react";
+import { Button } from "../../ui/button";
+import { Input } from "../../ui/input";
+import { Label } from "../../ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "../../ui/dialog";
+import { GradientButton } from "../../shared/GradientButton";
+
+interface SaveTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  defaultName: string;
+  onSave: (details: { name: string; description: string }) => Promise<void>;
+}
+
+export function SaveTemplateDialog({ open, onOpenChange, defaultName, onSave }: SaveTemplateDialogProps) {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setName(`${defaultName} template`);
+      setDescription("");
+    }
+  }, [open, defaultName]);
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    setIsSaving(true);
+    try {
+      await onSave({ name: name.trim(), description: description.trim() });
+      onOpenChange(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isSaving && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Save as Template</DialogTitle>
+          <DialogDescription>
+            Charts, layout and filters are saved so new dashboards can be created from them, even against another database.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="template-name">Template name</Label>
+            <Input
+              id="template-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="border-border"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-description">Description</Label>
+            <Input
+              id="template-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What is this template for?"
+              className="border-border"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <GradientButton onClick={handleSave} disabled={!name.trim() || isSaving}>
+            {isSaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <LayoutTemplate className="w-4 h-4 mr-2" />}
+            Save Template
+          </GradientButton>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,5 @@
 import { useEffect, useRef, useState } from "react";
-import { Database as DatabaseIcon, ArrowRight, Check, Sparkles, Loader2 } from "lucide-react";
+import { Database as DatabaseIcon, ArrowRight, Check, Sparkles, Loader2, Activity, AlertTriangle, CheckCircle2 } from "lucide-react";
 import { Button } from "../../ui/button";
 import { Card } from "../../ui/card";
 import { Input } from "../../ui/input";
@@ -9,7 +9,16 @@ import { Checkbox } from "../../ui/checkbox";
 import { Textarea } from "../../ui/textarea";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "../../ui/tabs";
 import { toast } from "sonner";
-import { createDatabase, getDatabases, type Database as DatabaseConnection, API_BASE_URL } from "../../../services/api";
+import {
+  createDatabase,
+  getDatabases,
+  testDatabaseConnection,
+  type Database as DatabaseConnection,
+  type DatabaseConnectionInput,
+  type ConnectionFailureReason,
+  type ConnectionTestResult,
+  API_BASE_URL,
+} from "../../../services/api";
 import { Progress } from "../../ui/progress";
 
 interface DatabaseSetupGuidedProps {
@@ -18,10 +27,36 @@ interface DatabaseSetupGuidedProps {
   onComplete: (dbConfig: any) => void;
 }
 
+const FAILURE_REASON_COPY: Record<ConnectionFailureReason, { label: string; hint: string }> = {
+  dns: {
+    label: "Host not found",
+    hint: "The hostname could not be resolved. Check the host for typos and make sure it is reachable from VizAI.",
+  },
+  auth: {
+    label: "Authentication failed",
+    hint: "The database rejected the username or password.",
+  },
+  ssl: {
+    label: "SSL/TLS error",
+    hint: "The secure handshake failed. Check whether the server requires SSL and that its certificate is valid.",
+  },
+  timeout: {
+    label: "Connection timed out",
+    hint: "The server did not respond. Check the port and that your firewall allows connections from VizAI.",
+  },
+  permission: {
+    label: "Insufficient permissions",
+    hint: "The user connected but lacks access to the database. Grant it read access to the schemas you want to analyze.",
+  },
+};
+
 export function DatabaseSetupGuided({ projectName, projectId, onComplete }: DatabaseSetupGuidedProps) {
   const PROGRESS_OVERLAY_ENABLED = false;
   const [connectionMethod, setConnectionMethod] = useState("form");
   const [isConnecting, setIsConnecting] = useState(false);
+  const [isTesting, setIsTesting] = useState(false);
+  // Result of the last connection test; `error` is set when the test itself could not run
+  const [testResult, setTestResult] = useState<{ result?: ConnectionTestResult; error?: string } | null>(null);
   
   // Connection String
   const [connectionString, setConnectionString] = useState("");
@@ -256,10 +291,15 @@ export function DatabaseSetupGuided({ projectName, projectId, onComplete }: Data
     };
   }, []);
 
-  const handleComplete = async () => {
+  // A previous test result no longer applies once the connection details change
+  useEffect(() => {
+    setTestResult(null);
+  }, [connectionMethod, connectionString, dbType, host, port, database, username, password]);
+
+  const validateConnectionForm = (): boolean => {
     if (!projectId) {
       toast.error("Project ID is required to create a database connection");
-      return;
+      return false;
     }
 
     const normalizedConnectionName = connectionName.trim();
@@ -267,12 +307,12 @@ export function DatabaseSetupGuided({ projectName, projectId, onComplete }: Data
     if (connectionMethod === "string") {
       if (!connectionString.trim()) {
         toast.error("Please enter a connection string");
-        return;
+        return false;
       }
       
       if (!normalizedConnectionName) {
         toast.error("Please provide a connection name");
-        return;
+        return false;
       }
     } else {
       if (
@@ -282,6 +322,77 @@ export function DatabaseSetupGuided({ projectName, projectId, onComplete }: Data
         !username.trim()
       ) {
         toast.error("Please fill in all required fields");
+        return false;
+      }
+    }
+
+    return true;
+  };
+
+  const buildRequestData = (): DatabaseConnectionInput => {
+    const normalizedConnectionName = connectionName.trim();
+
+    if (connectionMethod === "string") {
+      return {
+        connectionString: connectionString.trim(),
+        connectionName: normalizedConnectionName,
+        consentGiven: true,
+      };
+    }
+
+    const portValue = port && port.trim() ? port.trim() : undefined;
+
+    return {
+      connectionName: normalizedConnectionName,
+      dbType: dbType,
+      host: host.trim(),
+      ...(portValue && { port: portValue }),
+      database: database.trim(),
+      username: username.trim(),
+      password: password || "",
+      consentGiven: true,
+    };
+  };
+
+  const runConnectionTest = async (requestData: DatabaseConnectionInput) => {
+    setIsTesting(true);
+    try {
+      const response = await testDatabaseConnection(requestData);
+      const outcome = response.success && response.data
+        ? { result: response.data }
+        : { error: response.error?.message || "Unable to test the connection" };
+      setTestResult(outcome);
+      return outcome;
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleTestConnection = async () => {
+    if (!validateConnectionForm()) return;
+    await runConnectionTest(buildRequestData());
+  };
+
+  /**
+   * Test the connection and only create it once the test passes.
+   * `skipTest` is offered when the test endpoint itself is unavailable.
+   */
+  const handleComplete = async (skipTest: boolean = false) => {
+    if (!validateConnectionForm() || !projectId) {
+      return;
+    }
+
+    const normalizedConnectionName = connectionName.trim();
+    const requestData = buildRequestData();
+
+    if (!skipTest) {
+      const outcome = await runConnectionTest(requestData);
+      if (!outcome.result?.connected) {
+        toast.error(
+          outcome.result
+            ? "Connection test failed. Fix the issue below and try again."
+            : "Couldn't verify the connection. You can retry or connect without testing."
+        );
         return;
       }
     }
@@ -293,29 +404,6 @@ export function DatabaseSetupGuided({ projectName, projectId, onComplete }: Data
     }
 
     try {
-      let requestData: any;
-      
-      if (connectionMethod === "string") {
-        requestData = {
-          connectionString: connectionString.trim(),
-          connectionName: normalizedConnectionName,
-          consentGiven: true,
-        };
-      } else {
-        const portValue = port && port.trim() ? port.trim() : undefined;
-        
-        requestData = {
-          connectionName: normalizedConnectionName,
-          dbType: dbType,
-          host: host.trim(),
-          ...(portValue && { port: portValue }),
-          database: database.trim(),
-          username: username.trim(),
-          password: password || "",
-          consentGiven: true,
-        };
-      }
-
       const response = await createDatabase(projectId, requestData);
 
       if (!response.success || !response.data) {
@@ -384,6 +472,104 @@ export function DatabaseSetupGuided({ projectName, projectId, onComplete }: Data
     }
   };
 
+  const renderTestResult = () => {
+    if (!testResult) return null;
+
+    if (testResult.error) {
+      return (
+        <div className="rounded-xl border border-warning/30 bg-warning/10 p-4 space-y-3">
+          <div className="flex items-start gap-3">
+            <AlertTriangle className="w-5 h-5 text-warning flex-shrink-0 mt-0.5" />
+            <div className="space-y-0.5">
+              <p className="text-sm text-foreground">Connection could not be verified</p>
+              <p className="text-xs text-muted-foreground">{testResult.error}</p>
+            </div>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleComplete(true)}
+            disabled={isConnecting || isTesting}
+          >
+            Connect without testing
+          </Button>
+        </div>
+      );
+    }
+
+    const result = testResult.result!;
+
+    if (result.connected) {
+      return (
+        <div className="rounded-xl border border-success/30 bg-success/10 p-4 flex items-start gap-3">
+          <CheckCircle2 className="w-5 h-5 text-success flex-shrink-0 mt-0.5" />
+          <div className="space-y-0.5">
+            <p className="text-sm text-foreground">Connection successful</p>
+            <p className="text-xs text-muted-foreground">
+              {result.latency} ms round trip{result.version ? ` · ${result.version}` : ""}
+            </p>
+          </div>
+        </div>
+      );
+    }
+
+    const failure = result.failureReason ? FAILURE_REASON_COPY[result.failureReason] : null;
+
+    return (
+      <div className="rounded-xl border border-destructive/30 bg-destructive/5 p-4 flex items-start gap-3">
+        <AlertTriangle className="w-5 h-5 text-destructive flex-shrink-0 mt-0.5" />
+        <div className="space-y-0.5 min-w-0">
+          <p className="text-sm text-foreground">{failure?.label || "Connection failed"}</p>
+          <p className="text-xs text-muted-foreground">
+            {failure?.hint || "The database rejected the connection. Check your connection details and try again."}
+          </p>
+          {result.message && (
+            <p className="text-xs font-mono text-muted-foreground">{result.message}</p>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderConnectionActions = () => (
+    <div className="pt-4 space-y-4">
+      {renderTestResult()}
+      <div className="flex gap-3">
+        <Button
+          variant="outline"
+          onClick={handleTestConnection}
+          disabled={isConnecting || isTesting}
+          className="h-14 px-6"
+        >
+          {isTesting && !isConnecting ? (
+            <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+          ) : (
+            <Activity className="w-5 h-5 mr-2" />
+          )}
+          Test Connection
+        </Button>
+        <Button
+          onClick={() => handleComplete()}
+          disabled={isConnecting || isTesting}
+          className="flex-1 h-14 bg-gradient-to-r from-primary to-accent hover:opacity-90 text-white shadow-lg hover:shadow-xl transition-all disabled:opacity-70"
+        >
+          {isConnecting ? (
+            <>
+              <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+              Connecting to database...
+            </>
+          ) : (
+            <>
+              <Check className="w-5 h-5 mr-2" />
+              Connect Database & Complete Setup
+              <ArrowRight className="w-5 h-5 ml-2" />
+            </>
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+
   return (
     <>
       {/* Progress overlay temporarily disabled */}
@@ -572,26 +758,7 @@ export function DatabaseSetupGuided({ projectName, projectId, onComplete }: Data
               </div>
             </div>
 
-            <div className="pt-4">
-              <Button
-                onClick={handleComplete}
-                disabled={isConnecting}
-                className="w-full h-14 bg-gradient-to-r from-primary to-accent hover:opacity-90 text-white shadow-lg hover:shadow-xl transition-all disabled:opacity-70"
-              >
-                {isConnecting ? (
-                  <>
-                    <Loader2 className="w-5 h-5 mr-2 animate-spin" />
-                    Connecting to database...
-                  </>
-                ) : (
-                  <>
-                    <Check className="w-5 h-5 mr-2" />
-                    Connect Database & Complete Setup
-                    <ArrowRight className="w-5 h-5 ml-2" />
-                  </>
-                )}
-              </Button>
-            </div>
+            {renderConnectionActions()}
           </TabsContent>
 
           {/* Connection String Tab */}
@@ -627,26 +794,7 @@ export function DatabaseSetupGuided({ projectName, projectId, onComplete }: Data
               </div>
             </div>
 
-            <div className="pt-4">
-              <Button
-                onClick={handleComplete}
-                disabled={isConnecting}
-                className="w-full h-14 bg-gradient-to-r from-primary to-accent hover:opacity-90 text-white shadow-lg hover:shadow-xl transition-all disabled:opacity-70"
-              >
-                {isConnecting ? (
-                  <>
-                    <Loader2 className="w-5 h-5 mr-2 animate-spin" />
-                    Connecting to database...
-                  </>
-                ) : (
-                  <>
-                    <Check className="w-5 h-5 mr-2" />
-                    Connect Database & Complete Setup
-                    <ArrowRight className="w-5 h-5 ml-2" />
-                  </>
-                )}
-              </Button>
-            </div>
+            {renderConnectionActions()}
           </TabsContent>
         </Tabs>
       </div>
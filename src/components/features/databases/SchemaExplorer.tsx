@@ -0,0 +1,310 @@
+import { useState, useEffect, useMemo, useCallback } from "react";
+import { ChevronDown, ChevronRight, Key, Loader2, Play, RefreshCw, Search, Table2 } from "lucide-react";
+import { Button } from "../../ui/button";
+import { Badge } from "../../ui/badge";
+import { Input } from "../../ui/input";
+import { ScrollArea } from "../../ui/scroll-area";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../../ui/table";
+import { EmptyState } from "../../shared/EmptyState";
+import { getDatabaseSchema, getTableSampleRows, type DatabaseSchema } from "../../../services/api";
+import { getQualifiedTableName } from "../../../utils/databaseSchema";
+
+type SchemaTable = DatabaseSchema['tables'][number];
+
+interface SampleState {
+  loading: boolean;
+  rows?: any[];
+  error?: string;
+}
+
+interface SchemaExplorerProps {
+  projectId: string;
+  database: {
+    id: string;
+    name: string;
+    type: string;
+  };
+}
+
+const SAMPLE_ROW_LIMIT = 20;
+
+const formatCellValue = (value: unknown): string => {
+  if (value === null || value === undefined) return "NULL";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+export function SchemaExplorer({ projectId, database }: SchemaExplorerProps) {
+  const [schema, setSchema] = useState<DatabaseSchema>({ tables: [] });
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [expandedTable, setExpandedTable] = useState<string | null>(null);
+  const [samples, setSamples] = useState<Record<string, SampleState>>({});
+
+  const fetchSchema = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await getDatabaseSchema(projectId, database.id);
+      if (response.success && response.data) {
+        setSchema(response.data);
+      } else {
+        setSchema({ tables: [] });
+        setError(response.error?.message || "Failed to load schema");
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId, database.id]);
+
+  useEffect(() => {
+    setExpandedTable(null);
+    setSamples({});
+    fetchSchema();
+  }, [fetchSchema]);
+
+  // Match on table names, descriptions and column names
+  const filteredTables = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    if (!query) {
+      return schema.tables.map((table) => ({ table, matchingColumns: 0 }));
+    }
+    return schema.tables
+      .map((table) => ({
+        table,
+        matchingColumns: table.columns.filter((c) => c.name.toLowerCase().includes(query)).length,
+        tableMatches:
+          getQualifiedTableName(table).toLowerCase().includes(query) ||
+          !!table.description?.toLowerCase().includes(query),
+      }))
+      .filter(({ tableMatches, matchingColumns }) => tableMatches || matchingColumns > 0);
+  }, [schema, searchQuery]);
+
+  const totalColumns = schema.tables.reduce((sum, table) => sum + table.columns.length, 0);
+
+  const handleSampleRows = async (table: SchemaTable) => {
+    const key = getQualifiedTableName(table);
+    setExpandedTable(key);
+    setSamples((prev) => ({ ...prev, [key]: { loading: true } }));
+
+    const response = await getTableSampleRows(database.id, table, database.type, SAMPLE_ROW_LIMIT);
+    setSamples((prev) => ({
+      ...prev,
+      [key]: response.success && response.data
+        ? { loading: false, rows: response.data.data }
+        : { loading: false, error: response.error?.message || "Failed to fetch sample rows" },
+    }));
+  };
+
+  const renderSample = (key: string) => {
+    const sample = samples[key];
+    if (!sample) return null;
+
+    if (sample.loading) {
+      return (
+        <div className="flex items-center gap-2 text-xs text-muted-foreground py-3">
+          <Loader2 className="w-3.5 h-3.5 animate-spin" />
+          Fetching {SAMPLE_ROW_LIMIT} rows…
+        </div>
+      );
+    }
+
+    if (sample.error) {
+      return <p className="text-xs text-destructive py-3">{sample.error}</p>;
+    }
+
+    const rows = sample.rows ?? [];
+    if (rows.length === 0) {
+      return <p className="text-xs text-muted-foreground py-3">This table has no rows.</p>;
+    }
+
+    const columns = Object.keys(rows[0]);
+    return (
+      <div className="mt-3 rounded-md border border-border overflow-x-auto overflow-y-auto" style={{ maxHeight: 280 }}>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {columns.map((column) => (
+                <TableHead key={column} className="text-xs whitespace-nowrap">{column}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row, rowIndex) => (
+              <TableRow key={rowIndex}>
+                {columns.map((column) => (
+                  <TableCell key={column} className="text-xs whitespace-nowrap truncate" style={{ maxWidth: 240 }}>
+                    {formatCellValue(row[column])}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center gap-2 py-12 text-sm text-muted-foreground">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Loading schema…
+      </div>
+    );
+  }
+
+  if (error || schema.tables.length === 0) {
+    return (
+      <EmptyState
+        icon={<Table2 className="w-10 h-10" />}
+        title={error ? "Unable to load schema" : "No schema available"}
+        description={error || `No tables were extracted for "${database.name}" yet. Schema extraction runs when the connection is created.`}
+        action={
+          <Button variant="outline" size="sm" onClick={fetchSchema} className="gap-2">
+            <RefreshCw className="w-4 h-4" />
+            Retry
+          </Button>
+        }
+      />
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-3 min-h-0">
+      <div className="flex items-center gap-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="Search tables and columns..."
+            className="pl-9 h-9 text-sm"
+          />
+        </div>
+        <p className="text-xs text-muted-foreground whitespace-nowrap">
+          {schema.tables.length} tables · {totalColumns} columns
+        </p>
+      </div>
+
+      <ScrollArea className="h-[480px]">
+        <div className="space-y-2 pr-3">
+          {filteredTables.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No tables or columns match your search</p>
+          ) : (
+            filteredTables.map(({ table, matchingColumns }) => {
+              const key = getQualifiedTableName(table);
+              const isExpanded = expandedTable === key;
+              const sample = samples[key];
+
+              return (
+                <div key={key} className="rounded-lg border border-border">
+                  <div
+                    className="flex items-center gap-2 px-3 py-2.5 cursor-pointer hover:bg-muted/30 transition-colors"
+                    onClick={() => setExpandedTable(isExpanded ? null : key)}
+                  >
+                    {isExpanded ? (
+                      <ChevronDown className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                    ) : (
+                      <ChevronRight className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                    )}
+                    <Table2 className="w-4 h-4 text-primary flex-shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm text-foreground truncate">{table.name}</span>
+                        {table.schema && (
+                          <Badge variant="outline" className="text-xs px-1.5 py-0">{table.schema}</Badge>
+                        )}
+                        {searchQuery && matchingColumns > 0 && (
+                          <Badge variant="secondary" className="text-xs px-1.5 py-0">
+                            {matchingColumns} matching column{matchingColumns !== 1 ? "s" : ""}
+                          </Badge>
+                        )}
+                      </div>
+                      {table.description && (
+                        <p className="text-xs text-muted-foreground line-clamp-1">{table.description}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground flex-shrink-0">
+                      {table.rowCount !== null && <span>{table.rowCount.toLocaleString()} rows</span>}
+                      {table.rowCount !== null && <span>•</span>}
+                      <span>{table.columns.length} cols</span>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-7 px-2 text-xs gap-1 flex-shrink-0"
+                      disabled={sample?.loading}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleSampleRows(table);
+                      }}
+                    >
+                      <Play className="w-3 h-3" />
+                      Sample {SAMPLE_ROW_LIMIT} rows
+                    </Button>
+                  </div>
+
+                  {isExpanded && (
+                    <div className="px-3 pb-3 border-t border-border">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead className="text-xs">Column</TableHead>
+                            <TableHead className="text-xs">Type</TableHead>
+                            <TableHead className="text-xs">Nullable</TableHead>
+                            <TableHead className="text-xs">Sample values</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {table.columns.map((column) => {
+                            const isMatch = !!searchQuery && column.name.toLowerCase().includes(searchQuery.trim().toLowerCase());
+                            return (
+                              <TableRow key={column.name} className={isMatch ? "bg-primary/5" : undefined}>
+                                <TableCell className="text-xs">
+                                  <div className="flex items-center gap-1.5">
+                                    {column.primaryKey && <Key className="w-3 h-3 text-warning" />}
+                                    <span className="text-foreground">{column.name}</span>
+                                  </div>
+                                  {column.description && (
+                                    <p className="text-muted-foreground line-clamp-1">{column.description}</p>
+                                  )}
+                                </TableCell>
+                                <TableCell className="text-xs font-mono text-muted-foreground">{column.type}</TableCell>
+                                <TableCell className="text-xs">
+                                  {column.nullable ? (
+                                    <Badge variant="outline" className="text-xs px-1.5 py-0">NULL</Badge>
+                                  ) : (
+                                    <Badge variant="secondary" className="text-xs px-1.5 py-0">NOT NULL</Badge>
+                                  )}
+                                </TableCell>
+                                <TableCell className="text-xs text-muted-foreground truncate" style={{ maxWidth: 240 }}>
+                                  {column.sampleValues && column.sampleValues.length > 0
+                                    ? column.sampleValues.map(formatCellValue).join(", ")
+                                    : "—"}
+                                </TableCell>
+                              </TableRow>
+                            );
+                          })}
+                        </TableBody>
+                      </Table>
+                      {renderSample(key)}
+                    </div>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
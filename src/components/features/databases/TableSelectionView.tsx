@@ -1,7 +1,7 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import type { MouseEvent } from "react";
 import { motion } from "motion/react";
-import { Database, CheckCircle2, Search, Table2, Shield, ArrowRight, Info, Sparkles } from "lucide-react";
+import { CheckCircle2, Search, Table2, Shield, ArrowRight, Sparkles, Loader2 } from "lucide-react";
 import { Button } from "../../ui/button";
 import { Card } from "../../ui/card";
 import { Input } from "../../ui/input";
@@ -9,112 +9,83 @@ import { Checkbox } from "../../ui/checkbox";
 import { Badge } from "../../ui/badge";
 import { ScrollArea } from "../../ui/scroll-area";
 import { Alert, AlertDescription } from "../../ui/alert";
+import { getDatabaseSchema } from "../../../services/api";
+import { getQualifiedTableName } from "../../../utils/databaseSchema";
 
 interface DatabaseTable {
   name: string;
-  schema: string;
-  rowCount: number;
+  schema?: string;
+  rowCount: number | null;
   columns: number;
   description?: string;
 }
 
 interface TableSelectionViewProps {
+  projectId: string;
+  databaseId: string;
   databaseName: string;
+  /** Tables to pre-select, e.g. ones suggested by the AI */
+  recommendedTables?: string[];
   onComplete: (selectedTables: string[]) => void;
 }
 
-// Mock data - in real implementation, this would come from the database
-const MOCK_TABLES: DatabaseTable[] = [
-  {
-    name: "users",
-    schema: "public",
-    rowCount: 15420,
-    columns: 12,
-    description: "Customer user accounts and profiles"
-  },
-  {
-    name: "orders",
-    schema: "public",
-    rowCount: 45890,
-    columns: 18,
-    description: "Order transactions and details"
-  },
-  {
-    name: "products",
-    schema: "public",
-    rowCount: 2340,
-    columns: 15,
-    description: "Product catalog and inventory"
-  },
-  {
-    name: "order_items",
-    schema: "public",
-    rowCount: 98560,
-    columns: 8,
-    description: "Individual items within orders"
-  },
-  {
-    name: "payments",
-    schema: "public",
-    rowCount: 46230,
-    columns: 10,
-    description: "Payment transactions and methods"
-  },
-  {
-    name: "categories",
-    schema: "public",
-    rowCount: 45,
-    columns: 6,
-    description: "Product categories and hierarchies"
-  },
-  {
-    name: "reviews",
-    schema: "public",
-    rowCount: 8970,
-    columns: 9,
-    description: "Customer product reviews and ratings"
-  },
-  {
-    name: "shipping",
-    schema: "public",
-    rowCount: 44120,
-    columns: 14,
-    description: "Shipping and delivery information"
-  },
-  {
-    name: "promotions",
-    schema: "public",
-    rowCount: 156,
-    columns: 11,
-    description: "Marketing campaigns and discount codes"
-  },
-  {
-    name: "inventory",
-    schema: "public",
-    rowCount: 2340,
-    columns: 8,
-    description: "Stock levels and warehouse data"
-  }
-];
+export function TableSelectionView({ projectId, databaseId, databaseName, recommendedTables = [], onComplete }: TableSelectionViewProps) {
+  const [tables, setTables] = useState<DatabaseTable[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [selectedTables, setSelectedTables] = useState<Set<string>>(new Set());
+  const [searchQuery, setSearchQuery] = useState("");
 
-// AI-recommended tables (would be determined by AI analysis in production)
-const AI_RECOMMENDED_TABLES = ["users", "orders", "products", "payments"];
+  const isRecommendedTable = (tableName: string) =>
+    recommendedTables.includes(tableName) || recommendedTables.includes(tableName.split('.').pop()!);
 
-export function TableSelectionView({ databaseName, onComplete }: TableSelectionViewProps) {
-  const [selectedTables, setSelectedTables] = useState<Set<string>>(
-    new Set(AI_RECOMMENDED_TABLES) // Pre-select AI recommended tables
-  );
-  const [searchQuery, setSearchQuery] = useState("");
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadTables = async () => {
+      setIsLoading(true);
+      setLoadError(null);
+      const response = await getDatabaseSchema(projectId, databaseId);
+      if (cancelled) return;
+
+      if (response.success && response.data) {
+        const loadedTables = response.data.tables.map((table) => ({
+          name: getQualifiedTableName(table),
+          schema: table.schema,
+          rowCount: table.rowCount,
+          columns: table.columns.length,
+          description: table.description,
+        }));
+        setTables(loadedTables);
+        // Pre-select recommended tables that actually exist in the schema
+        setSelectedTables(new Set(
+          loadedTables
+            .filter((table) => isRecommendedTable(table.name))
+            .map((table) => table.name)
+        ));
+      } else {
+        setTables([]);
+        setLoadError(response.error?.message || "Failed to load tables");
+      }
+      setIsLoading(false);
+    };
+
+    loadTables();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, databaseId]);
 
   // Filter unselected tables
-  const unselectedTables = MOCK_TABLES.filter(
+  const unselectedTables = tables.filter(
     table => !selectedTables.has(table.name) && 
     (table.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
     table.description?.toLowerCase().includes(searchQuery.toLowerCase()))
   );
 
   // Get selected tables with full details
-  const selectedTableDetails = MOCK_TABLES.filter(table => 
+  const selectedTableDetails = tables.filter(table => 
     selectedTables.has(table.name)
   );
 
@@ -131,7 +102,7 @@ export function TableSelectionView({ databaseName, onComplete }: TableSelectionV
   };
 
   const selectAll = () => {
-    setSelectedTables(new Set(MOCK_TABLES.map(t => t.name)));
+    setSelectedTables(new Set(tables.map(t => t.name)));
   };
 
   const deselectAll = () => {
@@ -155,7 +126,7 @@ export function TableSelectionView({ databaseName, onComplete }: TableSelectionV
               <div>
                 <h3 className="text-foreground">Select Tables for AI</h3>
                 <p className="text-xs text-muted-foreground">
-                  {selectedTables.size} of {MOCK_TABLES.length} tables selected
+                  {isLoading ? "Loading tables..." : `${selectedTables.size} of ${tables.length} tables selected`}
                 </p>
               </div>
             </div>
@@ -207,7 +178,18 @@ export function TableSelectionView({ databaseName, onComplete }: TableSelectionV
             <div className="flex-1 min-h-0 overflow-hidden">
               <ScrollArea className="h-full">
                 <div className="space-y-2 pr-3">
-                  {unselectedTables.length === 0 ? (
+                  {isLoading ? (
+                    <div className="flex items-center justify-center gap-2 p-6 text-sm text-muted-foreground">
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                      Loading tables...
+                    </div>
+                  ) : loadError || tables.length === 0 ? (
+                    <Card className="p-6 border border-dashed border-border">
+                      <div className="text-center text-sm text-muted-foreground">
+                        {loadError || "No tables were found in this database's schema"}
+                      </div>
+                    </Card>
+                  ) : unselectedTables.length === 0 ? (
                     <Card className="p-6 border border-dashed border-border">
                       <div className="text-center text-sm text-muted-foreground">
                         {searchQuery ? "No tables match your search" : "All tables are selected"}
@@ -215,7 +197,7 @@ export function TableSelectionView({ databaseName, onComplete }: TableSelectionV
                     </Card>
                   ) : (
                     unselectedTables.map((table, index) => {
-                      const isRecommended = AI_RECOMMENDED_TABLES.includes(table.name);
+                      const isRecommended = isRecommendedTable(table.name);
                       return (
                         <motion.div
                           key={table.name}
@@ -245,8 +227,12 @@ export function TableSelectionView({ databaseName, onComplete }: TableSelectionV
                                   </p>
                                 )}
                                 <div className="flex items-center gap-2 text-xs text-muted-foreground pl-5">
-                                  <span>{table.rowCount.toLocaleString()} rows</span>
-                                  <span>•</span>
+                                  {table.rowCount !== null && (
+                                    <>
+                                      <span>{table.rowCount.toLocaleString()} rows</span>
+                                      <span>•</span>
+                                    </>
+                                  )}
                                   <span>{table.columns} cols</span>
                                 </div>
                               </div>
@@ -284,12 +270,14 @@ export function TableSelectionView({ databaseName, onComplete }: TableSelectionV
               </h4>
             </div>
 
-            <Alert className="border-primary/20 bg-primary/5 mb-2 py-2">
-              <Shield className="w-3.5 h-3.5 text-primary" />
-              <AlertDescription className="text-xs text-muted-foreground ml-2">
-                AI-recommended tables are pre-selected
-              </AlertDescription>
-            </Alert>
+            {recommendedTables.length > 0 && (
+              <Alert className="border-primary/20 bg-primary/5 mb-2 py-2">
+                <Shield className="w-3.5 h-3.5 text-primary" />
+                <AlertDescription className="text-xs text-muted-foreground ml-2">
+                  AI-recommended tables are pre-selected
+                </AlertDescription>
+              </Alert>
+            )}
             
             <div className="flex-1 min-h-0 overflow-hidden">
               <ScrollArea className="h-full">
@@ -302,7 +290,7 @@ export function TableSelectionView({ databaseName, onComplete }: TableSelectionV
                     </Card>
                   ) : (
                     selectedTableDetails.map((table, index) => {
-                      const isRecommended = AI_RECOMMENDED_TABLES.includes(table.name);
+                      const isRecommended = isRecommendedTable(table.name);
                       return (
                         <motion.div
                           key={table.name}
@@ -330,8 +318,12 @@ export function TableSelectionView({ databaseName, onComplete }: TableSelectionV
                                   </p>
                                 )}
                                 <div className="flex items-center gap-2 text-xs text-muted-foreground pl-5">
-                                  <span>{table.rowCount.toLocaleString()} rows</span>
-                                  <span>•</span>
+                                  {table.rowCount !== null && (
+                                    <>
+                                      <span>{table.rowCount.toLocaleString()} rows</span>
+                                      <span>•</span>
+                                    </>
+                                  )}
                                   <span>{table.columns} cols</span>
                                 </div>
                               </div>
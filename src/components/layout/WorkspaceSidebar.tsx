@@ -1,5 +1,5 @@
 import React from "react";
-import { LayoutDashboard, Lightbulb, BarChart3, Database, Users, Home, Sparkles } from "lucide-react";
+import { LayoutDashboard, Lightbulb, BarChart3, Database, Users, Home, Sparkles, MessageSquare } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "../ui/tooltip";
 import { Separator } from "../ui/separator";
 
@@ -15,6 +15,7 @@ export function WorkspaceSidebar({ activeTab, onTabChange, onOpenAIAssistant }:
     { id: 'charts', label: 'Charts', icon: BarChart3 },
     { id: 'dashboards', label: 'Dashboards', icon: LayoutDashboard },
     { id: 'insights', label: 'Insights', icon: Lightbulb },
+    { id: 'ask', label: 'Ask VizAI', icon: MessageSquare },
   ];
 
   const bottomNavItems = [
@@ -0,0 +1,53 @@
+/**
+ * NotFoundState Component
+ *
+ * Shown when a URL points at a project, dashboard or chart that either does
+ * not exist or is not shared with the current user. The API does not let us
+ * tell those two cases apart, so the copy covers both.
+ *
+ * @example
+ * <NotFoundState
+ *   resource="dashboard"
+ *   onBack={() => navigateTo({ view: 'workspace', projectId, tab: 'dashboards' })}
+ *   backLabel="Back to dashboards"
+ * />
+ */
+
+import { ShieldAlert, ArrowLeft } from "lucide-react";
+import { Button } from "../ui/button";
+import { EmptyState } from "./EmptyState";
+
+interface NotFoundStateProps {
+  /** What kind of item the link pointed at */
+  resource: 'page' | 'project' | 'dashboard' | 'chart';
+  /** Called when the user clicks the back button */
+  onBack: () => void;
+  /** Label for the back button */
+  backLabel?: string;
+  /** Optional additional CSS classes */
+  className?: string;
+}
+
+export function NotFoundState({ resource, onBack, backLabel = 'Go back', className = '' }: NotFoundStateProps) {
+  const title = resource === 'page'
+    ? 'Page not found'
+    : `This ${resource} isn't available`;
+  const description = resource === 'page'
+    ? "The link you followed doesn't match any page in VizAI."
+    : `The ${resource} may have been deleted, or you don't have access to it. Ask a project admin to share it with you if you think this is a mistake.`;
+
+  return (
+    <EmptyState
+      icon={<ShieldAlert className="w-10 h-10" />}
+      title={title}
+      description={description}
+      className={className}
+      action={
+        <Button variant="outline" onClick={onBack} className="gap-2">
+          <ArrowLeft className="w-4 h-4" />
+          {backLabel}
+        </Button>
+      }
+    />
+  );
+}
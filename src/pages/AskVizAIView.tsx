@@ -1,18 +1,49 @@
 import { useState, useRef, useEffect } from "react";
-import { Sparkles, Send, TrendingUp, Calendar, Users } from "lucide-react";
+import { Sparkles, Send, Database, Save, LayoutDashboard, ChevronDown, Loader2, Code2, Check, AlertCircle } from "lucide-react";
 import { Button } from "../components/ui/button";
 import { Card } from "../components/ui/card";
 import { Badge } from "../components/ui/badge";
-import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
-
-const mockChartData = [
-  { month: 'Jan', revenue: 45000, customers: 120 },
-  { month: 'Feb', revenue: 52000, customers: 145 },
-  { month: 'Mar', revenue: 48000, customers: 132 },
-  { month: 'Apr', revenue: 61000, customers: 178 },
-  { month: 'May', revenue: 55000, customers: 165 },
-  { month: 'Jun', revenue: 67000, customers: 195 },
-];
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "../components/ui/dropdown-menu";
+import { EmptyState } from "../components/shared/EmptyState";
+import { ChartCard } from "../components/features/charts/ChartCard";
+import { toast } from "sonner";
+import {
+  naturalLanguageQuery,
+  getChartData,
+  getDatabases,
+  getDashboards,
+  createChart,
+  addChartToDashboard,
+  type NLQueryResponse,
+  type ChartData,
+} from "../services/api";
+import { loadDatabaseMetadata, storeDatabaseMetadata, type DatabaseMetadataEntry } from "../utils/databaseMetadata";
+import { getDefaultChartDataConfig, inferChartDataConfig, type ChartDataConfig } from "../utils/chartData";
+import { CHART_TYPES, CHART_TYPE_LABELS, type ChartType } from "../utils/chartTypes";
+
+interface AskVizAIViewProps {
+  projectId?: string | number;
+}
+
+interface AskResult {
+  question: string;
+  databaseId: string;
+  answer: NLQueryResponse;
+  chartData?: ChartData;
+  dataError?: string;
+}
 
 const suggestedQuestions = [
   "What was our revenue growth last quarter?",
@@ -21,25 +52,225 @@ const suggestedQuestions = [
   "Which products have highest margins?",
 ];
 
-export function AskVizAIView() {
+const followUpSuggestions = [
+  "grouped by region",
+  "compared to the previous period",
+  "broken down by product category",
+  "for the last 12 months",
+];
+
+// The generated SQL is executed like a chart query, so results share the chart data cache
+const ASK_CHART_ID = 'ask-vizai';
+
+const looksLikeDate = (value: unknown): boolean =>
+  typeof value === 'string' && /^\d{4}-\d{2}(-\d{2})?/.test(value);
+
+/**
+ * Pick a sensible default visualization: time series as lines, everything else as bars
+ */
+const suggestChartType = (rows: any[]): ChartType => {
+  const sample = rows[0];
+  if (!sample || typeof sample !== 'object') return 'bar';
+  return Object.values(sample).some(looksLikeDate) ? 'line' : 'bar';
+};
+
+const getConfidenceBadge = (confidence: number) => {
+  const percent = Math.round(confidence * 100);
+  if (confidence >= 0.8) {
+    return { label: `High confidence · ${percent}%`, className: 'bg-success/10 text-success border-success/20' };
+  }
+  if (confidence >= 0.5) {
+    return { label: `Medium confidence · ${percent}%`, className: 'bg-warning/10 text-warning border-warning/30' };
+  }
+  return { label: `Low confidence · ${percent}%`, className: 'bg-destructive/10 text-destructive border-destructive/20' };
+};
+
+export function AskVizAIView({ projectId }: AskVizAIViewProps) {
   const [query, setQuery] = useState("");
-  const [hasResults, setHasResults] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [databases, setDatabases] = useState<DatabaseMetadataEntry[]>([]);
+  const [selectedDatabaseId, setSelectedDatabaseId] = useState("");
+  const [isLoadingDatabases, setIsLoadingDatabases] = useState(true);
+  const [dashboards, setDashboards] = useState<Array<{ id: string; name: string }>>([]);
+  const [result, setResult] = useState<AskResult | null>(null);
+  const [chartType, setChartType] = useState<ChartType>('bar');
+  const [chartConfig, setChartConfig] = useState<ChartDataConfig>(() => getDefaultChartDataConfig());
+  const [isSaving, setIsSaving] = useState(false);
+  const [savedChartId, setSavedChartId] = useState<string | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
-  const handleSubmit = () => {
-    if (!query.trim()) return;
-    
+  // Load connections (from the session cache when possible) and dashboards for the project
+  useEffect(() => {
+    if (!projectId) {
+      setIsLoadingDatabases(false);
+      return;
+    }
+
+    const projectKey = String(projectId);
+    let cancelled = false;
+
+    const loadDatabases = async () => {
+      setIsLoadingDatabases(true);
+      let connections = loadDatabaseMetadata(projectKey);
+      if (!connections) {
+        const response = await getDatabases(projectKey);
+        if (response.success && response.data) {
+          connections = response.data.map((db) => ({
+            id: db.id,
+            name: db.name,
+            type: db.type,
+            schema: db.schema ?? null,
+          }));
+          storeDatabaseMetadata(projectKey, connections);
+        } else {
+          toast.error(response.error?.message || "Failed to load databases");
+          connections = [];
+        }
+      }
+      if (cancelled) return;
+      setDatabases(connections);
+      setSelectedDatabaseId((current) => current || connections?.[0]?.id || "");
+      setIsLoadingDatabases(false);
+    };
+
+    const loadDashboards = async () => {
+      const response = await getDashboards(projectKey);
+      if (!cancelled && response.success && response.data) {
+        setDashboards(response.data.map((d) => ({ id: d.id, name: d.name })));
+      }
+    };
+
+    loadDatabases();
+    loadDashboards();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  // Re-shape the result whenever the user switches visualization
+  useEffect(() => {
+    setChartConfig(
+      result?.chartData ? inferChartDataConfig(result.chartData.data, chartType) : getDefaultChartDataConfig()
+    );
+  }, [result, chartType]);
+
+  const askQuestion = async (question: string) => {
+    if (!question.trim() || isAnalyzing) return;
+    if (!selectedDatabaseId) {
+      toast.error("Please select a database first");
+      return;
+    }
+
     setIsAnalyzing(true);
-    setTimeout(() => {
+    setSavedChartId(null);
+    try {
+      const response = await naturalLanguageQuery(question.trim(), selectedDatabaseId);
+      if (!response.success || !response.data) {
+        toast.error(response.error?.message || "VizAI couldn't answer that question");
+        return;
+      }
+
+      const answer = response.data;
+      const dataResponse = await getChartData(ASK_CHART_ID, selectedDatabaseId, answer.sql, undefined, undefined, false, undefined, {
+        recordHistory: true,
+      });
+      const chartData = dataResponse.success ? dataResponse.data : undefined;
+
+      setChartType(chartData ? suggestChartType(chartData.data) : 'bar');
+      setResult({
+        question: question.trim(),
+        databaseId: selectedDatabaseId,
+        answer,
+        chartData,
+        dataError: dataResponse.success ? undefined : dataResponse.error?.message || "Failed to run the generated query",
+      });
+    } finally {
       setIsAnalyzing(false);
-      setHasResults(true);
-    }, 1500);
+      // Refocus input after submitting
+      setTimeout(() => {
+        inputRef.current?.focus();
+      }, 100);
+    }
+  };
+
+  const handleSubmit = () => askQuestion(query);
+
+  const handleFollowUp = (suffix: string) => {
+    if (!result) return;
+    const followUp = `${result.question} ${suffix}`;
+    setQuery(followUp);
+    askQuestion(followUp);
+  };
+
+  const handleNewQuestion = () => {
+    setResult(null);
+    setQuery("");
+    setSavedChartId(null);
+  };
 
-    // Refocus input after submitting
-    setTimeout(() => {
-      inputRef.current?.focus();
-    }, 100);
+  const getChartFields = () => ({
+    title: result!.question.length > 80 ? `${result!.question.slice(0, 77)}...` : result!.question,
+    xAxis: chartConfig.xAxisKey || null,
+    yAxis: chartConfig.dataKeys.primary || null,
+    isTimeBased: chartConfig.data.some((row) => looksLikeDate(row[chartConfig.xAxisKey])),
+  });
+
+  const handleSaveAsChart = async () => {
+    if (!result || !projectId) return;
+
+    const fields = getChartFields();
+    setIsSaving(true);
+    try {
+      const response = await createChart(String(projectId), {
+        name: fields.title,
+        type: chartType,
+        query: result.answer.sql,
+        databaseId: result.databaseId,
+        config: {
+          xAxis: fields.xAxis ?? undefined,
+          yAxis: fields.yAxis ?? undefined,
+        },
+        is_time_based: fields.isTimeBased,
+      });
+
+      if (response.success && response.data) {
+        setSavedChartId(response.data.id);
+        toast.success(`Saved "${fields.title}" to your charts`);
+      } else {
+        toast.error(response.error?.message || "Failed to save chart");
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddToDashboard = async (dashboard: { id: string; name: string }) => {
+    if (!result) return;
+
+    const fields = getChartFields();
+    setIsSaving(true);
+    try {
+      const response = await addChartToDashboard({
+        title: fields.title,
+        query: result.answer.sql,
+        chart_type: chartType,
+        dashboard_id: dashboard.id,
+        data_connection_id: result.databaseId,
+        report: result.answer.explanation,
+        is_time_based: fields.isTimeBased,
+        x_axis: fields.xAxis,
+        y_axis: fields.yAxis,
+      });
+
+      if (response.success) {
+        toast.success(`Added to "${dashboard.name}"`);
+      } else {
+        toast.error(response.error?.message || "Failed to add chart to dashboard");
+      }
+    } finally {
+      setIsSaving(false);
+    }
   };
 
   // Auto-focus input when component mounts or when not analyzing
@@ -50,11 +281,111 @@ export function AskVizAIView() {
       }, 100);
       return () => clearTimeout(timer);
     }
-  }, [isAnalyzing, hasResults]);
+  }, [isAnalyzing, result]);
+
+  const renderDatabaseSelect = () => (
+    <Select value={selectedDatabaseId} onValueChange={setSelectedDatabaseId} disabled={isAnalyzing}>
+      <SelectTrigger className="w-64 border-border">
+        <Database className="w-4 h-4 mr-2 text-muted-foreground" />
+        <SelectValue placeholder={isLoadingDatabases ? "Loading databases..." : "Select a database"} />
+      </SelectTrigger>
+      <SelectContent>
+        {databases.map((db) => (
+          <SelectItem key={db.id} value={db.id}>
+            {db.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const renderSearchBox = () => (
+    <Card className="p-2 border-2 border-border shadow-lg">
+      <div className="flex gap-2">
+        <input
+          ref={inputRef}
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+          placeholder="Ask VizAI about your data..."
+          className="flex-1 px-4 py-4 bg-transparent border-0 outline-none text-foreground placeholder:text-muted-foreground"
+          autoFocus
+        />
+        <Button
+          onClick={handleSubmit}
+          disabled={!query.trim() || isAnalyzing || !selectedDatabaseId}
+          className="bg-gradient-to-r from-primary to-accent hover:opacity-90 text-white px-6"
+        >
+          {isAnalyzing ? (
+            <>
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              Analyzing...
+            </>
+          ) : (
+            <>
+              <Send className="w-4 h-4 mr-2" />
+              Ask
+            </>
+          )}
+        </Button>
+      </div>
+    </Card>
+  );
+
+  const renderVisualization = () => {
+    if (!result) return null;
+
+    if (result.dataError) {
+      return (
+        <EmptyState
+          icon={<AlertCircle className="w-10 h-10" />}
+          title="The generated query failed"
+          description={result.dataError}
+          className="py-12"
+        />
+      );
+    }
+
+    if (chartConfig.data.length === 0) {
+      return (
+        <EmptyState
+          icon={<Database className="w-10 h-10" />}
+          title="No rows returned"
+          description="The query ran successfully but returned no data. Try broadening your question."
+          className="py-12"
+        />
+      );
+    }
+
+    return (
+      <ChartCard
+        type={chartType}
+        data={chartConfig.data}
+        dataKeys={chartConfig.dataKeys}
+        xAxisKey={chartConfig.xAxisKey}
+        height={320}
+      />
+    );
+  };
+
+  if (!isLoadingDatabases && databases.length === 0) {
+    return (
+      <div className="px-12 py-10">
+        <EmptyState
+          icon={<Database className="w-10 h-10" />}
+          title="Connect a database to ask questions"
+          description="Ask VizAI turns your questions into SQL against one of this project's database connections. Add a connection from the Databases page to get started."
+        />
+      </div>
+    );
+  }
+
+  const confidenceBadge = result ? getConfidenceBadge(result.answer.confidence) : null;
 
   return (
     <div className="px-12 py-10">
-      {!hasResults ? (
+      {!result ? (
         // Initial State
         <div className="min-h-[600px] flex flex-col items-center justify-center">
           <div className="max-w-3xl w-full">
@@ -73,38 +404,13 @@ export function AskVizAIView() {
               Ask questions about your data in natural language
             </p>
 
+            {/* Database Picker */}
+            <div className="flex justify-center mb-4">
+              {renderDatabaseSelect()}
+            </div>
+
             {/* Search Box */}
-            <Card className="p-2 border-2 border-border shadow-lg">
-              <div className="flex gap-2">
-                <input
-                  ref={inputRef}
-                  type="text"
-                  value={query}
-                  onChange={(e) => setQuery(e.target.value)}
-                  onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
-                  placeholder="Ask VizAI about your data..."
-                  className="flex-1 px-4 py-4 bg-transparent border-0 outline-none text-foreground placeholder:text-muted-foreground"
-                  autoFocus
-                />
-                <Button 
-                  onClick={handleSubmit}
-                  disabled={!query.trim() || isAnalyzing}
-                  className="bg-gradient-to-r from-primary to-accent hover:opacity-90 text-white px-6"
-                >
-                  {isAnalyzing ? (
-                    <>
-                      <div className="w-4 h-4 mr-2 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
-                      Analyzing...
-                    </>
-                  ) : (
-                    <>
-                      <Send className="w-4 h-4 mr-2" />
-                      Ask
-                    </>
-                  )}
-                </Button>
-              </div>
-            </Card>
+            {renderSearchBox()}
 
             {/* Suggested Questions */}
             <div className="mt-8">
@@ -140,14 +446,11 @@ export function AskVizAIView() {
                 </div>
                 <div className="flex-1">
                   <p className="text-muted-foreground text-sm mb-2">Your question:</p>
-                  <p className="text-lg text-foreground">{query || "What was our revenue growth last quarter?"}</p>
+                  <p className="text-lg text-foreground">{result.question}</p>
                 </div>
-                <Button 
-                  variant="outline" 
-                  onClick={() => {
-                    setHasResults(false);
-                    setQuery("");
-                  }}
+                <Button
+                  variant="outline"
+                  onClick={handleNewQuestion}
                 >
                   New Question
                 </Button>
@@ -158,63 +461,94 @@ export function AskVizAIView() {
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
               {/* Visualization */}
               <Card className="p-6 border border-border">
-                <h3 className="text-lg text-foreground mb-6">Revenue Trend</h3>
-                <ResponsiveContainer width="100%" height={300}>
-                  <LineChart data={mockChartData}>
-                    <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
-                    <XAxis dataKey="month" stroke="#6b7280" />
-                    <YAxis stroke="#6b7280" />
-                    <Tooltip />
-                    <Line 
-                      type="monotone" 
-                      dataKey="revenue" 
-                      stroke="#06B6D4" 
-                      strokeWidth={3}
-                      dot={{ fill: '#06B6D4', r: 4 }}
-                    />
-                  </LineChart>
-                </ResponsiveContainer>
+                <div className="flex items-center justify-between gap-4 mb-6">
+                  <h3 className="text-lg text-foreground">Result</h3>
+                  <div className="flex items-center gap-2">
+                    <Select value={chartType} onValueChange={(value) => setChartType(value as ChartType)}>
+                      <SelectTrigger className="w-24 h-9 border-border">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CHART_TYPES.map((type) => (
+                          <SelectItem key={type} value={type}>
+                            {CHART_TYPE_LABELS[type]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-9 gap-2"
+                      onClick={handleSaveAsChart}
+                      disabled={isSaving || !!savedChartId || !!result.dataError}
+                    >
+                      {savedChartId ? <Check className="w-4 h-4" /> : <Save className="w-4 h-4" />}
+                      {savedChartId ? "Saved" : "Save as chart"}
+                    </Button>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          size="sm"
+                          className="h-9 gap-2 bg-gradient-to-r from-primary to-accent text-white"
+                          disabled={isSaving || !!result.dataError}
+                        >
+                          {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <LayoutDashboard className="w-4 h-4" />}
+                          Add to dashboard
+                          <ChevronDown className="w-3.5 h-3.5" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        {dashboards.length > 0 ? (
+                          dashboards.map((dashboard) => (
+                            <DropdownMenuItem key={dashboard.id} onClick={() => handleAddToDashboard(dashboard)}>
+                              {dashboard.name}
+                            </DropdownMenuItem>
+                          ))
+                        ) : (
+                          <DropdownMenuItem disabled>
+                            No dashboards available. Please create a dashboard first.
+                          </DropdownMenuItem>
+                        )}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </div>
+                </div>
+                {renderVisualization()}
+                {result.chartData && (
+                  <p className="text-xs text-muted-foreground mt-4">
+                    {result.chartData.metadata.rowCount.toLocaleString()} rows · {result.chartData.metadata.executionTime} ms
+                  </p>
+                )}
               </Card>
 
-              {/* AI Insights */}
+              {/* Explanation & SQL */}
               <Card className="p-6 border border-border">
-                <div className="flex items-center gap-2 mb-6">
-                  <Sparkles className="w-5 h-5 text-accent" />
-                  <h3 className="text-lg text-foreground">AI Insights</h3>
-                </div>
-                
-                <div className="space-y-6">
-                  <div>
-                    <div className="flex items-center gap-2 mb-3">
-                      <TrendingUp className="w-5 h-5 text-success" />
-                      <h4 className="text-foreground">Revenue Growth</h4>
-                    </div>
-                    <p className="text-sm text-muted-foreground leading-relaxed">
-                      Your revenue grew <span className="text-success font-medium">22.4%</span> quarter-over-quarter, 
-                      from $145,000 in Q1 to $177,000 in Q2. This represents the strongest growth rate in the past year.
-                    </p>
+                <div className="flex items-center justify-between gap-2 mb-6">
+                  <div className="flex items-center gap-2">
+                    <Sparkles className="w-5 h-5 text-accent" />
+                    <h3 className="text-lg text-foreground">How VizAI answered</h3>
                   </div>
+                  {confidenceBadge && (
+                    <Badge variant="outline" className={confidenceBadge.className}>
+                      {confidenceBadge.label}
+                    </Badge>
+                  )}
+                </div>
 
-                  <div>
-                    <div className="flex items-center gap-2 mb-3">
-                      <Users className="w-5 h-5 text-accent" />
-                      <h4 className="text-foreground">Customer Acquisition</h4>
-                    </div>
-                    <p className="text-sm text-muted-foreground leading-relaxed">
-                      New customer signups increased by <span className="text-accent font-medium">18.5%</span>, 
-                      with June showing the highest conversion rate at 195 new customers.
-                    </p>
-                  </div>
+                <div className="space-y-6">
+                  <p className="text-sm text-muted-foreground leading-relaxed">
+                    {result.answer.explanation}
+                  </p>
 
                   <div>
                     <div className="flex items-center gap-2 mb-3">
-                      <Calendar className="w-5 h-5 text-chart-2" />
-                      <h4 className="text-foreground">Seasonal Pattern</h4>
+                      <Code2 className="w-5 h-5 text-primary" />
+                      <h4 className="text-foreground">Generated SQL</h4>
                     </div>
-                    <p className="text-sm text-muted-foreground leading-relaxed">
-                      Analysis shows consistent month-over-month growth with a notable peak in June, 
-                      suggesting effective seasonal marketing campaigns.
-                    </p>
+                    <pre className="p-4 rounded-lg bg-muted/30 border border-border text-xs font-mono text-foreground overflow-auto max-h-48 whitespace-pre-wrap">
+                      {result.answer.sql}
+                    </pre>
                   </div>
                 </div>
               </Card>
@@ -222,33 +556,23 @@ export function AskVizAIView() {
 
             {/* Follow-up Suggestions */}
             <div className="mt-8">
-              <p className="text-sm text-muted-foreground mb-4">Explore further:</p>
-              <div className="flex gap-3 flex-wrap">
-                <Badge 
-                  className="px-4 py-2 cursor-pointer hover:bg-accent hover:text-white transition-colors"
-                  variant="outline"
-                >
-                  Group by region
-                </Badge>
-                <Badge 
-                  className="px-4 py-2 cursor-pointer hover:bg-accent hover:text-white transition-colors"
-                  variant="outline"
-                >
-                  Compare to previous quarter
-                </Badge>
-                <Badge 
-                  className="px-4 py-2 cursor-pointer hover:bg-accent hover:text-white transition-colors"
-                  variant="outline"
-                >
-                  Show by product category
-                </Badge>
-                <Badge 
-                  className="px-4 py-2 cursor-pointer hover:bg-accent hover:text-white transition-colors"
-                  variant="outline"
-                >
-                  Forecast next quarter
-                </Badge>
+              <div className="flex items-center justify-between gap-4 mb-4">
+                <p className="text-sm text-muted-foreground">Explore further:</p>
+                {renderDatabaseSelect()}
+              </div>
+              <div className="flex gap-3 flex-wrap mb-6">
+                {followUpSuggestions.map((suggestion) => (
+                  <Badge
+                    key={suggestion}
+                    className="px-4 py-2 cursor-pointer hover:bg-accent hover:text-white transition-colors"
+                    variant="outline"
+                    onClick={() => handleFollowUp(suggestion)}
+                  >
+                    {suggestion}
+                  </Badge>
+                ))}
               </div>
+              {renderSearchBox()}
             </div>
           </div>
       )}
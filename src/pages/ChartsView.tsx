@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback, useMemo } from "react";
-import { Search, Sparkles, BarChart3, LineChart, PieChart, AreaChart, Pin, Trash2, Plus, Clock, Filter, Calendar as CalendarIcon, X } from "lucide-react";
+import { Search, Sparkles, BarChart3, LineChart, PieChart, AreaChart, ScatterChart, Pin, Trash2, Plus, Clock, Filter, Calendar as CalendarIcon, X, Edit2, History, ScrollText, ChartColumnStacked, BarChartHorizontal, ChartNoAxesCombined, Grid3x3, Hash, Table2 } from "lucide-react";
 import { Button } from "../components/ui/button";
 import { Card } from "../components/ui/card";
 import { Badge } from "../components/ui/badge";
@@ -8,6 +8,7 @@ import { GradientButton } from "../components/shared/GradientButton";
 import { StatusBadge } from "../components/shared/StatusBadge";
 import { ActionButtonGroup } from "../components/shared/ActionButtonGroup";
 import { SkeletonGrid } from "../components/shared/SkeletonCard";
+import { NotFoundState } from "../components/shared/NotFoundState";
 import { usePinnedCharts } from "../context/PinnedChartsContext";
 import {
   Select,
@@ -37,10 +38,14 @@ import {
 } from "../components/ui/alert-dialog";
 import { ChartPreviewDialog } from "../components/features/charts/ChartPreviewDialog";
 import { ChartCard } from "../components/features/charts/ChartCard";
+import { EditChartDialog, type EditableChart } from "../components/features/charts/EditChartDialog";
+import { ChartHistoryPanel } from "../components/features/charts/ChartHistoryPanel";
+import { QueryLibraryPanel } from "../components/features/charts/QueryLibraryPanel";
 import { toast } from "sonner";
 import DatePicker from "react-datepicker";
 import "react-datepicker/dist/react-datepicker.css";
 import { getCharts, createChart, addChartToDashboard, generateCharts, getDatabases, getDashboards, updateFavoriteChart, deleteChart, getUserDashboardCharts, getChartData, type Chart as ApiChart, type ChartData as ApiChartData } from "../services/api";
+import { isBarChartType, isRadialChartType, isRawDataChartType, normalizeChartType, type ChartType } from "../utils/chartTypes";
 
 // Custom styles for date picker clear button to prevent text overlap
 if (typeof document !== 'undefined') {
@@ -92,7 +97,7 @@ import {
 interface Chart {
   id: number | string;
   name: string;
-  type: 'line' | 'bar' | 'pie' | 'area';
+  type: ChartType;
   dataSource: string;
   databaseId?: string;
   createdAt: string;
@@ -114,7 +119,7 @@ interface Chart {
 interface ChartSuggestion {
   id: string;
   name: string;
-  type: 'line' | 'bar' | 'pie' | 'area';
+  type: ChartType;
   description: string;
   query: string;
   reasoning: string;
@@ -231,14 +236,34 @@ const chartTypeIcons = {
   line: LineChart,
   bar: BarChart3,
   pie: PieChart,
-  area: AreaChart
+  area: AreaChart,
+  donut: PieChart,
+  scatter: ScatterChart,
+  stacked_bar: ChartColumnStacked,
+  grouped_bar: BarChart3,
+  horizontal_bar: BarChartHorizontal,
+  combo: ChartNoAxesCombined,
+  funnel: Filter,
+  heatmap: Grid3x3,
+  kpi: Hash,
+  table: Table2
 };
 
 const chartTypeColors = {
   line: "from-blue-500/20 to-blue-600/20 border-blue-500/30",
   bar: "from-purple-500/20 to-purple-600/20 border-purple-500/30",
   pie: "from-green-500/20 to-green-600/20 border-green-500/30",
-  area: "from-orange-500/20 to-orange-600/20 border-orange-500/30"
+  area: "from-orange-500/20 to-orange-600/20 border-orange-500/30",
+  donut: "from-green-500/20 to-green-600/20 border-green-500/30",
+  scatter: "from-primary/20 to-accent/20 border-primary/30",
+  stacked_bar: "from-purple-500/20 to-purple-600/20 border-purple-500/30",
+  grouped_bar: "from-purple-500/20 to-purple-600/20 border-purple-500/30",
+  horizontal_bar: "from-purple-500/20 to-purple-600/20 border-purple-500/30",
+  combo: "from-blue-500/20 to-blue-600/20 border-blue-500/30",
+  funnel: "from-green-500/20 to-green-600/20 border-green-500/30",
+  heatmap: "from-orange-500/20 to-orange-600/20 border-orange-500/30",
+  kpi: "from-primary/20 to-accent/20 border-primary/30",
+  table: "from-blue-500/20 to-purple-600/20 border-border"
 };
 
 const COLORS = ["hsl(var(--chart-1))", "hsl(var(--chart-2))", "hsl(var(--chart-3))"];
@@ -285,6 +310,30 @@ const inferChartDataConfig = (rawData: any[] | undefined, chartType: Chart['type
     (key) => typeof sample[key] === "string" || typeof sample[key] === "object"
   );
   
+  // Tables and heatmaps render every column, so skip reshaping
+  if (isRawDataChartType(chartType)) {
+    const valueKey = numericKeys[0] || keys[0];
+    return {
+      data: normalizedRows,
+      dataKeys: { primary: valueKey },
+      xAxisKey: keys.find((key) => key !== valueKey) || valueKey,
+    };
+  }
+
+  // Scatter plots need two numeric axes; remaining columns drive point size/color in ChartCard
+  if (chartType === 'scatter' && numericKeys.length >= 2) {
+    const [xKey, yKey] = numericKeys;
+    return {
+      data: normalizedRows.map((row) => ({
+        ...row,
+        [xKey]: Number(row[xKey]) || 0,
+        [yKey]: Number(row[yKey]) || 0,
+      })),
+      dataKeys: { primary: yKey },
+      xAxisKey: xKey,
+    };
+  }
+
   let primaryKey = numericKeys[0] || keys[1] || keys[0];
   let secondaryKey = numericKeys.find((key) => key !== primaryKey);
 
@@ -296,7 +345,7 @@ const inferChartDataConfig = (rawData: any[] | undefined, chartType: Chart['type
 
   // Handle case where there are NO numeric columns at all (backend sends string data)
   // We'll aggregate by counting occurrences of each category for bar charts
-  if (numericKeys.length === 0 && chartType === 'bar') {
+  if (numericKeys.length === 0 && isBarChartType(chartType)) {
     console.log('[ChartsView/inferChartDataConfig] No numeric columns found for bar chart, aggregating...');
     console.log('[ChartsView/inferChartDataConfig] String keys:', stringKeys);
     console.log('[ChartsView/inferChartDataConfig] Sample data:', sample);
@@ -356,7 +405,7 @@ const inferChartDataConfig = (rawData: any[] | undefined, chartType: Chart['type
     return coercedRow;
   });
 
-  if (chartType === 'pie') {
+  if (chartType === 'pie' || chartType === 'donut' || chartType === 'funnel') {
     const nameKey = potentialXAxisKey === 'index' ? 'label' : potentialXAxisKey;
     return {
       data: data.map((row, index) => ({
@@ -368,9 +417,9 @@ const inferChartDataConfig = (rawData: any[] | undefined, chartType: Chart['type
     };
   }
 
-  // Sort data by x-axis key for line and area charts to ensure proper connections
+  // Sort data by x-axis key for line/area/combo charts (and KPI deltas) to ensure proper ordering
   let sortedData = data;
-  if (chartType === 'line' || chartType === 'area') {
+  if (chartType === 'line' || chartType === 'area' || chartType === 'combo' || chartType === 'kpi') {
     sortedData = [...data].sort((a, b) => {
       const aVal = a[potentialXAxisKey];
       const bVal = b[potentialXAxisKey];
@@ -409,11 +458,14 @@ const inferChartDataConfig = (rawData: any[] | undefined, chartType: Chart['type
 interface ChartsViewProps {
   currentUser?: { id: number; name: string; email: string };
   projectId?: number | string;
+  /** Chart id from the URL; opens that chart's preview once charts are loaded */
+  chartId?: string;
+  onChartChange?: (chartId: string | null) => void;
   onChartCreated?: (chart: Chart) => void;
   pendingChartFromAI?: {
     id?: string;
     name: string;
-    type: 'line' | 'bar' | 'pie' | 'area';
+    type: ChartType;
     dataSource: string;
     query: string;
     status: 'draft' | 'published';
@@ -421,7 +473,6 @@ interface ChartsViewProps {
   } | null;
   onChartFromAIProcessed?: () => void;
   onOpenAIAssistant?: () => void;
-  onEditChart?: (chart: { name: string; type: 'line' | 'bar' | 'pie' | 'area'; description?: string }) => void;
 }
 
 // Helper function to format time ago
@@ -463,11 +514,15 @@ const chartIdToNumber = (id: string | number | null | undefined): number => {
   return 0;
 };
 
-export function ChartsView({ currentUser, projectId, onChartCreated, pendingChartFromAI, onChartFromAIProcessed, onOpenAIAssistant, onEditChart }: ChartsViewProps) {
+export function ChartsView({ currentUser, projectId, chartId, onChartChange, onChartCreated, pendingChartFromAI, onChartFromAIProcessed, onOpenAIAssistant }: ChartsViewProps) {
   const { isPinned, togglePin } = usePinnedCharts();
   const [charts, setCharts] = useState<Chart[]>([]);
   const [generatedCharts, setGeneratedCharts] = useState<Chart[]>([]);
   const [chartToDelete, setChartToDelete] = useState<Chart | null>(null);
+  const [chartToEdit, setChartToEdit] = useState<Chart | null>(null);
+  // Chart whose version history panel is open
+  const [historyChartId, setHistoryChartId] = useState<string | null>(null);
+  const [isQueryLibraryOpen, setIsQueryLibraryOpen] = useState(false);
   const [previewChart, setPreviewChart] = useState<ChartSuggestion | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [filterStatus, setFilterStatus] = useState<string>("all");
@@ -811,7 +866,7 @@ export function ChartsView({ currentUser, projectId, onChartCreated, pendingChar
               return {
                 id: chart.id,
                 name: chart.title || "Untitled Chart",
-                type: mapChartType(chartTypeSource),
+                type: normalizeChartType(chartTypeSource),
                 dataSource: databaseName,
                 databaseId: databaseConnectionId,
                 createdAt,
@@ -893,7 +948,7 @@ export function ChartsView({ currentUser, projectId, onChartCreated, pendingChar
   const handleCreateChartFromAI = async (chartData: {
     id?: string;
     name: string;
-    type: 'line' | 'bar' | 'pie' | 'area';
+    type: ChartType;
     dataSource: string;
     query: string;
     status: 'draft' | 'published';
@@ -1001,6 +1056,31 @@ export function ChartsView({ currentUser, projectId, onChartCreated, pendingChar
     }
   };
 
+  const historyChart = historyChartId ? charts.find((chart) => String(chart.id) === historyChartId) : undefined;
+
+  const handleChartEdited = (updated: EditableChart) => {
+    const applyEdit = (chart: Chart): Chart =>
+      String(chart.id) === updated.id
+        ? {
+            ...chart,
+            name: updated.name,
+            type: updated.type,
+            query: updated.query,
+            databaseId: updated.databaseId,
+            is_time_based: updated.isTimeBased ?? chart.is_time_based,
+            lastUpdated: 'just now',
+          }
+        : chart;
+
+    setCharts((prev) => prev.map(applyEdit));
+    // Drop the old result so the card re-runs the updated query
+    setChartDataStatus((prev) => {
+      const next = { ...prev };
+      delete next[updated.id];
+      return next;
+    });
+  };
+
   const handleTogglePin = async (chart: Chart) => {
     // Ensure chart.id is a string (UUID) for API call
     const chartId = typeof chart.id === 'string' ? chart.id : String(chart.id);
@@ -1091,6 +1171,38 @@ export function ChartsView({ currentUser, projectId, onChartCreated, pendingChar
     setPreviewChart(chartAsSuggestion);
   };
 
+  // Keep the preview dialog in sync with the chart id in the URL
+  const linkedChart = chartId ? charts.find((c) => String(c.id) === chartId) : undefined;
+  const isLinkedChartMissing = Boolean(chartId) && !isLoadingCharts && !linkedChart;
+
+  useEffect(() => {
+    if (!chartId) {
+      if (previewChart?.id.startsWith('existing-')) {
+        setPreviewChart(null);
+      }
+      return;
+    }
+
+    if (linkedChart && previewChart?.id !== `existing-${linkedChart.id}`) {
+      handleOpenChartPreview(linkedChart);
+    }
+  }, [chartId, linkedChart]);
+
+  const handleSelectChart = (chart: Chart) => {
+    if (onChartChange) {
+      onChartChange(String(chart.id));
+    } else {
+      handleOpenChartPreview(chart);
+    }
+  };
+
+  const handleClosePreview = () => {
+    setPreviewChart(null);
+    if (chartId) {
+      onChartChange?.(null);
+    }
+  };
+
   useEffect(() => {
     if (!previewChart || !previewChart.databaseId || databaseNameById.size === 0) {
       return;
@@ -1162,7 +1274,7 @@ export function ChartsView({ currentUser, projectId, onChartCreated, pendingChar
         const newCharts: Chart[] = response.data.generated_charts.map((chart) => ({
           id: chart.id,
           name: chart.title,
-          type: mapChartType(chart.chart_type) as 'line' | 'bar' | 'pie' | 'area',
+          type: normalizeChartType(chart.chart_type),
           dataSource: selectedDb?.name || "Unknown Database",
           databaseId: selectedDatabaseForGenerate,
           createdAt: new Date().toISOString(),
@@ -1190,20 +1302,6 @@ export function ChartsView({ currentUser, projectId, onChartCreated, pendingChar
     }
   };
 
-  // Helper to map chart type
-  const mapChartType = (type: string | undefined | null): 'line' | 'bar' | 'pie' | 'area' => {
-    if (!type) {
-      return 'line';
-    }
-    const normalized = type.toLowerCase();
-    const typeMap: Record<string, 'line' | 'bar' | 'pie' | 'area'> = {
-      line: 'line',
-      bar: 'bar',
-      pie: 'pie',
-      area: 'area',
-    };
-    return typeMap[normalized] || 'line';
-  };
 
 
 
@@ -1361,7 +1459,7 @@ export function ChartsView({ currentUser, projectId, onChartCreated, pendingChar
             data={preparedData.data}
             dataKeys={preparedData.dataKeys}
             xAxisKey={preparedData.xAxisKey}
-            showLegend={!!preparedData.dataKeys.secondary && chart.type !== 'pie'}
+            showLegend={!!preparedData.dataKeys.secondary && !isRadialChartType(chart.type)}
             height={240}
           />
         )}
@@ -1510,7 +1608,17 @@ export function ChartsView({ currentUser, projectId, onChartCreated, pendingChar
       line: 'text-[#06B6D4] bg-[#06B6D4]/10',
       bar: 'text-[#8B5CF6] bg-[#8B5CF6]/10',
       pie: 'text-[#10B981] bg-[#10B981]/10',
-      area: 'text-[#F59E0B] bg-[#F59E0B]/10'
+      area: 'text-[#F59E0B] bg-[#F59E0B]/10',
+      donut: 'text-[#10B981] bg-[#10B981]/10',
+      scatter: 'text-[#06B6D4] bg-[#06B6D4]/10',
+      stacked_bar: 'text-[#8B5CF6] bg-[#8B5CF6]/10',
+      grouped_bar: 'text-[#8B5CF6] bg-[#8B5CF6]/10',
+      horizontal_bar: 'text-[#8B5CF6] bg-[#8B5CF6]/10',
+      combo: 'text-[#06B6D4] bg-[#06B6D4]/10',
+      funnel: 'text-[#10B981] bg-[#10B981]/10',
+      heatmap: 'text-[#F59E0B] bg-[#F59E0B]/10',
+      kpi: 'text-[#F59E0B] bg-[#F59E0B]/10',
+      table: 'text-[#06B6D4] bg-[#06B6D4]/10'
     }[chart.type];
     const chartName = chart.name?.trim() || "Untitled Chart";
 
@@ -1532,7 +1640,7 @@ export function ChartsView({ currentUser, projectId, onChartCreated, pendingChar
             return;
           }
           if (!isGenerated) {
-            handleOpenChartPreview(chart);
+            handleSelectChart(chart);
           }
         }}
       >
@@ -1584,25 +1692,24 @@ export function ChartsView({ currentUser, projectId, onChartCreated, pendingChar
               )}
               <ActionButtonGroup
                 actions={[
-                  // Edit functionality commented out
-                  // {
-                  //   icon: <Edit2 />,
-                  //   onClick: (e) => {
-                  //     e?.stopPropagation();
-                  //     if (onEditChart) {
-                  //       onEditChart({
-                  //         name: chart.name,
-                  //         type: chart.type,
-                  //         description: chart.dataSource
-                  //       });
-                  //     }
-                  //     if (onOpenAIAssistant) {
-                  //       onOpenAIAssistant();
-                  //     }
-                  //   },
-                  //   label: "Edit chart",
-                  //   variant: "ghost"
-                  // },
+                  ...(!isGenerated && chart.query && chart.databaseId ? [{
+                    icon: <Edit2 />,
+                    onClick: (e?: React.MouseEvent) => {
+                      e?.stopPropagation();
+                      setChartToEdit(chart);
+                    },
+                    label: "Edit chart with AI",
+                    variant: "ghost" as const
+                  }] : []),
+                  ...(!isGenerated ? [{
+                    icon: <History />,
+                    onClick: (e?: React.MouseEvent) => {
+                      e?.stopPropagation();
+                      setHistoryChartId(String(chart.id));
+                    },
+                    label: "Version history",
+                    variant: "ghost" as const
+                  }] : []),
                   {
                     icon: <Trash2 />,
                     onClick: (e) => {
@@ -1680,6 +1787,14 @@ export function ChartsView({ currentUser, projectId, onChartCreated, pendingChar
     );
   }
 
+  if (isLinkedChartMissing) {
+    return (
+      <div className="h-full overflow-auto bg-background">
+        <NotFoundState resource="chart" onBack={() => onChartChange?.(null)} backLabel="Back to charts" />
+      </div>
+    );
+  }
+
   return (
     <div className="h-full overflow-auto bg-background">
       <div className="max-w-[1600px] mx-auto p-10 space-y-10">
@@ -1692,15 +1807,26 @@ export function ChartsView({ currentUser, projectId, onChartCreated, pendingChar
             </p>
           </div>
           
-          {/* Compact Generation Controls */}
-          <GradientButton
-            onClick={handleGenerateCharts}
-            size="sm"
-            className="h-9"
-          >
-            <Sparkles className="w-3.5 h-3.5 mr-1.5" />
-            Generate Charts
-          </GradientButton>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsQueryLibraryOpen(true)}
+              className="h-9 border-border"
+            >
+              <ScrollText className="w-3.5 h-3.5 mr-1.5" />
+              Queries
+            </Button>
+            {/* Compact Generation Controls */}
+            <GradientButton
+              onClick={handleGenerateCharts}
+              size="sm"
+              className="h-9"
+            >
+              <Sparkles className="w-3.5 h-3.5 mr-1.5" />
+              Generate Charts
+            </GradientButton>
+          </div>
         </div>
 
         {/* Generated Charts Section */}
@@ -1903,7 +2029,7 @@ export function ChartsView({ currentUser, projectId, onChartCreated, pendingChar
           <ChartPreviewDialog
             chart={previewChart}
             isOpen={!!previewChart}
-            onClose={() => setPreviewChart(null)}
+            onClose={handleClosePreview}
             dashboards={dashboards}
             projectId={projectId}
             onAddToDashboard={(dashboardId) => {
@@ -1921,9 +2047,58 @@ export function ChartsView({ currentUser, projectId, onChartCreated, pendingChar
             }}
             isExistingChart={previewChart.id.startsWith('existing-')}
             chartStatus="published"
+            savedChartId={previewChart.id.startsWith('existing-') ? previewChart.id.slice('existing-'.length) : undefined}
+            onChartCreated={() => {
+              if (projectId) {
+                fetchCharts();
+              }
+            }}
+            onChartUpdated={() => {
+              if (projectId) {
+                fetchCharts();
+              }
+            }}
           />
         )}
 
+        {/* Edit Chart Dialog */}
+        <EditChartDialog
+          isOpen={!!chartToEdit}
+          onClose={() => setChartToEdit(null)}
+          chart={chartToEdit && chartToEdit.query && chartToEdit.databaseId ? {
+            id: String(chartToEdit.id),
+            name: chartToEdit.name,
+            type: chartToEdit.type,
+            query: chartToEdit.query,
+            databaseId: chartToEdit.databaseId,
+            isTimeBased: chartToEdit.is_time_based,
+          } : null}
+          onSave={handleChartEdited}
+        />
+
+        {/* Chart Version History */}
+        <ChartHistoryPanel
+          chart={historyChart ? {
+            id: String(historyChart.id),
+            name: historyChart.name,
+            type: historyChart.type,
+            query: historyChart.query || "",
+            databaseId: historyChart.databaseId || "",
+            isTimeBased: historyChart.is_time_based,
+          } : null}
+          onClose={() => setHistoryChartId(null)}
+          onRestore={handleChartEdited}
+        />
+
+        {/* Query History and Saved Queries */}
+        <QueryLibraryPanel
+          open={isQueryLibraryOpen}
+          projectId={projectId !== undefined ? String(projectId) : undefined}
+          connections={databases}
+          onClose={() => setIsQueryLibraryOpen(false)}
+          onChartCreated={() => fetchCharts()}
+        />
+
         {/* Delete Confirmation Dialog */}
         <AlertDialog open={!!chartToDelete} onOpenChange={() => setChartToDelete(null)}>
           <AlertDialogContent className="border-border">
@@ -1,12 +1,30 @@
-import { useState, useEffect, useCallback, useRef } from "react";
-import { ArrowLeft, Download, Plus, Edit2, X, Pin, Sparkles, Loader2, Calendar as CalendarIcon, Users } from "lucide-react";
+import { useState, useEffect, useCallback, useRef, useMemo } from "react";
+import { ArrowLeft, Download, Plus, Edit2, History, X, Pin, Sparkles, Loader2, Calendar as CalendarIcon, Users, LayoutGrid, Undo2, Save, Filter, FilterX, RefreshCw, Clock, Tv, Minimize2, MoreHorizontal, Copy, LayoutTemplate, Type } from "lucide-react";
 import { Button } from "../components/ui/button";
 import { Card } from "../components/ui/card";
 import { Badge } from "../components/ui/badge";
 import { GradientButton } from "../components/shared/GradientButton";
 import { ChartCard } from "../components/features/charts/ChartCard";
+import { EditChartDialog, type EditableChart } from "../components/features/charts/EditChartDialog";
+import { ChartDrillPanel, type ChartDrillRequest } from "../components/features/charts/ChartDrillPanel";
+import { ChartHistoryPanel } from "../components/features/charts/ChartHistoryPanel";
+import { ChartParameterBar, PARAMETER_BAR_HEIGHT } from "../components/features/charts/ChartParameterBar";
+import { DashboardGrid } from "../components/features/dashboards/DashboardGrid";
+import { DashboardFilterBar } from "../components/features/dashboards/DashboardFilterBar";
+import { CrossFilterBar } from "../components/features/dashboards/CrossFilterBar";
+import { KioskSetupDialog } from "../components/features/dashboards/KioskSetupDialog";
+import { SaveTemplateDialog } from "../components/features/dashboards/SaveTemplateDialog";
+import { DashboardWidgetCard } from "../components/features/dashboards/DashboardWidgetCard";
 import { usePinnedCharts } from "../context/PinnedChartsContext";
-import { inferChartDataConfig, getDefaultChartDataConfig } from "../utils/chartData";
+import { inferChartDataConfig, getDefaultChartDataConfig, type ChartDataConfig } from "../utils/chartData";
+import { resolveDrillTarget, type ChartDrillTarget, type ChartPointSelection } from "../utils/chartDrill";
+import {
+  applyCrossFilters,
+  describeCrossFilters,
+  getChartCrossFilters,
+  toggleCrossFilter,
+  type CrossFilter,
+} from "../utils/crossFilter";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -27,10 +45,100 @@ import {
 } from "../components/ui/dialog";
 import { Checkbox } from "../components/ui/checkbox";
 import { Label } from "../components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "../components/ui/dropdown-menu";
 import { toast } from "sonner";
 import DatePicker from "react-datepicker";
 import "react-datepicker/dist/react-datepicker.css";
-import { getDashboardCharts, getChartData, deleteChart, getTeamMembers, addUserToDashboard, type ChartData, type TeamMember } from "../services/api";
+import {
+  getDashboardCharts,
+  getChartData,
+  deleteChart,
+  getTeamMembers,
+  addUserToDashboard,
+  getDashboardLayout,
+  updateDashboardLayout,
+  getDashboardWidgets,
+  updateDashboardWidgets,
+  getChartAnnotations,
+  updateChartAnnotations,
+  getChartParameters,
+  getDatabaseSchema,
+  type ChartAnnotation,
+  type ChartData,
+  type ChartParameter,
+  type ChartParameterValues,
+  type ChartQueryParameters,
+  type TeamMember,
+  type DashboardLayoutItem,
+  type DashboardWidget,
+  type DashboardWidgetType,
+} from "../services/api";
+import { isRadialChartType, normalizeChartType, type ChartType } from "../utils/chartTypes";
+import {
+  GRID_GAP,
+  GRID_ROW_HEIGHT,
+  appendLayoutItem,
+  compactLayout,
+  getLayoutRowCount,
+  isSameLayout,
+  loadStoredLayout,
+  reconcileLayout,
+  storeLayout,
+} from "../utils/dashboardLayout";
+import { DEFAULT_KIOSK_REFRESH_INTERVAL, type KioskSettings } from "../utils/kiosk";
+import {
+  REFRESH_INTERVAL_OPTIONS,
+  REFRESH_STAGGER_MS,
+  getRefreshIntervalLabel,
+  loadRefreshInterval,
+  storeRefreshInterval,
+} from "../utils/dashboardRefresh";
+import {
+  applyColumnFilters,
+  collectFilterOptions,
+  countActiveFilters,
+  describeDashboardFilters,
+  isCompleteDateRange,
+  isSameDateRange,
+  readDashboardFilters,
+  writeDashboardFilters,
+  type DashboardFilterState,
+  type DateRange,
+} from "../utils/dashboardFilters";
+import { EXPORT_IGNORE_ATTRIBUTE, exportDashboardToPdf, exportDashboardToPng } from "../utils/dashboardExport";
+import { DATA_EXPORT_FORMATS, exportData, type DataExportFormat, type DataExportTable } from "../utils/dataExport";
+import {
+  buildDashboardTemplate,
+  getPrimaryConnectionId,
+  saveDashboardTemplate,
+  type DashboardTemplate,
+} from "../utils/dashboardTemplates";
+import {
+  WIDGET_DEFAULT_SIZE,
+  WIDGET_EDITOR_MIN_HEIGHT,
+  WIDGET_MIN_SIZE,
+  WIDGET_TYPE_OPTIONS,
+  createWidget,
+  isWidgetEmpty,
+  isWidgetId,
+  loadStoredWidgets,
+  storeWidgets,
+} from "../utils/dashboardWidgets";
+import { loadStoredAnnotations, storeAnnotations } from "../utils/chartAnnotations";
+import {
+  getDefaultParameterValues,
+  hasQueryParameters,
+  loadStoredParameters,
+  resolveChartParameters,
+  storeParameters,
+} from "../utils/chartParameters";
 
 // Custom styles for date picker to hide default clear button
 if (typeof document !== 'undefined') {
@@ -61,21 +169,32 @@ interface DashboardDetailViewProps {
   onBack: () => void;
   onDelete?: (dashboardId: string, dashboardName: string) => void;
   onOpenAIAssistant?: () => void;
-  onEditChart?: (chart: { name: string; type: 'line' | 'bar' | 'pie' | 'area'; description?: string }) => void;
   refreshTrigger?: number;
+  /** Render in presentation (TV) mode: no controls, charts stretched to fill the screen */
+  kioskMode?: boolean;
+  /** Data refresh period while in kiosk mode */
+  kioskRefreshInterval?: number;
+  /** Dashboards in the project, offered for kiosk rotation */
+  projectDashboards?: Array<{ id: string; name: string }>;
+  onEnterKiosk?: (settings: Omit<KioskSettings, 'enabled'>) => void;
+  onExitKiosk?: () => void;
+  /** Opens the duplicate dialog with a snapshot of this dashboard */
+  onDuplicate?: (template: DashboardTemplate) => void;
 }
 
 interface ChartCardData {
   id: string;
   title: string;
   description: string;
-  type: 'line' | 'bar' | 'pie' | 'area';
+  type: ChartType;
   query: string;
   databaseConnectionId: string;
   created_at: string;
   chartData?: ChartData;
   isLoadingData?: boolean;
   isExporting?: boolean;
+  isRefreshing?: boolean;
+  fetchedAt?: string;
   xAxis?: string | null;
   yAxis?: string | null;
   is_time_based?: boolean;
@@ -97,6 +216,11 @@ const formatTimeAgo = (dateString: string): string => {
   return date.toLocaleDateString();
 };
 
+// Vertical space a chart card uses around the chart itself (padding, title, gaps)
+const CARD_CHROME_HEIGHT = 164;
+const DATE_RANGE_HEIGHT = 72;
+const MIN_CHART_HEIGHT = 160;
+
 export function DashboardDetailView({ 
   dashboardId, 
   dashboardName, 
@@ -104,16 +228,27 @@ export function DashboardDetailView({
   onBack,
   onDelete: _onDelete,
   onOpenAIAssistant, 
-  onEditChart,
-  refreshTrigger
+  refreshTrigger,
+  kioskMode = false,
+  kioskRefreshInterval = DEFAULT_KIOSK_REFRESH_INTERVAL,
+  projectDashboards = [],
+  onEnterKiosk,
+  onExitKiosk,
+  onDuplicate,
 }: DashboardDetailViewProps) {
   const { isPinned, togglePin } = usePinnedCharts();
   const [chartToRemove, setChartToRemove] = useState<ChartCardData | null>(null);
+  const [chartToEdit, setChartToEdit] = useState<ChartCardData | null>(null);
+  // Chart whose version history panel is open
+  const [historyChartId, setHistoryChartId] = useState<string | null>(null);
   const [charts, setCharts] = useState<ChartCardData[]>([]);
   const [isLoadingCharts, setIsLoadingCharts] = useState(true);
-  const [lastUpdated, setLastUpdated] = useState<string>("");
   const [chartDateRanges, setChartDateRanges] = useState<Record<string, { startDate: Date | null; endDate: Date | null }>>({});
   const [openDatePicker, setOpenDatePicker] = useState<string | null>(null);
+  // Dashboard-wide filters, restored from and mirrored to the URL query string
+  const [dashboardFilters, setDashboardFilters] = useState<DashboardFilterState>(() => readDashboardFilters());
+  // Read by fetches started from memoized callbacks, which would otherwise see stale filters
+  const dashboardFiltersRef = useRef(dashboardFilters);
   
   // Member addition state
   const [addMemberDialogOpen, setAddMemberDialogOpen] = useState(false);
@@ -123,6 +258,51 @@ export function DashboardDetailView({
   const [isAddingMembers, setIsAddingMembers] = useState(false);
   const lastRefreshTriggerRef = useRef<number>(0);
 
+  // Auto-refresh state
+  const [refreshInterval, setRefreshInterval] = useState(() => loadRefreshInterval(dashboardId));
+  const [isRefreshingAll, setIsRefreshingAll] = useState(false);
+  const [, setFreshnessTick] = useState(0);
+  const lastAutoRefreshRef = useRef<number>(Date.now());
+  const refreshInProgressRef = useRef(false);
+  const refreshAllChartsRef = useRef<(background: boolean) => Promise<void>>(async () => {});
+
+  // Kiosk mode state
+  const [isKioskDialogOpen, setIsKioskDialogOpen] = useState(false);
+  const [kioskGridHeight, setKioskGridHeight] = useState(0);
+  const kioskGridRef = useRef<HTMLDivElement>(null);
+
+  // Dashboard export state
+  const [isExportingDashboard, setIsExportingDashboard] = useState(false);
+  const chartsGridRef = useRef<HTMLDivElement>(null);
+
+  // Duplicate / template state
+  const [isSaveTemplateOpen, setIsSaveTemplateOpen] = useState(false);
+  const [isPreparingCopy, setIsPreparingCopy] = useState(false);
+
+  // Grid layout state; layoutDraft is only set while the layout is being edited
+  const [savedLayout, setSavedLayout] = useState<DashboardLayoutItem[]>([]);
+  const [layoutDraft, setLayoutDraft] = useState<DashboardLayoutItem[] | null>(null);
+  const [layoutHistory, setLayoutHistory] = useState<DashboardLayoutItem[][]>([]);
+  const [isSavingLayout, setIsSavingLayout] = useState(false);
+  const isEditingLayout = layoutDraft !== null;
+
+  // Text, header, image and link widgets placed on the grid next to the charts
+  const [widgets, setWidgets] = useState<DashboardWidget[]>([]);
+  const [editingWidgetId, setEditingWidgetId] = useState<string | null>(null);
+
+  // Chart point being drilled into (side panel)
+  const [drillRequest, setDrillRequest] = useState<ChartDrillRequest | null>(null);
+
+  // Events and reference lines drawn on each chart, by chart id
+  const [chartAnnotations, setChartAnnotations] = useState<Record<string, ChartAnnotation[]>>({});
+
+  // Declared `{{name}}` variables of each chart, and the values picked in its parameter bar
+  const [chartParameters, setChartParameters] = useState<Record<string, ChartParameter[]>>({});
+  const [chartParameterValues, setChartParameterValues] = useState<Record<string, ChartParameterValues>>({});
+
+  // Categories clicked in one chart, filtering the other charts that share the column
+  const [crossFilters, setCrossFilters] = useState<CrossFilter[]>([]);
+
   // Helper to format date as YYYY-MM-DD for API calls
   const formatDateForAPI = (date: Date): string => {
     const year = date.getFullYear();
@@ -143,23 +323,63 @@ export function DashboardDetailView({
     return `${month} ${day}, ${year}`;
   };
 
-  // Fetch chart data for a specific chart
-  const fetchChartData = async (chart: ChartCardData, dateRangeOverride?: { startDate: Date | null; endDate: Date | null }): Promise<ChartData | null> => {
+  const usesDashboardFilters = (chart: ChartCardData, filters: DashboardFilterState = dashboardFilters) =>
+    !filters.excludedChartIds.includes(String(chart.id));
+
+  // Chart rows after the dashboard filters and the cross-filters from other charts
+  const getFilteredRows = (chart: ChartCardData, rows: any[]): any[] => {
+    if (!usesDashboardFilters(chart)) return rows;
+    return applyCrossFilters(
+      { id: chart.id, xAxis: chart.xAxis, yAxis: chart.yAxis, rows: applyColumnFilters(rows, dashboardFilters.columnFilters) },
+      crossFilters
+    );
+  };
+
+  const getAppliedCrossFilters = (chart: ChartCardData): CrossFilter[] =>
+    usesDashboardFilters(chart)
+      ? getChartCrossFilters({ id: chart.id, xAxis: chart.xAxis, yAxis: chart.yAxis, rows: chart.chartData?.data || [] }, crossFilters)
+      : [];
+
+  // The dashboard date range wins over a chart's own range unless the chart opts out
+  const resolveDateRange = (chart: ChartCardData, filters: DashboardFilterState = dashboardFiltersRef.current): DateRange | undefined => {
+    if (chart.is_time_based === true && usesDashboardFilters(chart, filters) && isCompleteDateRange(filters.dateRange)) {
+      return filters.dateRange;
+    }
+    return chartDateRanges[String(chart.id)];
+  };
+
+  // Values picked in a chart's parameter bar; until then getChartData runs the declared defaults
+  const getChartQueryParameters = (chart: ChartCardData): ChartQueryParameters | undefined => {
+    const values = chartParameterValues[chart.id];
+    if (!values || !hasQueryParameters(chart.query)) return undefined;
+    return { definitions: resolveChartParameters(chart.query, chartParameters[chart.id]), values };
+  };
+
+  // Fetch chart data for a specific chart. Background refreshes keep the current
+  // chart on screen and skip error toasts so a failing query doesn't spam the user.
+  const fetchChartData = async (
+    chart: ChartCardData,
+    dateRangeOverride?: DateRange,
+    options: { bypassCache?: boolean; background?: boolean; parameters?: ChartQueryParameters } = {}
+  ): Promise<ChartData | null> => {
+    const { bypassCache = false, background = false } = options;
+    const parameters = options.parameters ?? getChartQueryParameters(chart);
     if (!chart.databaseConnectionId) {
-      toast.error("Database connection not available for this chart");
+      if (!background) toast.error("Database connection not available for this chart");
       return null;
     }
     if (!chart.query) {
-      toast.error("Chart query not available. Please refresh the page or contact support.");
+      if (!background) toast.error("Chart query not available. Please refresh the page or contact support.");
       return null;
     }
 
-    const chartKey = String(chart.id);
-    const dateRange = dateRangeOverride || chartDateRanges[chartKey];
+    const dateRange = dateRangeOverride || resolveDateRange(chart);
+    const loadingState = background ? { isRefreshing: true } : { isLoadingData: true };
+    const idleState = { isLoadingData: false, isRefreshing: false };
 
     // Update chart loading state
     setCharts(prev => prev.map(c => 
-      c.id === chart.id ? { ...c, isLoadingData: true } : c
+      c.id === chart.id ? { ...c, ...loadingState } : c
     ));
 
     try {
@@ -177,24 +397,27 @@ export function DashboardDetailView({
         chart.databaseConnectionId, 
         chart.query,
         fromDate,
-        toDate
+        toDate,
+        bypassCache,
+        parameters
       );
       if (response.success && response.data) {
+        const fetchedAt = new Date().toISOString();
         setCharts(prev => prev.map(c => 
-          c.id === chart.id ? { ...c, chartData: response.data, isLoadingData: false } : c
+          c.id === chart.id ? { ...c, ...idleState, chartData: response.data, fetchedAt } : c
         ));
         return response.data;
       } else {
-        toast.error(response.error?.message || "Failed to load chart data");
+        if (!background) toast.error(response.error?.message || "Failed to load chart data");
         setCharts(prev => prev.map(c => 
-          c.id === chart.id ? { ...c, isLoadingData: false } : c
+          c.id === chart.id ? { ...c, ...idleState } : c
         ));
         return null;
       }
     } catch (error: any) {
-      toast.error(error.message || "An error occurred while fetching chart data");
+      if (!background) toast.error(error.message || "An error occurred while fetching chart data");
       setCharts(prev => prev.map(c => 
-        c.id === chart.id ? { ...c, isLoadingData: false } : c
+        c.id === chart.id ? { ...c, ...idleState } : c
       ));
       return null;
     }
@@ -281,17 +504,6 @@ export function DashboardDetailView({
     try {
       const response = await getDashboardCharts(dashboardId);
       if (response.success && response.data) {
-        // Helper function to normalize chart type
-        const normalizeChartType = (chartType: string | null | undefined): 'line' | 'bar' | 'pie' | 'area' => {
-          if (!chartType) return 'line'; // Default to line if not provided
-          const normalized = chartType.toLowerCase();
-          if (normalized === 'bar' || normalized === 'column') return 'bar';
-          if (normalized === 'pie' || normalized === 'donut') return 'pie';
-          if (normalized === 'area') return 'area';
-          if (normalized === 'line') return 'line';
-          return 'line'; // Default fallback
-        };
-
         const mappedCharts: ChartCardData[] = response.data.map((chart) => ({
           id: chart.id,
           title: chart.title,
@@ -305,14 +517,7 @@ export function DashboardDetailView({
           is_time_based: chart.is_time_based ?? false,
         }));
         setCharts(mappedCharts);
-        
-        // Set last updated to the most recent chart's created_at
-        if (mappedCharts.length > 0) {
-          const mostRecent = mappedCharts.reduce((latest, chart) => 
-            new Date(chart.created_at) > new Date(latest.created_at) ? chart : latest
-          );
-          setLastUpdated(formatTimeAgo(mostRecent.created_at));
-        }
+        lastAutoRefreshRef.current = Date.now();
 
         // Automatically execute queries for all charts
         mappedCharts.forEach((chart) => {
@@ -349,20 +554,479 @@ export function DashboardDetailView({
     }
   }, [refreshTrigger, fetchDashboardCharts]);
 
-  const handleEditChart = (chart: ChartCardData) => {
-    // Pass chart info to parent
-    if (onEditChart) {
-      onEditChart({
-        name: chart.title,
-        type: chart.type,
-        description: chart.description
+  // Load the saved layout and widgets, falling back to the copies stored on this device
+  useEffect(() => {
+    if (!dashboardId) return;
+
+    let cancelled = false;
+    setLayoutDraft(null);
+    setLayoutHistory([]);
+    setEditingWidgetId(null);
+
+    const loadLayout = async () => {
+      const [response, widgetsResponse] = await Promise.all([
+        getDashboardLayout(dashboardId),
+        getDashboardWidgets(dashboardId),
+      ]);
+      if (cancelled) return;
+
+      if (widgetsResponse.success && widgetsResponse.data && widgetsResponse.data.length > 0) {
+        setWidgets(widgetsResponse.data);
+        storeWidgets(dashboardId, widgetsResponse.data);
+      } else {
+        setWidgets(loadStoredWidgets(dashboardId) || []);
+      }
+
+      if (response.success && response.data && response.data.length > 0) {
+        setSavedLayout(response.data);
+        storeLayout(dashboardId, response.data);
+      } else {
+        setSavedLayout(loadStoredLayout(dashboardId) || []);
+      }
+    };
+
+    loadLayout();
+    return () => {
+      cancelled = true;
+    };
+  }, [dashboardId]);
+
+  // Keep the layout in sync with the charts and widgets currently on the dashboard
+  const itemIdsKey = [...charts.map((chart) => chart.id), ...widgets.map((widget) => widget.id)].join(',');
+  const layout = useMemo(
+    () => reconcileLayout(layoutDraft ?? savedLayout, itemIdsKey ? itemIdsKey.split(',') : []),
+    [layoutDraft, savedLayout, itemIdsKey]
+  );
+  const hasLayoutChanges = isEditingLayout && !isSameLayout(layout, reconcileLayout(savedLayout, itemIdsKey ? itemIdsKey.split(',') : []));
+
+  // Load each chart's annotations, showing the copies stored on this device until the server responds
+  const chartIdsKey = charts.map((chart) => chart.id).join(',');
+  useEffect(() => {
+    const chartIds = chartIdsKey ? chartIdsKey.split(',') : [];
+    let cancelled = false;
+    setChartAnnotations(Object.fromEntries(chartIds.map((id) => [id, loadStoredAnnotations(id) || []])));
+
+    const loadAnnotations = async () => {
+      const responses = await Promise.all(chartIds.map((id) => getChartAnnotations(id)));
+      if (cancelled) return;
+
+      setChartAnnotations((prev) => {
+        const next = { ...prev };
+        responses.forEach((response, index) => {
+          if (response.success && response.data && response.data.length > 0) {
+            next[chartIds[index]] = response.data;
+            storeAnnotations(chartIds[index], response.data);
+          }
+        });
+        return next;
+      });
+    };
+
+    loadAnnotations();
+    return () => {
+      cancelled = true;
+    };
+  }, [chartIdsKey]);
+
+  // Load the parameter declarations of charts with `{{name}}` variables. Charts still on their
+  // defaults are re-run when the server's declarations differ from the copy on this device.
+  const parameterizedChartIdsKey = charts
+    .filter((chart) => hasQueryParameters(chart.query))
+    .map((chart) => chart.id)
+    .join(',');
+  useEffect(() => {
+    const chartIds = parameterizedChartIdsKey ? parameterizedChartIdsKey.split(',') : [];
+    let cancelled = false;
+    setChartParameters(Object.fromEntries(chartIds.map((id) => [id, loadStoredParameters(id) || []])));
+
+    const loadParameters = async () => {
+      const responses = await Promise.all(chartIds.map((id) => getChartParameters(id)));
+      if (cancelled) return;
+
+      responses.forEach((response, index) => {
+        const chartId = chartIds[index];
+        if (!response.success || !response.data || response.data.length === 0) return;
+
+        const declared = response.data;
+        const isChanged = JSON.stringify(declared) !== JSON.stringify(loadStoredParameters(chartId) || []);
+        storeParameters(chartId, declared);
+        setChartParameters((prev) => ({ ...prev, [chartId]: declared }));
+
+        const chart = charts.find((c) => c.id === chartId);
+        if (isChanged && chart && !chartParameterValues[chartId]) {
+          const definitions = resolveChartParameters(chart.query, declared);
+          fetchChartData(chart, undefined, {
+            parameters: { definitions, values: getDefaultParameterValues(definitions) },
+          });
+        }
+      });
+    };
+
+    loadParameters();
+    return () => {
+      cancelled = true;
+    };
+  }, [parameterizedChartIdsKey]);
+
+  // A widget being edited inline is given room for its editor without changing the saved layout
+  const editingWidget = widgets.find((widget) => widget.id === editingWidgetId);
+  const displayedLayout = useMemo(
+    () => editingWidget
+      ? compactLayout(layout.map((item) =>
+          item.chartId === editingWidget.id
+            ? { ...item, h: Math.max(item.h, WIDGET_EDITOR_MIN_HEIGHT[editingWidget.type]) }
+            : item
+        ))
+      : layout,
+    [layout, editingWidget]
+  );
+
+  const handleStartEditingLayout = () => {
+    setEditingWidgetId(null);
+    setLayoutDraft(layout);
+    setLayoutHistory([]);
+  };
+
+  const handleLayoutChange = (nextLayout: DashboardLayoutItem[]) => {
+    setLayoutHistory(prev => [...prev, layout]);
+    setLayoutDraft(nextLayout);
+  };
+
+  const handleUndoLayoutChange = useCallback(() => {
+    setLayoutHistory(prev => {
+      if (prev.length === 0) return prev;
+      setLayoutDraft(prev[prev.length - 1]);
+      return prev.slice(0, -1);
+    });
+  }, []);
+
+  const handleCancelEditingLayout = () => {
+    setLayoutDraft(null);
+    setLayoutHistory([]);
+  };
+
+  const handleSaveLayout = async () => {
+    if (!layoutDraft) return;
+
+    setIsSavingLayout(true);
+    try {
+      storeLayout(dashboardId, layout);
+      const response = await updateDashboardLayout(dashboardId, layout);
+      if (response.success) {
+        toast.success("Dashboard layout saved");
+      } else {
+        toast.warning("Layout saved on this device only", {
+          description: response.error?.message || "The server could not store the layout.",
+        });
+      }
+      setSavedLayout(layout);
+      setLayoutDraft(null);
+      setLayoutHistory([]);
+    } finally {
+      setIsSavingLayout(false);
+    }
+  };
+
+  // Ctrl/Cmd+Z undoes the last layout change while editing
+  useEffect(() => {
+    if (!isEditingLayout) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      if ((event.ctrlKey || event.metaKey) && !event.shiftKey && event.key.toLowerCase() === 'z') {
+        event.preventDefault();
+        handleUndoLayoutChange();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isEditingLayout, handleUndoLayoutChange]);
+
+  // Widgets and the layout they sit in are saved together
+  const saveWidgets = async (nextWidgets: DashboardWidget[], nextLayout: DashboardLayoutItem[]) => {
+    setWidgets(nextWidgets);
+    setSavedLayout(nextLayout);
+    storeWidgets(dashboardId, nextWidgets);
+    storeLayout(dashboardId, nextLayout);
+
+    const [widgetsResponse, layoutResponse] = await Promise.all([
+      updateDashboardWidgets(dashboardId, nextWidgets),
+      updateDashboardLayout(dashboardId, nextLayout),
+    ]);
+    if (!widgetsResponse.success || !layoutResponse.success) {
+      toast.warning("Widgets saved on this device only", {
+        description: widgetsResponse.error?.message || layoutResponse.error?.message || "The server could not store the widgets.",
+      });
+    }
+  };
+
+  const handleParameterChange = (chart: ChartCardData, name: string, value: string | null) => {
+    const definitions = resolveChartParameters(chart.query, chartParameters[chart.id]);
+    const values = {
+      ...getDefaultParameterValues(definitions),
+      ...chartParameterValues[chart.id],
+      [name]: value,
+    };
+    setChartParameterValues(prev => ({ ...prev, [chart.id]: values }));
+    fetchChartData(chart, undefined, { parameters: { definitions, values } });
+  };
+
+  const handleAnnotationsChange = async (chart: ChartCardData, annotations: ChartAnnotation[]) => {
+    setChartAnnotations(prev => ({ ...prev, [chart.id]: annotations }));
+    storeAnnotations(chart.id, annotations);
+
+    const response = await updateChartAnnotations(chart.id, annotations);
+    if (!response.success) {
+      toast.warning("Annotations saved on this device only", {
+        description: response.error?.message || "The server could not store the annotations.",
       });
     }
-    // Open AI Assistant for editing
-    if (onOpenAIAssistant) {
-      onOpenAIAssistant();
+  };
+
+  // New widgets stay local until their editor is confirmed
+  const handleAddWidget = (type: DashboardWidgetType) => {
+    const widget = createWidget(type);
+    setWidgets(prev => [...prev, widget]);
+    setSavedLayout(appendLayoutItem(layout, widget.id, WIDGET_DEFAULT_SIZE[type]));
+    setEditingWidgetId(widget.id);
+  };
+
+  const handleSaveWidget = (updated: DashboardWidget) => {
+    setEditingWidgetId(null);
+    const nextWidgets = widgets.map((widget) => (widget.id === updated.id ? updated : widget));
+    saveWidgets(nextWidgets, layout);
+  };
+
+  const handleRemoveWidget = (widgetId: string, options: { silent?: boolean } = {}) => {
+    const previousWidgets = widgets;
+    const previousLayout = layout;
+    setEditingWidgetId(null);
+    saveWidgets(
+      widgets.filter((widget) => widget.id !== widgetId),
+      layout.filter((item) => item.chartId !== widgetId)
+    );
+
+    if (!options.silent) {
+      toast.success("Widget removed", {
+        action: { label: "Undo", onClick: () => saveWidgets(previousWidgets, previousLayout) },
+      });
+    }
+  };
+
+  // Cancelling the editor of a widget that was never filled in discards it
+  const handleCancelWidget = (widget: DashboardWidget) => {
+    if (isWidgetEmpty(widget)) {
+      handleRemoveWidget(widget.id, { silent: true });
+    } else {
+      setEditingWidgetId(null);
+    }
+  };
+
+  const renderGridItem = (itemId: string, height: number) => {
+    if (isWidgetId(itemId)) {
+      const widget = widgets.find((w) => w.id === itemId);
+      return widget ? (
+        <DashboardWidgetCard
+          widget={widget}
+          isEditing={editingWidgetId === widget.id}
+          readOnly={kioskMode || isEditingLayout}
+          onEdit={() => setEditingWidgetId(widget.id)}
+          onSave={handleSaveWidget}
+          onCancel={() => handleCancelWidget(widget)}
+          onRemove={() => handleRemoveWidget(widget.id)}
+        />
+      ) : null;
+    }
+
+    const chart = charts.find((c) => c.id === itemId);
+    return chart ? renderChartCard(chart, height) : null;
+  };
+
+  const getGridItemMinSize = (itemId: string) => {
+    const widget = isWidgetId(itemId) ? widgets.find((w) => w.id === itemId) : undefined;
+    return widget ? WIDGET_MIN_SIZE[widget.type] : undefined;
+  };
+
+  // Re-run every chart query against the datasource, one chart at a time
+  const refreshAllCharts = async (background: boolean) => {
+    if (refreshInProgressRef.current) return;
+
+    const refreshable = charts.filter((chart) => chart.query && chart.databaseConnectionId);
+    if (refreshable.length === 0) return;
+
+    refreshInProgressRef.current = true;
+    setIsRefreshingAll(true);
+    lastAutoRefreshRef.current = Date.now();
+
+    try {
+      const requests: Promise<ChartData | null>[] = [];
+      for (let index = 0; index < refreshable.length; index++) {
+        if (index > 0) {
+          await new Promise((resolve) => setTimeout(resolve, REFRESH_STAGGER_MS));
+        }
+        // Stop scheduled refreshes as soon as the tab is hidden
+        if (background && document.hidden) break;
+        requests.push(fetchChartData(refreshable[index], undefined, { bypassCache: true, background }));
+      }
+      await Promise.all(requests);
+    } finally {
+      refreshInProgressRef.current = false;
+      setIsRefreshingAll(false);
     }
   };
+  refreshAllChartsRef.current = refreshAllCharts;
+
+  useEffect(() => {
+    setRefreshInterval(loadRefreshInterval(dashboardId));
+  }, [dashboardId]);
+
+  useEffect(() => {
+    setCrossFilters([]);
+  }, [dashboardId]);
+
+  const handleRefreshIntervalChange = (value: string) => {
+    const interval = Number(value);
+    setRefreshInterval(interval);
+    storeRefreshInterval(dashboardId, interval);
+  };
+
+  // Kiosk screens always refresh, on their own schedule
+  const activeRefreshInterval = kioskMode ? kioskRefreshInterval : refreshInterval;
+
+  // Scheduled refresh; paused while the tab is hidden and caught up when it becomes visible
+  useEffect(() => {
+    const refreshInterval = activeRefreshInterval;
+    if (!refreshInterval) return;
+
+    let timer: ReturnType<typeof setInterval> | undefined;
+    const start = () => {
+      timer = setInterval(() => refreshAllChartsRef.current(true), refreshInterval);
+    };
+    const stop = () => {
+      if (timer) clearInterval(timer);
+      timer = undefined;
+    };
+
+    const handleVisibilityChange = () => {
+      stop();
+      if (document.hidden) return;
+      if (Date.now() - lastAutoRefreshRef.current >= refreshInterval) {
+        refreshAllChartsRef.current(true);
+      }
+      start();
+    };
+
+    if (!document.hidden) start();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      stop();
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [activeRefreshInterval]);
+
+  // Track the space available to the grid so kiosk rows can fill the screen
+  useEffect(() => {
+    const element = kioskGridRef.current;
+    if (!kioskMode || !element) return;
+
+    setKioskGridHeight(element.clientHeight);
+    const observer = new ResizeObserver((entries) => {
+      setKioskGridHeight(entries[0].contentRect.height);
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [kioskMode]);
+
+  // Escape leaves kiosk mode
+  useEffect(() => {
+    if (!kioskMode || !onExitKiosk) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onExitKiosk();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [kioskMode, onExitKiosk]);
+
+  // Re-render periodically so "as of" labels stay current
+  useEffect(() => {
+    const timer = setInterval(() => setFreshnessTick((tick) => tick + 1), 30 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const getChartDataAsOf = (chart: ChartCardData): string | null =>
+    chart.chartData?.metadata?.cachedAt || chart.fetchedAt || null;
+
+  // The dashboard is only as fresh as its stalest chart
+  const dashboardDataAsOf = charts
+    .map(getChartDataAsOf)
+    .filter((value): value is string => !!value && !isNaN(Date.parse(value)))
+    .sort()[0];
+
+  // Categorical columns across the loaded charts, offered as dashboard filters
+  const filterOptions = useMemo(
+    () => collectFilterOptions(charts.map((chart) => chart.chartData?.data || [])),
+    [charts]
+  );
+
+  const handleFiltersChange = (nextFilters: DashboardFilterState) => {
+    const previousFilters = dashboardFilters;
+    dashboardFiltersRef.current = nextFilters;
+    setDashboardFilters(nextFilters);
+    writeDashboardFilters(nextFilters);
+
+    // Re-query time-based charts whose effective date range changed
+    charts.forEach((chart) => {
+      if (chart.is_time_based !== true || !chart.query || !chart.databaseConnectionId) return;
+      const nextRange = resolveDateRange(chart, nextFilters);
+      if (!isSameDateRange(resolveDateRange(chart, previousFilters), nextRange)) {
+        fetchChartData(chart, nextRange ?? { startDate: null, endDate: null });
+      }
+    });
+  };
+
+  const handleToggleChartFilters = (chart: ChartCardData) => {
+    const chartKey = String(chart.id);
+    const excludedChartIds = dashboardFilters.excludedChartIds.includes(chartKey)
+      ? dashboardFilters.excludedChartIds.filter((id) => id !== chartKey)
+      : [...dashboardFilters.excludedChartIds, chartKey];
+    handleFiltersChange({ ...dashboardFilters, excludedChartIds });
+  };
+
+  const historyChart = charts.find(c => c.id === historyChartId);
+
+  const toEditableChart = (chart: ChartCardData): EditableChart => ({
+    id: chart.id,
+    name: chart.title,
+    type: chart.type,
+    query: chart.query,
+    databaseId: chart.databaseConnectionId,
+    xAxis: chart.xAxis,
+    yAxis: chart.yAxis,
+    isTimeBased: chart.is_time_based,
+  });
+
+  const handleChartEdited = (updated: EditableChart) => {
+    const original = charts.find(c => c.id === updated.id);
+    if (!original) return;
+
+    const editedChart: ChartCardData = {
+      ...original,
+      title: updated.name,
+      type: updated.type,
+      query: updated.query,
+      databaseConnectionId: updated.databaseId,
+      xAxis: updated.xAxis ?? null,
+      yAxis: updated.yAxis ?? null,
+      is_time_based: updated.isTimeBased ?? original.is_time_based,
+      chartData: undefined,
+    };
+
+    setCharts(prev => prev.map(c => (c.id === updated.id ? editedChart : c)));
+    fetchChartData(editedChart);
+  };
 
   const handleRemoveChart = async (chartId: string) => {
     if (!dashboardId) {
@@ -375,6 +1039,7 @@ export function DashboardDetailView({
       
       if (response.success) {
         setCharts(prev => prev.filter(chart => chart.id !== chartId));
+        setCrossFilters(prev => prev.filter(filter => filter.sourceChartId !== chartId));
         toast.success(response.data?.message || `Chart removed from dashboard`);
         setChartToRemove(null);
       } else {
@@ -410,51 +1075,26 @@ export function DashboardDetailView({
   };
 
 
-  const convertDataToCSV = (rows: any[]): string => {
-    if (!Array.isArray(rows) || rows.length === 0) {
-      return "";
-    }
-
-    if (typeof rows[0] !== "object" || rows[0] === null) {
-      return rows.map((value) => {
-        const sanitized = value === undefined || value === null ? "" : String(value);
-        return `"${sanitized.replace(/"/g, '""')}"`;
-      }).join("\n");
-    }
-
-    const headers = Array.from(
-      rows.reduce((keys: Set<string>, row) => {
-        Object.keys(row ?? {}).forEach((key) => keys.add(key));
-        return keys;
-      }, new Set<string>())
-    );
-
-    const escapeCell = (cell: any) => {
-      if (cell === null || cell === undefined) return "";
-      const cellString =
-        typeof cell === "object" ? JSON.stringify(cell) : String(cell);
-      const needsEscaping = /[",\n\r]/.test(cellString);
-      const escapedValue = cellString.replace(/"/g, '""');
-      return needsEscaping ? `"${escapedValue}"` : escapedValue;
+  // Chart rows as exported: what the chart shows, with the dashboard filters and cross-filters applied
+  const buildExportTable = (chart: ChartCardData, chartData: ChartData): DataExportTable => {
+    const dateRange = resolveDateRange(chart, dashboardFilters);
+    return {
+      name: chart.title,
+      rows: getFilteredRows(chart, chartData.data),
+      query: chart.query || undefined,
+      metadata: {
+        "Chart type": chart.type,
+        "Date range": dateRange?.startDate && dateRange?.endDate
+          ? `${formatDateForAPI(dateRange.startDate)} to ${formatDateForAPI(dateRange.endDate)}`
+          : undefined,
+        "Rows returned": chartData.metadata?.rowCount,
+        "Execution time (ms)": chartData.metadata?.executionTime,
+        "Data as of": chartData.metadata?.cachedAt || chart.fetchedAt,
+      },
     };
-
-    const csvRows = [
-      headers.join(","),
-      ...rows.map((row) => headers.map((header) => escapeCell(row?.[header])).join(",")),
-    ];
-
-    return csvRows.join("\n");
-  };
-
-  const sanitizeFilename = (title: string) => {
-    const fallback = "chart-export";
-    return (title || fallback)
-      .toLowerCase()
-      .replace(/[^a-z0-9]+/gi, "_")
-      .replace(/^_+|_+$/g, "") || fallback;
   };
 
-  const handleExportChart = async (chart: ChartCardData) => {
+  const handleExportChart = async (chart: ChartCardData, format: DataExportFormat) => {
     setCharts(prev =>
       prev.map(c =>
         c.id === chart.id ? { ...c, isExporting: true } : c
@@ -472,23 +1112,14 @@ export function DashboardDetailView({
         return;
       }
 
-      const csvContent = convertDataToCSV(chartData.data);
-      if (!csvContent) {
-        toast.error("Failed to generate CSV content for this chart");
-        return;
-      }
+      await exportData(format, [buildExportTable(chart, chartData)], {
+        title: chart.title,
+        details: usesDashboardFilters(chart)
+          ? [...describeDashboardFilters(dashboardFilters), ...describeCrossFilters(getAppliedCrossFilters(chart))]
+          : [],
+      });
 
-      const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
-      const url = window.URL.createObjectURL(blob);
-      const link = document.createElement("a");
-      link.href = url;
-      link.setAttribute("download", `${sanitizeFilename(chart.title)}.csv`);
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      window.URL.revokeObjectURL(url);
-
-      toast.success(`"${chart.title}" exported as CSV`);
+      toast.success(`"${chart.title}" exported as ${format.toUpperCase()}`);
     } catch (error: any) {
       toast.error(error?.message || "Failed to export chart");
     } finally {
@@ -500,6 +1131,167 @@ export function DashboardDetailView({
     }
   };
 
+  const handleExportDashboard = async (format: 'pdf' | 'png') => {
+    const grid = chartsGridRef.current;
+    if (!grid) return;
+
+    const filterLines = [...describeDashboardFilters(dashboardFilters), ...describeCrossFilters(crossFilters)];
+    const info = {
+      title: dashboardName,
+      details: filterLines.length > 0 ? filterLines : ["No filters applied"],
+    };
+
+    setIsExportingDashboard(true);
+    try {
+      if (format === 'pdf') {
+        // Export in on-screen reading order: top to bottom, then left to right
+        const cards = Array.from(grid.querySelectorAll<HTMLElement>('[data-dashboard-chart]'))
+          .map((element) => ({ element, rect: element.getBoundingClientRect() }))
+          .sort((a, b) => a.rect.top - b.rect.top || a.rect.left - b.rect.left)
+          .map(({ element }) => element);
+        await exportDashboardToPdf(cards, grid.clientWidth, info);
+      } else {
+        await exportDashboardToPng(grid, info);
+      }
+      toast.success(`"${dashboardName}" exported as ${format.toUpperCase()}`);
+    } catch (error: any) {
+      toast.error(error?.message || "Failed to export dashboard");
+    } finally {
+      setIsExportingDashboard(false);
+    }
+  };
+
+  // Every chart's data in one file: an Excel sheet (or JSON table) per chart, in layout order
+  const handleExportDashboardData = async (format: DataExportFormat) => {
+    setIsExportingDashboard(true);
+    try {
+      const orderedCharts = [...layout]
+        .sort((a, b) => a.y - b.y || a.x - b.x)
+        .map((item) => charts.find((chart) => chart.id === item.chartId))
+        .filter((chart): chart is ChartCardData => !!chart);
+
+      const tables: DataExportTable[] = [];
+      for (const chart of orderedCharts) {
+        const chartData = chart.chartData?.data?.length ? chart.chartData : await fetchChartData(chart);
+        if (chartData?.data?.length) {
+          tables.push(buildExportTable(chart, chartData));
+        }
+      }
+
+      if (tables.length === 0) {
+        toast.error("No chart data available to export");
+        return;
+      }
+
+      const filterLines = [...describeDashboardFilters(dashboardFilters), ...describeCrossFilters(crossFilters)];
+      await exportData(format, tables, {
+        title: dashboardName,
+        details: filterLines.length > 0 ? filterLines : ["No filters applied"],
+      });
+      toast.success(`"${dashboardName}" data exported as ${format.toUpperCase()}`);
+    } catch (error: any) {
+      toast.error(error?.message || "Failed to export dashboard data");
+    } finally {
+      setIsExportingDashboard(false);
+    }
+  };
+
+  // Snapshot of the dashboard as saved (not an unsaved layout draft) with the current filters
+  const captureTemplate = async (name: string, description: string): Promise<DashboardTemplate> => {
+    const templateCharts = charts.map((chart) => ({
+      key: chart.id,
+      title: chart.title,
+      query: chart.query,
+      chartType: chart.type,
+      xAxis: chart.xAxis,
+      yAxis: chart.yAxis,
+      isTimeBased: chart.is_time_based,
+      connectionId: chart.databaseConnectionId || null,
+    }));
+
+    const connectionId = getPrimaryConnectionId(templateCharts);
+    const schemaResponse = _projectId && connectionId ? await getDatabaseSchema(String(_projectId), connectionId) : null;
+
+    return buildDashboardTemplate({
+      name,
+      description,
+      charts: templateCharts,
+      widgets: widgets.filter((widget) => !isWidgetEmpty(widget)),
+      layout: reconcileLayout(savedLayout, charts.map((chart) => chart.id).concat(widgets.map((widget) => widget.id))),
+      filters: dashboardFilters,
+      projectId: _projectId ? String(_projectId) : null,
+      schema: schemaResponse?.success ? schemaResponse.data : null,
+    });
+  };
+
+  const handleDuplicate = async () => {
+    if (!onDuplicate) return;
+    setIsPreparingCopy(true);
+    try {
+      onDuplicate(await captureTemplate(dashboardName, ""));
+    } finally {
+      setIsPreparingCopy(false);
+    }
+  };
+
+  const handleSaveTemplate = async ({ name, description }: { name: string; description: string }) => {
+    saveDashboardTemplate(await captureTemplate(name, description));
+    toast.success(`Template "${name}" saved`, {
+      description: "Use it from Templates on the dashboards page.",
+    });
+  };
+
+  // A clicked bar, point or slice cross-filters the other charts on its x-axis column;
+  // clicking it again clears the filter
+  const handleChartPointClick = (chart: ChartCardData, config: ChartDataConfig, point: ChartPointSelection) => {
+    const target = resolveDrillTarget(config, point, Object.keys(chart.chartData?.data?.[0] || {}));
+    if (!target) {
+      toast.info("This chart can't filter the dashboard");
+      return;
+    }
+
+    const [{ column, value }] = target.filters;
+    setCrossFilters((prev) =>
+      toggleCrossFilter(prev, {
+        column,
+        value: String(value ?? ''),
+        sourceChartId: chart.id,
+        sourceChartTitle: chart.title,
+        target,
+      })
+    );
+  };
+
+  // Open the drill-down panel for the point a cross-filter came from
+  const handleDrillIntoCrossFilter = (filter: CrossFilter) => {
+    const chart = charts.find((c) => c.id === filter.sourceChartId);
+    if (chart) openDrillPanel(chart, filter.target);
+  };
+
+  const openDrillPanel = (chart: ChartCardData, target: ChartDrillTarget) => {
+    if (!chart.query || !chart.databaseConnectionId) {
+      toast.info("This point can't be drilled into");
+      return;
+    }
+
+    const resultRows = chart.chartData?.data || [];
+    const dateRange = resolveDateRange(chart);
+    const hasBothDates = !!(dateRange?.startDate && dateRange?.endDate);
+    const parameters = getChartQueryParameters(chart);
+    setDrillRequest({
+      chartId: chart.id,
+      chartTitle: chart.title,
+      query: chart.query,
+      // Drill into the rows for the parameter values picked on the dashboard
+      parameters: parameters ?? undefined,
+      connectionId: chart.databaseConnectionId,
+      target,
+      resultRows: getFilteredRows(chart, resultRows),
+      fromDate: hasBothDates ? formatDateForAPI(dateRange!.startDate!) : undefined,
+      toDate: hasBothDates ? formatDateForAPI(dateRange!.endDate!) : undefined,
+    });
+  };
+
   // Prepare chart data for display using the same inference logic as ChartsView
   const getChartDisplayConfig = (chart: ChartCardData) => {
     if (!chart.chartData?.data || chart.chartData.data.length === 0) {
@@ -508,7 +1300,11 @@ export function DashboardDetailView({
 
     // Use inferChartDataConfig to properly identify data keys and x-axis
     // This ensures consistent behavior with ChartsView
-    const inferredConfig = inferChartDataConfig(chart.chartData.data, chart.type);
+    const rows = getFilteredRows(chart, chart.chartData.data);
+    if (rows.length === 0) {
+      return getDefaultChartDataConfig();
+    }
+    const inferredConfig = inferChartDataConfig(rows, chart.type);
 
     // Override with explicit x_axis and y_axis from API if available (like DashboardDetailView used to do)
     const metadataYAxis = chart.chartData?.metadata?.yAxis;
@@ -526,6 +1322,7 @@ export function DashboardDetailView({
       data: inferredConfig.data,
       dataKeys: finalDataKeys,
       xAxisKey: finalXAxisKey,
+      source: inferredConfig.source,
     };
   };
 
@@ -644,6 +1441,262 @@ export function DashboardDetailView({
     );
   };
 
+  const renderChartCard = (chart: ChartCardData, itemHeight: number) => {
+    const chartConfig = getChartDisplayConfig(chart);
+    const numericId = parseInt(chart.id.replace(/-/g, '').substring(0, 8), 16) || 0;
+    const isChartPinned = isPinned(numericId);
+    const followsFilters = usesDashboardFilters(chart);
+    const usesDashboardRange = chart.is_time_based === true && followsFilters && isCompleteDateRange(dashboardFilters.dateRange);
+    const dataAsOf = getChartDataAsOf(chart);
+    const appliedCrossFilters = getAppliedCrossFilters(chart);
+    const isCrossFilterSource = crossFilters.some((filter) => filter.sourceChartId === chart.id);
+    const isFilteredOut = chartConfig.data.length === 0 && (chart.chartData?.data?.length ?? 0) > 0;
+    const showDateRange = chart.is_time_based === true && !kioskMode;
+    const parameters = resolveChartParameters(chart.query, chartParameters[chart.id]);
+    const showParameters = parameters.length > 0 && !kioskMode;
+    const chartHeight = Math.max(
+      MIN_CHART_HEIGHT,
+      itemHeight - CARD_CHROME_HEIGHT - (showDateRange ? DATE_RANGE_HEIGHT : 0) - (showParameters ? PARAMETER_BAR_HEIGHT : 0)
+    );
+
+    return (
+      <Card className="p-6 border border-border relative group h-full overflow-hidden" data-dashboard-chart={chart.id}>
+        {/* Chart Actions */}
+        {!kioskMode && (
+          <div
+            {...{ [EXPORT_IGNORE_ATTRIBUTE]: true }}
+            className="absolute top-4 right-4 flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity z-10">
+            <Button
+              variant="outline"
+              size="icon"
+              className={`h-8 w-8 border-border ${
+                followsFilters ? 'hover:bg-muted' : 'bg-warning/10 text-warning hover:opacity-90'
+              }`}
+              onClick={() => handleToggleChartFilters(chart)}
+              title={followsFilters ? "Ignore dashboard filters" : "Apply dashboard filters"}
+            >
+              {followsFilters ? <Filter className="w-4 h-4" /> : <FilterX className="w-4 h-4" />}
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              className={`h-8 w-8 border-border ${
+                isChartPinned
+                  ? 'bg-primary/10 text-primary hover:bg-primary/20'
+                  : 'hover:bg-muted'
+              }`}
+              onClick={() => handleTogglePin(chart)}
+              title={isChartPinned ? "Unpin from Home" : "Pin to Home"}
+            >
+              <Pin className={`w-4 h-4 ${isChartPinned ? 'fill-primary/20 rotate-45' : ''}`} />
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="h-8 w-8 border-border hover:bg-muted disabled:opacity-50"
+                  title="Export chart data"
+                  disabled={chart.isExporting}
+                >
+                  {chart.isExporting ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <Download className="w-4 h-4" />
+                  )}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {DATA_EXPORT_FORMATS.map((option) => (
+                  <DropdownMenuItem key={option.value} onClick={() => handleExportChart(chart, option.value)}>
+                    Export data as {option.label}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8 border-border hover:bg-muted"
+              onClick={() => setChartToEdit(chart)}
+              title="Edit chart with AI"
+              disabled={!chart.query || !chart.databaseConnectionId}
+            >
+              <Edit2 className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8 border-border hover:bg-muted"
+              onClick={() => setHistoryChartId(chart.id)}
+              title="Version history"
+            >
+              <History className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8 border-border hover:bg-destructive/10 hover:text-destructive"
+              onClick={() => setChartToRemove(chart)}
+              title="Remove Chart"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+        <div className={`mb-6 ${isEditingLayout ? 'pl-10' : ''}`}>
+          <div className="flex items-center gap-2 mb-1">
+            <h3 className="text-lg text-foreground">{chart.title}</h3>
+            {!followsFilters && countActiveFilters(dashboardFilters) > 0 && (
+              <Badge variant="outline" className="border-warning/30 text-warning bg-warning/10">
+                Ignores filters
+              </Badge>
+            )}
+            {appliedCrossFilters.length > 0 && (
+              <Badge
+                variant="outline"
+                className="border-primary/30 text-primary bg-primary/10"
+                title={describeCrossFilters(appliedCrossFilters).join("\n")}
+              >
+                Cross-filtered
+              </Badge>
+            )}
+            {isCrossFilterSource && (
+              <Badge variant="outline" className="border-primary/30 text-primary bg-primary/10">
+                Filter source
+              </Badge>
+            )}
+          </div>
+          <p className="text-sm text-muted-foreground line-clamp-2">{chart.description}</p>
+          {dataAsOf && (
+            <p className="mt-1 text-xs text-muted-foreground flex items-center gap-1" title={new Date(dataAsOf).toLocaleString()}>
+              {chart.isRefreshing ? (
+                <Loader2 className="w-3 h-3 animate-spin" />
+              ) : (
+                <Clock className="w-3 h-3" />
+              )}
+              Data as of {formatTimeAgo(dataAsOf)}
+            </p>
+          )}
+        </div>
+        {/* Shown outside ChartCard so the values can still be changed when a query returns nothing */}
+        {showParameters && (
+          <ChartParameterBar
+            parameters={parameters}
+            values={chartParameterValues[chart.id] ?? getDefaultParameterValues(parameters)}
+            connectionId={chart.databaseConnectionId}
+            onChange={(name, value) => handleParameterChange(chart, name, value)}
+          />
+        )}
+        {chart.isLoadingData ? (
+          <div className="flex items-center justify-center" style={{ height: chartHeight }}>
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            <span className="ml-2 text-sm text-muted-foreground">Loading chart data...</span>
+          </div>
+        ) : chartConfig.data.length > 0 ? (
+          <ChartCard
+            type={chart.type}
+            data={chartConfig.data}
+            dataKeys={chartConfig.dataKeys}
+            xAxisKey={chartConfig.xAxisKey}
+            height={chartHeight}
+            showLegend={!!chartConfig.dataKeys.secondary && !isRadialChartType(chart.type)}
+            exportTitle={kioskMode ? undefined : chart.title}
+            onPointClick={kioskMode || isEditingLayout ? undefined : (point) => handleChartPointClick(chart, chartConfig, point)}
+            annotations={chartAnnotations[chart.id]}
+            onAnnotationsChange={kioskMode || isEditingLayout ? undefined : (annotations) => handleAnnotationsChange(chart, annotations)}
+          />
+        ) : (
+          <div className="flex items-center justify-center border border-dashed border-border rounded-lg" style={{ height: chartHeight }}>
+            {isFilteredOut ? (
+              <p className="text-sm text-muted-foreground">
+                {appliedCrossFilters.length > 0 ? "No rows match the dashboard filters and cross-filters" : "No rows match the dashboard filters"}
+              </p>
+            ) : (
+              <div className="text-center">
+                <p className="text-sm text-muted-foreground mb-2">No data available</p>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => fetchChartData(chart)}
+                >
+                  Load Data
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Date Range Picker - Bottom Right */}
+        {showDateRange && (
+          <div className="mt-4 flex justify-end">
+            {usesDashboardRange ? (
+              <Badge variant="outline" className="h-8 gap-2 border-border text-muted-foreground">
+                <CalendarIcon className="h-3.5 w-3.5" />
+                Dashboard date range
+              </Badge>
+            ) : (
+              renderDateRangeButton(chart)
+            )}
+          </div>
+        )}
+      </Card>
+    );
+  };
+
+  if (kioskMode) {
+    const rowCount = Math.max(1, getLayoutRowCount(layout));
+    const kioskRowHeight = kioskGridHeight > 0
+      ? Math.max(24, Math.floor((kioskGridHeight - GRID_GAP * (rowCount - 1)) / rowCount))
+      : GRID_ROW_HEIGHT;
+
+    return (
+      <div className="h-full flex flex-col px-8 py-6 group">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <h2 className="text-2xl text-foreground">{dashboardName}</h2>
+            <Badge variant="outline" className="border-success/30 text-success bg-success/10">
+              Live
+            </Badge>
+            {dashboardDataAsOf && (
+              <p className="text-muted-foreground text-sm">Data as of {formatTimeAgo(dashboardDataAsOf)}</p>
+            )}
+          </div>
+          {onExitKiosk && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onExitKiosk}
+              className="border-border opacity-0 group-hover:opacity-100 transition-opacity"
+              title="Exit presentation (Esc)"
+            >
+              <Minimize2 className="w-4 h-4 mr-2" />
+              Exit
+            </Button>
+          )}
+        </div>
+
+        <div ref={kioskGridRef} className="flex-1 min-h-0 overflow-hidden">
+          {isLoadingCharts ? (
+            <div className="flex items-center justify-center h-full">
+              <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : layout.length === 0 ? (
+            <div className="flex items-center justify-center h-full text-muted-foreground">
+              No charts in this dashboard
+            </div>
+          ) : (
+            <DashboardGrid
+              layout={layout}
+              rowHeight={kioskRowHeight}
+              renderItem={(itemId, { height }) => renderGridItem(itemId, height)}
+            />
+          )}
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="px-12 py-10">
       <div className="max-w-[1600px] mx-auto">
@@ -666,49 +1719,210 @@ export function DashboardDetailView({
                     ? "Loading..."
                     : charts.length === 0
                       ? "No charts yet"
-                      : lastUpdated
-                        ? `Last updated ${lastUpdated}`
-                        : "Last updated just now"}
+                      : dashboardDataAsOf
+                        ? `Data as of ${formatTimeAgo(dashboardDataAsOf)}`
+                        : "Loading data..."}
                 </p>
-                <Badge variant="outline" className="border-success/30 text-success bg-success/10">
-                  Live
-                </Badge>
+                {refreshInterval > 0 && (
+                  <Badge variant="outline" className="border-success/30 text-success bg-success/10">
+                    Live · every {getRefreshIntervalLabel(refreshInterval)}
+                  </Badge>
+                )}
               </div>
             </div>
           </div>
           
-          <div className="flex items-center gap-3">
-            <Button
-              variant="outline"
-              onClick={handleOpenAddMemberDialog}
-              className="border-border"
-            >
-              <Users className="w-4 h-4 mr-2" />
-              Add Members
-            </Button>
-            <GradientButton 
-              onClick={() => {
-                if (onOpenAIAssistant) {
-                  onOpenAIAssistant();
-                } else {
-                  toast.error("AI Assistant is not available");
-                }
-              }}
-            >
-              <Sparkles className="w-4 h-4 mr-2" />
-              Create Chart
-            </GradientButton>
-          </div>
+          {isEditingLayout ? (
+            <div className="flex items-center gap-3">
+              <Button
+                variant="outline"
+                onClick={handleUndoLayoutChange}
+                disabled={layoutHistory.length === 0 || isSavingLayout}
+                className="border-border"
+                title="Undo last layout change (Ctrl+Z)"
+              >
+                <Undo2 className="w-4 h-4 mr-2" />
+                Undo
+              </Button>
+              <Button
+                variant="outline"
+                onClick={handleCancelEditingLayout}
+                disabled={isSavingLayout}
+                className="border-border"
+              >
+                Cancel
+              </Button>
+              <GradientButton onClick={handleSaveLayout} disabled={!hasLayoutChanges || isSavingLayout}>
+                {isSavingLayout ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Save className="w-4 h-4 mr-2" />
+                )}
+                Save Layout
+              </GradientButton>
+            </div>
+          ) : (
+            <div className="flex items-center gap-3">
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => refreshAllCharts(false)}
+                disabled={isLoadingCharts || isRefreshingAll || charts.length === 0}
+                className="border-border"
+                title="Refresh all charts now"
+              >
+                <RefreshCw className={`w-4 h-4 ${isRefreshingAll ? 'animate-spin' : ''}`} />
+              </Button>
+              <Select value={String(refreshInterval)} onValueChange={handleRefreshIntervalChange}>
+                <SelectTrigger className="w-36 border-border" title="Auto-refresh interval">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REFRESH_INTERVAL_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={String(option.value)}>
+                      {option.value === 0 ? "Auto-refresh off" : `Every ${option.label}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="outline"
+                    disabled={isLoadingCharts || !!editingWidgetId}
+                    className="border-border"
+                  >
+                    <Type className="w-4 h-4 mr-2" />
+                    Add Widget
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {WIDGET_TYPE_OPTIONS.map((option) => (
+                    <DropdownMenuItem key={option.value} onClick={() => handleAddWidget(option.value)}>
+                      <div>
+                        <p className="text-sm">{option.label}</p>
+                        <p className="text-xs text-muted-foreground">{option.description}</p>
+                      </div>
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <Button
+                variant="outline"
+                onClick={handleStartEditingLayout}
+                disabled={isLoadingCharts || layout.length === 0}
+                className="border-border"
+              >
+                <LayoutGrid className="w-4 h-4 mr-2" />
+                Edit Layout
+              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="outline"
+                    disabled={isLoadingCharts || charts.length === 0 || isExportingDashboard}
+                    className="border-border"
+                  >
+                    {isExportingDashboard ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <Download className="w-4 h-4 mr-2" />
+                    )}
+                    Export
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => handleExportDashboard('pdf')}>Export as PDF</DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleExportDashboard('png')}>Export as PNG</DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => handleExportDashboardData('xlsx')}>Export data as Excel</DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleExportDashboardData('json')}>Export data as JSON</DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              {onEnterKiosk && (
+                <Button
+                  variant="outline"
+                  onClick={() => setIsKioskDialogOpen(true)}
+                  disabled={isLoadingCharts || layout.length === 0}
+                  className="border-border"
+                >
+                  <Tv className="w-4 h-4 mr-2" />
+                  Present
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                onClick={handleOpenAddMemberDialog}
+                className="border-border"
+              >
+                <Users className="w-4 h-4 mr-2" />
+                Add Members
+              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    disabled={isLoadingCharts || charts.length === 0 || isPreparingCopy}
+                    className="border-border"
+                    title="More actions"
+                  >
+                    {isPreparingCopy ? <Loader2 className="w-4 h-4 animate-spin" /> : <MoreHorizontal className="w-4 h-4" />}
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {onDuplicate && (
+                    <DropdownMenuItem onClick={handleDuplicate}>
+                      <Copy className="w-4 h-4" />
+                      Duplicate dashboard
+                    </DropdownMenuItem>
+                  )}
+                  <DropdownMenuItem onClick={() => setIsSaveTemplateOpen(true)}>
+                    <LayoutTemplate className="w-4 h-4" />
+                    Save as template
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <GradientButton 
+                onClick={() => {
+                  if (onOpenAIAssistant) {
+                    onOpenAIAssistant();
+                  } else {
+                    toast.error("AI Assistant is not available");
+                  }
+                }}
+              >
+                <Sparkles className="w-4 h-4 mr-2" />
+                Create Chart
+              </GradientButton>
+            </div>
+          )}
         </div>
 
+        {isEditingLayout && (
+          <p className="text-sm text-muted-foreground mb-4">
+            Drag charts and widgets by their handle and resize them from the bottom-right corner. Layout editing is available on wide screens.
+          </p>
+        )}
+
         {/* Quick Stats - Show chart count */}
         {(() => {
           // Chart type configuration
-          const chartTypeConfig: Record<'line' | 'bar' | 'pie' | 'area', { label: string; description: string }> = {
+          const chartTypeConfig: Record<ChartType, { label: string; description: string }> = {
             line: { label: 'Line Charts', description: 'time-series data' },
             bar: { label: 'Bar Charts', description: 'comparison data' },
             pie: { label: 'Pie Charts', description: 'proportion data' },
-            area: { label: 'Area Charts', description: 'cumulative data' }
+            area: { label: 'Area Charts', description: 'cumulative data' },
+            donut: { label: 'Donut Charts', description: 'proportion data' },
+            scatter: { label: 'Scatter Charts', description: 'correlation data' },
+            stacked_bar: { label: 'Stacked Bar Charts', description: 'part-to-whole comparisons' },
+            grouped_bar: { label: 'Grouped Bar Charts', description: 'side-by-side comparisons' },
+            horizontal_bar: { label: 'Horizontal Bar Charts', description: 'ranked categories' },
+            combo: { label: 'Combo Charts', description: 'dual-axis metrics' },
+            funnel: { label: 'Funnel Charts', description: 'conversion stages' },
+            heatmap: { label: 'Heatmaps', description: 'density data' },
+            kpi: { label: 'KPI Tiles', description: 'headline metrics' },
+            table: { label: 'Tables', description: 'detailed records' }
           };
 
           // Count charts by type
@@ -718,7 +1932,7 @@ export function DashboardDetailView({
           }, {} as Record<string, number>);
 
           // Get chart types that have at least one chart
-          const availableChartTypes = (Object.keys(chartCounts) as Array<'line' | 'bar' | 'pie' | 'area'>)
+          const availableChartTypes = (Object.keys(chartCounts) as Array<ChartType>)
             .filter(type => chartCounts[type] > 0)
             .sort(); // Sort for consistent ordering
 
@@ -751,13 +1965,32 @@ export function DashboardDetailView({
           );
         })()}
 
+        {/* Dashboard Filters */}
+        {!isLoadingCharts && charts.length > 0 && (
+          <DashboardFilterBar
+            filters={dashboardFilters}
+            filterOptions={filterOptions}
+            onChange={handleFiltersChange}
+          />
+        )}
+
+        {/* Cross-filters set by clicking chart categories */}
+        {!isLoadingCharts && (
+          <CrossFilterBar
+            filters={crossFilters}
+            onRemove={(filter) => setCrossFilters((prev) => prev.filter((f) => f !== filter))}
+            onDrill={kioskMode ? undefined : handleDrillIntoCrossFilter}
+            onClear={() => setCrossFilters([])}
+          />
+        )}
+
         {/* Charts Grid */}
         {isLoadingCharts ? (
           <div className="flex items-center justify-center py-20">
             <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
             <span className="ml-3 text-muted-foreground">Loading dashboard charts...</span>
           </div>
-        ) : charts.length === 0 ? (
+        ) : layout.length === 0 ? (
           <Card className="p-12 border-2 border-dashed border-border">
             <div className="flex flex-col items-center justify-center text-center">
               <div className="w-20 h-20 rounded-2xl bg-muted flex items-center justify-center mb-5">
@@ -782,108 +2015,56 @@ export function DashboardDetailView({
             </div>
           </Card>
         ) : (
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-            {charts.map((chart) => {
-              const chartConfig = getChartDisplayConfig(chart);
-              const numericId = parseInt(chart.id.replace(/-/g, '').substring(0, 8), 16) || 0;
-              const isChartPinned = isPinned(numericId);
-
-              return (
-                <Card key={chart.id} className="p-6 border border-border relative group">
-                  {/* Chart Actions */}
-                  <div className="absolute top-4 right-4 flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity z-10">
-                    <Button
-                      variant="outline"
-                      size="icon"
-                      className={`h-8 w-8 border-border ${
-                        isChartPinned
-                          ? 'bg-primary/10 text-primary hover:bg-primary/20'
-                          : 'hover:bg-muted'
-                      }`}
-                      onClick={() => handleTogglePin(chart)}
-                      title={isChartPinned ? "Unpin from Home" : "Pin to Home"}
-                    >
-                      <Pin className={`w-4 h-4 ${isChartPinned ? 'fill-primary/20 rotate-45' : ''}`} />
-                    </Button>
-                    <Button
-                      variant="outline"
-                      size="icon"
-                      className="h-8 w-8 border-border hover:bg-muted disabled:opacity-60"
-                      onClick={() => handleExportChart(chart)}
-                      title="Export chart data as CSV"
-                      disabled={chart.isExporting}
-                    >
-                      {chart.isExporting ? (
-                        <Loader2 className="w-4 h-4 animate-spin" />
-                      ) : (
-                        <Download className="w-4 h-4" />
-                      )}
-                    </Button>
-                    {/* <Button
-                      variant="outline"
-                      size="icon"
-                      className="h-8 w-8 border-border hover:bg-muted"
-                      onClick={() => handleEditChart(chart)}
-                      title="Edit Chart"
-                    >
-                      <Edit2 className="w-4 h-4" />
-                    </Button> */}
-                    <Button
-                      variant="outline"
-                      size="icon"
-                      className="h-8 w-8 border-border hover:bg-destructive/10 hover:text-destructive"
-                      onClick={() => setChartToRemove(chart)}
-                      title="Remove Chart"
-                    >
-                      <X className="w-4 h-4" />
-                    </Button>
-                  </div>
-                  <div className="mb-6">
-                    <h3 className="text-lg text-foreground mb-1">{chart.title}</h3>
-                    <p className="text-sm text-muted-foreground line-clamp-2">{chart.description}</p>
-                  </div>
-                  {chart.isLoadingData ? (
-                    <div className="h-[300px] flex items-center justify-center">
-                      <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
-                      <span className="ml-2 text-sm text-muted-foreground">Loading chart data...</span>
-                    </div>
-                  ) : chartConfig.data.length > 0 ? (
-                    <ChartCard
-                      type={chart.type}
-                      data={chartConfig.data}
-                      dataKeys={chartConfig.dataKeys}
-                      xAxisKey={chartConfig.xAxisKey}
-                      height={300}
-                      showLegend={!!chartConfig.dataKeys.secondary && chart.type !== 'pie'}
-                    />
-                  ) : (
-                    <div className="h-[300px] flex items-center justify-center border border-dashed border-border rounded-lg">
-                      <div className="text-center">
-                        <p className="text-sm text-muted-foreground mb-2">No data available</p>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => fetchChartData(chart)}
-                        >
-                          Load Data
-                        </Button>
-                      </div>
-                    </div>
-                  )}
-
-                  {/* Date Range Picker - Bottom Right */}
-                  {chart.is_time_based === true && (
-                    <div className="mt-4 flex justify-end">
-                      {renderDateRangeButton(chart)}
-                    </div>
-                  )}
-                </Card>
-              );
-            })}
+          <div ref={chartsGridRef}>
+            <DashboardGrid
+              layout={displayedLayout}
+              isEditing={isEditingLayout}
+              onLayoutChange={handleLayoutChange}
+              getMinSize={getGridItemMinSize}
+              renderItem={(itemId, { height }) => renderGridItem(itemId, height)}
+            />
           </div>
         )}
 
+        <ChartDrillPanel
+          request={drillRequest}
+          projectId={_projectId ? String(_projectId) : undefined}
+          dashboardId={dashboardId}
+          onClose={() => setDrillRequest(null)}
+          onChildChartAdded={fetchDashboardCharts}
+        />
+
+        <SaveTemplateDialog
+          open={isSaveTemplateOpen}
+          onOpenChange={setIsSaveTemplateOpen}
+          defaultName={dashboardName}
+          onSave={handleSaveTemplate}
+        />
+
+        {onEnterKiosk && (
+          <KioskSetupDialog
+            open={isKioskDialogOpen}
+            onOpenChange={setIsKioskDialogOpen}
+            dashboardId={dashboardId}
+            dashboards={projectDashboards}
+            onStart={onEnterKiosk}
+          />
+        )}
+
         {/* Remove Chart Confirmation Dialog */}
+        <EditChartDialog
+          isOpen={!!chartToEdit}
+          onClose={() => setChartToEdit(null)}
+          chart={chartToEdit ? toEditableChart(chartToEdit) : null}
+          onSave={handleChartEdited}
+        />
+
+        <ChartHistoryPanel
+          chart={historyChart ? toEditableChart(historyChart) : null}
+          onClose={() => setHistoryChartId(null)}
+          onRestore={handleChartEdited}
+        />
+
         <AlertDialog open={!!chartToRemove} onOpenChange={() => setChartToRemove(null)}>
           <AlertDialogContent>
             <AlertDialogHeader>
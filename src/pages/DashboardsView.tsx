@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
-import { Plus, LayoutDashboard, Search } from "lucide-react";
+import { Plus, LayoutDashboard, LayoutTemplate, Search } from "lucide-react";
+import { Button } from "../components/ui/button";
 import { Card } from "../components/ui/card";
 import { Input } from "../components/ui/input";
 import { GradientButton } from "../components/shared/GradientButton";
@@ -37,10 +38,12 @@ interface DashboardsViewProps {
   onViewDashboard?: (dashboardName: string, dashboardId?: string | number) => void;
   onCreateDashboard?: () => void;
   onDeleteDashboard?: (dashboardId: string | number, dashboardName: string) => void;
+  onDuplicateDashboard?: (dashboardId: string | number) => void;
+  onOpenTemplates?: () => void;
   isLoading?: boolean;
 }
 
-export function DashboardsView({ dashboards, onViewDashboard, onCreateDashboard, onDeleteDashboard, isLoading: externalIsLoading }: DashboardsViewProps) {
+export function DashboardsView({ dashboards, onViewDashboard, onCreateDashboard, onDeleteDashboard, onDuplicateDashboard, onOpenTemplates, isLoading: externalIsLoading }: DashboardsViewProps) {
   const [searchQuery, setSearchQuery] = useState("");
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [dashboardToDelete, setDashboardToDelete] = useState<Dashboard | null>(null);
@@ -104,6 +107,17 @@ export function DashboardsView({ dashboards, onViewDashboard, onCreateDashboard,
             </p>
           </div>
           <div className="flex items-center gap-2">
+            {onOpenTemplates && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-9 border-border"
+                onClick={onOpenTemplates}
+              >
+                <LayoutTemplate className="w-4 h-4 mr-1.5" />
+                Templates
+              </Button>
+            )}
             <GradientButton
               onClick={handleCreateDashboard}
               size="sm"
@@ -166,6 +180,7 @@ export function DashboardsView({ dashboards, onViewDashboard, onCreateDashboard,
                     e.stopPropagation();
                     setDashboardToDelete(dashboard);
                   }}
+                  onDuplicate={onDuplicateDashboard ? () => onDuplicateDashboard(dashboard.id) : undefined}
                   onClick={() => onViewDashboard?.(dashboard.name, dashboard.id)}
                 />
               ))}
@@ -199,6 +214,7 @@ export function DashboardsView({ dashboards, onViewDashboard, onCreateDashboard,
                       e.stopPropagation();
                       setDashboardToDelete(dashboard);
                     }}
+                    onDuplicate={onDuplicateDashboard ? () => onDuplicateDashboard(dashboard.id) : undefined}
                     onClick={() => onViewDashboard?.(dashboard.name, dashboard.id)}
                   />
                 ))}
@@ -1,4 +1,4 @@
-import { Plus, Database, Check, X, MoreVertical, Pencil, Trash2, Eye } from "lucide-react";
+import { Plus, Database, Check, X, MoreVertical, Pencil, Trash2, Eye, Table2, KeyRound, Loader2, AlertTriangle, BarChart3, LayoutDashboard } from "lucide-react";
 import { useState, useEffect, useCallback } from "react";
 import { Button } from "../components/ui/button";
 import { Card } from "../components/ui/card";
@@ -16,6 +16,15 @@ import {
   DialogHeader,
   DialogTitle,
 } from "../components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "../components/ui/alert-dialog";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -33,7 +42,14 @@ import {
 } from "../components/ui/table";
 import { toast } from "sonner";
 import { DatabaseConnectionFlow } from "../components/features/databases/DatabaseConnectionFlow";
-import { getDatabases } from "../services/api";
+import { SchemaExplorer } from "../components/features/databases/SchemaExplorer";
+import {
+  getDatabases,
+  updateDatabase,
+  deleteDatabase,
+  getDatabaseDependencies,
+  type DatabaseDependencies,
+} from "../services/api";
 import { storeDatabaseMetadata, type DatabaseMetadataEntry } from "../utils/databaseMetadata";
 
 interface DatabaseConnection {
@@ -41,10 +57,20 @@ interface DatabaseConnection {
   name: string;
   type: string;
   host: string;
+  database: string;
+  username: string;
+  dbType: string; // Normalized form value: postgresql | mysql | oracle
   status: string;
   lastChecked: string;
 }
 
+const toFormDbType = (type: string): string => {
+  const normalized = type.toLowerCase();
+  if (normalized === 'postgres' || normalized === 'postgresql') return 'postgresql';
+  if (normalized === 'oracledb' || normalized === 'oracle') return 'oracle';
+  return normalized;
+};
+
 interface DatabasesViewProps {
   projectId?: string | number;
 }
@@ -55,12 +81,28 @@ export function DatabasesView({ projectId }: DatabasesViewProps) {
   const [showConnectionFlow, setShowConnectionFlow] = useState(false);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [viewDialogOpen, setViewDialogOpen] = useState(false);
+  const [schemaDatabase, setSchemaDatabase] = useState<DatabaseConnection | null>(null);
   const [selectedDatabase, setSelectedDatabase] = useState<DatabaseConnection | null>(null);
   
   // Edit form state (for editing existing connections)
   const [connectionName, setConnectionName] = useState("");
   const [dbType, setDbType] = useState("postgresql");
   const [host, setHost] = useState("");
+  const [databaseName, setDatabaseName] = useState("");
+  const [username, setUsername] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Credential rotation state
+  const [rotateDatabase, setRotateDatabase] = useState<DatabaseConnection | null>(null);
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+
+  // Delete confirmation state
+  const [databaseToDelete, setDatabaseToDelete] = useState<DatabaseConnection | null>(null);
+  const [dependencies, setDependencies] = useState<DatabaseDependencies | null>(null);
+  const [dependenciesError, setDependenciesError] = useState<string | null>(null);
+  const [isCheckingDependencies, setIsCheckingDependencies] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
 
   // Helper function to format time ago
   const formatTimeAgo = (dateString: string): string => {
@@ -99,6 +141,9 @@ export function DatabasesView({ projectId }: DatabasesViewProps) {
           name: db.name,
           type: db.type === 'postgresql' ? 'PostgreSQL' : db.type === 'mysql' ? 'MySQL' : db.type,
           host: db.host || 'N/A',
+          database: db.database,
+          username: db.username,
+          dbType: toFormDbType(db.type),
           status: db.status,
           lastChecked: formatTimeAgo(db.lastChecked),
         }));
@@ -147,36 +192,131 @@ export function DatabasesView({ projectId }: DatabasesViewProps) {
   const handleEditConnection = (db: DatabaseConnection) => {
     setSelectedDatabase(db);
     setConnectionName(db.name);
-    setDbType(db.type.toLowerCase());
-    setHost(db.host);
+    setDbType(db.dbType);
+    setHost(db.host === 'N/A' ? '' : db.host);
+    setDatabaseName(db.database);
+    setUsername(db.username);
     setEditDialogOpen(true);
   };
 
-  const handleUpdateConnection = () => {
-    if (!connectionName.trim() || !host.trim()) {
+  // SQLite files and connections added from a connection string have no host
+  const originalHost = selectedDatabase && selectedDatabase.host !== 'N/A' ? selectedDatabase.host : '';
+  const isHostRequired = dbType !== 'sqlite' && originalHost !== '';
+
+  const handleUpdateConnection = async () => {
+    if (!projectId || !selectedDatabase) return;
+
+    if (!connectionName.trim() || (isHostRequired && !host.trim())) {
       toast.error("Please fill in all required fields");
       return;
     }
 
-    setDatabases(databases.map(db => 
-      db.id === selectedDatabase?.id 
-        ? { ...db, name: connectionName, host: host, type: dbType === "postgresql" ? "PostgreSQL" : "MySQL" }
-        : db
-    ));
+    // Only send what changed so untouched settings (and the stored password) are kept
+    const changes: Parameters<typeof updateDatabase>[2] = {};
+    if (connectionName.trim() !== selectedDatabase.name) changes.connectionName = connectionName.trim();
+    if (dbType !== selectedDatabase.dbType) changes.dbType = dbType;
+    if (host.trim() !== originalHost) changes.host = host.trim();
+    if (databaseName.trim() !== selectedDatabase.database) changes.database = databaseName.trim();
+    if (username.trim() !== selectedDatabase.username) changes.username = username.trim();
 
-    toast.success("Database connection updated successfully");
-    
-    // Reset form
-    setConnectionName("");
-    setHost("");
-    setSelectedDatabase(null);
-    setEditDialogOpen(false);
+    if (Object.keys(changes).length === 0) {
+      setEditDialogOpen(false);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await updateDatabase(String(projectId), selectedDatabase.id, changes);
+      if (!response.success) {
+        toast.error(response.error?.message || "Failed to update database connection");
+        return;
+      }
+
+      toast.success("Database connection updated successfully");
+      setSelectedDatabase(null);
+      setEditDialogOpen(false);
+      fetchDatabases();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleOpenRotatePassword = (db: DatabaseConnection) => {
+    setRotateDatabase(db);
+    setNewPassword("");
+    setConfirmPassword("");
+  };
+
+  const handleRotatePassword = async () => {
+    if (!projectId || !rotateDatabase) return;
+
+    if (!newPassword) {
+      toast.error("Please enter the new password");
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      toast.error("Passwords do not match");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await updateDatabase(String(projectId), rotateDatabase.id, { password: newPassword });
+      if (!response.success) {
+        toast.error(response.error?.message || "Failed to update password");
+        return;
+      }
+
+      toast.success(`Password updated for "${rotateDatabase.name}"`);
+      setRotateDatabase(null);
+      setNewPassword("");
+      setConfirmPassword("");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const loadDependencies = async (db: DatabaseConnection) => {
+    if (!projectId) return;
+
+    setIsCheckingDependencies(true);
+    setDependencies(null);
+    setDependenciesError(null);
+    try {
+      const response = await getDatabaseDependencies(String(projectId), db.id);
+      if (response.success && response.data) {
+        setDependencies(response.data);
+      } else {
+        setDependenciesError(response.error?.message || "Failed to check where this connection is used");
+      }
+    } finally {
+      setIsCheckingDependencies(false);
+    }
   };
 
-  const handleDeleteConnection = (db: DatabaseConnection) => {
-    // TODO: Implement delete API call when available
-    setDatabases(databases.filter(d => d.id !== db.id));
-    toast.success(`Connection "${db.name}" deleted successfully`);
+  const handleRequestDelete = (db: DatabaseConnection) => {
+    setDatabaseToDelete(db);
+    loadDependencies(db);
+  };
+
+  const handleDeleteConnection = async () => {
+    if (!projectId || !databaseToDelete) return;
+
+    setIsDeleting(true);
+    try {
+      const response = await deleteDatabase(String(projectId), databaseToDelete.id);
+      if (!response.success) {
+        toast.error(response.error?.message || "Failed to delete database connection");
+        return;
+      }
+
+      setDatabases((prev) => prev.filter((d) => d.id !== databaseToDelete.id));
+      toast.success(`Connection "${databaseToDelete.name}" deleted successfully`);
+      setDatabaseToDelete(null);
+      setDependencies(null);
+    } finally {
+      setIsDeleting(false);
+    }
   };
 
   const handleConnectionFlowCancel = () => {
@@ -316,13 +456,21 @@ export function DatabasesView({ projectId }: DatabasesViewProps) {
                             <Eye className="w-4 h-4 mr-2" />
                             View Details
                           </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => setSchemaDatabase(db)}>
+                            <Table2 className="w-4 h-4 mr-2" />
+                            Browse Schema
+                          </DropdownMenuItem>
                           <DropdownMenuItem onClick={() => handleEditConnection(db)}>
                             <Pencil className="w-4 h-4 mr-2" />
                             Edit Connection
                           </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => handleOpenRotatePassword(db)}>
+                            <KeyRound className="w-4 h-4 mr-2" />
+                            Rotate Password
+                          </DropdownMenuItem>
                           <DropdownMenuSeparator />
                           <DropdownMenuItem 
-                            onClick={() => handleDeleteConnection(db)}
+                            onClick={() => handleRequestDelete(db)}
                             className="text-destructive focus:text-destructive"
                           >
                             <Trash2 className="w-4 h-4 mr-2" />
@@ -411,6 +559,24 @@ export function DatabasesView({ projectId }: DatabasesViewProps) {
           </DialogContent>
         </Dialog>
 
+        {/* Schema Explorer Dialog */}
+        <Dialog open={!!schemaDatabase} onOpenChange={(open) => !open && setSchemaDatabase(null)}>
+          <DialogContent className="max-w-4xl">
+            <DialogHeader>
+              <DialogTitle>Schema: {schemaDatabase?.name}</DialogTitle>
+              <DialogDescription>
+                Browse tables and columns, and preview rows from this connection
+              </DialogDescription>
+            </DialogHeader>
+            {schemaDatabase && projectId && (
+              <SchemaExplorer
+                projectId={String(projectId)}
+                database={{ id: schemaDatabase.id, name: schemaDatabase.name, type: schemaDatabase.type }}
+              />
+            )}
+          </DialogContent>
+        </Dialog>
+
         {/* Edit Connection Dialog */}
         <Dialog open={editDialogOpen} onOpenChange={setEditDialogOpen}>
           <DialogContent className="max-w-2xl">
@@ -446,13 +612,14 @@ export function DatabasesView({ projectId }: DatabasesViewProps) {
                     <SelectContent>
                       <SelectItem value="postgresql">PostgreSQL</SelectItem>
                       <SelectItem value="mysql">MySQL</SelectItem>
+                      <SelectItem value="oracle">Oracle</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
 
                 <div className="space-y-2">
                   <Label htmlFor="edit-host">
-                    Host <span className="text-destructive">*</span>
+                    Host {isHostRequired && <span className="text-destructive">*</span>}
                   </Label>
                   <Input
                     id="edit-host"
@@ -461,7 +628,30 @@ export function DatabasesView({ projectId }: DatabasesViewProps) {
                     onChange={(e) => setHost(e.target.value)}
                   />
                 </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="edit-database">Database Name</Label>
+                  <Input
+                    id="edit-database"
+                    placeholder="analytics"
+                    value={databaseName}
+                    onChange={(e) => setDatabaseName(e.target.value)}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="edit-username">Username</Label>
+                  <Input
+                    id="edit-username"
+                    placeholder="db_user"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                  />
+                </div>
               </div>
+              <p className="text-xs text-muted-foreground">
+                The stored password is kept. Use "Rotate Password" from the connection menu to change it.
+              </p>
             </div>
 
             <DialogFooter className="gap-2">
@@ -470,13 +660,159 @@ export function DatabasesView({ projectId }: DatabasesViewProps) {
               </Button>
               <GradientButton 
                 onClick={handleUpdateConnection}
+                disabled={isSaving}
               >
-                <Database className="w-4 h-4 mr-2" />
+                {isSaving ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Database className="w-4 h-4 mr-2" />
+                )}
                 Update Connection
               </GradientButton>
             </DialogFooter>
           </DialogContent>
         </Dialog>
+
+        {/* Rotate Password Dialog */}
+        <Dialog open={!!rotateDatabase} onOpenChange={(open) => !open && setRotateDatabase(null)}>
+          <DialogContent className="max-w-md">
+            <DialogHeader>
+              <DialogTitle>Rotate Password</DialogTitle>
+              <DialogDescription>
+                Set a new password for "{rotateDatabase?.name}". All other connection settings stay the same.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="rotate-password">
+                  New Password <span className="text-destructive">*</span>
+                </Label>
+                <Input
+                  id="rotate-password"
+                  type="password"
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                  autoComplete="new-password"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rotate-password-confirm">
+                  Confirm Password <span className="text-destructive">*</span>
+                </Label>
+                <Input
+                  id="rotate-password-confirm"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  autoComplete="new-password"
+                />
+              </div>
+            </div>
+
+            <DialogFooter className="gap-2">
+              <Button variant="outline" onClick={() => setRotateDatabase(null)}>
+                Cancel
+              </Button>
+              <GradientButton onClick={handleRotatePassword} disabled={isSaving}>
+                {isSaving ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <KeyRound className="w-4 h-4 mr-2" />
+                )}
+                Update Password
+              </GradientButton>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        {/* Delete Confirmation Dialog */}
+        <AlertDialog
+          open={!!databaseToDelete}
+          onOpenChange={(open) => {
+            if (!open && !isDeleting) {
+              setDatabaseToDelete(null);
+              setDependencies(null);
+            }
+          }}
+        >
+          <AlertDialogContent className="border-border">
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete Connection</AlertDialogTitle>
+              <AlertDialogDescription>
+                Are you sure you want to delete "{databaseToDelete?.name}"? This action cannot be undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+
+            {isCheckingDependencies ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Checking charts and dashboards that use this connection...
+              </div>
+            ) : dependenciesError ? (
+              <div className="rounded-md border border-warning/30 bg-warning/10 p-3 text-sm text-muted-foreground">
+                <div className="flex items-start gap-2">
+                  <AlertTriangle className="w-4 h-4 text-warning flex-shrink-0 mt-0.5" />
+                  <div className="space-y-2">
+                    <p>We couldn't check where this connection is used: {dependenciesError}</p>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => databaseToDelete && loadDependencies(databaseToDelete)}
+                    >
+                      Retry
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ) : dependencies && (dependencies.charts.length > 0 || dependencies.dashboards.length > 0) ? (
+              <div className="rounded-md border border-destructive/30 bg-destructive/5 p-3 space-y-3 text-sm">
+                <div className="flex items-start gap-2">
+                  <AlertTriangle className="w-4 h-4 text-destructive flex-shrink-0 mt-0.5" />
+                  <p className="text-foreground">
+                    {dependencies.charts.length} chart{dependencies.charts.length !== 1 ? "s" : ""} on{" "}
+                    {dependencies.dashboards.length} dashboard{dependencies.dashboards.length !== 1 ? "s" : ""} will stop working.
+                  </p>
+                </div>
+                {dependencies.dashboards.length > 0 && (
+                  <div className="space-y-2">
+                    {dependencies.dashboards.map((dashboard) => (
+                      <div key={dashboard.id} className="flex items-center gap-2 text-muted-foreground">
+                        <LayoutDashboard className="w-3.5 h-3.5" />
+                        <span className="text-foreground">{dashboard.name}</span>
+                        <span className="text-xs">
+                          ({dashboard.chartCount} chart{dashboard.chartCount !== 1 ? "s" : ""})
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <div className="space-y-2 max-h-48 overflow-y-auto">
+                  {dependencies.charts.map((chart) => (
+                    <div key={chart.id} className="flex items-center gap-2 text-muted-foreground">
+                      <BarChart3 className="w-3.5 h-3.5" />
+                      <span>{chart.name}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ) : dependencies ? (
+              <p className="text-sm text-muted-foreground">No charts or dashboards use this connection.</p>
+            ) : null}
+
+            <AlertDialogFooter>
+              <AlertDialogCancel className="border-border" disabled={isDeleting}>Cancel</AlertDialogCancel>
+              <Button
+                onClick={handleDeleteConnection}
+                disabled={isDeleting || isCheckingDependencies}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                {isDeleting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Delete
+              </Button>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
         </div>
       </div>
   );
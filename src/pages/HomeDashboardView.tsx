@@ -12,6 +12,7 @@ import { ChartCard } from "../components/features/charts/ChartCard";
 import { getFavoriteCharts, updateFavoriteChart, getFavorites, getChartData, type ChartData as ApiChartData } from "../services/api";
 import { getDefaultChartDataConfig, inferChartDataConfig, type ChartDataConfig } from "../utils/chartData";
 import { Tooltip, TooltipContent, TooltipTrigger } from "../components/ui/tooltip";
+import { isRadialChartType, normalizeChartType, type ChartType } from "../utils/chartTypes";
 
 interface HomeDashboardViewProps {
   onNavigate?: (tab: string) => void;
@@ -52,14 +53,34 @@ const chartTypeIcons = {
   line: TrendingUp,
   bar: BarChart3,
   pie: BarChart3,
-  area: TrendingUp
+  area: TrendingUp,
+  donut: BarChart3,
+  scatter: TrendingUp,
+  stacked_bar: BarChart3,
+  grouped_bar: BarChart3,
+  horizontal_bar: BarChart3,
+  combo: TrendingUp,
+  funnel: BarChart3,
+  heatmap: BarChart3,
+  kpi: TrendingUp,
+  table: BarChart3
 };
 
 const chartTypeColors = {
   line: 'text-[#06B6D4] bg-[#06B6D4]/10',
   bar: 'text-[#8B5CF6] bg-[#8B5CF6]/10',
   pie: 'text-[#10B981] bg-[#10B981]/10',
-  area: 'text-[#F59E0B] bg-[#F59E0B]/10'
+  area: 'text-[#F59E0B] bg-[#F59E0B]/10',
+  donut: 'text-[#10B981] bg-[#10B981]/10',
+  scatter: 'text-[#06B6D4] bg-[#06B6D4]/10',
+  stacked_bar: 'text-[#8B5CF6] bg-[#8B5CF6]/10',
+  grouped_bar: 'text-[#8B5CF6] bg-[#8B5CF6]/10',
+  horizontal_bar: 'text-[#8B5CF6] bg-[#8B5CF6]/10',
+  combo: 'text-[#06B6D4] bg-[#06B6D4]/10',
+  funnel: 'text-[#10B981] bg-[#10B981]/10',
+  heatmap: 'text-[#F59E0B] bg-[#F59E0B]/10',
+  kpi: 'text-[#F59E0B] bg-[#F59E0B]/10',
+  table: 'text-[#06B6D4] bg-[#06B6D4]/10'
 };
 
 // Extended interface to store original API chart ID
@@ -108,21 +129,8 @@ export function HomeDashboardView({ onNavigate }: HomeDashboardViewProps) {
     return date.toLocaleDateString();
   }, []);
 
-  // Helper to normalize chart type from API response
-  const normalizeChartType = useCallback((chartType?: string | null): 'line' | 'bar' | 'pie' | 'area' => {
-    if (!chartType) {
-      return 'line';
-    }
-    const normalized = chartType.toString().toLowerCase();
-    if (normalized === 'bar' || normalized === 'column') return 'bar';
-    if (normalized === 'pie' || normalized === 'donut') return 'pie';
-    if (normalized === 'area') return 'area';
-    if (normalized === 'line') return 'line';
-    return 'line'; // Default fallback
-  }, []);
-
   // Helper to infer chart type from query (fallback)
-  const inferChartType = useCallback((query: string): 'line' | 'bar' | 'pie' | 'area' => {
+  const inferChartType = useCallback((query: string): ChartType => {
     const q = query.toLowerCase();
     if (q.includes('group by') && (q.includes('count') || q.includes('sum'))) {
       if (q.includes('date') || q.includes('time') || q.includes('month') || q.includes('year')) {
@@ -266,7 +274,7 @@ export function HomeDashboardView({ onNavigate }: HomeDashboardViewProps) {
     } finally {
       setIsLoadingCharts(false);
     }
-  }, [fetchChartDataForFavoriteChart, formatTimeAgo, normalizeChartType, inferChartType]);
+  }, [fetchChartDataForFavoriteChart, formatTimeAgo, inferChartType]);
 
   // Fetch favorite dashboards from API
   const fetchFavoriteDashboards = useCallback(async () => {
@@ -382,7 +390,7 @@ export function HomeDashboardView({ onNavigate }: HomeDashboardViewProps) {
             data={config.data}
             dataKeys={config.dataKeys}
             xAxisKey={config.xAxisKey}
-            showLegend={!!config.dataKeys.secondary && chart.chartType !== 'pie'}
+            showLegend={!!config.dataKeys.secondary && !isRadialChartType(chart.chartType)}
             height={260}
           />
         )}
@@ -809,6 +817,10 @@ export function HomeDashboardView({ onNavigate }: HomeDashboardViewProps) {
         }}
         isExistingChart={true}
         chartStatus="published"
+        savedChartId={selectedChart?.originalId}
+        onChartUpdated={() => {
+          fetchFavoriteCharts();
+        }}
       />
     </div>
   );
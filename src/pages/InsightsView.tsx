@@ -30,7 +30,14 @@ import {
   type Database as ApiDatabase,
 } from "../services/api";
 import { loadDatabaseMetadata, storeDatabaseMetadata, type DatabaseMetadataEntry } from "../utils/databaseMetadata";
+import { DATA_EXPORT_FORMATS, exportData, type DataExportFormat } from "../utils/dataExport";
 import { toast } from "sonner";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "../components/ui/dropdown-menu";
 import {
   Select,
   SelectContent,
@@ -775,50 +782,30 @@ export function InsightsView({ projectId }: InsightsViewProps) {
     }
   };
 
-  const handleExportCSV = () => {
+  const handleExportInsights = async (format: DataExportFormat) => {
     if (filteredInsights.length === 0) {
       toast.error("No insights to export");
       return;
     }
 
-    // Convert insights to CSV format
-    const headers = ["Title", "Description", "Type", "Category", "Impact", "Source", "Timestamp"];
-    const csvRows = [
-      headers.join(","),
-      ...filteredInsights.map((insight) => {
-        const escapeCell = (cell: any) => {
-          if (cell === null || cell === undefined) return "";
-          const cellString = String(cell);
-          const needsEscaping = /[",\n\r]/.test(cellString);
-          const escapedValue = cellString.replace(/"/g, '""');
-          return needsEscaping ? `"${escapedValue}"` : escapedValue;
-        };
-
-        return [
-          escapeCell(insight.title),
-          escapeCell(insight.description),
-          escapeCell(insight.type),
-          escapeCell(insight.category),
-          escapeCell(insight.impact),
-          escapeCell(insight.source || ""),
-          escapeCell(insight.timestamp),
-        ].join(",");
-      }),
-    ];
+    const rows = filteredInsights.map((insight) => ({
+      Title: insight.title,
+      Description: insight.description,
+      Type: insight.type,
+      Category: insight.category,
+      Impact: insight.impact,
+      Source: insight.source || "",
+      Timestamp: insight.timestamp,
+    }));
 
-    const csvContent = csvRows.join("\n");
-    const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
-    const link = document.createElement("a");
-    const url = URL.createObjectURL(blob);
-    
-    link.setAttribute("href", url);
-    link.setAttribute("download", `insights-export-${new Date().toISOString().split("T")[0]}.csv`);
-    link.style.visibility = "hidden";
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    
-    toast.success(`Exported ${filteredInsights.length} insights to CSV`);
+    try {
+      await exportData(format, [{ name: "Insights", rows }], {
+        title: `insights-export-${new Date().toISOString().split("T")[0]}`,
+      });
+      toast.success(`Exported ${filteredInsights.length} insights to ${format.toUpperCase()}`);
+    } catch (error: any) {
+      toast.error(error?.message || "Failed to export insights");
+    }
   };
 
   const handleCopyToClipboard = async (insight: Insight) => {
@@ -892,14 +879,24 @@ export function InsightsView({ projectId }: InsightsViewProps) {
               <Filter className="w-4 h-4 mr-2" />
               Filter
             </Button> */}
-            <Button 
-              variant="outline"
-              onClick={handleExportCSV}
-              disabled={filteredInsights.length === 0}
-            >
-              <Download className="w-4 h-4 mr-2" />
-              Export Insights
-            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button 
+                  variant="outline"
+                  disabled={filteredInsights.length === 0}
+                >
+                  <Download className="w-4 h-4 mr-2" />
+                  Export Insights
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {DATA_EXPORT_FORMATS.map((option) => (
+                  <DropdownMenuItem key={option.value} onClick={() => handleExportInsights(option.value)}>
+                    Export as {option.label}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
             <Button 
               className="bg-gradient-to-r from-primary to-accent hover:opacity-90 text-white shadow-lg hover:shadow-xl transition-all"
               onClick={() => setShowGenerateDialog(true)}
@@ -33,6 +33,8 @@ import { Button } from "../components/ui/button";
 
 interface OnboardingFlowProps {
   onComplete: (projectData: {
+    /** Id of the project created in the first step */
+    projectId?: string;
     name: string;
     description: string;
     context: Record<string, string>;
@@ -117,6 +119,7 @@ export function OnboardingFlow({ onComplete, onCancel }: OnboardingFlowProps) {
 
     // Complete onboarding
     onComplete({
+      projectId,
       name: projectName,
       description: enhancedDescription || projectDescription,
       context: contextPayload,
@@ -1,17 +1,36 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect } from "react";
 import { Database, LayoutDashboard, Lightbulb, TrendingUp, BarChart3, PieChart, LineChart } from "lucide-react";
 import { HomeDashboardView } from "./HomeDashboardView";
 import { DatabasesView } from "./DatabasesView";
 import { DashboardsView } from "./DashboardsView";
 import { ChartsView } from "./ChartsView";
 import { InsightsView } from "./InsightsView";
+import { AskVizAIView } from "./AskVizAIView";
 import { UsersView } from "./UsersView";
 import { DashboardDetailView } from "./DashboardDetailView";
 import { DashboardCreationBot } from "../components/features/dashboards/DashboardCreationBot";
+import { DashboardCopyDialog } from "../components/features/dashboards/DashboardCopyDialog";
+import { DashboardTemplatesDialog } from "../components/features/dashboards/DashboardTemplatesDialog";
 import { Dialog, DialogContent, DialogTitle, DialogDescription } from "../components/ui/dialog";
 import { LoadingSpinner } from "../components/shared/LoadingSpinner";
+import { NotFoundState } from "../components/shared/NotFoundState";
 import { toast } from "sonner";
-import { getDashboards, deleteDashboard, type Dashboard as ApiDashboard } from "../services/api";
+import {
+  getDashboards,
+  deleteDashboard,
+  getDashboardCharts,
+  getDashboardLayout,
+  getDashboardWidgets,
+  getDatabaseSchema,
+  type Dashboard as ApiDashboard,
+} from "../services/api";
+import { normalizeChartType, type ChartType } from "../utils/chartTypes";
+import type { KioskSettings } from "../utils/kiosk";
+import { loadStoredLayout, reconcileLayout } from "../utils/dashboardLayout";
+import { isWidgetEmpty, loadStoredWidgets } from "../utils/dashboardWidgets";
+import { serializeDashboardFilters, type DashboardFilterState } from "../utils/dashboardFilters";
+import { buildDashboardTemplate, getPrimaryConnectionId, type DashboardTemplate } from "../utils/dashboardTemplates";
+import { navigateTo } from "../utils/routes";
 
 // UI Dashboard type (extends API Dashboard with display fields)
 interface Dashboard {
@@ -53,6 +72,12 @@ interface WorkspaceViewProps {
   isDark: boolean;
   activeTab: string;
   onTabChange: (tab: string) => void;
+  /** Dashboard id from the URL (`/projects/:projectId/dashboards/:dashboardId`) */
+  dashboardId?: string;
+  onDashboardChange: (dashboardId: string | null) => void;
+  /** Chart id from the URL (`/projects/:projectId/charts/:chartId`) */
+  chartId?: string;
+  onChartChange: (chartId: string | null) => void;
   currentUser?: { id: number; name: string; email: string };
   projectId?: number | string;
   chartCreatedTrigger?: number;
@@ -60,7 +85,7 @@ interface WorkspaceViewProps {
   pendingChartFromAI?: {
     id?: string;
     name: string;
-    type: 'line' | 'bar' | 'pie' | 'area';
+    type: ChartType;
     dataSource: string;
     query: string;
     status: 'draft' | 'published';
@@ -68,25 +93,19 @@ interface WorkspaceViewProps {
   } | null;
   onChartFromAIProcessed?: () => void;
   onOpenAIAssistant?: () => void;
-  onEditChart?: (chart: { name: string; type: 'line' | 'bar' | 'pie' | 'area'; description?: string }) => void;
+  /** Kiosk (TV) mode settings from the URL */
+  kiosk?: KioskSettings;
+  onEnterKiosk?: (settings: Omit<KioskSettings, 'enabled'>) => void;
+  onExitKiosk?: () => void;
 }
 
-export function WorkspaceView({ projectName, onBack, isDark, activeTab, onTabChange, currentUser, projectId, chartCreatedTrigger, dashboardRefreshTrigger, pendingChartFromAI, onChartFromAIProcessed, onOpenAIAssistant, onEditChart }: WorkspaceViewProps) {
-  // Restore selected dashboard from localStorage
-  const [selectedDashboard, setSelectedDashboard] = useState<{ id: string; name: string } | null>(() => {
-    if (typeof window !== 'undefined' && projectId) {
-      const savedDashboardId = localStorage.getItem(`vizai_selected_dashboard_${projectId}`);
-      const savedDashboardName = localStorage.getItem(`vizai_selected_dashboard_name_${projectId}`);
-      if (savedDashboardId && savedDashboardName) {
-        return { id: savedDashboardId, name: savedDashboardName };
-      }
-    }
-    return null;
-  });
+export function WorkspaceView({ projectName, onBack, isDark, activeTab, onTabChange, dashboardId, onDashboardChange, chartId, onChartChange, currentUser, projectId, chartCreatedTrigger, dashboardRefreshTrigger, pendingChartFromAI, onChartFromAIProcessed, onOpenAIAssistant, kiosk, onEnterKiosk, onExitKiosk }: WorkspaceViewProps) {
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [dashboards, setDashboards] = useState<Dashboard[]>([]);
   const [isLoadingDashboards, setIsLoadingDashboards] = useState(false);
-  const isRestoringDashboardRef = useRef(false);
+  const [hasFetchedDashboards, setHasFetchedDashboards] = useState(false);
+  const [copyRequest, setCopyRequest] = useState<{ mode: 'duplicate' | 'template'; template: DashboardTemplate } | null>(null);
+  const [isTemplatesOpen, setIsTemplatesOpen] = useState(false);
 
   // Fetch dashboards when projectId is available
   useEffect(() => {
@@ -115,35 +134,6 @@ export function WorkspaceView({ projectName, onBack, isDark, activeTab, onTabCha
           status: 'active' as const,
         }));
         setDashboards(uiDashboards);
-        
-        // Restore selected dashboard if it exists and is still valid
-        if (!selectedDashboard) {
-          const savedDashboardId = localStorage.getItem(`vizai_selected_dashboard_${projectId}`);
-          const savedDashboardName = localStorage.getItem(`vizai_selected_dashboard_name_${projectId}`);
-          if (savedDashboardId && savedDashboardName) {
-            // Verify dashboard still exists
-            const dashboardExists = uiDashboards.find(
-              d => String(d.id) === savedDashboardId || d.name === savedDashboardName
-            );
-            if (dashboardExists) {
-              // Restore dashboard and switch to dashboards tab
-              isRestoringDashboardRef.current = true;
-              setSelectedDashboard({ id: String(dashboardExists.id), name: dashboardExists.name });
-              // Switch to dashboards tab to show the restored dashboard
-              if (activeTab !== 'dashboards') {
-                onTabChange('dashboards');
-              }
-              // Reset flag after a short delay
-              setTimeout(() => {
-                isRestoringDashboardRef.current = false;
-              }, 100);
-            } else {
-              // Dashboard no longer exists, clear from localStorage
-              localStorage.removeItem(`vizai_selected_dashboard_${projectId}`);
-              localStorage.removeItem(`vizai_selected_dashboard_name_${projectId}`);
-            }
-          }
-        }
         return uiDashboards;
       } else {
         toast.error(response.error?.message || "Failed to load dashboards");
@@ -154,55 +144,27 @@ export function WorkspaceView({ projectName, onBack, isDark, activeTab, onTabCha
       return null;
     } finally {
       setIsLoadingDashboards(false);
+      setHasFetchedDashboards(true);
     }
   };
 
-  // Save selected dashboard to localStorage
-  useEffect(() => {
-    if (projectId && selectedDashboard) {
-      localStorage.setItem(`vizai_selected_dashboard_${projectId}`, selectedDashboard.id);
-      localStorage.setItem(`vizai_selected_dashboard_name_${projectId}`, selectedDashboard.name);
-    } else if (projectId && !selectedDashboard) {
-      // Clear saved dashboard when deselected (but not during initial restore)
-      const savedDashboardId = localStorage.getItem(`vizai_selected_dashboard_${projectId}`);
-      if (!savedDashboardId) {
-        // Only clear if there's no saved dashboard (user explicitly navigated away)
-        localStorage.removeItem(`vizai_selected_dashboard_${projectId}`);
-        localStorage.removeItem(`vizai_selected_dashboard_name_${projectId}`);
-      }
-    }
-  }, [selectedDashboard, projectId]);
-
-  // Clear selected dashboard when activeTab changes (navigation from sidebar)
-  // But only if it's a user-initiated navigation, not during restore
-  useEffect(() => {
-    // Don't clear if we're restoring a dashboard
-    if (isRestoringDashboardRef.current) {
-      return;
-    }
-    // Only clear if dashboards are loaded and user navigated away from dashboards tab
-    if (dashboards.length > 0 && activeTab !== 'dashboards' && selectedDashboard) {
-      setSelectedDashboard(null);
-    }
-  }, [activeTab, dashboards.length, selectedDashboard]);
-
   const handleViewDashboard = (dashboardName: string, dashboardId?: string | number) => {
-    // Find the dashboard by name or ID to get the full dashboard info
-    const dashboard = dashboards.find(d => 
-      d.name === dashboardName || (dashboardId && d.id === dashboardId)
-    );
-    if (dashboard) {
-      setSelectedDashboard({ id: String(dashboard.id), name: dashboard.name });
-    } else {
-      // Fallback to just name if dashboard not found in list
-      setSelectedDashboard({ id: dashboardId ? String(dashboardId) : '', name: dashboardName });
+    // Prefer the ID; fall back to looking the dashboard up by name
+    const resolvedId = dashboardId ?? dashboards.find(d => d.name === dashboardName)?.id;
+    if (resolvedId !== undefined && resolvedId !== '') {
+      onDashboardChange(String(resolvedId));
     }
   };
 
   const handleBackToDashboards = () => {
-    setSelectedDashboard(null);
+    onDashboardChange(null);
   };
 
+  const selectedDashboardId = dashboardId ?? null;
+  const selectedDashboard = selectedDashboardId
+    ? dashboards.find(d => String(d.id) === selectedDashboardId) ?? null
+    : null;
+
   const handleOpenCreateDialog = () => {
     setIsCreateDialogOpen(true);
   };
@@ -239,10 +201,6 @@ export function WorkspaceView({ projectName, onBack, isDark, activeTab, onTabCha
         if (newDashboard) {
           // Navigate to the newly created dashboard
           handleViewDashboard(newDashboard.name, newDashboard.id);
-          // Ensure we're on the dashboards tab
-          if (activeTab !== 'dashboards') {
-            onTabChange('dashboards');
-          }
         }
       }
     } catch (err: any) {
@@ -264,8 +222,8 @@ export function WorkspaceView({ projectName, onBack, isDark, activeTab, onTabCha
         setDashboards(prevDashboards => prevDashboards.filter(d => d.id !== dashboardId));
         
         // If the deleted dashboard is currently selected, go back to dashboards list
-        if (selectedDashboard && selectedDashboard.id === String(dashboardId)) {
-          setSelectedDashboard(null);
+        if (activeTab === 'dashboards' && selectedDashboardId === String(dashboardId)) {
+          onDashboardChange(null);
         }
         
         toast.success(response.data?.message || `Dashboard "${dashboardName}" deleted successfully`);
@@ -277,12 +235,88 @@ export function WorkspaceView({ projectName, onBack, isDark, activeTab, onTabCha
     }
   };
 
+  // Snapshot a dashboard from the list (charts, widgets and saved layout) so it can be duplicated
+  const handleDuplicateDashboard = async (dashboardId: string | number) => {
+    const dashboard = dashboards.find(d => String(d.id) === String(dashboardId));
+    if (!dashboard || !projectId) return;
+
+    const toastId = toast.loading(`Preparing "${dashboard.name}"...`);
+    try {
+      const chartsResponse = await getDashboardCharts(String(dashboardId));
+      if (!chartsResponse.success || !chartsResponse.data) {
+        toast.error(chartsResponse.error?.message || "Failed to load dashboard charts", { id: toastId });
+        return;
+      }
+
+      const charts = chartsResponse.data.map((chart) => ({
+        key: String(chart.id),
+        title: chart.title,
+        query: chart.query,
+        chartType: normalizeChartType(chart.chart_type),
+        xAxis: chart.x_axis,
+        yAxis: chart.y_axis,
+        isTimeBased: chart.is_time_based,
+        connectionId: chart.connection_id,
+      }));
+
+      const [layoutResponse, widgetsResponse] = await Promise.all([
+        getDashboardLayout(String(dashboardId)),
+        getDashboardWidgets(String(dashboardId)),
+      ]);
+      const savedLayout = layoutResponse.success && layoutResponse.data && layoutResponse.data.length > 0
+        ? layoutResponse.data
+        : loadStoredLayout(String(dashboardId)) || [];
+      const widgets = (
+        widgetsResponse.success && widgetsResponse.data && widgetsResponse.data.length > 0
+          ? widgetsResponse.data
+          : loadStoredWidgets(String(dashboardId)) || []
+      ).filter((widget) => !isWidgetEmpty(widget));
+
+      const connectionId = getPrimaryConnectionId(charts);
+      const schemaResponse = connectionId ? await getDatabaseSchema(String(projectId), connectionId) : null;
+
+      toast.dismiss(toastId);
+      setCopyRequest({
+        mode: 'duplicate',
+        template: buildDashboardTemplate({
+          name: dashboard.name,
+          description: dashboard.description,
+          charts,
+          widgets,
+          layout: reconcileLayout(savedLayout, [...charts.map((chart) => chart.key), ...widgets.map((widget) => widget.id)]),
+          projectId: String(projectId),
+          schema: schemaResponse?.success ? schemaResponse.data : null,
+        }),
+      });
+    } catch (err: any) {
+      toast.error(err.message || "Failed to prepare dashboard copy", { id: toastId });
+    }
+  };
+
+  const handleDashboardCopied = async (result: { dashboardId: string; projectId: string; filters: DashboardFilterState }) => {
+    // The new dashboard has to be in the list before the detail view can show it
+    if (String(result.projectId) === String(projectId)) {
+      await fetchDashboards();
+    }
+    navigateTo(
+      { view: 'workspace', projectId: result.projectId, tab: 'dashboards', dashboardId: result.dashboardId },
+      { search: serializeDashboardFilters(result.filters) }
+    );
+  };
+
   const renderContent = () => {
-    // If a dashboard is selected, show the detail view
-    if (selectedDashboard) {
+    // If the URL points at a dashboard, show the detail view once we know it exists
+    if (activeTab === 'dashboards' && selectedDashboardId) {
+      if (!selectedDashboard) {
+        if (!hasFetchedDashboards || isLoadingDashboards) {
+          return <LoadingSpinner size="lg" text="Loading dashboard..." className="h-full" />;
+        }
+        return <NotFoundState resource="dashboard" onBack={handleBackToDashboards} backLabel="Back to dashboards" />;
+      }
+
       return (
         <DashboardDetailView 
-          dashboardId={selectedDashboard.id}
+          dashboardId={String(selectedDashboard.id)}
           dashboardName={selectedDashboard.name}
           projectId={projectId ? String(projectId) : undefined}
           onBack={handleBackToDashboards}
@@ -291,8 +325,16 @@ export function WorkspaceView({ projectName, onBack, isDark, activeTab, onTabCha
             handleBackToDashboards(); // Navigate back after deletion
           }}
           onOpenAIAssistant={onOpenAIAssistant}
-          onEditChart={onEditChart}
           refreshTrigger={dashboardRefreshTrigger}
+          kioskMode={kiosk?.enabled}
+          kioskRefreshInterval={kiosk?.refreshInterval}
+          projectDashboards={dashboards.map(d => ({ id: String(d.id), name: d.name }))}
+          onEnterKiosk={onEnterKiosk}
+          onExitKiosk={onExitKiosk}
+          onDuplicate={(template) => setCopyRequest({
+            mode: 'duplicate',
+            template: { ...template, description: selectedDashboard.description },
+          })}
         />
       );
     }
@@ -312,15 +354,19 @@ export function WorkspaceView({ projectName, onBack, isDark, activeTab, onTabCha
             onViewDashboard={handleViewDashboard}
             onCreateDashboard={handleOpenCreateDialog}
             onDeleteDashboard={handleDeleteDashboard}
+            onDuplicateDashboard={handleDuplicateDashboard}
+            onOpenTemplates={() => setIsTemplatesOpen(true)}
             isLoading={isLoadingDashboards}
           />
         );
       case 'charts':
-        return <ChartsView currentUser={currentUser} projectId={projectId} key={chartCreatedTrigger} pendingChartFromAI={pendingChartFromAI} onChartFromAIProcessed={onChartFromAIProcessed} onOpenAIAssistant={onOpenAIAssistant} onEditChart={onEditChart} />;
+        return <ChartsView currentUser={currentUser} projectId={projectId} key={chartCreatedTrigger} chartId={chartId} onChartChange={onChartChange} pendingChartFromAI={pendingChartFromAI} onChartFromAIProcessed={onChartFromAIProcessed} onOpenAIAssistant={onOpenAIAssistant} />;
       case 'databases':
         return <DatabasesView projectId={projectId} />;
       case 'insights':
         return <InsightsView projectId={projectId} />;
+      case 'ask':
+        return <AskVizAIView projectId={projectId} />;
       case 'team':
         return <UsersView projectId={projectId} />;
       default:
@@ -364,6 +410,26 @@ export function WorkspaceView({ projectName, onBack, isDark, activeTab, onTabCha
           />
         </DialogContent>
       </Dialog>
+
+      {/* Dashboard templates and copies */}
+      <DashboardTemplatesDialog
+        open={isTemplatesOpen}
+        onOpenChange={setIsTemplatesOpen}
+        onUseTemplate={(template) => {
+          setIsTemplatesOpen(false);
+          setCopyRequest({ mode: 'template', template });
+        }}
+      />
+      {projectId && (
+        <DashboardCopyDialog
+          open={!!copyRequest}
+          onOpenChange={(open) => !open && setCopyRequest(null)}
+          mode={copyRequest?.mode ?? 'duplicate'}
+          template={copyRequest?.template ?? null}
+          projectId={String(projectId)}
+          onCreated={handleDashboardCopied}
+        />
+      )}
     </>
   );
 }
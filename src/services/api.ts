@@ -5,6 +5,10 @@
  * Integrated with the FastAPI backend.
  */
 
+import { normalizeChartType, type ChartType } from '../utils/chartTypes';
+import type { DashboardTemplate } from '../utils/dashboardTemplates';
+import { recordChartVersion, type ChartDefinition } from '../utils/chartVersions';
+
 // ============================================================================
 // CONFIGURATION
 // ============================================================================
@@ -25,6 +29,12 @@ export const API_BASE_URL = getApiBaseUrl();
 const ACCESS_TOKEN_KEY = 'vizai_access_token';
 const REFRESH_TOKEN_KEY = 'vizai_refresh_token';
 
+// Database type of each connection seen in getDatabases, used to bind query variables for its dialect
+const CONNECTION_TYPES_KEY = 'vizai_connection_types';
+
+// Signed-in user's name, recorded with chart versions and query runs; looked up once per session
+let currentUsername: Promise<string | undefined> | null = null;
+
 /**
  * Get stored access token
  */
@@ -53,6 +63,7 @@ const setTokens = (accessToken: string, refreshToken: string): void => {
 const clearTokens = (): void => {
   localStorage.removeItem(ACCESS_TOKEN_KEY);
   localStorage.removeItem(REFRESH_TOKEN_KEY);
+  currentUsername = null;
 };
 
 /**
@@ -120,8 +131,8 @@ async function apiRequest<T>(
 
     // Handle token refresh on 401
     if (response.status === 401 && token && !isPublicEndpoint) {
-      const refreshed = await refreshAccessToken();
-      if (refreshed) {
+      const refreshResult = await refreshAccessToken();
+      if (refreshResult === 'refreshed') {
         // Retry with new token
         const newToken = getAccessToken();
         if (newToken) {
@@ -146,7 +157,10 @@ async function apiRequest<T>(
           }
         }
       }
-      // Refresh failed, clear tokens
+      // Keep the session when the refresh endpoint was unreachable; only a rejected refresh token logs out
+      if (refreshResult === 'unavailable') {
+        throw new Error('Unable to refresh your session. Please check your connection and try again.');
+      }
       clearTokens();
       throw new Error('Authentication failed. Please login again.');
     }
@@ -243,13 +257,31 @@ async function handleResponse<T>(response: Response): Promise<T> {
   return {} as T;
 }
 
+/**
+ * Outcome of a token refresh: `rejected` means the refresh token is no longer
+ * valid, `unavailable` means the server couldn't be reached (keep the session)
+ */
+type RefreshResult = 'refreshed' | 'rejected' | 'unavailable';
+
+// Shared by concurrent 401s so a burst of requests triggers a single refresh
+let refreshInFlight: Promise<RefreshResult> | null = null;
+
 /**
  * Refresh access token
  */
-async function refreshAccessToken(): Promise<boolean> {
+function refreshAccessToken(): Promise<RefreshResult> {
+  if (!refreshInFlight) {
+    refreshInFlight = requestTokenRefresh().finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+}
+
+async function requestTokenRefresh(): Promise<RefreshResult> {
   const refreshToken = getRefreshToken();
   if (!refreshToken) {
-    return false;
+    return 'rejected';
   }
 
   try {
@@ -266,13 +298,15 @@ async function refreshAccessToken(): Promise<boolean> {
     if (response.ok) {
       const data = await response.json();
       if (data.access_token) {
-        localStorage.setItem(ACCESS_TOKEN_KEY, data.access_token);
-        return true;
+        // Some deployments rotate the refresh token as well
+        setTokens(data.access_token, data.refresh_token || refreshToken);
+        return 'refreshed';
       }
+      return 'rejected';
     }
-    return false;
+    return response.status === 401 || response.status === 403 ? 'rejected' : 'unavailable';
   } catch {
-    return false;
+    return 'unavailable';
   }
 }
 
@@ -280,6 +314,42 @@ async function refreshAccessToken(): Promise<boolean> {
 // AUTHENTICATION
 // ============================================================================
 
+/**
+ * Expiry time (ms since epoch) of the stored access token, read from its JWT
+ * `exp` claim. Returns null when there is no token or it isn't a JWT.
+ */
+export const getSessionExpiry = (): number | null => {
+  const token = getAccessToken();
+  const payload = token?.split('.')[1];
+  if (!payload) return null;
+
+  try {
+    const claims = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof claims.exp === 'number' ? claims.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Refresh the access token ahead of expiry (used by long-running kiosk screens)
+ */
+export const refreshSession = async (): Promise<ApiResponse<{ refreshed: boolean }>> => {
+  const result = await refreshAccessToken();
+  if (result === 'refreshed') {
+    return { success: true, data: { refreshed: true } };
+  }
+  return {
+    success: false,
+    error: {
+      code: result === 'rejected' ? 'SESSION_EXPIRED' : 'REFRESH_SESSION_FAILED',
+      message: result === 'rejected'
+        ? 'Your session has expired. Please log in again.'
+        : 'Unable to reach the server to refresh your session',
+    },
+  };
+};
+
 export interface LoginCredentials {
   username: string; // Backend uses username, not email
   password: string;
@@ -383,6 +453,19 @@ export const getCurrentUser = async (): Promise<ApiResponse<User>> => {
   }
 };
 
+/**
+ * Username of the signed-in user, fetched once per session
+ */
+const getCurrentUsername = (): Promise<string | undefined> => {
+  if (!currentUsername) {
+    currentUsername = getCurrentUser().then((user) => {
+      if (!user.success) currentUsername = null; // Try again next time
+      return user.data?.username;
+    });
+  }
+  return currentUsername;
+};
+
 /**
  * Register new user account
  */
@@ -1003,6 +1086,253 @@ export const deleteDashboard = async (projectId: string, dashboardId: string): P
   }
 };
 
+/**
+ * Position and size of a chart on the 12-column dashboard grid (in grid units)
+ */
+export interface DashboardLayoutItem {
+  chartId: string;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/**
+ * Get the saved grid layout for a dashboard (empty when none has been saved yet)
+ */
+export const getDashboardLayout = async (dashboardId: string): Promise<ApiResponse<DashboardLayoutItem[]>> => {
+  try {
+    const response = await apiRequest<{
+      message?: string;
+      layout?: Array<{ chart_id: string; x: number; y: number; w: number; h: number }>;
+    }>(`/api/v1/backend/dashboards/${dashboardId}/layout`);
+
+    return {
+      success: true,
+      data: (response.layout || []).map((item) => ({
+        chartId: String(item.chart_id),
+        x: item.x,
+        y: item.y,
+        w: item.w,
+        h: item.h,
+      })),
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: {
+        code: 'FETCH_DASHBOARD_LAYOUT_FAILED',
+        message: error.message || 'Failed to fetch dashboard layout',
+      },
+    };
+  }
+};
+
+/**
+ * Save the grid layout for a dashboard
+ */
+export const updateDashboardLayout = async (
+  dashboardId: string,
+  layout: DashboardLayoutItem[]
+): Promise<ApiResponse<{ message: string }>> => {
+  try {
+    const response = await apiRequest<{ message?: string }>(`/api/v1/backend/dashboards/${dashboardId}/layout`, {
+      method: 'PUT',
+      body: JSON.stringify({
+        layout: layout.map((item) => ({
+          chart_id: item.chartId,
+          x: item.x,
+          y: item.y,
+          w: item.w,
+          h: item.h,
+        })),
+      }),
+    });
+
+    return {
+      success: true,
+      data: {
+        message: response.message || 'Dashboard layout saved successfully',
+      },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: {
+        code: 'UPDATE_DASHBOARD_LAYOUT_FAILED',
+        message: error.message || 'Failed to save dashboard layout',
+      },
+    };
+  }
+};
+
+export type DashboardWidgetType = 'markdown' | 'header' | 'image' | 'link';
+
+/**
+ * A non-data dashboard item (text, section header, image or link). Widgets share
+ * the dashboard grid with charts; their layout items use the widget id as `chartId`.
+ */
+export interface DashboardWidget {
+  id: string;
+  type: DashboardWidgetType;
+  /** Markdown body, header title or link label */
+  text: string;
+  /** Image source or link target */
+  url?: string;
+  /** Header subtitle, image caption or link description */
+  caption?: string;
+}
+
+/**
+ * Get the widgets placed on a dashboard
+ */
+export const getDashboardWidgets = async (dashboardId: string): Promise<ApiResponse<DashboardWidget[]>> => {
+  try {
+    const response = await apiRequest<{
+      message?: string;
+      widgets?: Array<{ widget_id: string; type: DashboardWidgetType; text?: string; url?: string | null; caption?: string | null }>;
+    }>(`/api/v1/backend/dashboards/${dashboardId}/widgets`);
+
+    return {
+      success: true,
+      data: (response.widgets || []).map((widget) => ({
+        id: String(widget.widget_id),
+        type: widget.type,
+        text: widget.text || '',
+        url: widget.url || undefined,
+        caption: widget.caption || undefined,
+      })),
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: {
+        code: 'FETCH_DASHBOARD_WIDGETS_FAILED',
+        message: error.message || 'Failed to fetch dashboard widgets',
+      },
+    };
+  }
+};
+
+/**
+ * Replace the widgets on a dashboard
+ */
+export const updateDashboardWidgets = async (
+  dashboardId: string,
+  widgets: DashboardWidget[]
+): Promise<ApiResponse<{ message: string }>> => {
+  try {
+    const response = await apiRequest<{ message?: string }>(`/api/v1/backend/dashboards/${dashboardId}/widgets`, {
+      method: 'PUT',
+      body: JSON.stringify({
+        widgets: widgets.map((widget) => ({
+          widget_id: widget.id,
+          type: widget.type,
+          text: widget.text,
+          url: widget.url || null,
+          caption: widget.caption || null,
+        })),
+      }),
+    });
+
+    return {
+      success: true,
+      data: {
+        message: response.message || 'Dashboard widgets saved successfully',
+      },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: {
+        code: 'UPDATE_DASHBOARD_WIDGETS_FAILED',
+        message: error.message || 'Failed to save dashboard widgets',
+      },
+    };
+  }
+};
+
+/**
+ * Create a dashboard from a template (also used to duplicate a dashboard).
+ * Each template chart is re-created (against `connectionId` when given), widgets are
+ * copied and the layout is saved re-pointed at the new chart ids. Charts that fail to save are reported
+ * in `failedCharts` rather than failing the whole copy.
+ */
+export const createDashboardFromTemplate = async (
+  projectId: string,
+  template: DashboardTemplate,
+  options: {
+    name: string;
+    description: string;
+    /** Connection for every chart; null keeps each chart's own connection (duplicating within a project) */
+    connectionId: string | null;
+  }
+): Promise<ApiResponse<{
+  dashboard: Dashboard;
+  /** Template chart key -> new chart id */
+  chartIds: Record<string, string>;
+  layout: DashboardLayoutItem[];
+  failedCharts: string[];
+}>> => {
+  const created = await createDashboard(projectId, { name: options.name, description: options.description });
+  if (!created.success || !created.data) {
+    return {
+      success: false,
+      error: created.error || {
+        code: 'CREATE_DASHBOARD_FAILED',
+        message: 'Failed to create dashboard',
+      },
+    };
+  }
+
+  const dashboard = created.data;
+  const chartIds: Record<string, string> = {};
+  const failedCharts: string[] = [];
+
+  // One at a time so the charts keep their order
+  for (const chart of template.charts) {
+    const connectionId = options.connectionId ?? chart.connectionId;
+    if (!connectionId) {
+      failedCharts.push(chart.title);
+      continue;
+    }
+
+    const response = await addChartToDashboard({
+      title: chart.title,
+      query: chart.query,
+      chart_type: chart.chartType,
+      dashboard_id: dashboard.id,
+      data_connection_id: connectionId,
+      is_time_based: chart.isTimeBased,
+      x_axis: chart.xAxis,
+      y_axis: chart.yAxis,
+    });
+    if (response.success && response.data?.chart_id) {
+      chartIds[chart.key] = String(response.data.chart_id);
+    } else {
+      failedCharts.push(chart.title);
+    }
+  }
+
+  const widgets = template.widgets || [];
+  const widgetIds = new Set(widgets.map((widget) => widget.id));
+  if (widgets.length > 0) {
+    await updateDashboardWidgets(dashboard.id, widgets);
+  }
+
+  const layout = template.layout
+    .filter((item) => chartIds[item.chartId] || widgetIds.has(item.chartId))
+    .map((item) => ({ ...item, chartId: chartIds[item.chartId] ?? item.chartId }));
+  if (layout.length > 0) {
+    await updateDashboardLayout(dashboard.id, layout);
+  }
+
+  return {
+    success: true,
+    data: { dashboard, chartIds, layout, failedCharts },
+  };
+};
+
 // ============================================================================
 // CHARTS
 // ============================================================================
@@ -1010,13 +1340,14 @@ export const deleteDashboard = async (projectId: string, dashboardId: string): P
 export interface Chart {
   id: string;
   name: string;
-  type: 'line' | 'bar' | 'pie' | 'area';
+  type: ChartType;
   projectId: string;
   databaseId?: string;
   query?: string;
   config: {
-    xAxis?: string;
-    yAxis?: string;
+    /** null clears the axis on update */
+    xAxis?: string | null;
+    yAxis?: string | null;
     color?: string;
   };
   createdAt: string;
@@ -1066,7 +1397,7 @@ export const getCharts = async (projectId: string): Promise<ApiResponse<Chart[]>
         .map((chart) => ({
           id: chart.id,
           name: chart.title,
-          type: mapChartType(chart.type), // Backend returns 'type' which is chart_type
+          type: normalizeChartType(chart.type), // Backend returns 'type' which is chart_type
           projectId, // Will need to get from backend or context
           databaseId: chart.datasourceConnectionId || undefined,
           query: chart.query,
@@ -1166,23 +1497,6 @@ export const getUserDashboardCharts = async (): Promise<ApiResponse<Array<{
   }
 };
 
-/**
- * Map backend chart type to frontend type
- */
-function mapChartType(backendType?: string | null): 'line' | 'bar' | 'pie' | 'area' {
-  if (!backendType) {
-    return 'line';
-  }
-  const normalized = backendType.toString().toLowerCase();
-  const typeMap: Record<string, 'line' | 'bar' | 'pie' | 'area'> = {
-    line: 'line',
-    bar: 'bar',
-    pie: 'pie',
-    area: 'area',
-  };
-  return typeMap[normalized] || 'line';
-}
-
 /**
  * Create new chart
  */
@@ -1214,12 +1528,20 @@ export const createChart = async (projectId: string, data: Partial<Chart>): Prom
       body: JSON.stringify(requestBody),
     });
 
+    await recordLocalChartVersion(response.id, {
+      name: response.title,
+      query: response.query,
+      type: normalizeChartType(response.chart_type),
+      xAxis: data.config?.xAxis ?? null,
+      yAxis: data.config?.yAxis ?? null,
+    });
+
     return {
       success: true,
       data: {
         id: response.id,
         name: response.title,
-        type: mapChartType(response.chart_type),
+        type: normalizeChartType(response.chart_type),
         projectId,
         databaseId: data.databaseId,
         query: response.query,
@@ -1243,6 +1565,74 @@ export const createChart = async (projectId: string, data: Partial<Chart>): Prom
   }
 };
 
+/**
+ * Update an existing chart's definition (title, query, type and axes)
+ */
+export const updateChart = async (chartId: string, data: Partial<Chart>): Promise<ApiResponse<Chart>> => {
+  try {
+    const requestBody: Record<string, any> = {};
+    if (data.name !== undefined) requestBody.title = data.name;
+    if (data.query !== undefined) requestBody.query = data.query;
+    if (data.type !== undefined) {
+      requestBody.chart_type = data.type;
+      requestBody.type = data.type;
+    }
+    if (data.databaseId !== undefined) requestBody.data_connection_id = data.databaseId;
+    if (data.config?.xAxis !== undefined) requestBody.x_axis = data.config.xAxis;
+    if (data.config?.yAxis !== undefined) requestBody.y_axis = data.config.yAxis;
+    if (data.is_time_based !== undefined) requestBody.is_time_based = data.is_time_based;
+
+    const response = await apiRequest<{
+      id?: string;
+      title?: string;
+      query?: string;
+      chart_type?: string;
+      datasourceConnectionId?: string | null;
+      x_axis?: string | null;
+      y_axis?: string | null;
+      is_time_based?: boolean;
+    }>(`/api/v1/backend/charts/${chartId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(requestBody),
+    });
+
+    await recordLocalChartVersion(chartId, {
+      name: response.title ?? data.name,
+      query: response.query ?? data.query,
+      type: response.chart_type ? normalizeChartType(response.chart_type) : data.type,
+      xAxis: response.x_axis !== undefined ? response.x_axis : data.config?.xAxis,
+      yAxis: response.y_axis !== undefined ? response.y_axis : data.config?.yAxis,
+    });
+
+    return {
+      success: true,
+      data: {
+        id: response.id || chartId,
+        name: response.title ?? data.name ?? '',
+        type: normalizeChartType(response.chart_type ?? data.type),
+        projectId: data.projectId || '',
+        databaseId: response.datasourceConnectionId ?? data.databaseId,
+        query: response.query ?? data.query,
+        config: {
+          xAxis: response.x_axis ?? data.config?.xAxis,
+          yAxis: response.y_axis ?? data.config?.yAxis,
+        },
+        createdAt: data.createdAt || new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+        is_time_based: response.is_time_based ?? data.is_time_based,
+      },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: {
+        code: 'UPDATE_CHART_FAILED',
+        message: error.message || 'Failed to update chart',
+      },
+    };
+  }
+};
+
 /**
  * Add chart to dashboard
  * Note: This creates a new chart and associates it with the dashboard
@@ -1250,7 +1640,7 @@ export const createChart = async (projectId: string, data: Partial<Chart>): Prom
 export const addChartToDashboard = async (data: {
   title: string;
   query: string;
-  chart_type: 'line' | 'bar' | 'pie' | 'area';
+  chart_type: ChartType;
   dashboard_id: string;
   data_connection_id: string; // Required - must be a valid UUID
   report?: string;
@@ -1301,6 +1691,14 @@ export const addChartToDashboard = async (data: {
       body: JSON.stringify(requestBody),
     });
 
+    await recordLocalChartVersion(response.chart_id, {
+      name: data.title,
+      query: data.query,
+      type: data.chart_type,
+      xAxis: data.x_axis ?? null,
+      yAxis: data.y_axis ?? null,
+    });
+
     return {
       success: true,
       data: {
@@ -1318,10 +1716,69 @@ export const addChartToDashboard = async (data: {
   }
 };
 
+/**
+ * Bind a chart query's `{{name}}` variables as literals for the connection's
+ * dialect and check that it only reads data. Without explicit values the
+ * chart's declared defaults are used.
+ */
+const prepareChartQuery = async (
+  chartId: string,
+  datasourceConnectionId: string,
+  query: string,
+  parameters?: ChartQueryParameters
+): Promise<ApiResponse<{ query: string; parameterValues?: ChartParameterValues }>> => {
+  const { bindQueryParameters, getDefaultParameterValues, hasQueryParameters, loadStoredParameters, resolveChartParameters } =
+    await import('../utils/chartParameters');
+  const { getSqlGuardError } = await import('../utils/sqlLint');
+
+  const dbType = await getConnectionType(datasourceConnectionId);
+  let boundQuery = query;
+  let parameterValues: ChartParameterValues | undefined;
+  if (hasQueryParameters(query)) {
+    const definitions = parameters?.definitions ?? resolveChartParameters(query, loadStoredParameters(chartId) || []);
+    parameterValues = parameters?.values ?? getDefaultParameterValues(definitions);
+    try {
+      boundQuery = bindQueryParameters(query, definitions, parameterValues, dbType);
+    } catch (error: any) {
+      return {
+        success: false,
+        error: {
+          code: 'INVALID_PARAMETER_VALUE',
+          message: error.message,
+        },
+      };
+    }
+  }
+
+  // Charts only read data; anything else is rejected before it reaches the database.
+  // This is advisory: the connection's database user must still be read-only.
+  const guardError = getSqlGuardError(boundQuery, dbType);
+  if (guardError) {
+    return {
+      success: false,
+      error: {
+        code: 'QUERY_NOT_ALLOWED',
+        message: guardError,
+      },
+    };
+  }
+
+  return {
+    success: true,
+    data: { query: boundQuery, parameterValues },
+  };
+};
+
 /**
  * Get chart data (execute query)
  * Uses cache to reduce API calls for the same queries
+ * Queries that are not read-only (see `utils/sqlLint`) are rejected without calling the backend
  * @param bypassCache - If true, bypasses cache and always fetches fresh data
+ * @param parameters - Declarations and values for `{{name}}` variables in the query, bound as
+ * literals for the connection's dialect (see `getDatabases`); values that can't be bound safely
+ * are rejected
+ * @param options.recordHistory - Record the run in the query history on this device if it reaches
+ * the backend; set for runs the user starts, not for dashboard loads, refreshes or drill-downs
  */
 export const getChartData = async (
   chartId: string, 
@@ -1329,14 +1786,22 @@ export const getChartData = async (
   query: string,
   fromDate?: string,
   toDate?: string,
-  bypassCache: boolean = false
+  bypassCache: boolean = false,
+  parameters?: ChartQueryParameters,
+  options?: { recordHistory?: boolean }
 ): Promise<ApiResponse<ChartData>> => {
   // Import cache utilities
   const { getCachedChartData, setCachedChartData, clearChartCache } = await import('../utils/chartDataCache');
-  
+
+  const prepared = await prepareChartQuery(chartId, datasourceConnectionId, query, parameters);
+  if (!prepared.success || !prepared.data) {
+    return { success: false, error: prepared.error };
+  }
+  const { query: boundQuery, parameterValues } = prepared.data;
+
   // Check cache first (unless bypassing)
   if (!bypassCache) {
-    const cachedData = getCachedChartData(chartId, datasourceConnectionId, query, fromDate, toDate);
+    const cachedData = getCachedChartData(chartId, datasourceConnectionId, query, fromDate, toDate, parameterValues);
     if (cachedData) {
       return {
         success: true,
@@ -1345,12 +1810,12 @@ export const getChartData = async (
     }
   } else {
     // Clear cache if bypassing to ensure fresh data
-    clearChartCache(chartId, datasourceConnectionId, query, fromDate, toDate);
+    clearChartCache(chartId, datasourceConnectionId, query, fromDate, toDate, parameterValues);
   }
   
   try {
     const requestBody: { query: string; from_date?: string; to_date?: string } = {
-      query: query,
+      query: boundQuery,
     };
     
     if (fromDate) {
@@ -1391,13 +1856,33 @@ export const getChartData = async (
     };
 
     // Store in cache for future use (5 minute TTL)
-    setCachedChartData(chartId, datasourceConnectionId, query, chartData, 5 * 60 * 1000, fromDate, toDate);
+    setCachedChartData(chartId, datasourceConnectionId, query, chartData, 5 * 60 * 1000, fromDate, toDate, parameterValues);
+
+    if (options?.recordHistory) {
+      recordLocalQueryRun({
+        query: boundQuery,
+        connectionId: datasourceConnectionId,
+        status: 'success',
+        executionTime: chartData.metadata.executionTime,
+        rowCount: chartData.metadata.rowCount,
+      });
+    }
 
     return {
       success: true,
       data: chartData,
     };
   } catch (error: any) {
+    if (options?.recordHistory) {
+      recordLocalQueryRun({
+        query: boundQuery,
+        connectionId: datasourceConnectionId,
+        status: 'error',
+        executionTime: null,
+        rowCount: null,
+        error: error.message || 'Failed to fetch chart data',
+      });
+    }
     return {
       success: false,
       error: {
@@ -1408,29 +1893,96 @@ export const getChartData = async (
   }
 };
 
+/** One step of a query's execution plan */
+export interface QueryPlanNode {
+  id: string;
+  /** e.g. "Seq Scan", "Hash Join" */
+  operation: string;
+  /** Table the step reads, if any */
+  relation?: string | null;
+  /** Index used, join condition or filter */
+  detail?: string | null;
+  estimatedRows: number | null;
+  /** Estimated total cost, in the database's own units */
+  cost: number | null;
+  /** Reads every row of `relation` */
+  isFullScan: boolean;
+  children: QueryPlanNode[];
+}
+
+export interface QueryPlan {
+  /** Top-level steps; most databases return a single root */
+  roots: QueryPlanNode[];
+}
+
 /**
- * Filter charts by dashboard ID, database connection, or status
+ * Get the database's execution plan for a query without running it
+ * `{{name}}` variables are bound like in `getChartData`, including the chart's
+ * stored declarations, and queries that are not read-only are rejected
+ * without calling the backend
  */
-export const filterCharts = async (filters: {
-  dashboardId?: string;
-  databaseConnectionId?: string;
-  status?: 'draft' | 'published';
-}): Promise<ApiResponse<Array<{
-  id: string;
-  title: string;
-  query: string;
-  chart_type: string;
-  type: string;
-  created_at: string;
-  database_connection_id: string;
-  database_connection_name?: string;
-  status: string;
-  is_favorite: boolean;
-  dashboards: Array<{ id: string; title: string }>;
-  dashboard_count: number;
-}>>> => {
-  try {
-    const queryParams = new URLSearchParams();
+export const explainQuery = async (
+  chartId: string,
+  datasourceConnectionId: string,
+  query: string,
+  parameters?: ChartQueryParameters
+): Promise<ApiResponse<QueryPlan>> => {
+  const { parseQueryPlan } = await import('../utils/queryPlan');
+
+  const prepared = await prepareChartQuery(chartId, datasourceConnectionId, query, parameters);
+  if (!prepared.success || !prepared.data) {
+    return { success: false, error: prepared.error };
+  }
+  const boundQuery = prepared.data.query;
+
+  try {
+    const response = await apiRequest<{
+      message?: string;
+      plan?: unknown;
+      result?: unknown;
+    }>(`/api/v1/backend/explain-query/${datasourceConnectionId}/`, {
+      method: 'POST',
+      body: JSON.stringify({ query: boundQuery }),
+    });
+
+    return {
+      success: true,
+      data: parseQueryPlan(response.plan ?? response.result),
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: {
+        code: 'EXPLAIN_QUERY_FAILED',
+        message: error.message || 'Failed to explain query',
+      },
+    };
+  }
+};
+
+/**
+ * Filter charts by dashboard ID, database connection, or status
+ */
+export const filterCharts = async (filters: {
+  dashboardId?: string;
+  databaseConnectionId?: string;
+  status?: 'draft' | 'published';
+}): Promise<ApiResponse<Array<{
+  id: string;
+  title: string;
+  query: string;
+  chart_type: string;
+  type: string;
+  created_at: string;
+  database_connection_id: string;
+  database_connection_name?: string;
+  status: string;
+  is_favorite: boolean;
+  dashboards: Array<{ id: string; title: string }>;
+  dashboard_count: number;
+}>>> => {
+  try {
+    const queryParams = new URLSearchParams();
     if (filters.dashboardId) {
       queryParams.append('dashboard_id', filters.dashboardId);
     }
@@ -1599,6 +2151,472 @@ export const deleteChart = async (chartId: string, dashboardId?: number | string
   }
 };
 
+export type ChartAnnotationType = 'event' | 'reference_line';
+
+/**
+ * A note drawn on a chart: an event marked at an x-axis value or date (e.g. a
+ * pricing change or an outage), or a horizontal reference line at a y value
+ * (a target or threshold)
+ */
+export interface ChartAnnotation {
+  id: string;
+  type: ChartAnnotationType;
+  label: string;
+  /** Event position: an x-axis category or a date (YYYY-MM-DD) */
+  x?: string;
+  /** Reference line value */
+  y?: number;
+}
+
+/**
+ * Get the annotations and reference lines of a chart
+ */
+export const getChartAnnotations = async (chartId: string): Promise<ApiResponse<ChartAnnotation[]>> => {
+  try {
+    const response = await apiRequest<{
+      message?: string;
+      annotations?: Array<{ annotation_id: string; type: ChartAnnotationType; label?: string; x_value?: string | null; y_value?: number | null }>;
+    }>(`/api/v1/backend/charts/${chartId}/annotations`);
+
+    return {
+      success: true,
+      data: (response.annotations || []).map((annotation) => ({
+        id: String(annotation.annotation_id),
+        type: annotation.type,
+        label: annotation.label || '',
+        x: annotation.x_value ?? undefined,
+        y: annotation.y_value ?? undefined,
+      })),
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: {
+        code: 'FETCH_CHART_ANNOTATIONS_FAILED',
+        message: error.message || 'Failed to fetch chart annotations',
+      },
+    };
+  }
+};
+
+/**
+ * Replace the annotations and reference lines of a chart
+ */
+export const updateChartAnnotations = async (
+  chartId: string,
+  annotations: ChartAnnotation[]
+): Promise<ApiResponse<{ message: string }>> => {
+  try {
+    const response = await apiRequest<{ message?: string }>(`/api/v1/backend/charts/${chartId}/annotations`, {
+      method: 'PUT',
+      body: JSON.stringify({
+        annotations: annotations.map((annotation) => ({
+          annotation_id: annotation.id,
+          type: annotation.type,
+          label: annotation.label,
+          x_value: annotation.x ?? null,
+          y_value: annotation.y ?? null,
+        })),
+      }),
+    });
+
+    return {
+      success: true,
+      data: {
+        message: response.message || 'Chart annotations saved successfully',
+      },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: {
+        code: 'UPDATE_CHART_ANNOTATIONS_FAILED',
+        message: error.message || 'Failed to save chart annotations',
+      },
+    };
+  }
+};
+
+/**
+ * A saved definition of a chart. A new version is recorded each time the
+ * chart's title, SQL, type or axes change.
+ */
+export interface ChartVersion {
+  id: string;
+  /** 1 for the first saved definition, increasing with each change */
+  version: number;
+  name: string;
+  query: string;
+  type: ChartType;
+  xAxis?: string | null;
+  yAxis?: string | null;
+  /** Username of whoever saved the version, when known */
+  author?: string | null;
+  createdAt: string;
+}
+
+/**
+ * Keep a copy of a saved chart definition on this device, so the chart's
+ * history is available when the versions endpoint is not
+ */
+const recordLocalChartVersion = async (chartId: string, definition: Partial<ChartDefinition>) => {
+  if (!chartId) return;
+  recordChartVersion(chartId, definition, await getCurrentUsername());
+};
+
+/**
+ * Get the saved versions of a chart, oldest first
+ */
+export const getChartVersions = async (chartId: string): Promise<ApiResponse<ChartVersion[]>> => {
+  try {
+    const response = await apiRequest<{
+      message?: string;
+      versions?: Array<{
+        version_id: string;
+        version: number;
+        title?: string;
+        query?: string;
+        chart_type?: string;
+        x_axis?: string | null;
+        y_axis?: string | null;
+        author?: string | null;
+        created_at: string;
+      }>;
+    }>(`/api/v1/backend/charts/${chartId}/versions`);
+
+    return {
+      success: true,
+      data: (response.versions || [])
+        .map((version) => ({
+          id: String(version.version_id),
+          version: version.version,
+          name: version.title || '',
+          query: version.query || '',
+          type: normalizeChartType(version.chart_type),
+          xAxis: version.x_axis ?? null,
+          yAxis: version.y_axis ?? null,
+          author: version.author ?? null,
+          createdAt: version.created_at,
+        }))
+        .sort((a, b) => a.version - b.version),
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: {
+        code: 'FETCH_CHART_VERSIONS_FAILED',
+        message: error.message || 'Failed to fetch chart versions',
+      },
+    };
+  }
+};
+
+export type ChartParameterType = 'string' | 'number' | 'date' | 'enum';
+
+/**
+ * A typed variable referenced in chart SQL as `{{name}}`
+ */
+export interface ChartParameter {
+  name: string;
+  type: ChartParameterType;
+  /** Shown in the parameter bar instead of the name */
+  label?: string;
+  defaultValue?: string | null;
+  /** Enum only: query whose first column lists the allowed values */
+  lookupQuery?: string;
+  /** Enum only: allowed values when there is no lookup query */
+  options?: string[];
+}
+
+/** Current value of each parameter, keyed by name; numbers and dates are kept as strings */
+export type ChartParameterValues = Record<string, string | null>;
+
+/** Parameters bound into a chart query before it is run */
+export interface ChartQueryParameters {
+  definitions: ChartParameter[];
+  values: ChartParameterValues;
+}
+
+/**
+ * Get the parameters declared for a chart's SQL
+ */
+export const getChartParameters = async (chartId: string): Promise<ApiResponse<ChartParameter[]>> => {
+  try {
+    const response = await apiRequest<{
+      message?: string;
+      parameters?: Array<{
+        name: string;
+        type: ChartParameterType;
+        label?: string | null;
+        default_value?: string | null;
+        lookup_query?: string | null;
+        options?: string[] | null;
+      }>;
+    }>(`/api/v1/backend/charts/${chartId}/parameters`);
+
+    return {
+      success: true,
+      data: (response.parameters || []).map((parameter) => ({
+        name: parameter.name,
+        type: parameter.type,
+        label: parameter.label || undefined,
+        defaultValue: parameter.default_value ?? null,
+        lookupQuery: parameter.lookup_query || undefined,
+        options: parameter.options || undefined,
+      })),
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: {
+        code: 'FETCH_CHART_PARAMETERS_FAILED',
+        message: error.message || 'Failed to fetch chart parameters',
+      },
+    };
+  }
+};
+
+/**
+ * Replace the parameters declared for a chart's SQL
+ */
+export const updateChartParameters = async (
+  chartId: string,
+  parameters: ChartParameter[]
+): Promise<ApiResponse<{ message: string }>> => {
+  try {
+    const response = await apiRequest<{ message?: string }>(`/api/v1/backend/charts/${chartId}/parameters`, {
+      method: 'PUT',
+      body: JSON.stringify({
+        parameters: parameters.map((parameter) => ({
+          name: parameter.name,
+          type: parameter.type,
+          label: parameter.label ?? null,
+          default_value: parameter.defaultValue ?? null,
+          lookup_query: parameter.lookupQuery ?? null,
+          options: parameter.options ?? null,
+        })),
+      }),
+    });
+
+    return {
+      success: true,
+      data: {
+        message: response.message || 'Chart parameters saved successfully',
+      },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: {
+        code: 'UPDATE_CHART_PARAMETERS_FAILED',
+        message: error.message || 'Failed to save chart parameters',
+      },
+    };
+  }
+};
+
+/**
+ * Run an enum parameter's lookup query and return the distinct values of its
+ * first column
+ */
+export const getChartParameterOptions = async (
+  datasourceConnectionId: string,
+  lookupQuery: string
+): Promise<ApiResponse<string[]>> => {
+  const response = await getChartData('parameter-lookup', datasourceConnectionId, lookupQuery);
+  if (!response.success || !response.data) {
+    return {
+      success: false,
+      error: {
+        code: 'FETCH_PARAMETER_OPTIONS_FAILED',
+        message: response.error?.message || 'Failed to load parameter options',
+      },
+    };
+  }
+
+  const values = response.data.data
+    .map((row) => (row && typeof row === 'object' ? Object.values(row)[0] : row))
+    .filter((value) => value !== null && value !== undefined)
+    .map(String);
+
+  return {
+    success: true,
+    data: Array.from(new Set(values)).slice(0, 500),
+  };
+};
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+export type QueryRunStatus = 'success' | 'error';
+
+/** One run of a query against a connection */
+export interface QueryHistoryEntry {
+  id: string;
+  /** SQL as sent to the database, with parameter values bound */
+  query: string;
+  connectionId: string;
+  status: QueryRunStatus;
+  /** Milliseconds reported by the backend; null when the run failed */
+  executionTime: number | null;
+  rowCount: number | null;
+  error?: string | null;
+  /** Username of whoever ran the query, when known */
+  ranBy?: string | null;
+  ranAt: string;
+}
+
+/** A named query kept in the project's library */
+export interface SavedQuery {
+  id: string;
+  name: string;
+  query: string;
+  connectionId: string;
+  tags: string[];
+  createdBy?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Keep a copy of a query run on this device, so the project's history is
+ * available when the history endpoint is not
+ */
+const recordLocalQueryRun = async (entry: Omit<QueryHistoryEntry, 'id' | 'ranAt' | 'ranBy'>) => {
+  const { recordQueryRun } = await import('../utils/queryLibrary');
+  recordQueryRun({ ...entry, ranBy: await getCurrentUsername() });
+};
+
+/**
+ * Get the queries run on a project's connections, newest first
+ */
+export const getQueryHistory = async (projectId: string): Promise<ApiResponse<QueryHistoryEntry[]>> => {
+  try {
+    const response = await apiRequest<{
+      message?: string;
+      history?: Array<{
+        id: string;
+        query: string;
+        data_connection_id: string;
+        status: QueryRunStatus;
+        execution_time_ms?: number | null;
+        row_count?: number | null;
+        error?: string | null;
+        ran_by?: string | null;
+        ran_at: string;
+      }>;
+    }>(`/api/v1/backend/projects/${projectId}/query-history`);
+
+    return {
+      success: true,
+      data: (response.history || []).map((entry) => ({
+        id: String(entry.id),
+        query: entry.query,
+        connectionId: String(entry.data_connection_id),
+        status: entry.status,
+        executionTime: entry.execution_time_ms ?? null,
+        rowCount: entry.row_count ?? null,
+        error: entry.error ?? null,
+        ranBy: entry.ran_by ?? null,
+        ranAt: entry.ran_at,
+      })),
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: {
+        code: 'FETCH_QUERY_HISTORY_FAILED',
+        message: error.message || 'Failed to fetch query history',
+      },
+    };
+  }
+};
+
+/**
+ * Get a project's saved queries
+ */
+export const getSavedQueries = async (projectId: string): Promise<ApiResponse<SavedQuery[]>> => {
+  try {
+    const response = await apiRequest<{
+      message?: string;
+      queries?: Array<{
+        id: string;
+        name: string;
+        query: string;
+        data_connection_id: string;
+        tags?: string[] | null;
+        created_by?: string | null;
+        created_at: string;
+        updated_at?: string | null;
+      }>;
+    }>(`/api/v1/backend/projects/${projectId}/saved-queries`);
+
+    return {
+      success: true,
+      data: (response.queries || []).map((query) => ({
+        id: String(query.id),
+        name: query.name,
+        query: query.query,
+        connectionId: String(query.data_connection_id),
+        tags: query.tags || [],
+        createdBy: query.created_by ?? null,
+        createdAt: query.created_at,
+        updatedAt: query.updated_at || query.created_at,
+      })),
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: {
+        code: 'FETCH_SAVED_QUERIES_FAILED',
+        message: error.message || 'Failed to fetch saved queries',
+      },
+    };
+  }
+};
+
+/**
+ * Replace a project's saved queries
+ */
+export const updateSavedQueries = async (
+  projectId: string,
+  queries: SavedQuery[]
+): Promise<ApiResponse<{ message: string }>> => {
+  try {
+    const response = await apiRequest<{ message?: string }>(`/api/v1/backend/projects/${projectId}/saved-queries`, {
+      method: 'PUT',
+      body: JSON.stringify({
+        queries: queries.map((query) => ({
+          id: query.id,
+          name: query.name,
+          query: query.query,
+          data_connection_id: query.connectionId,
+          tags: query.tags,
+          created_by: query.createdBy ?? null,
+          created_at: query.createdAt,
+          updated_at: query.updatedAt,
+        })),
+      }),
+    });
+
+    return {
+      success: true,
+      data: {
+        message: response.message || 'Saved queries updated successfully',
+      },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: {
+        code: 'UPDATE_SAVED_QUERIES_FAILED',
+        message: error.message || 'Failed to update saved queries',
+      },
+    };
+  }
+};
+
 // ============================================================================
 // DATABASES
 // ============================================================================
@@ -1621,11 +2639,16 @@ export interface Database {
 export interface DatabaseSchema {
   tables: {
     name: string;
-    rowCount: number;
+    schema?: string;
+    description?: string;
+    rowCount: number | null; // null when the extractor did not record a count
     columns: {
       name: string;
       type: string;
       nullable: boolean;
+      primaryKey?: boolean;
+      description?: string;
+      sampleValues?: any[];
     }[];
   }[];
 }
@@ -1635,6 +2658,25 @@ export interface DatabaseCreationTask {
   tablesCount: number;
 }
 
+/**
+ * The database type last seen for a connection on this device, or null when
+ * it hasn't been listed here yet
+ */
+const getConnectionType = async (datasourceConnectionId: string): Promise<string | null> => {
+  const { readStoredJson } = await import('../utils/storage');
+  const types = readStoredJson<Record<string, string>>(CONNECTION_TYPES_KEY, 'connection types');
+  return types?.[datasourceConnectionId] ?? null;
+};
+
+const rememberConnectionTypes = async (connections: Array<{ id: string; type: string }>): Promise<void> => {
+  const { readStoredJson, writeStoredJson } = await import('../utils/storage');
+  const types = readStoredJson<Record<string, string>>(CONNECTION_TYPES_KEY, 'connection types') ?? {};
+  connections.forEach((connection) => {
+    types[connection.id] = connection.type;
+  });
+  writeStoredJson(CONNECTION_TYPES_KEY, types, 'connection types');
+};
+
 /**
  * Get database connections for project
  */
@@ -1674,6 +2716,10 @@ export const getDatabases = async (projectId: string): Promise<ApiResponse<Datab
       connectionsArray = response.connections;
     }
 
+    await rememberConnectionTypes(
+      connectionsArray.map((conn) => ({ id: conn.id, type: conn.db_type || 'postgresql' }))
+    );
+
     return {
       success: true,
       data: connectionsArray.map((conn) => ({
@@ -1702,6 +2748,83 @@ export const getDatabases = async (projectId: string): Promise<ApiResponse<Datab
   }
 };
 
+/**
+ * Connection details accepted by createDatabase and testDatabaseConnection.
+ * Either a full connection string or the individual form fields.
+ */
+export interface DatabaseConnectionInput {
+  connectionString?: string;
+  connectionName?: string;
+  dbType?: string;
+  host?: string;
+  port?: number | string;
+  database?: string;
+  username?: string;
+  password?: string;
+  consentGiven?: boolean;
+}
+
+/**
+ * Build the backend request body for a connection (shared by create and test)
+ */
+const buildConnectionRequestBody = (data: DatabaseConnectionInput): Record<string, any> => {
+  const requestBody: any = {
+    connection_name: data.connectionName || '',
+  };
+
+  if (data.connectionString) {
+    // Use connection string method
+    requestBody.connection_string = data.connectionString;
+    // Extract db_type from connection string if not provided
+    if (data.connectionString.startsWith('postgresql://')) {
+      requestBody.db_type = 'postgres';
+    } else if (data.connectionString.startsWith('mysql://')) {
+      requestBody.db_type = 'mysql';
+    }
+  } else {
+    // Use form fields method
+    // Backend expects "postgres" not "postgresql", and "oracledb" not "oracle"
+    let dbType = data.dbType?.toLowerCase() || 'postgres';
+    if (dbType === 'postgresql') {
+      dbType = 'postgres';
+    } else if (dbType === 'oracle') {
+      dbType = 'oracledb';
+    }
+    
+    requestBody.connection_name = data.connectionName || '';
+    requestBody.db_type = dbType;
+    
+    // Construct host with port if port is provided and different from default
+    let hostWithPort = data.host || '';
+    if (data.port) {
+      const portStr = String(data.port).trim();
+      if (portStr) {
+        const portNum = parseInt(portStr);
+        if (!isNaN(portNum)) {
+          const defaultPort = dbType === 'postgres' ? 5432 : dbType === 'mysql' ? 3306 : 1521;
+          
+          // Only append port if it's different from default and not already in host
+          if (portNum !== defaultPort && !hostWithPort.includes(':')) {
+            hostWithPort = `${hostWithPort}:${portNum}`;
+          }
+        }
+      }
+    }
+    
+    requestBody.host = hostWithPort;
+    requestBody.db_name = data.database || '';
+    // Backend accepts both 'username' and 'name', send 'username' to match expected payload format
+    requestBody.username = data.username || '';
+    requestBody.password = data.password || '';
+  }
+
+  if (data.consentGiven !== undefined) {
+    requestBody.consent_given = data.consentGiven;
+  }
+
+  return requestBody;
+};
+
 /**
  * Create database connection
  * 
@@ -1712,80 +2835,15 @@ export const getDatabases = async (projectId: string): Promise<ApiResponse<Datab
  */
 export const createDatabase = async (
   projectId: string, 
-  data: {
-    connectionString?: string;
-    connectionName?: string;
-    dbType?: string;
-    host?: string;
-    port?: number | string;
-    database?: string;
-    username?: string;
-    password?: string;
-    consentGiven?: boolean;
-  }
+  data: DatabaseConnectionInput
 ): Promise<ApiResponse<DatabaseCreationTask>> => {
   try {
-    // Prepare request body based on whether connection string or form fields are provided
-    const requestBody: any = {
-      connection_name: data.connectionName || '',
-    };
-
-    if (data.connectionString) {
-      // Use connection string method
-      requestBody.connection_string = data.connectionString;
-      // Extract db_type from connection string if not provided
-      if (data.connectionString.startsWith('postgresql://')) {
-        requestBody.db_type = 'postgres';
-      } else if (data.connectionString.startsWith('mysql://')) {
-        requestBody.db_type = 'mysql';
-      }
-    } else {
-      // Use form fields method
-      // Backend expects "postgres" not "postgresql", and "oracledb" not "oracle"
-      let dbType = data.dbType?.toLowerCase() || 'postgres';
-      if (dbType === 'postgresql') {
-        dbType = 'postgres';
-      } else if (dbType === 'oracle') {
-        dbType = 'oracledb';
-      }
-      
-      requestBody.connection_name = data.connectionName || '';
-      requestBody.db_type = dbType;
-      
-      // Construct host with port if port is provided and different from default
-      let hostWithPort = data.host || '';
-      if (data.port) {
-        const portStr = String(data.port).trim();
-        if (portStr) {
-          const portNum = parseInt(portStr);
-          if (!isNaN(portNum)) {
-            const defaultPort = dbType === 'postgres' ? 5432 : dbType === 'mysql' ? 3306 : 1521;
-            
-            // Only append port if it's different from default and not already in host
-            if (portNum !== defaultPort && !hostWithPort.includes(':')) {
-              hostWithPort = `${hostWithPort}:${portNum}`;
-            }
-          }
-        }
-      }
-      
-      requestBody.host = hostWithPort;
-      requestBody.db_name = data.database || '';
-      // Backend accepts both 'username' and 'name', send 'username' to match expected payload format
-      requestBody.username = data.username || '';
-      requestBody.password = data.password || '';
-    }
-
-    if (data.consentGiven !== undefined) {
-      requestBody.consent_given = data.consentGiven;
-    }
-
     const response = await apiRequest<{
       taskId: string;
       tablesCount: number;
     }>(`/api/v1/backend/database/${projectId}`, {
       method: 'POST',
-      body: JSON.stringify(requestBody),
+      body: JSON.stringify(buildConnectionRequestBody(data)),
     });
 
     return {
@@ -1806,22 +2864,91 @@ export const createDatabase = async (
   }
 };
 
+export type ConnectionFailureReason = 'dns' | 'auth' | 'ssl' | 'timeout' | 'permission';
+
+export interface ConnectionTestResult {
+  connected: boolean;
+  latency: number; // Round-trip time in milliseconds
+  version?: string;
+  failureReason?: ConnectionFailureReason;
+  message?: string;
+}
+
+const CONNECTION_FAILURE_PATTERNS: Array<{ reason: ConnectionFailureReason; pattern: RegExp }> = [
+  { reason: 'dns', pattern: /could not translate host|name or service not known|getaddrinfo|enotfound|unknown host|nodename nor servname|ora-12154|ora-12545/i },
+  { reason: 'ssl', pattern: /ssl|tls|certificate|handshake/i },
+  { reason: 'timeout', pattern: /timed? ?out|timeout|etimedout|connection refused|econnrefused|ora-12170/i },
+  { reason: 'auth', pattern: /password authentication failed|access denied for user|authentication failed|invalid (username|password)|ora-01017|role .* does not exist|login failed/i },
+  { reason: 'permission', pattern: /permission denied|insufficient privilege|not authorized|ora-01031|access denied|no privileges/i },
+];
+
+/**
+ * Map a backend error type or driver message to a failure category
+ */
+const classifyConnectionFailure = (errorType?: string | null, message?: string | null): ConnectionFailureReason | undefined => {
+  const normalizedType = errorType?.toLowerCase();
+  if (normalizedType) {
+    if (['dns', 'host', 'host_not_found'].includes(normalizedType)) return 'dns';
+    if (['auth', 'authentication', 'credentials'].includes(normalizedType)) return 'auth';
+    if (['ssl', 'tls'].includes(normalizedType)) return 'ssl';
+    if (['timeout', 'network', 'unreachable'].includes(normalizedType)) return 'timeout';
+    if (['permission', 'permissions', 'authorization', 'privilege'].includes(normalizedType)) return 'permission';
+  }
+  if (!message) return undefined;
+  return CONNECTION_FAILURE_PATTERNS.find(({ pattern }) => pattern.test(message))?.reason;
+};
+
 /**
- * Test database connection
+ * Test database connection without saving it.
+ * Resolves with `connected: false` and a categorized `failureReason` when the database
+ * rejects the connection; returns an error only when the test itself could not run.
  */
-export const testDatabaseConnection = async (config: Partial<Database>): Promise<ApiResponse<{ connected: boolean; latency: number; version: string }>> => {
+export const testDatabaseConnection = async (data: DatabaseConnectionInput): Promise<ApiResponse<ConnectionTestResult>> => {
+  const startedAt = performance.now();
   try {
-    // Backend doesn't have a dedicated test endpoint, so we'll simulate
-    // In a real scenario, you'd call a test endpoint or try to fetch schema
+    const response = await apiRequest<{
+      connected?: boolean;
+      success?: boolean;
+      latency_ms?: number;
+      server_version?: string;
+      version?: string;
+      error_type?: string;
+      error?: string;
+      message?: string;
+    }>('/api/v1/backend/test-datasource-connection', {
+      method: 'POST',
+      body: JSON.stringify(buildConnectionRequestBody(data)),
+    }, 20000);
+
+    const latency = Math.round(response.latency_ms ?? performance.now() - startedAt);
+    const connected = response.connected ?? response.success ?? false;
+    const message = response.error || response.message;
+
     return {
       success: true,
       data: {
-        connected: true,
-        latency: 45,
-        version: config.type === 'postgresql' ? 'PostgreSQL 14.5' : 'MySQL 8.0.30',
+        connected,
+        latency,
+        version: response.server_version || response.version,
+        failureReason: connected ? undefined : classifyConnectionFailure(response.error_type, message),
+        message: connected ? undefined : message,
       },
     };
   } catch (error: any) {
+    // Driver errors come back as HTTP errors; report recognizable ones as a failed test
+    const failureReason = classifyConnectionFailure(null, error.message);
+    if (failureReason) {
+      return {
+        success: true,
+        data: {
+          connected: false,
+          latency: Math.round(performance.now() - startedAt),
+          failureReason,
+          message: error.message,
+        },
+      };
+    }
+
     return {
       success: false,
       error: {
@@ -1833,18 +2960,203 @@ export const testDatabaseConnection = async (config: Partial<Database>): Promise
 };
 
 /**
- * Get database schema
+ * Drop cached metadata and chart results that depend on a connection
+ */
+const invalidateConnectionCaches = async (projectId: string, databaseId: string): Promise<void> => {
+  const { clearDatabaseMetadata } = await import('../utils/databaseMetadata');
+  const { clearConnectionChartCache } = await import('../utils/chartDataCache');
+  clearDatabaseMetadata(projectId);
+  clearConnectionChartCache(databaseId);
+};
+
+/**
+ * Update database connection
+ * Only the provided fields are sent, so a password can be rotated on its own
+ * without resending the rest of the connection details.
  */
-export const getDatabaseSchema = async (databaseId: string): Promise<ApiResponse<DatabaseSchema>> => {
+export const updateDatabase = async (
+  projectId: string,
+  databaseId: string,
+  data: Partial<DatabaseConnectionInput>
+): Promise<ApiResponse<{ message: string }>> => {
   try {
-    // This endpoint doesn't exist in backend yet, returning mock
-    // You'll need to implement this endpoint or use the read_data_service
+    const requestBody: Record<string, any> = {};
+    if (data.connectionName !== undefined) requestBody.connection_name = data.connectionName;
+    if (data.connectionString !== undefined) requestBody.connection_string = data.connectionString;
+    if (data.dbType !== undefined) {
+      // Backend expects "postgres" not "postgresql", and "oracledb" not "oracle"
+      const dbType = data.dbType.toLowerCase();
+      requestBody.db_type = dbType === 'postgresql' ? 'postgres' : dbType === 'oracle' ? 'oracledb' : dbType;
+    }
+    if (data.host !== undefined) requestBody.host = data.host;
+    if (data.database !== undefined) requestBody.db_name = data.database;
+    if (data.username !== undefined) requestBody.username = data.username;
+    if (data.password !== undefined) requestBody.password = data.password;
+
+    const response = await apiRequest<{
+      message?: string;
+    }>(`/api/v1/backend/database/${projectId}/${databaseId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(requestBody),
+    });
+
+    await invalidateConnectionCaches(projectId, databaseId);
+
     return {
       success: true,
       data: {
-        tables: [],
+        message: response.message || 'Database connection updated successfully',
       },
     };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: {
+        code: 'UPDATE_DATABASE_FAILED',
+        message: error.message || 'Failed to update database connection',
+      },
+    };
+  }
+};
+
+/**
+ * Delete database connection
+ */
+export const deleteDatabase = async (projectId: string, databaseId: string): Promise<ApiResponse<{ message: string }>> => {
+  try {
+    const response = await apiRequest<{
+      message?: string;
+    }>(`/api/v1/backend/database/${projectId}/${databaseId}`, {
+      method: 'DELETE',
+    });
+
+    await invalidateConnectionCaches(projectId, databaseId);
+
+    return {
+      success: true,
+      data: {
+        message: response.message || 'Database connection deleted successfully',
+      },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: {
+        code: 'DELETE_DATABASE_FAILED',
+        message: error.message || 'Failed to delete database connection',
+      },
+    };
+  }
+};
+
+export interface DatabaseDependencies {
+  charts: Array<{ id: string; name: string }>;
+  dashboards: Array<{ id: string; name: string; chartCount: number }>;
+}
+
+/**
+ * List the charts and dashboards that query a database connection.
+ * Shown before deleting a connection, since those charts stop working once it is gone.
+ */
+export const getDatabaseDependencies = async (
+  projectId: string,
+  databaseId: string
+): Promise<ApiResponse<DatabaseDependencies>> => {
+  try {
+    const [chartsResponse, dashboardsResponse] = await Promise.all([
+      getCharts(projectId),
+      getDashboards(projectId),
+    ]);
+
+    if (!chartsResponse.success || !dashboardsResponse.success) {
+      throw new Error(
+        chartsResponse.error?.message || dashboardsResponse.error?.message || 'Failed to load charts and dashboards'
+      );
+    }
+
+    const charts = new Map<string, string>();
+    (chartsResponse.data || [])
+      .filter((chart) => chart.databaseId === databaseId)
+      .forEach((chart) => charts.set(chart.id, chart.name));
+
+    const dashboards: DatabaseDependencies['dashboards'] = [];
+    const dashboardCharts = await Promise.all(
+      (dashboardsResponse.data || []).map(async (dashboard) => ({
+        dashboard,
+        response: await getDashboardCharts(dashboard.id),
+      }))
+    );
+
+    dashboardCharts.forEach(({ dashboard, response }) => {
+      if (!response.success) {
+        throw new Error(response.error?.message || `Failed to load charts for dashboard "${dashboard.name}"`);
+      }
+      const affected = (response.data || []).filter((chart) => chart.connection_id === databaseId);
+      if (affected.length > 0) {
+        affected.forEach((chart) => charts.set(chart.id, chart.title));
+        dashboards.push({ id: dashboard.id, name: dashboard.name, chartCount: affected.length });
+      }
+    });
+
+    return {
+      success: true,
+      data: {
+        charts: Array.from(charts, ([id, name]) => ({ id, name })),
+        dashboards,
+      },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: {
+        code: 'FETCH_DATABASE_DEPENDENCIES_FAILED',
+        message: error.message || 'Failed to check where this connection is used',
+      },
+    };
+  }
+};
+
+/**
+ * Get database schema
+ * Parses the schema JSON stored on the connection (extracted when the connection was created).
+ * Uses the session metadata cache when available to avoid refetching connections.
+ */
+export const getDatabaseSchema = async (projectId: string, databaseId: string): Promise<ApiResponse<DatabaseSchema>> => {
+  try {
+    const { loadDatabaseMetadata, storeDatabaseMetadata } = await import('../utils/databaseMetadata');
+    const { parseDatabaseSchema } = await import('../utils/databaseSchema');
+
+    let connection = loadDatabaseMetadata(projectId)?.find((db) => String(db.id) === String(databaseId));
+
+    if (!connection || !connection.schema) {
+      const response = await getDatabases(projectId);
+      if (!response.success || !response.data) {
+        throw new Error(response.error?.message || 'Failed to fetch database connections');
+      }
+      const entries = response.data.map((db) => ({
+        id: db.id,
+        name: db.name,
+        type: db.type,
+        schema: db.schema ?? null,
+      }));
+      storeDatabaseMetadata(projectId, entries);
+      connection = entries.find((db) => String(db.id) === String(databaseId));
+    }
+
+    if (!connection) {
+      return {
+        success: false,
+        error: {
+          code: 'DATABASE_NOT_FOUND',
+          message: 'Database connection not found',
+        },
+      };
+    }
+
+    return {
+      success: true,
+      data: parseDatabaseSchema(connection.schema),
+    };
   } catch (error: any) {
     return {
       success: false,
@@ -1856,6 +3168,31 @@ export const getDatabaseSchema = async (databaseId: string): Promise<ApiResponse
   }
 };
 
+/**
+ * Get the first rows of a table (defaults to 20) for previewing its contents
+ */
+export const getTableSampleRows = async (
+  databaseId: string,
+  table: { name: string; schema?: string },
+  dbType: string,
+  limit: number = 20
+): Promise<ApiResponse<ChartData>> => {
+  const { buildSampleRowsQuery, getQualifiedTableName } = await import('../utils/databaseSchema');
+  const query = buildSampleRowsQuery(table, dbType, limit);
+  const response = await getChartData(`table-sample:${getQualifiedTableName(table)}`, databaseId, query);
+
+  if (!response.success) {
+    return {
+      success: false,
+      error: {
+        code: 'FETCH_TABLE_SAMPLE_FAILED',
+        message: response.error?.message || 'Failed to fetch sample rows',
+      },
+    };
+  }
+  return response;
+};
+
 // ============================================================================
 // AI / INSIGHTS
 // ============================================================================
@@ -2280,7 +3617,7 @@ export const createDashboardFromPrompt = async (prompt: string, databaseId: stri
         charts: chartsResponse.data.generated_charts.map((chart) => ({
           id: chart.id,
           name: chart.title,
-          type: mapChartType(chart.chart_type),
+          type: normalizeChartType(chart.chart_type),
           projectId,
           databaseId,
           query: chart.query,
@@ -2706,6 +4043,7 @@ const api = {
   login,
   register,
   logout,
+  refreshSession,
   
   // Projects
   getProjects,
@@ -2718,6 +4056,11 @@ const api = {
   getDashboards,
   createDashboard,
   deleteDashboard,
+  getDashboardLayout,
+  updateDashboardLayout,
+  getDashboardWidgets,
+  updateDashboardWidgets,
+  createDashboardFromTemplate,
   getDashboardCharts,
   getFavorites,
   
@@ -2725,19 +4068,36 @@ const api = {
   getCharts,
   filterCharts,
   createChart,
+  updateChart,
   addChartToDashboard,
   getChartData,
+  explainQuery,
   generateCharts,
   getFavoriteCharts,
   updateFavoriteChart,
   deleteChart,
+  getChartAnnotations,
+  updateChartAnnotations,
+  getChartVersions,
+  getChartParameters,
+  updateChartParameters,
+  getChartParameterOptions,
   getUserDashboardCharts,
   
+  // Queries
+  getQueryHistory,
+  getSavedQueries,
+  updateSavedQueries,
+  
   // Databases
   getDatabases,
   createDatabase,
   testDatabaseConnection,
+  updateDatabase,
+  deleteDatabase,
+  getDatabaseDependencies,
   getDatabaseSchema,
+  getTableSampleRows,
   
   // AI/Insights
   naturalLanguageQuery,
@@ -6,6 +6,7 @@
  * - kpi_info: Collect KPIs
  * - dashboard_creation: Create dashboard with conversational flow
  * - chart_creation: Generate chart specifications
+ * - chart_edit: Modify an existing chart from a natural language instruction
  */
 
 // WebSocket URL - convert HTTPS to WSS
@@ -445,4 +446,34 @@ export class VizAIWebSocket {
       payload: formattedPayload,
     });
   }
+
+  /**
+   * 6. Chart Edit - Modify an existing chart from a natural language instruction
+   * 
+   * Responds with the modified spec in `state.chart_spec` once completed, or asks a
+   * clarifying question (status 'collecting') that is answered via `user_response`.
+   * 
+   * @param payload - The current chart definition and the requested change
+   *   - Initial: chart fields + { instruction }
+   *   - Follow-up: chart fields + { user_response, existing_state }
+   */
+  chartEdit(payload: {
+    chart_id: string;
+    title: string;
+    query: string;
+    chart_type: string;
+    data_connection_id: string;
+    x_axis?: string | null;
+    y_axis?: string | null;
+    is_time_based?: boolean;
+    instruction?: string;
+    user_response?: string;
+    existing_state?: Record<string, any>;
+  }): void {
+    this.send({
+      event_type: 'chart_edit',
+      user_id: this.userId,
+      payload,
+    });
+  }
 }
@@ -1,10 +1,11 @@
 import { create } from 'zustand';
 import type { ChartSpec } from '../services/websocket';
+import type { ChartType } from '../utils/chartTypes';
 
 export interface ChartSuggestion {
   id: string;
   name: string;
-  type: 'line' | 'bar' | 'pie' | 'area';
+  type: ChartType;
   description: string;
   query: string;
   reasoning: string;
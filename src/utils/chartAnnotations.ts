@@ -0,0 +1,87 @@
+/**
+ * Chart Annotations Utility
+ *
+ * Helpers for chart annotations: events marked at an x-axis value or date and
+ * horizontal reference lines (targets, thresholds). Annotations are drawn on
+ * line, area, bar and combo charts, and each chart's annotations are mirrored
+ * in localStorage.
+ */
+
+import type { ChartAnnotation, ChartAnnotationType } from '../services/api';
+import type { ChartType } from './chartTypes';
+import { readStoredJson, writeStoredJson } from './storage';
+
+const ANNOTATED_CHART_TYPES: ChartType[] = ['line', 'area', 'bar', 'grouped_bar', 'stacked_bar', 'horizontal_bar', 'combo'];
+
+const STORAGE_PREFIX = 'vizai_chart_annotations_';
+
+export const EVENT_ANNOTATION_COLOR = '#F59E0B';
+export const REFERENCE_LINE_COLOR = '#EF4444';
+
+export const supportsAnnotations = (type: ChartType): boolean => ANNOTATED_CHART_TYPES.includes(type);
+
+export const createAnnotation = (
+  type: ChartAnnotationType,
+  fields: Pick<ChartAnnotation, 'label' | 'x' | 'y'>
+): ChartAnnotation => ({
+  id: `annotation_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`,
+  type,
+  ...fields,
+});
+
+const parseDate = (value: unknown): number | null => {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}/.test(value)) return null;
+  const time = new Date(value).getTime();
+  return isNaN(time) ? null : time;
+};
+
+/**
+ * Where an event annotation sits on the x-axis: a timestamp on time-scale axes,
+ * otherwise the matching category. A date that isn't a category snaps to the
+ * nearest date category; events outside the plotted range are not drawn.
+ */
+export const resolveEventPosition = (
+  annotation: ChartAnnotation,
+  data: any[],
+  xAxisKey: string,
+  isTimeScale: boolean = false
+): string | number | undefined => {
+  const x = annotation.x?.trim();
+  if (!x) return undefined;
+
+  if (isTimeScale) {
+    return parseDate(x) ?? undefined;
+  }
+
+  const exact = data.find((row) => String(row?.[xAxisKey] ?? '') === x);
+  if (exact) return exact[xAxisKey];
+
+  const time = parseDate(x);
+  if (time === null) return undefined;
+
+  const dated = data
+    .map((row) => ({ value: row?.[xAxisKey], time: parseDate(row?.[xAxisKey]) }))
+    .filter((point): point is { value: any; time: number } => point.time !== null);
+  if (dated.length === 0) return undefined;
+
+  const times = dated.map((point) => point.time);
+  if (time < Math.min(...times) || time > Math.max(...times)) return undefined;
+
+  return dated.reduce((nearest, point) =>
+    Math.abs(point.time - time) < Math.abs(nearest.time - time) ? point : nearest
+  ).value;
+};
+
+/** Label for the annotation list, e.g. "Outage · 2024-03-15" or "Target · 5,000" */
+export const describeAnnotation = (annotation: ChartAnnotation): string => {
+  const position = annotation.type === 'event' ? annotation.x : annotation.y?.toLocaleString();
+  return [annotation.label, position].filter(Boolean).join(' · ');
+};
+
+export const loadStoredAnnotations = (chartId: string): ChartAnnotation[] | null =>
+  chartId ? readStoredJson<ChartAnnotation[]>(`${STORAGE_PREFIX}${chartId}`, 'chart annotations', Array.isArray) : null;
+
+export const storeAnnotations = (chartId: string, annotations: ChartAnnotation[]): void => {
+  if (chartId) writeStoredJson(`${STORAGE_PREFIX}${chartId}`, annotations, 'chart annotations');
+};
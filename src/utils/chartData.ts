@@ -1,3 +1,5 @@
+import { isBarChartType, isRawDataChartType, isSeriesChartType, type ChartType } from "./chartTypes";
+
 export interface ChartDataConfig {
   data: any[];
   dataKeys: {
@@ -5,6 +7,16 @@ export interface ChartDataConfig {
     secondary?: string;
   };
   xAxisKey: string;
+  /**
+   * Columns of the query result behind the plotted data, for drilling into it.
+   * Set when the rows were pivoted (series are values of `seriesColumn`) or the
+   * x-axis was renamed; otherwise `xAxisKey` is itself a result column.
+   */
+  source?: {
+    xColumn: string;
+    seriesColumn?: string;
+    valueColumn?: string;
+  };
 }
 
 export const getDefaultChartDataConfig = (): ChartDataConfig => ({
@@ -15,7 +27,7 @@ export const getDefaultChartDataConfig = (): ChartDataConfig => ({
 
 export const inferChartDataConfig = (
   rawData: any[] | undefined,
-  chartType: "line" | "bar" | "pie" | "area"
+  chartType: ChartType
 ): ChartDataConfig => {
   if (!rawData || rawData.length === 0) {
     return getDefaultChartDataConfig();
@@ -46,6 +58,16 @@ export const inferChartDataConfig = (
         sample[key] !== undefined)
   );
 
+  // Tables and heatmaps render every column, so skip pivoting/reshaping
+  if (isRawDataChartType(chartType)) {
+    const valueKey = numericKeys[0] || keys[0];
+    return {
+      data: normalizedRows,
+      dataKeys: { primary: valueKey },
+      xAxisKey: keys.find((key) => key !== valueKey) || valueKey,
+    };
+  }
+
   // Detect if we have a categorical grouping column (for multi-series charts)
   // This happens when we have: x-axis, category, value columns
   const stringKeys = keys.filter(
@@ -59,7 +81,7 @@ export const inferChartDataConfig = (
   let valueColumn: string | null = null;
   let xAxisColumn: string | null = null;
 
-  if (hasGroupingColumn && (chartType === "line" || chartType === "area" || chartType === "bar")) {
+  if (hasGroupingColumn && isSeriesChartType(chartType)) {
     // Find the x-axis column (usually date/time related or first string column)
     xAxisColumn = stringKeys.find(key => {
       const val = sample[key];
@@ -154,6 +176,21 @@ export const inferChartDataConfig = (
         ...(secondaryKey ? { secondary: secondaryKey } : {}),
       },
       xAxisKey: xAxisColumn,
+      source: { xColumn: xAxisColumn, seriesColumn: groupingColumn, valueColumn },
+    };
+  }
+
+  // Scatter plots need two numeric axes; remaining columns drive point size/color in ChartCard
+  if (chartType === "scatter" && numericKeys.length >= 2) {
+    const [xKey, yKey] = numericKeys;
+    return {
+      data: normalizedRows.map((row) => ({
+        ...row,
+        [xKey]: Number(row[xKey]) || 0,
+        [yKey]: Number(row[yKey]) || 0,
+      })),
+      dataKeys: { primary: yKey },
+      xAxisKey: xKey,
     };
   }
 
@@ -173,7 +210,7 @@ export const inferChartDataConfig = (
   // Handle case where there are NO numeric columns at all
   // This happens when backend sends label/value but value is a string
   // We'll aggregate by counting occurrences of each category
-  if (numericKeys.length === 0 && chartType === 'bar') {
+  if (numericKeys.length === 0 && isBarChartType(chartType)) {
     console.log('[chartData] No numeric columns found for bar chart, aggregating...');
     console.log('[chartData] String keys:', stringKeys);
     console.log('[chartData] Sample data:', sample);
@@ -208,6 +245,7 @@ export const inferChartDataConfig = (
         data: aggregatedData,
         dataKeys: { primary: 'value' },
         xAxisKey: 'name',
+        source: { xColumn: categoryKey },
       };
     }
   }
@@ -233,7 +271,7 @@ export const inferChartDataConfig = (
     return coercedRow;
   });
 
-  if (chartType === "pie") {
+  if (chartType === "pie" || chartType === "donut" || chartType === "funnel") {
     const nameKey = potentialXAxisKey === "index" ? "label" : potentialXAxisKey;
     return {
       data: data.map((row, index) => ({
@@ -242,12 +280,13 @@ export const inferChartDataConfig = (
       })),
       dataKeys: { primary: "value" },
       xAxisKey: "name",
+      source: { xColumn: nameKey, valueColumn: primaryKey },
     };
   }
 
-  // Sort data by x-axis key for line and area charts to ensure proper connections
+  // Sort data by x-axis key for line/area/combo charts (and KPI deltas) to ensure proper ordering
   let sortedData = data;
-  if (chartType === "line" || chartType === "area") {
+  if (chartType === "line" || chartType === "area" || chartType === "combo" || chartType === "kpi") {
     sortedData = [...data].sort((a, b) => {
       const aVal = a[potentialXAxisKey];
       const bVal = b[potentialXAxisKey];
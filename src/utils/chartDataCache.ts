@@ -5,12 +5,13 @@
  * Uses both in-memory cache (for fast access) and localStorage (for persistence).
  */
 
-import { ChartData } from '../services/api';
+import type { ChartData, ChartParameterValues } from '../services/api';
 
 interface CachedChartData {
   data: ChartData;
   timestamp: number;
   ttl: number; // Time to live in milliseconds
+  datasourceConnectionId?: string; // Lets us drop every entry for a connection at once
 }
 
 // In-memory cache for fast access
@@ -29,7 +30,8 @@ function generateCacheKey(
   datasourceConnectionId: string,
   query: string,
   fromDate?: string,
-  toDate?: string
+  toDate?: string,
+  parameterValues?: ChartParameterValues
 ): string {
   // Normalize query by removing extra whitespace
   const normalizedQuery = query.trim().replace(/\s+/g, ' ');
@@ -42,6 +44,16 @@ function generateCacheKey(
     fromDate || '',
     toDate || ''
   ];
+
+  // Each combination of query parameter values is cached separately
+  if (parameterValues && Object.keys(parameterValues).length > 0) {
+    keyParts.push(
+      Object.keys(parameterValues)
+        .sort()
+        .map((name) => `${name}=${encodeURIComponent(parameterValues[name] ?? '')}`)
+        .join('&')
+    );
+  }
   
   // Simple hash function for the key
   const keyString = keyParts.join('|');
@@ -56,6 +68,23 @@ function isCacheValid(cached: CachedChartData): boolean {
   return (now - cached.timestamp) < cached.ttl;
 }
 
+/**
+ * Data served from this cache is as old as the entry, so report that as
+ * `cachedAt` when the backend didn't provide its own timestamp
+ */
+function withCachedAt(cached: CachedChartData): ChartData {
+  if (cached.data.metadata?.cachedAt) {
+    return cached.data;
+  }
+  return {
+    ...cached.data,
+    metadata: {
+      ...cached.data.metadata,
+      cachedAt: new Date(cached.timestamp).toISOString(),
+    },
+  };
+}
+
 /**
  * Get cached chart data
  */
@@ -64,14 +93,15 @@ export function getCachedChartData(
   datasourceConnectionId: string,
   query: string,
   fromDate?: string,
-  toDate?: string
+  toDate?: string,
+  parameterValues?: ChartParameterValues
 ): ChartData | null {
-  const cacheKey = generateCacheKey(chartId, datasourceConnectionId, query, fromDate, toDate);
+  const cacheKey = generateCacheKey(chartId, datasourceConnectionId, query, fromDate, toDate, parameterValues);
   
   // Check in-memory cache first
   const memoryCached = memoryCache.get(cacheKey);
   if (memoryCached && isCacheValid(memoryCached)) {
-    return memoryCached.data;
+    return withCachedAt(memoryCached);
   }
   
   // Check localStorage
@@ -82,7 +112,7 @@ export function getCachedChartData(
       if (isCacheValid(cached)) {
         // Update memory cache
         memoryCache.set(cacheKey, cached);
-        return cached.data;
+        return withCachedAt(cached);
       } else {
         // Remove expired cache
         localStorage.removeItem(cacheKey);
@@ -105,14 +135,16 @@ export function setCachedChartData(
   data: ChartData,
   ttl: number = DEFAULT_TTL,
   fromDate?: string,
-  toDate?: string
+  toDate?: string,
+  parameterValues?: ChartParameterValues
 ): void {
-  const cacheKey = generateCacheKey(chartId, datasourceConnectionId, query, fromDate, toDate);
+  const cacheKey = generateCacheKey(chartId, datasourceConnectionId, query, fromDate, toDate, parameterValues);
   
   const cached: CachedChartData = {
     data,
     timestamp: Date.now(),
-    ttl
+    ttl,
+    datasourceConnectionId
   };
   
   // Store in memory cache
@@ -226,9 +258,10 @@ export function clearChartCache(
   datasourceConnectionId: string,
   query: string,
   fromDate?: string,
-  toDate?: string
+  toDate?: string,
+  parameterValues?: ChartParameterValues
 ): void {
-  const cacheKey = generateCacheKey(chartId, datasourceConnectionId, query, fromDate, toDate);
+  const cacheKey = generateCacheKey(chartId, datasourceConnectionId, query, fromDate, toDate, parameterValues);
   memoryCache.delete(cacheKey);
   try {
     localStorage.removeItem(cacheKey);
@@ -237,6 +270,39 @@ export function clearChartCache(
   }
 }
 
+/**
+ * Clear cached results for every chart that queries a given connection.
+ * Used when a connection is edited or deleted, since its cached data may no longer be valid.
+ */
+export function clearConnectionChartCache(datasourceConnectionId: string): void {
+  memoryCache.forEach((cached, key) => {
+    if (cached.datasourceConnectionId === datasourceConnectionId) {
+      memoryCache.delete(key);
+    }
+  });
+  try {
+    const keysToRemove: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key && key.startsWith(CACHE_PREFIX)) {
+        try {
+          const stored = localStorage.getItem(key);
+          const cached: CachedChartData | null = stored ? JSON.parse(stored) : null;
+          // Entries written before the connection id was recorded can't be attributed, so drop them too
+          if (!cached || !cached.datasourceConnectionId || cached.datasourceConnectionId === datasourceConnectionId) {
+            keysToRemove.push(key);
+          }
+        } catch {
+          keysToRemove.push(key);
+        }
+      }
+    }
+    keysToRemove.forEach(key => localStorage.removeItem(key));
+  } catch (error) {
+    console.warn('Error clearing connection cache:', error);
+  }
+}
+
 /**
  * Clear all chart caches
  */
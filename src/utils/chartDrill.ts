@@ -0,0 +1,328 @@
+/**
+ * Chart Drill-down Utility
+ *
+ * Turns a clicked chart point into a drill target (the result columns and
+ * values it stands for) and generates SQL for it:
+ *   - the drill query returns the rows behind the point. For a simple
+ *     `SELECT ... GROUP BY` query the grouping is undone and the point's
+ *     x-axis/series expressions become filters on the source tables; any other
+ *     query is wrapped and its result rows filtered.
+ *   - a pivot query groups the drill rows by another column to build a child chart.
+ */
+
+import type { ChartDataConfig } from './chartData';
+import { quoteIdentifier, toSqlLiteral, usesBackslashEscapes } from './databaseSchema';
+
+/** A chart point as reported by ChartCard */
+export interface ChartPointSelection {
+  /** Row of the plotted data that was clicked */
+  row: Record<string, any>;
+  /** Value on the x-axis (or the slice name) */
+  xValue: unknown;
+  /** Data key of the clicked series, when it can be told apart */
+  seriesKey?: string;
+}
+
+export interface DrillFilter {
+  column: string;
+  value: unknown;
+}
+
+export interface ChartDrillTarget {
+  /** Result-column filters identifying the point: x-axis value, then series */
+  filters: DrillFilter[];
+  /** Measure column that was clicked (not a filter), when known */
+  valueColumn?: string;
+}
+
+export interface DrillQuery {
+  sql: string;
+  /** True when the query reads the source tables (grouping undone) rather than the chart result */
+  isDetail: boolean;
+}
+
+export type PivotAggregate = 'count' | 'sum' | 'avg';
+
+export const DRILL_ROW_LIMIT = 500;
+
+const AGGREGATE_PATTERN = /\b(count|sum|avg|min|max|string_agg|array_agg|group_concat|listagg)\s*\(/i;
+
+/**
+ * Work out which result columns a clicked point filters on. Returns null when
+ * the point can't be traced back to the result (e.g. a synthetic index axis).
+ */
+export const resolveDrillTarget = (
+  config: Pick<ChartDataConfig, 'xAxisKey' | 'dataKeys' | 'source'>,
+  point: ChartPointSelection,
+  resultColumns: string[]
+): ChartDrillTarget | null => {
+  const columns = new Set(resultColumns);
+  const xColumn = config.source?.xColumn ?? config.xAxisKey;
+  if (!columns.has(xColumn) || point.xValue === undefined) {
+    return null;
+  }
+
+  const filters: DrillFilter[] = [{ column: xColumn, value: point.xValue }];
+  const seriesColumn = config.source?.seriesColumn;
+
+  // Pivoted charts plot one series per value of the grouping column
+  if (seriesColumn && point.seriesKey && columns.has(seriesColumn)) {
+    filters.push({ column: seriesColumn, value: point.seriesKey });
+    return { filters, valueColumn: config.source?.valueColumn };
+  }
+
+  const valueColumn = point.seriesKey && columns.has(point.seriesKey)
+    ? point.seriesKey
+    : config.source?.valueColumn ?? (columns.has(config.dataKeys.primary) ? config.dataKeys.primary : undefined);
+  return { filters, valueColumn };
+};
+
+const isSameValue = (a: unknown, b: unknown): boolean =>
+  a === b || (a !== null && a !== undefined && b !== null && b !== undefined && String(a) === String(b));
+
+/** Chart result rows matching the drill target (used when the drill query can't run) */
+export const filterDrillRows = (rows: any[], target: ChartDrillTarget): any[] =>
+  rows.filter((row) => target.filters.every((filter) => isSameValue(row?.[filter.column], filter.value)));
+
+/** Label for a drill target, e.g. "month = 2024-03 · status = paid" */
+export const describeDrillTarget = (target: ChartDrillTarget): string =>
+  target.filters.map((filter) => `${filter.column} = ${filter.value === null ? 'null' : String(filter.value)}`).join(' · ');
+
+/** Null when the value can't be written as a literal for the dialect */
+const toCondition = (expression: string, value: unknown, dbType: string): string | null => {
+  if (value === null || value === undefined) return `${expression} IS NULL`;
+  const literal = toSqlLiteral(value, dbType);
+  return literal === null ? null : `${expression} = ${literal}`;
+};
+
+const withRowLimit = (sql: string, dbType: string, limit: number): string =>
+  dbType.includes('oracle') ? `${sql}\nFETCH FIRST ${limit} ROWS ONLY` : `${sql}\nLIMIT ${limit}`;
+
+const stripTrailingSemicolon = (sql: string): string => sql.trim().replace(/;+\s*$/, '');
+
+/**
+ * Index just past the string, quoted identifier or comment starting at
+ * `index`, or `index` itself when none starts there
+ */
+const skipQuotedOrComment = (sql: string, index: number, backslashEscapes: boolean): number => {
+  const char = sql[index];
+  if (char === '-' && sql[index + 1] === '-') {
+    const end = sql.indexOf('\n', index);
+    return end === -1 ? sql.length : end;
+  }
+  if (char === '/' && sql[index + 1] === '*') {
+    const end = sql.indexOf('*/', index + 2);
+    return end === -1 ? sql.length : end + 2;
+  }
+  if (char === "'" || char === '"' || char === '`') {
+    // A doubled quote closes and reopens, which skips the same text
+    for (let i = index + 1; i < sql.length; i++) {
+      if (backslashEscapes && char !== '`' && sql[i] === '\\') i++;
+      else if (sql[i] === char) return i + 1;
+    }
+    return sql.length;
+  }
+  return index;
+};
+
+/** The query with comments replaced by a space, so clause bodies can be moved around */
+const stripComments = (sql: string, backslashEscapes: boolean): string => {
+  let result = '';
+  for (let i = 0; i < sql.length; i++) {
+    const end = skipQuotedOrComment(sql, i, backslashEscapes);
+    if (end === i) {
+      result += sql[i];
+      continue;
+    }
+    result += sql[i] === '-' || sql[i] === '/' ? ' ' : sql.slice(i, end);
+    i = end - 1;
+  }
+  return result;
+};
+
+interface TopLevelClauses {
+  select: string;
+  from: string;
+  where?: string;
+  groupBy: string;
+}
+
+// Clause keywords that can follow SELECT at the top level of a query
+const CLAUSE_PATTERN = /^(select|from|where|group\s+by|having|order\s+by|limit|offset|fetch|union|intersect|except|window|qualify)\b/i;
+
+/**
+ * Split a single SELECT statement into its top-level clauses. Returns null for
+ * anything the drill-down can't safely rewrite (CTEs, set operations, HAVING,
+ * DISTINCT, no GROUP BY).
+ */
+const parseGroupedSelect = (sql: string, backslashEscapes: boolean): TopLevelClauses | null => {
+  const clauses: Array<{ keyword: string; start: number; bodyStart: number }> = [];
+  let depth = 0;
+
+  for (let i = 0; i < sql.length; i++) {
+    const end = skipQuotedOrComment(sql, i, backslashEscapes);
+    if (end !== i) {
+      i = end - 1;
+      continue;
+    }
+
+    const char = sql[i];
+    if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    } else if (depth === 0 && /[a-z]/i.test(char) && (i === 0 || !/[\w$]/.test(sql[i - 1]))) {
+      const match = sql.slice(i).match(CLAUSE_PATTERN);
+      if (match) {
+        clauses.push({ keyword: match[1].toLowerCase().replace(/\s+/g, ' '), start: i, bodyStart: i + match[0].length });
+        i += match[0].length - 1;
+      }
+    }
+  }
+
+  const keywords = clauses.map((clause) => clause.keyword);
+  if (
+    keywords[0] !== 'select' ||
+    keywords.filter((keyword) => keyword === 'select').length > 1 ||
+    !keywords.includes('group by') ||
+    keywords.some((keyword) => ['having', 'union', 'intersect', 'except', 'window', 'qualify'].includes(keyword))
+  ) {
+    return null;
+  }
+
+  const body = (keyword: string): string | undefined => {
+    const index = clauses.findIndex((clause) => clause.keyword === keyword);
+    if (index === -1) return undefined;
+    const end = clauses[index + 1]?.start ?? sql.length;
+    return sql.slice(clauses[index].bodyStart, end).trim();
+  };
+
+  const select = body('select')!;
+  const from = body('from');
+  if (!from || /^distinct\b/i.test(select)) return null;
+
+  return { select, from, where: body('where'), groupBy: body('group by')! };
+};
+
+/** Split on top-level commas */
+const splitList = (list: string, backslashEscapes: boolean): string[] => {
+  const items: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (let i = 0; i < list.length; i++) {
+    const end = skipQuotedOrComment(list, i, backslashEscapes);
+    if (end !== i) {
+      current += list.slice(i, end);
+      i = end - 1;
+      continue;
+    }
+
+    const char = list[i];
+    if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      items.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  if (current.trim()) items.push(current.trim());
+  return items;
+};
+
+const unquote = (identifier: string): string => identifier.replace(/^["`[]|["`\]]$/g, '');
+
+const IDENTIFIER = '("[^"]+"|`[^`]+`|\\[[^\\]]+\\]|[A-Za-z_][\\w$]*)';
+const EXPLICIT_ALIAS_PATTERN = new RegExp(`^([\\s\\S]+?)\\s+as\\s+${IDENTIFIER}$`, 'i');
+const IMPLICIT_ALIAS_PATTERN = new RegExp(`^([\\s\\S]*[)\\w"\`\\]])\\s+${IDENTIFIER}$`);
+const COLUMN_REFERENCE_PATTERN = /^[\w$."`[\]]+$/;
+
+/** Output column name → expression for each SELECT item */
+const mapSelectExpressions = (select: string, backslashEscapes: boolean): Map<string, string> => {
+  const expressions = new Map<string, string>();
+  splitList(select, backslashEscapes).forEach((item) => {
+    const alias = item.match(EXPLICIT_ALIAS_PATTERN) ?? (COLUMN_REFERENCE_PATTERN.test(item) ? null : item.match(IMPLICIT_ALIAS_PATTERN));
+    if (alias) {
+      expressions.set(unquote(alias[2]).toLowerCase(), alias[1].trim());
+    } else if (COLUMN_REFERENCE_PATTERN.test(item)) {
+      // Bare column reference: the output name is its last segment
+      const segments = item.split('.');
+      expressions.set(unquote(segments[segments.length - 1]).toLowerCase(), item);
+    }
+  });
+  return expressions;
+};
+
+/**
+ * SQL returning the rows behind a drill target, or null when a clicked value
+ * can't be written as a literal for the dialect
+ */
+export const buildDrillQuery = (
+  query: string,
+  target: ChartDrillTarget,
+  dbType: string = 'postgres',
+  limit: number = DRILL_ROW_LIMIT
+): DrillQuery | null => {
+  const type = dbType.toLowerCase();
+  const backslashEscapes = usesBackslashEscapes(type) === true;
+  const sql = stripTrailingSemicolon(stripComments(query, backslashEscapes));
+  const grouped = parseGroupedSelect(sql, backslashEscapes);
+
+  if (grouped) {
+    const expressions = mapSelectExpressions(grouped.select, backslashEscapes);
+    const conditions = target.filters.map((filter) => {
+      const expression = expressions.get(filter.column.toLowerCase());
+      return expression && !AGGREGATE_PATTERN.test(expression) ? toCondition(expression, filter.value, type) : null;
+    });
+
+    if (conditions.every(Boolean)) {
+      const where = [grouped.where ? `(${grouped.where})` : null, ...conditions].filter(Boolean).join('\n  AND ');
+      return {
+        sql: withRowLimit(`SELECT *\nFROM ${grouped.from}\nWHERE ${where}`, type, limit),
+        isDetail: true,
+      };
+    }
+  }
+
+  const conditions = target.filters.map((filter) =>
+    toCondition(`drill_source.${quoteIdentifier(filter.column, type)}`, filter.value, type)
+  );
+  if (!conditions.every(Boolean)) return null;
+
+  const where = conditions.join('\n  AND ');
+  return {
+    sql: withRowLimit(`SELECT *\nFROM (\n${sql}\n) drill_source\nWHERE ${where}`, type, limit),
+    isDetail: false,
+  };
+};
+
+/**
+ * SQL grouping the drill rows by `dimension` — the query behind a child chart
+ */
+export const buildPivotQuery = (
+  drillQuery: DrillQuery,
+  dimension: string,
+  aggregate: PivotAggregate,
+  measure: string | null,
+  dbType: string = 'postgres'
+): string => {
+  const type = dbType.toLowerCase();
+  // The child chart covers every matching row, not just the previewed page
+  const source = drillQuery.sql.replace(/\s+(LIMIT \d+|FETCH FIRST \d+ ROWS ONLY)$/, '');
+  const dimensionColumn = quoteIdentifier(dimension, type);
+  const valueExpression = aggregate === 'count' || !measure
+    ? 'COUNT(*)'
+    : `${aggregate.toUpperCase()}(drill_rows.${quoteIdentifier(measure, type)})`;
+  const valueAlias = aggregate === 'count' || !measure ? 'row_count' : `${aggregate}_${measure}`;
+
+  return [
+    `SELECT drill_rows.${dimensionColumn} AS ${dimensionColumn}, ${valueExpression} AS ${quoteIdentifier(valueAlias, type)}`,
+    `FROM (\n${source}\n) drill_rows`,
+    `GROUP BY drill_rows.${dimensionColumn}`,
+    `ORDER BY 2 DESC`,
+  ].join('\n');
+};
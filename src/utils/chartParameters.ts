@@ -0,0 +1,132 @@
+/**
+ * Chart Parameters Utility
+ *
+ * Chart SQL can reference typed variables as `{{name}}` (or `'{{name}}'`).
+ * Each chart declares its variables: a type, a default value and, for enums,
+ * the allowed values or a lookup query listing them. Variables used in the SQL
+ * but not declared are treated as text. Values are bound into the query as
+ * SQL literals for the connection's dialect before it runs; a variable inside
+ * a string or comment is an error rather than being spliced into it. Each
+ * chart's declarations are mirrored in localStorage.
+ */
+
+import type { ChartParameter, ChartParameterType, ChartParameterValues } from '../services/api';
+import { toSqlLiteral } from './databaseSchema';
+import { getSqlQuotedRanges } from './sqlLint';
+import { readStoredJson, writeStoredJson } from './storage';
+
+const STORAGE_PREFIX = 'vizai_chart_parameters_';
+
+// A quoted placeholder is replaced together with its quotes
+const PLACEHOLDER_PATTERN = /'\{\{\s*([A-Za-z_]\w*)\s*\}\}'|\{\{\s*([A-Za-z_]\w*)\s*\}\}/g;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const CHART_PARAMETER_TYPES: ChartParameterType[] = ['string', 'number', 'date', 'enum'];
+
+export const PARAMETER_TYPE_LABELS: Record<ChartParameterType, string> = {
+  string: 'Text',
+  number: 'Number',
+  date: 'Date',
+  enum: 'List',
+};
+
+/** Names of the variables a query uses, in order of first use */
+export const extractParameterNames = (sql: string): string[] => {
+  const names: string[] = [];
+  for (const match of (sql || '').matchAll(PLACEHOLDER_PATTERN)) {
+    const name = match[1] ?? match[2];
+    if (!names.includes(name)) names.push(name);
+  }
+  return names;
+};
+
+export const hasQueryParameters = (sql: string): boolean => extractParameterNames(sql).length > 0;
+
+/** Declarations for the variables a query uses; undeclared ones are text without a default */
+export const resolveChartParameters = (sql: string, declared: ChartParameter[] = []): ChartParameter[] =>
+  extractParameterNames(sql).map(
+    (name) => declared.find((parameter) => parameter.name === name) ?? { name, type: 'string', defaultValue: null }
+  );
+
+export const getDefaultParameterValues = (parameters: ChartParameter[]): ChartParameterValues =>
+  Object.fromEntries(parameters.map((parameter) => [parameter.name, parameter.defaultValue ?? null]));
+
+/** Whether a value can be bound for the parameter's type; empty values bind as NULL */
+export const isValidParameterValue = (parameter: ChartParameter, value: string | null | undefined): boolean => {
+  if (value === null || value === undefined || value === '') return true;
+  if (parameter.type === 'number') return Number.isFinite(Number(value));
+  if (parameter.type === 'date') return DATE_PATTERN.test(value) && !isNaN(new Date(value).getTime());
+  return true;
+};
+
+const toParameterLiteral = (
+  name: string,
+  parameter: ChartParameter | undefined,
+  value: string | null | undefined,
+  dbType: string | null | undefined
+): string => {
+  if (value === null || value === undefined || value === '') return 'NULL';
+  if (parameter && !isValidParameterValue(parameter, value)) return 'NULL';
+  if (parameter?.type === 'number') {
+    // Negative numbers are parenthesized so `10-{{n}}` can't become a `--` comment;
+    // others stay bare because MySQL only accepts a literal after LIMIT
+    const number = Number(value);
+    return number < 0 ? `(${number})` : String(number);
+  }
+
+  const literal = toSqlLiteral(value, dbType);
+  if (literal === null) {
+    throw new Error(`The value of {{${name}}} contains characters that can't be sent safely to this database.`);
+  }
+  return literal;
+};
+
+/**
+ * Replace each `{{name}}` with its value as a SQL literal for the dialect
+ * (see `toSqlLiteral`): numbers unquoted, text, dates and enum values quoted,
+ * and empty or invalid values as NULL. Only placeholders outside strings and
+ * comments are bound (`'{{name}}'` counts as a placeholder, not a string).
+ * Throws when a placeholder sits inside a string or comment, or a value can't
+ * be written safely, e.g. text with a backslash for a connection whose dialect
+ * is unknown.
+ */
+export const bindQueryParameters = (
+  sql: string,
+  parameters: ChartParameter[],
+  values: ChartParameterValues,
+  dbType: string | null | undefined
+): string => {
+  if (!hasQueryParameters(sql)) return sql;
+
+  const readings = getSqlQuotedRanges(sql, dbType);
+  if (!readings) {
+    throw new Error("The query's strings or comments can't be read, so its variables can't be bound.");
+  }
+
+  return sql.replace(
+    PLACEHOLDER_PATTERN,
+    (match: string, quotedName: string | undefined, bareName: string | undefined, offset: number) => {
+      const name = (quotedName ?? bareName)!;
+      const end = offset + match.length;
+      const isInsideText = readings.some((ranges) =>
+        ranges.some(
+          (range) =>
+            range.start < end && offset < range.end && !(quotedName && range.start === offset && range.end === end)
+        )
+      );
+      if (isInsideText) {
+        throw new Error(
+          `{{${name}}} is inside a string or comment, so it can't be bound. Use it outside quotes, e.g. join it to the surrounding text.`
+        );
+      }
+      return toParameterLiteral(name, parameters.find((parameter) => parameter.name === name), values[name], dbType);
+    }
+  );
+};
+
+export const loadStoredParameters = (chartId: string): ChartParameter[] | null =>
+  chartId ? readStoredJson<ChartParameter[]>(`${STORAGE_PREFIX}${chartId}`, 'chart parameters', Array.isArray) : null;
+
+export const storeParameters = (chartId: string, parameters: ChartParameter[]): void => {
+  if (chartId) writeStoredJson(`${STORAGE_PREFIX}${chartId}`, parameters, 'chart parameters');
+};
@@ -0,0 +1,121 @@
+/**
+ * Chart types supported by ChartCard and persisted through the chart APIs
+ * (stored as the chart's `chart_type`, so dashboards render the same visualization)
+ */
+export type ChartType =
+  | 'line'
+  | 'bar'
+  | 'pie'
+  | 'area'
+  | 'scatter'
+  | 'donut'
+  | 'stacked_bar'
+  | 'grouped_bar'
+  | 'horizontal_bar'
+  | 'combo'
+  | 'kpi'
+  | 'table'
+  | 'heatmap'
+  | 'funnel';
+
+export const CHART_TYPES: readonly ChartType[] = [
+  'line',
+  'bar',
+  'stacked_bar',
+  'grouped_bar',
+  'horizontal_bar',
+  'combo',
+  'area',
+  'pie',
+  'donut',
+  'scatter',
+  'funnel',
+  'heatmap',
+  'kpi',
+  'table',
+];
+
+export const CHART_TYPE_LABELS: Record<ChartType, string> = {
+  line: 'Line',
+  bar: 'Bar',
+  stacked_bar: 'Stacked Bar',
+  grouped_bar: 'Grouped Bar',
+  horizontal_bar: 'Horizontal Bar',
+  combo: 'Line + Bar Combo',
+  area: 'Area',
+  pie: 'Pie',
+  donut: 'Donut',
+  scatter: 'Scatter',
+  funnel: 'Funnel',
+  heatmap: 'Heatmap',
+  kpi: 'KPI',
+  table: 'Table',
+};
+
+// Names the backend / LLM use for the same visualization
+const CHART_TYPE_ALIASES: Record<string, ChartType> = {
+  column: 'bar',
+  stacked: 'stacked_bar',
+  stacked_column: 'stacked_bar',
+  grouped: 'grouped_bar',
+  clustered_bar: 'grouped_bar',
+  horizontal: 'horizontal_bar',
+  bar_horizontal: 'horizontal_bar',
+  line_bar: 'combo',
+  bar_line: 'combo',
+  doughnut: 'donut',
+  ring: 'donut',
+  bubble: 'scatter',
+  point: 'scatter',
+  number: 'kpi',
+  metric: 'kpi',
+  single_value: 'kpi',
+  kpi_tile: 'kpi',
+  data_table: 'table',
+  grid: 'table',
+  calendar: 'heatmap',
+  calendar_heatmap: 'heatmap',
+};
+
+export const isChartType = (value: unknown): value is ChartType =>
+  typeof value === 'string' && (CHART_TYPES as readonly string[]).includes(value);
+
+/**
+ * Map a backend chart type (e.g. "Donut", "scatter_chart", "stacked bar") to a supported ChartType
+ */
+export const normalizeChartType = (value?: string | null, fallback: ChartType = 'line'): ChartType => {
+  if (!value) return fallback;
+
+  const normalized = value
+    .toString()
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_-]*chart$/, '')
+    .replace(/[\s-]+/g, '_');
+  if (isChartType(normalized)) return normalized;
+  if (Object.prototype.hasOwnProperty.call(CHART_TYPE_ALIASES, normalized)) return CHART_TYPE_ALIASES[normalized];
+
+  return fallback;
+};
+
+/**
+ * Pie and donut charts plot a single series by category and have no axes
+ */
+export const isRadialChartType = (type: ChartType): boolean => type === 'pie' || type === 'donut';
+
+/**
+ * Bar variants share the bar data shape (categories on one axis, one or more numeric series)
+ */
+export const isBarChartType = (type: ChartType): boolean =>
+  type === 'bar' || type === 'stacked_bar' || type === 'grouped_bar' || type === 'horizontal_bar';
+
+/**
+ * Types that plot one or more series against an x-axis and benefit from pivoting long-format rows
+ */
+export const isSeriesChartType = (type: ChartType): boolean =>
+  isBarChartType(type) || type === 'line' || type === 'area' || type === 'combo';
+
+/**
+ * Tables and heatmaps read every column of the raw result set, so rows are passed through untouched
+ */
+export const isRawDataChartType = (type: ChartType): boolean => type === 'table' || type === 'heatmap';
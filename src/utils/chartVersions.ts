@@ -0,0 +1,129 @@
+/**
+ * Chart Versions Utility
+ *
+ * Every saved change to a chart's title, SQL, type or axes is a version. The
+ * backend keeps the authoritative history; saves made from this device are
+ * also recorded in localStorage so the history panel works without it. Also
+ * provides the line diff shown between two versions of a query.
+ */
+
+import type { ChartVersion } from '../services/api';
+import { readStoredJson, writeStoredJson } from './storage';
+
+export type ChartDefinition = Pick<ChartVersion, 'name' | 'query' | 'type' | 'xAxis' | 'yAxis'>;
+
+export type ChartDefinitionField = 'name' | 'query' | 'type' | 'axes';
+
+export const CHART_FIELD_LABELS: Record<ChartDefinitionField, string> = {
+  name: 'Title',
+  query: 'SQL',
+  type: 'Type',
+  axes: 'Axes',
+};
+
+export interface DiffLine {
+  kind: 'added' | 'removed' | 'unchanged';
+  text: string;
+}
+
+const STORAGE_PREFIX = 'vizai_chart_versions_';
+const MAX_STORED_VERSIONS = 50;
+// Larger queries are diffed as a whole block rather than line by line
+const MAX_DIFF_LINES = 1000;
+
+/** Fields that differ between two definitions */
+export const getChangedFields = (previous: ChartDefinition, next: ChartDefinition): ChartDefinitionField[] => {
+  const changed: ChartDefinitionField[] = [];
+  if (previous.name !== next.name) changed.push('name');
+  if (previous.query.trim() !== next.query.trim()) changed.push('query');
+  if (previous.type !== next.type) changed.push('type');
+  if ((previous.xAxis || null) !== (next.xAxis || null) || (previous.yAxis || null) !== (next.yAxis || null)) {
+    changed.push('axes');
+  }
+  return changed;
+};
+
+export const loadStoredVersions = (chartId: string): ChartVersion[] =>
+  (chartId && readStoredJson<ChartVersion[]>(`${STORAGE_PREFIX}${chartId}`, 'chart versions', Array.isArray)) || [];
+
+/**
+ * Record a saved definition as a new version on this device. Fields missing
+ * from a partial save are carried over from the latest version; saving an
+ * unchanged definition records nothing.
+ */
+export const recordChartVersion = (
+  chartId: string,
+  definition: Partial<ChartDefinition>,
+  author?: string
+): void => {
+  if (!chartId) return;
+
+  const versions = loadStoredVersions(chartId);
+  const latest = versions[versions.length - 1];
+  const next: ChartDefinition = {
+    name: definition.name ?? latest?.name ?? '',
+    query: definition.query ?? latest?.query ?? '',
+    type: definition.type ?? latest?.type ?? 'line',
+    xAxis: definition.xAxis !== undefined ? definition.xAxis : latest?.xAxis ?? null,
+    yAxis: definition.yAxis !== undefined ? definition.yAxis : latest?.yAxis ?? null,
+  };
+  if (latest && getChangedFields(latest, next).length === 0) return;
+
+  const version: ChartVersion = {
+    ...next,
+    id: `${chartId}_v${(latest?.version ?? 0) + 1}`,
+    version: (latest?.version ?? 0) + 1,
+    author: author || null,
+    createdAt: new Date().toISOString(),
+  };
+
+  writeStoredJson(`${STORAGE_PREFIX}${chartId}`, [...versions, version].slice(-MAX_STORED_VERSIONS), 'chart versions');
+};
+
+/** Record the definition a chart had before its first tracked change */
+export const recordBaselineVersion = (chartId: string, definition: ChartDefinition): void => {
+  if (loadStoredVersions(chartId).length === 0) {
+    recordChartVersion(chartId, definition);
+  }
+};
+
+/** Line diff of two SQL texts (longest common subsequence) */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const oldLines = before.replace(/\r\n/g, '\n').split('\n');
+  const newLines = after.replace(/\r\n/g, '\n').split('\n');
+
+  if (oldLines.length > MAX_DIFF_LINES || newLines.length > MAX_DIFF_LINES) {
+    return [
+      ...oldLines.map((text) => ({ kind: 'removed' as const, text })),
+      ...newLines.map((text) => ({ kind: 'added' as const, text })),
+    ];
+  }
+
+  // lengths[i][j] = LCS length of oldLines[i..] and newLines[j..]
+  const lengths = Array.from({ length: oldLines.length + 1 }, () => new Array<number>(newLines.length + 1).fill(0));
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      lengths[i][j] = oldLines[i] === newLines[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldLines.length && j < newLines.length) {
+    if (oldLines[i] === newLines[j]) {
+      lines.push({ kind: 'unchanged', text: oldLines[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push({ kind: 'removed', text: oldLines[i++] });
+    } else {
+      lines.push({ kind: 'added', text: newLines[j++] });
+    }
+  }
+  while (i < oldLines.length) lines.push({ kind: 'removed', text: oldLines[i++] });
+  while (j < newLines.length) lines.push({ kind: 'added', text: newLines[j++] });
+  return lines;
+};
@@ -0,0 +1,70 @@
+/**
+ * Cross-filter Utility
+ *
+ * Clicking a category in one dashboard chart filters the other charts that
+ * share that column. A chart shares a column when its `x_axis`/`y_axis`
+ * metadata names it or its result has a column of that name (compared
+ * case-insensitively). The chart a filter came from is never filtered by it.
+ */
+
+import type { ChartDrillTarget } from './chartDrill';
+
+export interface CrossFilter {
+  column: string;
+  value: string;
+  sourceChartId: string;
+  sourceChartTitle: string;
+  /** The clicked point, kept so the filter can be drilled into */
+  target: ChartDrillTarget;
+}
+
+/** The parts of a dashboard chart that decide whether a cross-filter applies to it */
+export interface CrossFilterChart {
+  id: string;
+  xAxis?: string | null;
+  yAxis?: string | null;
+  rows: any[];
+}
+
+/**
+ * Add a filter, replace the value of an existing filter on the same column, or
+ * remove it when the same value is clicked again
+ */
+export const toggleCrossFilter = (filters: CrossFilter[], next: CrossFilter): CrossFilter[] => {
+  const key = next.column.toLowerCase();
+  const existing = filters.find((filter) => filter.column.toLowerCase() === key);
+  if (existing && existing.value === next.value) {
+    return filters.filter((filter) => filter !== existing);
+  }
+  return existing
+    ? filters.map((filter) => (filter === existing ? next : filter))
+    : [...filters, next];
+};
+
+const findResultColumn = (rows: any[], column: string): string | undefined => {
+  const key = column.toLowerCase();
+  const sample = rows.find((row) => row && typeof row === 'object');
+  return sample ? Object.keys(sample).find((name) => name.toLowerCase() === key) : undefined;
+};
+
+/** Whether a chart shares a column, by its axis metadata or (once loaded) its result columns */
+export const sharesColumn = (chart: CrossFilterChart, column: string): boolean =>
+  [chart.xAxis, chart.yAxis].some((axis) => axis?.toLowerCase() === column.toLowerCase()) ||
+  findResultColumn(chart.rows, column) !== undefined;
+
+/** Filters that apply to a chart (those from other charts on a column it shares) */
+export const getChartCrossFilters = (chart: CrossFilterChart, filters: CrossFilter[]): CrossFilter[] =>
+  filters.filter((filter) => filter.sourceChartId !== chart.id && sharesColumn(chart, filter.column));
+
+export const applyCrossFilters = (chart: CrossFilterChart, filters: CrossFilter[]): any[] => {
+  const active = getChartCrossFilters(chart, filters)
+    .map((filter) => ({ column: findResultColumn(chart.rows, filter.column), value: filter.value }))
+    .filter((filter): filter is { column: string; value: string } => !!filter.column);
+  if (active.length === 0) return chart.rows;
+
+  return chart.rows.filter((row) => active.every(({ column, value }) => String(row?.[column] ?? '') === value));
+};
+
+/** Summary lines for exports, e.g. "status = paid (from Orders by status)" */
+export const describeCrossFilters = (filters: CrossFilter[]): string[] =>
+  filters.map((filter) => `${filter.column} = ${filter.value} (from ${filter.sourceChartTitle})`);
@@ -0,0 +1,255 @@
+/**
+ * Dashboard Export Utility
+ *
+ * Renders charts and dashboards to PNG, SVG and PDF files from what is on
+ * screen. Elements (or their children) marked with `data-export-ignore` — hover
+ * actions, pickers — are left out of the capture.
+ *
+ * The rendering libraries are loaded on demand so they stay out of the main bundle.
+ */
+
+export const EXPORT_IGNORE_ATTRIBUTE = 'data-export-ignore';
+
+export interface DashboardExportInfo {
+  /** Dashboard title shown in the export header */
+  title: string;
+  /** Extra header lines, e.g. the filters applied */
+  details?: string[];
+  /** Defaults to now */
+  generatedAt?: Date;
+}
+
+const PIXEL_RATIO = 2;
+// Firefox can cancel a download whose object URL is revoked right after the click
+const OBJECT_URL_LIFETIME_MS = 10_000;
+const FALLBACK_BACKGROUND = '#ffffff';
+
+// Styles that must be inlined for a standalone SVG to look like it does on screen
+const SVG_STYLE_PROPERTIES = ['fill', 'stroke', 'stroke-width', 'stroke-dasharray', 'opacity', 'fill-opacity', 'font-family', 'font-size', 'font-weight'];
+
+export const toExportFilename = (title: string, fallback: string = 'export'): string =>
+  (title || fallback)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/gi, '_')
+    .replace(/^_+|_+$/g, '') || fallback;
+
+const formatGeneratedAt = (date: Date) =>
+  `Generated ${date.toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' })}`;
+
+const getBackgroundColor = (): string => {
+  const color = getComputedStyle(document.body).backgroundColor;
+  return !color || color === 'rgba(0, 0, 0, 0)' || color === 'transparent' ? FALLBACK_BACKGROUND : color;
+};
+
+const getForegroundColor = (): string => getComputedStyle(document.body).color || '#111827';
+
+const captureOptions = () => ({
+  pixelRatio: PIXEL_RATIO,
+  backgroundColor: getBackgroundColor(),
+  cacheBust: true,
+  filter: (node: HTMLElement) => !(node instanceof Element && node.hasAttribute(EXPORT_IGNORE_ATTRIBUTE)),
+});
+
+export const downloadUrl = (url: string, filename: string) => {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  downloadUrl(url, filename);
+  setTimeout(() => URL.revokeObjectURL(url), OBJECT_URL_LIFETIME_MS);
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to render image'));
+    image.src = src;
+  });
+
+const renderToPng = async (element: HTMLElement): Promise<string> => {
+  const { toPng } = await import('html-to-image');
+  return toPng(element, captureOptions());
+};
+
+/**
+ * Download a chart (or any element) as a PNG image
+ */
+export const downloadElementAsPng = async (element: HTMLElement, title: string): Promise<void> => {
+  downloadUrl(await renderToPng(element), `${toExportFilename(title, 'chart')}.png`);
+};
+
+/**
+ * Download a chart as an SVG. Recharts output is exported as a clean vector
+ * with computed styles inlined; other charts (tables, KPI tiles, heatmaps)
+ * fall back to an SVG wrapping their HTML.
+ */
+export const downloadElementAsSvg = async (element: HTMLElement, title: string): Promise<void> => {
+  const filename = `${toExportFilename(title, 'chart')}.svg`;
+  const chartSvg = element.querySelector<SVGSVGElement>('svg.recharts-surface');
+
+  if (!chartSvg) {
+    const { toSvg } = await import('html-to-image');
+    downloadUrl(await toSvg(element, captureOptions()), filename);
+    return;
+  }
+
+  const clone = chartSvg.cloneNode(true) as SVGSVGElement;
+  const sourceNodes = [chartSvg, ...Array.from(chartSvg.querySelectorAll('*'))];
+  const clonedNodes = [clone, ...Array.from(clone.querySelectorAll('*'))];
+  sourceNodes.forEach((node, index) => {
+    const computed = getComputedStyle(node);
+    const target = clonedNodes[index] as SVGElement;
+    SVG_STYLE_PROPERTIES.forEach((property) => {
+      const value = computed.getPropertyValue(property);
+      if (value) target.style.setProperty(property, value);
+    });
+  });
+
+  const { width, height } = chartSvg.getBoundingClientRect();
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', String(Math.round(width)));
+  clone.setAttribute('height', String(Math.round(height)));
+  clone.setAttribute('viewBox', `0 0 ${Math.round(width)} ${Math.round(height)}`);
+
+  const blob = new Blob([new XMLSerializer().serializeToString(clone)], { type: 'image/svg+xml;charset=utf-8' });
+  downloadBlob(blob, filename);
+};
+
+/**
+ * Download the dashboard as a single PNG: a header with the title, filters and
+ * generation time above a snapshot of the chart grid
+ */
+export const exportDashboardToPng = async (element: HTMLElement, info: DashboardExportInfo): Promise<void> => {
+  const snapshot = await loadImage(await renderToPng(element));
+  const details = [...(info.details || []), formatGeneratedAt(info.generatedAt ?? new Date())];
+
+  const padding = 32 * PIXEL_RATIO;
+  const titleSize = 24 * PIXEL_RATIO;
+  const detailSize = 13 * PIXEL_RATIO;
+  const lineGap = 8 * PIXEL_RATIO;
+  const headerHeight = padding + titleSize + details.length * (detailSize + lineGap) + padding / 2;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = snapshot.width + padding * 2;
+  canvas.height = headerHeight + snapshot.height + padding;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not supported in this browser');
+  }
+
+  context.fillStyle = getBackgroundColor();
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.fillStyle = getForegroundColor();
+  context.textBaseline = 'top';
+
+  let y = padding;
+  context.font = `600 ${titleSize}px sans-serif`;
+  context.fillText(info.title, padding, y);
+  y += titleSize + lineGap;
+
+  context.globalAlpha = 0.65;
+  context.font = `${detailSize}px sans-serif`;
+  details.forEach((line) => {
+    context.fillText(line, padding, y);
+    y += detailSize + lineGap;
+  });
+  context.globalAlpha = 1;
+
+  context.drawImage(snapshot, padding, headerHeight);
+  downloadUrl(canvas.toDataURL('image/png'), `${toExportFilename(info.title, 'dashboard')}.png`);
+};
+
+/**
+ * Download the dashboard as a paginated landscape PDF. Charts keep their
+ * on-screen look; wide charts take a full row, the rest are laid out two per row.
+ */
+export const exportDashboardToPdf = async (
+  charts: HTMLElement[],
+  gridWidth: number,
+  info: DashboardExportInfo
+): Promise<void> => {
+  const { jsPDF } = await import('jspdf');
+  const pdf = new jsPDF({ orientation: 'landscape', unit: 'pt', format: 'a4' });
+
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const margin = 36;
+  const gap = 16;
+  const footerHeight = 24;
+  const contentWidth = pageWidth - margin * 2;
+  const bottomLimit = pageHeight - margin - footerHeight;
+  const generatedAt = formatGeneratedAt(info.generatedAt ?? new Date());
+
+  // Title block on the first page
+  let y = margin;
+  pdf.setFontSize(18);
+  pdf.text(info.title, margin, y + 14);
+  y += 26;
+  pdf.setFontSize(10);
+  pdf.setTextColor(100);
+  [...(info.details || []), generatedAt].forEach((line) => {
+    pdf.text(line, margin, y + 10);
+    y += 14;
+  });
+  pdf.setTextColor(0);
+  y += gap;
+
+  const images: Array<{ dataUrl: string; aspect: number; isWide: boolean }> = [];
+  for (const chart of charts) {
+    const dataUrl = await renderToPng(chart);
+    const image = await loadImage(dataUrl);
+    const isWide = gridWidth > 0 && chart.getBoundingClientRect().width > gridWidth * 0.6;
+    images.push({ dataUrl, aspect: image.height / image.width, isWide });
+  }
+
+  const columnWidth = (contentWidth - gap) / 2;
+  let column = 0;
+  let rowHeight = 0;
+
+  images.forEach(({ dataUrl, aspect, isWide }) => {
+    let width = isWide ? contentWidth : columnWidth;
+    let height = width * aspect;
+    const maxHeight = bottomLimit - margin;
+    if (height > maxHeight) {
+      height = maxHeight;
+      width = height / aspect;
+    }
+
+    // Wide charts and full rows start a new row
+    if (column > 0 && (isWide || column >= 2)) {
+      y += rowHeight + gap;
+      column = 0;
+      rowHeight = 0;
+    }
+    if (y + height > bottomLimit) {
+      pdf.addPage();
+      y = margin;
+      column = 0;
+      rowHeight = 0;
+    }
+
+    const x = margin + column * (columnWidth + gap);
+    pdf.addImage(dataUrl, 'PNG', x, y, width, height);
+    rowHeight = Math.max(rowHeight, height);
+    column = isWide ? 2 : column + 1;
+  });
+
+  // Footer on every page
+  const pageCount = pdf.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    pdf.setPage(page);
+    pdf.setFontSize(8);
+    pdf.setTextColor(120);
+    pdf.text(`${info.title} · ${generatedAt}`, margin, pageHeight - margin / 2);
+    pdf.text(`Page ${page} of ${pageCount}`, pageWidth - margin, pageHeight - margin / 2, { align: 'right' });
+  }
+
+  pdf.save(`${toExportFilename(info.title, 'dashboard')}.pdf`);
+};
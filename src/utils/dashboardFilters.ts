@@ -0,0 +1,219 @@
+/**
+ * Dashboard Filters Utility
+ *
+ * State helpers for dashboard-wide filters: a global date range (sent to the
+ * backend as `from_date`/`to_date`), column-value filters (applied to each
+ * chart's result rows) and the charts that opt out of both. The state lives in
+ * the URL query string so a filtered dashboard can be shared or reloaded.
+ *
+ * Query format:
+ *   ?from=2025-01-01&to=2025-03-31&filter.region=EU&filter.region=US&ignore=<chartId>,<chartId>
+ */
+
+export interface DateRange {
+  startDate: Date | null;
+  endDate: Date | null;
+}
+
+export interface DashboardFilterState {
+  dateRange: DateRange;
+  /** Selected values per column; a row matches when its value is one of them */
+  columnFilters: Record<string, string[]>;
+  /** Charts that ignore the dashboard filters */
+  excludedChartIds: string[];
+}
+
+export interface FilterOption {
+  column: string;
+  values: string[];
+}
+
+export const EMPTY_DASHBOARD_FILTERS: DashboardFilterState = {
+  dateRange: { startDate: null, endDate: null },
+  columnFilters: {},
+  excludedChartIds: [],
+};
+
+const FROM_PARAM = 'from';
+const TO_PARAM = 'to';
+const IGNORE_PARAM = 'ignore';
+const COLUMN_PARAM_PREFIX = 'filter.';
+
+// Columns with more distinct values than this make poor filters (ids, free text)
+const MAX_FILTER_VALUES = 50;
+
+const DATE_PARAM_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/** Format a date as YYYY-MM-DD in local time (the format `getChartData` expects) */
+export const formatDateParam = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+const parseDateParam = (value: string | null): Date | null => {
+  const match = value ? DATE_PARAM_PATTERN.exec(value) : null;
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return isNaN(date.getTime()) ? null : date;
+};
+
+export const isCompleteDateRange = (range: DateRange | undefined): boolean =>
+  !!(range?.startDate && range?.endDate);
+
+export const isSameDateRange = (a: DateRange | undefined, b: DateRange | undefined): boolean => {
+  const toKey = (range: DateRange | undefined) =>
+    isCompleteDateRange(range) ? `${formatDateParam(range!.startDate!)}|${formatDateParam(range!.endDate!)}` : '';
+  return toKey(a) === toKey(b);
+};
+
+export const countActiveFilters = (filters: DashboardFilterState): number =>
+  (isCompleteDateRange(filters.dateRange) ? 1 : 0) +
+  Object.values(filters.columnFilters).filter((values) => values.length > 0).length;
+
+/**
+ * Human-readable summary of the active filters, one line per filter
+ */
+export const describeDashboardFilters = (filters: DashboardFilterState): string[] => {
+  const lines: string[] = [];
+  const { startDate, endDate } = filters.dateRange;
+  if (startDate && endDate) {
+    lines.push(`Date range: ${startDate.toLocaleDateString()} – ${endDate.toLocaleDateString()}`);
+  }
+  Object.entries(filters.columnFilters).forEach(([column, values]) => {
+    if (values.length > 0) {
+      lines.push(`${column}: ${values.join(', ')}`);
+    }
+  });
+  return lines;
+};
+
+/**
+ * Read filter state from a query string
+ */
+export const parseDashboardFilters = (search: string): DashboardFilterState => {
+  const params = new URLSearchParams(search);
+  const startDate = parseDateParam(params.get(FROM_PARAM));
+  const endDate = parseDateParam(params.get(TO_PARAM));
+
+  const columnFilters: Record<string, string[]> = {};
+  params.forEach((_value, key) => {
+    if (key.startsWith(COLUMN_PARAM_PREFIX) && key.length > COLUMN_PARAM_PREFIX.length) {
+      const column = key.slice(COLUMN_PARAM_PREFIX.length);
+      columnFilters[column] = Array.from(new Set(params.getAll(key)));
+    }
+  });
+
+  return {
+    // A half-open range is not applied anywhere, so don't restore one
+    dateRange: startDate && endDate ? { startDate, endDate } : { startDate: null, endDate: null },
+    columnFilters,
+    excludedChartIds: (params.get(IGNORE_PARAM) || '').split(',').filter(Boolean),
+  };
+};
+
+/**
+ * Write filter state into a query string, keeping unrelated parameters
+ */
+export const serializeDashboardFilters = (filters: DashboardFilterState, search: string = ''): string => {
+  const params = new URLSearchParams(search);
+  Array.from(params.keys())
+    .filter((key) => key === FROM_PARAM || key === TO_PARAM || key === IGNORE_PARAM || key.startsWith(COLUMN_PARAM_PREFIX))
+    .forEach((key) => params.delete(key));
+
+  const { startDate, endDate } = filters.dateRange;
+  if (startDate && endDate) {
+    params.set(FROM_PARAM, formatDateParam(startDate));
+    params.set(TO_PARAM, formatDateParam(endDate));
+  }
+
+  Object.entries(filters.columnFilters).forEach(([column, values]) => {
+    values.forEach((value) => params.append(`${COLUMN_PARAM_PREFIX}${column}`, value));
+  });
+
+  if (filters.excludedChartIds.length > 0) {
+    params.set(IGNORE_PARAM, filters.excludedChartIds.join(','));
+  }
+
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
+
+export const readDashboardFilters = (): DashboardFilterState => {
+  if (typeof window === 'undefined') {
+    return EMPTY_DASHBOARD_FILTERS;
+  }
+  return parseDashboardFilters(window.location.search);
+};
+
+/**
+ * Mirror filter state into the current URL without adding a history entry
+ */
+export const writeDashboardFilters = (filters: DashboardFilterState): void => {
+  if (typeof window === 'undefined') {
+    return;
+  }
+
+  const search = serializeDashboardFilters(filters, window.location.search);
+  if (search === window.location.search) {
+    return;
+  }
+  window.history.replaceState(window.history.state, '', `${window.location.pathname}${search}${window.location.hash}`);
+};
+
+/**
+ * Keep rows matching every active column filter. Filters on columns a result
+ * set doesn't have are ignored, so one filter can span charts with different shapes.
+ */
+export const applyColumnFilters = (rows: any[], columnFilters: Record<string, string[]>): any[] => {
+  const sample = rows.find((row) => row && typeof row === 'object');
+  if (!sample) return rows;
+
+  const active = Object.entries(columnFilters).filter(
+    ([column, values]) => values.length > 0 && column in sample
+  );
+  if (active.length === 0) return rows;
+
+  return rows.filter((row) =>
+    active.every(([column, values]) => values.includes(String(row?.[column] ?? '')))
+  );
+};
+
+const isDateLike = (value: string) => /^\d{4}-\d{2}-\d{2}/.test(value);
+
+/**
+ * Collect the categorical columns (and their values) across the loaded charts
+ */
+export const collectFilterOptions = (datasets: any[][]): FilterOption[] => {
+  const valuesByColumn = new Map<string, Set<string>>();
+  const rejected = new Set<string>();
+
+  datasets.forEach((rows) => {
+    rows.forEach((row) => {
+      if (!row || typeof row !== 'object') return;
+      Object.entries(row).forEach(([column, value]) => {
+        if (rejected.has(column) || value === null || value === undefined || value === '') return;
+        if (typeof value !== 'string' || !isNaN(Number(value)) || isDateLike(value)) {
+          rejected.add(column);
+          valuesByColumn.delete(column);
+          return;
+        }
+
+        const values = valuesByColumn.get(column) ?? new Set<string>();
+        values.add(value);
+        if (values.size > MAX_FILTER_VALUES) {
+          rejected.add(column);
+          valuesByColumn.delete(column);
+          return;
+        }
+        valuesByColumn.set(column, values);
+      });
+    });
+  });
+
+  return Array.from(valuesByColumn.entries())
+    .map(([column, values]) => ({ column, values: Array.from(values).sort((a, b) => a.localeCompare(b)) }))
+    .sort((a, b) => a.column.localeCompare(b.column));
+};
+
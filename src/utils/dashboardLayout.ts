@@ -0,0 +1,217 @@
+/**
+ * Dashboard Layout Utility
+ *
+ * Pure helpers for the 12-column dashboard grid (placement, collision
+ * handling, compaction and responsive breakpoints) plus a localStorage
+ * mirror of each dashboard's saved layout.
+ */
+
+import type { DashboardLayoutItem } from '../services/api';
+import { readStoredJson, writeStoredJson } from './storage';
+
+export type LayoutBreakpoint = 'lg' | 'md' | 'sm';
+
+/** Columns available at each breakpoint; layouts are authored at `lg` */
+export const GRID_COLUMNS: Record<LayoutBreakpoint, number> = { lg: 12, md: 6, sm: 1 };
+
+/** Minimum container width (px) for each breakpoint */
+const BREAKPOINT_MIN_WIDTH: Array<[LayoutBreakpoint, number]> = [
+  ['lg', 1024],
+  ['md', 640],
+  ['sm', 0],
+];
+
+export const GRID_ROW_HEIGHT = 48; // px per grid row
+export const GRID_GAP = 24; // px between cells, matches gap-6
+
+export const DEFAULT_ITEM_SIZE = { w: 6, h: 7 };
+export const MIN_ITEM_SIZE = { w: 3, h: 4 };
+
+const STORAGE_PREFIX = 'vizai_dashboard_layout_';
+
+export const getBreakpoint = (width: number): LayoutBreakpoint =>
+  BREAKPOINT_MIN_WIDTH.find(([, minWidth]) => width >= minWidth)?.[0] ?? 'sm';
+
+/** Pixel height of an item spanning `rows` grid rows */
+export const getItemHeight = (rows: number, rowHeight: number = GRID_ROW_HEIGHT): number =>
+  rows * rowHeight + (rows - 1) * GRID_GAP;
+
+/** Number of grid rows a layout occupies */
+export const getLayoutRowCount = (layout: DashboardLayoutItem[]): number =>
+  layout.reduce((max, item) => Math.max(max, item.y + item.h), 0);
+
+const collides = (a: DashboardLayoutItem, b: DashboardLayoutItem): boolean =>
+  a.chartId !== b.chartId &&
+  a.x < b.x + b.w &&
+  a.x + a.w > b.x &&
+  a.y < b.y + b.h &&
+  a.y + a.h > b.y;
+
+const sortByPosition = (items: DashboardLayoutItem[]) =>
+  [...items].sort((a, b) => a.y - b.y || a.x - b.x);
+
+const clampItem = (item: DashboardLayoutItem, columns: number): DashboardLayoutItem => {
+  const w = Math.max(1, Math.min(columns, Math.round(item.w)));
+  return {
+    ...item,
+    w,
+    h: Math.max(1, Math.round(item.h)),
+    x: Math.max(0, Math.min(columns - w, Math.round(item.x))),
+    y: Math.max(0, Math.round(item.y)),
+  };
+};
+
+/**
+ * Float every item as high as it can go without overlapping the items above it.
+ * `pinned` keeps one item (the one being dragged) exactly where it was placed.
+ */
+export const compactLayout = (
+  items: DashboardLayoutItem[],
+  columns: number = GRID_COLUMNS.lg,
+  pinned?: string
+): DashboardLayoutItem[] => {
+  const placed: DashboardLayoutItem[] = [];
+  const pinnedItem = pinned ? items.find((item) => item.chartId === pinned) : undefined;
+  if (pinnedItem) {
+    placed.push(clampItem(pinnedItem, columns));
+  }
+
+  sortByPosition(items.filter((item) => item.chartId !== pinned)).forEach((original) => {
+    const item = clampItem(original, columns);
+    // Rise until blocked (never jumping over an item), then drop below any overlap
+    while (item.y > 0 && !placed.some((other) => collides({ ...item, y: item.y - 1 }, other))) {
+      item.y -= 1;
+    }
+    while (placed.some((other) => collides(item, other))) {
+      item.y += 1;
+    }
+    placed.push(item);
+  });
+
+  // Preserve the caller's ordering so React keys stay stable
+  return items.map((item) => placed.find((p) => p.chartId === item.chartId)!);
+};
+
+/** Default layout: charts in their current order, two per row */
+export const buildDefaultLayout = (chartIds: string[]): DashboardLayoutItem[] =>
+  chartIds.map((chartId, index) => ({
+    chartId,
+    x: (index % 2) * DEFAULT_ITEM_SIZE.w,
+    y: Math.floor(index / 2) * DEFAULT_ITEM_SIZE.h,
+    w: DEFAULT_ITEM_SIZE.w,
+    h: DEFAULT_ITEM_SIZE.h,
+  }));
+
+/**
+ * Drop items for charts no longer on the dashboard and place new charts at the bottom
+ */
+export const reconcileLayout = (layout: DashboardLayoutItem[], chartIds: string[]): DashboardLayoutItem[] => {
+  const ids = new Set(chartIds);
+  const kept = layout.filter((item) => ids.has(item.chartId));
+  const keptIds = new Set(kept.map((item) => item.chartId));
+  const missing = chartIds.filter((id) => !keptIds.has(id));
+
+  if (kept.length === 0) {
+    return buildDefaultLayout(chartIds);
+  }
+
+  const bottom = getLayoutRowCount(kept);
+  const appended = buildDefaultLayout(missing).map((item) => ({ ...item, y: item.y + bottom }));
+  return compactLayout([...kept, ...appended]);
+};
+
+/** Add an item below everything else on the grid */
+export const appendLayoutItem = (
+  layout: DashboardLayoutItem[],
+  chartId: string,
+  size: { w: number; h: number } = DEFAULT_ITEM_SIZE
+): DashboardLayoutItem[] =>
+  compactLayout([
+    ...layout.filter((item) => item.chartId !== chartId),
+    { chartId, x: 0, y: getLayoutRowCount(layout), ...size },
+  ]);
+
+/** Move an item to a new cell; anything it lands on is pushed down */
+export const moveItem = (
+  layout: DashboardLayoutItem[],
+  chartId: string,
+  x: number,
+  y: number
+): DashboardLayoutItem[] => {
+  const moved = layout.map((item) => (item.chartId === chartId ? { ...item, x, y } : item));
+  return compactLayout(pushDown(moved, chartId), GRID_COLUMNS.lg, chartId);
+};
+
+/** Resize an item (in grid units), respecting the minimum size */
+export const resizeItem = (
+  layout: DashboardLayoutItem[],
+  chartId: string,
+  w: number,
+  h: number,
+  minSize: { w: number; h: number } = MIN_ITEM_SIZE
+): DashboardLayoutItem[] => {
+  const resized = layout.map((item) =>
+    item.chartId === chartId
+      ? {
+          ...item,
+          w: Math.max(minSize.w, Math.min(GRID_COLUMNS.lg - item.x, w)),
+          h: Math.max(minSize.h, h),
+        }
+      : item
+  );
+  return compactLayout(pushDown(resized, chartId), GRID_COLUMNS.lg, chartId);
+};
+
+// Push items overlapping the active item below it so compaction can re-float them
+const pushDown = (layout: DashboardLayoutItem[], activeId: string): DashboardLayoutItem[] => {
+  const active = clampItem(layout.find((item) => item.chartId === activeId)!, GRID_COLUMNS.lg);
+  return layout.map((item) => {
+    if (item.chartId === activeId) return active;
+    return collides(item, active) ? { ...item, y: active.y + active.h } : item;
+  });
+};
+
+/**
+ * Derive the layout for a narrower breakpoint from the authored `lg` layout
+ */
+export const getBreakpointLayout = (
+  layout: DashboardLayoutItem[],
+  breakpoint: LayoutBreakpoint
+): DashboardLayoutItem[] => {
+  if (breakpoint === 'lg') return layout;
+
+  if (breakpoint === 'sm') {
+    // Single column: stack in reading order
+    let y = 0;
+    const stacked = new Map<string, DashboardLayoutItem>();
+    sortByPosition(layout).forEach((item) => {
+      stacked.set(item.chartId, { ...item, x: 0, y, w: 1 });
+      y += item.h;
+    });
+    return layout.map((item) => stacked.get(item.chartId)!);
+  }
+
+  const ratio = GRID_COLUMNS[breakpoint] / GRID_COLUMNS.lg;
+  return compactLayout(
+    layout.map((item) => ({
+      ...item,
+      x: Math.floor(item.x * ratio),
+      w: Math.max(Math.ceil(MIN_ITEM_SIZE.w * ratio), Math.round(item.w * ratio)),
+    })),
+    GRID_COLUMNS[breakpoint]
+  );
+};
+
+export const isSameLayout = (a: DashboardLayoutItem[], b: DashboardLayoutItem[]): boolean =>
+  a.length === b.length &&
+  a.every((item) => {
+    const other = b.find((candidate) => candidate.chartId === item.chartId);
+    return !!other && other.x === item.x && other.y === item.y && other.w === item.w && other.h === item.h;
+  });
+
+export const loadStoredLayout = (dashboardId: string): DashboardLayoutItem[] | null =>
+  dashboardId ? readStoredJson<DashboardLayoutItem[]>(`${STORAGE_PREFIX}${dashboardId}`, 'dashboard layout', Array.isArray) : null;
+
+export const storeLayout = (dashboardId: string, layout: DashboardLayoutItem[]): void => {
+  if (dashboardId) writeStoredJson(`${STORAGE_PREFIX}${dashboardId}`, layout, 'dashboard layout');
+};
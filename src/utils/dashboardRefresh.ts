@@ -0,0 +1,52 @@
+/**
+ * Dashboard Refresh Utility
+ *
+ * Auto-refresh settings for dashboards. The chosen interval is remembered per
+ * dashboard in localStorage.
+ */
+
+export interface RefreshIntervalOption {
+  value: number; // milliseconds, 0 = off
+  label: string;
+}
+
+export const REFRESH_INTERVAL_OPTIONS: RefreshIntervalOption[] = [
+  { value: 0, label: 'Off' },
+  { value: 60 * 1000, label: '1 min' },
+  { value: 5 * 60 * 1000, label: '5 min' },
+  { value: 15 * 60 * 1000, label: '15 min' },
+  { value: 60 * 60 * 1000, label: '1 hour' },
+];
+
+/** Delay between chart queries in one refresh so the datasource isn't hit all at once */
+export const REFRESH_STAGGER_MS = 1500;
+
+const STORAGE_PREFIX = 'vizai_dashboard_refresh_';
+
+export const getRefreshIntervalLabel = (interval: number): string =>
+  REFRESH_INTERVAL_OPTIONS.find((option) => option.value === interval)?.label ?? 'Off';
+
+export const loadRefreshInterval = (dashboardId: string): number => {
+  if (!dashboardId) return 0;
+
+  try {
+    const stored = Number(localStorage.getItem(`${STORAGE_PREFIX}${dashboardId}`));
+    return REFRESH_INTERVAL_OPTIONS.some((option) => option.value === stored) ? stored : 0;
+  } catch {
+    return 0;
+  }
+};
+
+export const storeRefreshInterval = (dashboardId: string, interval: number): void => {
+  if (!dashboardId) return;
+
+  try {
+    if (interval > 0) {
+      localStorage.setItem(`${STORAGE_PREFIX}${dashboardId}`, String(interval));
+    } else {
+      localStorage.removeItem(`${STORAGE_PREFIX}${dashboardId}`);
+    }
+  } catch (error) {
+    console.warn('[DashboardRefresh] Failed to store refresh interval:', error);
+  }
+};
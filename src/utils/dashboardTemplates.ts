@@ -0,0 +1,373 @@
+/**
+ * Dashboard Templates Utility
+ *
+ * A template is a portable snapshot of a dashboard: its charts (title, SQL,
+ * chart type and axes), grid layout and filters. Duplicating a dashboard
+ * captures a template on the fly; saved templates are kept in localStorage so
+ * they can be reused in any project.
+ *
+ * Charts inside a template are identified by a `key` instead of a chart id, so
+ * the layout and filters can be re-pointed at the charts created from it. Text,
+ * image and link widgets are copied as they are (with their own ids).
+ * Templates also record which tables and columns their queries use, so they can
+ * be instantiated against a different database by remapping those names.
+ */
+
+import type { DashboardLayoutItem, DashboardWidget, DatabaseSchema } from '../services/api';
+import type { ChartType } from './chartTypes';
+import { parseDashboardFilters, serializeDashboardFilters, type DashboardFilterState } from './dashboardFilters';
+import { tokenizeSql, type SqlToken } from './sqlEditor';
+import { readStoredJson, writeStoredJson } from './storage';
+
+export interface DashboardTemplateChart {
+  /** Identifies the chart within the template (the source chart id) */
+  key: string;
+  title: string;
+  query: string;
+  chartType: ChartType;
+  xAxis?: string | null;
+  yAxis?: string | null;
+  isTimeBased?: boolean;
+  /** Connection the chart queried in the source project */
+  connectionId?: string | null;
+}
+
+export interface DashboardTemplateTable {
+  name: string;
+  /** Columns of this table referenced by the queries */
+  columns: string[];
+}
+
+export interface DashboardTemplate {
+  id: string;
+  name: string;
+  description: string;
+  createdAt: string;
+  sourceProjectId: string | null;
+  /** Database connection the queries were written against (the one most charts use) */
+  sourceConnectionId: string | null;
+  charts: DashboardTemplateChart[];
+  /** Non-data widgets; absent on templates saved before widgets existed */
+  widgets?: DashboardWidget[];
+  /** Grid layout with `chartId` set to template chart keys (or widget ids) */
+  layout: DashboardLayoutItem[];
+  /** Filters as a query string; excluded charts are listed by template key */
+  filters: string;
+  /** Tables (and their columns) the queries use; empty when the source schema was unavailable */
+  tables: DashboardTemplateTable[];
+}
+
+/** Source → target names used to point a template at another database */
+export interface TemplateMapping {
+  tables: Record<string, string>;
+  columns: Record<string, string>;
+}
+
+const STORAGE_KEY = 'vizai_dashboard_templates';
+
+// A single SQL identifier: "quoted", `quoted`, [quoted] or bare
+const IDENTIFIER = '(?:"[^"]+"|`[^`]+`|\\[[^\\]]+\\]|[A-Za-z_][\\w$]*)';
+const CTE_NAME_PATTERN = /(?:\bwith|,)\s*(?:recursive\s+)?([A-Za-z_][\w$]*)\s+as\s*\(/gi;
+// Single-quoted string literals are never remapped
+const STRING_LITERAL_PATTERN = /('(?:[^']|'')*')/;
+
+// Keywords that double as common column names; remapped unless used as a type
+const COLUMN_NAME_KEYWORDS = new Set(['DATE', 'TIMESTAMP', 'FIRST', 'LAST', 'NEXT']);
+// Calls whose `AS` argument is a type, e.g. CAST(created_at AS date)
+const TYPE_CALLS = new Set(['CAST', 'TRY_CAST', 'CONVERT']);
+
+const unquote = (identifier: string): string => identifier.trim().replace(/^["`[]|["`\]]$/g, '');
+
+const splitIdentifierChain = (chain: string): string[] =>
+  chain.match(new RegExp(IDENTIFIER, 'g')) || [];
+
+const lastSegment = (name: string): string => {
+  const segments = name.split('.');
+  return segments[segments.length - 1];
+};
+
+const findMapping = (map: Record<string, string>, name: string): string | undefined => {
+  const lower = name.toLowerCase();
+  const key = Object.keys(map).find((candidate) => candidate.toLowerCase() === lower);
+  return key ? map[key] : undefined;
+};
+
+const isWord = (token: SqlToken | undefined): token is SqlToken =>
+  !!token && (token.kind === 'identifier' || token.kind === 'keyword' || token.kind === 'function');
+
+/** Tokens without whitespace and comments */
+const getQueryTokens = (query: string): SqlToken[] =>
+  tokenizeSql(query).filter((token) => token.kind !== 'whitespace' && token.kind !== 'comment');
+
+/** End of the identifier chain (schema.table, alias.column) starting at `index` */
+const getChainEnd = (tokens: SqlToken[], index: number): number => {
+  let end = index;
+  while (tokens[end + 1]?.text === '.' && isWord(tokens[end + 2])) end += 2;
+  return end;
+};
+
+const generateTemplateId = () => `tpl_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Table names referenced after FROM / JOIN, excluding CTE names. FROM inside a
+ * function call (`EXTRACT(year FROM created_at)`) is not a table reference.
+ */
+export const extractQueryTables = (query: string): string[] => {
+  const sql = query.split(STRING_LITERAL_PATTERN).filter((_, index) => index % 2 === 0).join(' ');
+  const cteNames = new Set(Array.from(sql.matchAll(CTE_NAME_PATTERN), (match) => match[1].toLowerCase()));
+
+  const tokens = getQueryTokens(query);
+  // Whether each open parenthesis belongs to a function call (as opposed to a subquery)
+  const calls: boolean[] = [];
+  const tables: string[] = [];
+  tokens.forEach((token, index) => {
+    const word = token.text.toUpperCase();
+    if (token.text === '(') {
+      calls.push(tokens[index - 1]?.kind === 'function');
+    } else if (token.text === ')') {
+      calls.pop();
+    } else if (word === 'SELECT' && tokens[index - 1]?.text === '(') {
+      // ANY(SELECT ...) and the like hold a subquery
+      calls[calls.length - 1] = false;
+    } else if ((word === 'FROM' || word === 'JOIN') && !calls[calls.length - 1]) {
+      const first = tokens[index + 1];
+      if (!isWord(first) || first.kind === 'keyword') return;
+      const end = getChainEnd(tokens, index + 1);
+      tables.push(
+        tokens
+          .slice(index + 1, end + 1)
+          .filter((segment) => segment.text !== '.')
+          .map((segment) => unquote(segment.text))
+          .join('.')
+      );
+    }
+  });
+  return Array.from(new Set(tables.filter((table) => !cteNames.has(table.toLowerCase()))));
+};
+
+const extractQueryIdentifiers = (query: string): Set<string> => {
+  const sql = query.split(STRING_LITERAL_PATTERN).filter((_, index) => index % 2 === 0).join(' ');
+  const identifiers = new Set<string>();
+  (sql.match(new RegExp(IDENTIFIER, 'g')) || []).forEach((identifier) => identifiers.add(unquote(identifier).toLowerCase()));
+  return identifiers;
+};
+
+/**
+ * Tables and columns used by the charts, resolved against the source schema
+ * (when it is known) so CTE names and aliases aren't mistaken for tables
+ */
+export const collectTemplateTables = (
+  charts: DashboardTemplateChart[],
+  schema?: DatabaseSchema | null
+): DashboardTemplateTable[] => {
+  const referenced = new Set<string>();
+  const identifiers = new Set<string>();
+  charts.forEach((chart) => {
+    extractQueryTables(chart.query).forEach((table) => referenced.add(table));
+    extractQueryIdentifiers(chart.query).forEach((identifier) => identifiers.add(identifier));
+  });
+
+  if (!schema || schema.tables.length === 0) {
+    return Array.from(referenced).map((name) => ({ name, columns: [] }));
+  }
+
+  // Only tables that exist in the schema; `public.orders` and `orders` collapse into one
+  const tables = new Map<string, DashboardTemplateTable>();
+  referenced.forEach((name) => {
+    const schemaTable = schema.tables.find(
+      (table) => table.name.toLowerCase() === name.toLowerCase() || lastSegment(table.name).toLowerCase() === lastSegment(name).toLowerCase()
+    );
+    if (!schemaTable || tables.has(schemaTable.name)) return;
+    tables.set(schemaTable.name, {
+      name: schemaTable.name,
+      columns: schemaTable.columns
+        .map((column) => column.name)
+        .filter((column) => identifiers.has(column.toLowerCase())),
+    });
+  });
+  return Array.from(tables.values());
+};
+
+/** The connection most charts query */
+export const getPrimaryConnectionId = (charts: DashboardTemplateChart[]): string | null => {
+  const counts = new Map<string, number>();
+  charts.forEach((chart) => {
+    if (chart.connectionId) counts.set(chart.connectionId, (counts.get(chart.connectionId) || 0) + 1);
+  });
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+};
+
+/**
+ * Snapshot a dashboard as a template
+ */
+export const buildDashboardTemplate = (source: {
+  name: string;
+  description?: string;
+  charts: DashboardTemplateChart[];
+  widgets?: DashboardWidget[];
+  layout: DashboardLayoutItem[];
+  filters?: DashboardFilterState;
+  projectId: string | null;
+  /** Schema of the main connection, used to record the tables and columns the queries use */
+  schema?: DatabaseSchema | null;
+}): DashboardTemplate => {
+  const keys = new Set(source.charts.map((chart) => chart.key));
+  const widgets = source.widgets || [];
+  const itemIds = new Set([...keys, ...widgets.map((widget) => widget.id)]);
+
+  return {
+    id: generateTemplateId(),
+    name: source.name,
+    description: source.description || '',
+    createdAt: new Date().toISOString(),
+    sourceProjectId: source.projectId,
+    sourceConnectionId: getPrimaryConnectionId(source.charts),
+    charts: source.charts,
+    widgets,
+    layout: source.layout.filter((item) => itemIds.has(item.chartId)),
+    filters: source.filters
+      ? serializeDashboardFilters({
+          ...source.filters,
+          excludedChartIds: source.filters.excludedChartIds.filter((id) => keys.has(id)),
+        })
+      : '',
+    tables: collectTemplateTables(source.charts, source.schema),
+  };
+};
+
+/**
+ * Rewrite table and column names in a query. Qualified names (schema.table,
+ * alias.column) are handled segment by segment; string literals, comments,
+ * function names, keywords and type names (`AS date` in a CAST, `::date`) are
+ * left alone.
+ */
+export const remapQuery = (query: string, mapping: TemplateMapping): string => {
+  const hasTables = Object.keys(mapping.tables).length > 0;
+  const hasColumns = Object.keys(mapping.columns).length > 0;
+  if (!hasTables && !hasColumns) return query;
+
+  // Exact match, or the same table with and without its schema (orders / public.orders)
+  const findTable = (name: string): string | undefined =>
+    findMapping(mapping.tables, name) ??
+    Object.entries(mapping.tables).find(
+      ([source]) =>
+        (!source.includes('.') || !name.includes('.')) &&
+        lastSegment(source).toLowerCase() === lastSegment(name).toLowerCase()
+    )?.[1];
+
+  const remapColumn = (segment: string): string => {
+    const target = findMapping(mapping.columns, unquote(segment));
+    if (!target) return segment;
+    const quote = segment.match(/^["`[]/)?.[0];
+    return quote ? `${quote}${target}${quote === '[' ? ']' : quote}` : target;
+  };
+
+  const remapChain = (chain: string): string => {
+    const segments = splitIdentifierChain(chain);
+    const names = segments.map(unquote);
+
+    // The longest prefix naming a table (schema.table or table) is replaced as a
+    // whole; whatever follows it (table.column) is a column
+    for (let end = names.length; end > 0; end--) {
+      const target = hasTables ? findTable(names.slice(0, end).join('.')) : undefined;
+      if (target) {
+        return [target, ...segments.slice(end).map(remapColumn)].join('.');
+      }
+    }
+    return segments.map(remapColumn).join('.');
+  };
+
+  const tokens = getQueryTokens(query);
+  const calls: Array<string | null> = [];
+  const replacements: Array<{ start: number; end: number; text: string }> = [];
+
+  for (let index = 0; index < tokens.length; index++) {
+    const token = tokens[index];
+    if (token.text === '(') {
+      calls.push(tokens[index - 1]?.kind === 'function' ? tokens[index - 1].text.toUpperCase() : null);
+      continue;
+    }
+    if (token.text === ')') {
+      calls.pop();
+      continue;
+    }
+    if (!isWord(token)) continue;
+
+    const end = getChainEnd(tokens, index);
+    const previous = tokens[index - 1];
+    const next = tokens[end + 1];
+    const call = calls[calls.length - 1];
+    const word = token.text.toUpperCase();
+    const isBare = end === index && /^[A-Za-z_]/.test(token.text);
+    const isSkipped =
+      next?.text === '(' ||
+      (isBare &&
+        ((token.kind === 'keyword' && !COLUMN_NAME_KEYWORDS.has(word)) ||
+          previous?.text === '::' ||
+          (previous?.text.toUpperCase() === 'AS' && !!call && TYPE_CALLS.has(call)) ||
+          (previous?.text === '(' && call === 'EXTRACT') ||
+          next?.kind === 'string'));
+
+    if (!isSkipped) {
+      const chainEnd = tokens[end].start + tokens[end].text.length;
+      const chain = query.slice(token.start, chainEnd);
+      const remapped = remapChain(chain);
+      if (remapped !== chain) replacements.push({ start: token.start, end: chainEnd, text: remapped });
+    }
+    index = end;
+  }
+
+  return replacements.reduceRight(
+    (sql, replacement) => sql.slice(0, replacement.start) + replacement.text + sql.slice(replacement.end),
+    query
+  );
+};
+
+const remapColumnName = (name: string | null | undefined, mapping: TemplateMapping) =>
+  name ? findMapping(mapping.columns, name) ?? name : name;
+
+/**
+ * Apply a table/column mapping to every chart query, axis and column filter
+ */
+export const remapTemplate = (template: DashboardTemplate, mapping: TemplateMapping): DashboardTemplate => {
+  const filters = parseDashboardFilters(template.filters);
+  const columnFilters = Object.fromEntries(
+    Object.entries(filters.columnFilters).map(([column, values]) => [remapColumnName(column, mapping) as string, values])
+  );
+
+  return {
+    ...template,
+    charts: template.charts.map((chart) => ({
+      ...chart,
+      query: remapQuery(chart.query, mapping),
+      xAxis: remapColumnName(chart.xAxis, mapping),
+      yAxis: remapColumnName(chart.yAxis, mapping),
+    })),
+    filters: template.filters ? serializeDashboardFilters({ ...filters, columnFilters }) : '',
+  };
+};
+
+/**
+ * Re-point a template's filters at the charts created from it
+ */
+export const resolveTemplateFilters = (template: DashboardTemplate, chartIds: Record<string, string>): DashboardFilterState => {
+  const filters = parseDashboardFilters(template.filters);
+  return {
+    ...filters,
+    excludedChartIds: filters.excludedChartIds.map((key) => chartIds[key]).filter(Boolean),
+  };
+};
+
+export const loadDashboardTemplates = (): DashboardTemplate[] =>
+  readStoredJson<DashboardTemplate[]>(STORAGE_KEY, 'dashboard templates', Array.isArray) || [];
+
+const storeDashboardTemplates = (templates: DashboardTemplate[]): void =>
+  writeStoredJson(STORAGE_KEY, templates, 'dashboard templates');
+
+export const saveDashboardTemplate = (template: DashboardTemplate): void => {
+  storeDashboardTemplates([template, ...loadDashboardTemplates().filter((existing) => existing.id !== template.id)]);
+};
+
+export const deleteDashboardTemplate = (templateId: string): void => {
+  storeDashboardTemplates(loadDashboardTemplates().filter((template) => template.id !== templateId));
+};
@@ -0,0 +1,85 @@
+/**
+ * Dashboard Widgets Utility
+ *
+ * Helpers for the non-data widgets (markdown text, section headers, images and
+ * links) that sit on the dashboard grid next to charts, plus a localStorage
+ * mirror of each dashboard's widgets.
+ */
+
+import type { DashboardWidget, DashboardWidgetType } from '../services/api';
+import { readStoredJson, writeStoredJson } from './storage';
+
+export const WIDGET_TYPE_OPTIONS: Array<{ value: DashboardWidgetType; label: string; description: string }> = [
+  { value: 'markdown', label: 'Text', description: 'Notes and commentary in markdown' },
+  { value: 'header', label: 'Section header', description: 'A title to group the charts below it' },
+  { value: 'image', label: 'Image', description: 'A logo, diagram or screenshot' },
+  { value: 'link', label: 'Link', description: 'A link to a report, runbook or document' },
+];
+
+/** Grid size (in grid units) a new widget is placed with */
+export const WIDGET_DEFAULT_SIZE: Record<DashboardWidgetType, { w: number; h: number }> = {
+  markdown: { w: 6, h: 4 },
+  header: { w: 12, h: 2 },
+  image: { w: 4, h: 5 },
+  link: { w: 4, h: 2 },
+};
+
+/** Smallest size a widget can be resized to */
+export const WIDGET_MIN_SIZE: Record<DashboardWidgetType, { w: number; h: number }> = {
+  markdown: { w: 2, h: 2 },
+  header: { w: 3, h: 2 },
+  image: { w: 2, h: 2 },
+  link: { w: 3, h: 2 },
+};
+
+/** Rows a widget is temporarily given while its inline editor is open */
+export const WIDGET_EDITOR_MIN_HEIGHT: Record<DashboardWidgetType, number> = {
+  markdown: 5,
+  header: 2,
+  image: 4,
+  link: 4,
+};
+
+const WIDGET_ID_PREFIX = 'widget_';
+const STORAGE_PREFIX = 'vizai_dashboard_widgets_';
+
+/** Widget ids share the layout with chart ids, so they carry a prefix */
+export const isWidgetId = (id: string): boolean => id.startsWith(WIDGET_ID_PREFIX);
+
+export const createWidget = (type: DashboardWidgetType): DashboardWidget => ({
+  id: `${WIDGET_ID_PREFIX}${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`,
+  type,
+  text: '',
+});
+
+/** Only http(s) and site-relative URLs are rendered; anything else (javascript:, data:) is dropped */
+export const getSafeUrl = (url?: string): string | null => {
+  const trimmed = url?.trim();
+  if (!trimmed) return null;
+  if (trimmed.startsWith('/') && !trimmed.startsWith('//')) return trimmed;
+
+  try {
+    const parsed = new URL(trimmed);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed.href : null;
+  } catch {
+    return null;
+  }
+};
+
+/** A widget with nothing to show yet */
+export const isWidgetEmpty = (widget: DashboardWidget): boolean => {
+  switch (widget.type) {
+    case 'image':
+    case 'link':
+      return !getSafeUrl(widget.url);
+    default:
+      return !widget.text.trim();
+  }
+};
+
+export const loadStoredWidgets = (dashboardId: string): DashboardWidget[] | null =>
+  dashboardId ? readStoredJson<DashboardWidget[]>(`${STORAGE_PREFIX}${dashboardId}`, 'dashboard widgets', Array.isArray) : null;
+
+export const storeWidgets = (dashboardId: string, widgets: DashboardWidget[]): void => {
+  if (dashboardId) writeStoredJson(`${STORAGE_PREFIX}${dashboardId}`, widgets, 'dashboard widgets');
+};
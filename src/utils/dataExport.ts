@@ -0,0 +1,319 @@
+/**
+ * Data Export Utility
+ *
+ * Shared CSV, Excel (XLSX) and JSON export for tabular data such as chart
+ * results and insights. Column types are inferred from the rows so numbers and
+ * dates stay numbers and dates in Excel; CSV and JSON keep each value as the
+ * database returned it:
+ *
+ * - CSV: a single table
+ * - XLSX: one sheet per table plus an "Info" sheet with each table's SQL query
+ *   and execution metadata
+ * - JSON: `{ title, exportedAt, tables: [{ name, query, metadata, columns, rows }] }`
+ *
+ * The XLSX writer is loaded on demand so it stays out of the main bundle.
+ */
+
+import { downloadBlob, toExportFilename } from './dashboardExport';
+
+export type DataExportFormat = 'csv' | 'xlsx' | 'json';
+
+export type DataColumnType = 'number' | 'date' | 'boolean' | 'string' | 'object';
+
+export interface DataExportColumn {
+  key: string;
+  type: DataColumnType;
+}
+
+export interface DataExportTable {
+  /** Table (chart) name; used for the sheet name */
+  name: string;
+  rows: any[];
+  /** SQL query that produced the rows */
+  query?: string;
+  /** Execution details listed on the info sheet, e.g. row count and execution time */
+  metadata?: Record<string, string | number | boolean | null | undefined>;
+}
+
+export interface DataExportOptions {
+  /** Export title; also the file name */
+  title: string;
+  /** Extra lines for the info sheet, e.g. the filters applied */
+  details?: string[];
+}
+
+export const DATA_EXPORT_FORMATS: Array<{ value: DataExportFormat; label: string }> = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'xlsx', label: 'Excel' },
+  { value: 'json', label: 'JSON' },
+];
+
+const MIME_TYPES: Record<DataExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8;',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json;charset=utf-8;',
+};
+
+// ISO dates (2024-01-31) and timestamps (2024-01-31T10:00:00Z, 2024-01-31 10:00:00)
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+// Leading zeros (zip codes, account numbers) are kept as text
+const NUMERIC_PATTERN = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+
+const MAX_SHEET_NAME_LENGTH = 31;
+const MAX_COLUMN_WIDTH = 60;
+const INFO_SHEET_NAME = 'Info';
+
+const isEmpty = (value: unknown) => value === null || value === undefined || value === '';
+
+const isDateValue = (value: unknown): boolean =>
+  value instanceof Date || (typeof value === 'string' && ISO_DATE_PATTERN.test(value) && !isNaN(Date.parse(value)));
+
+const detectValueType = (value: unknown): DataColumnType => {
+  if (typeof value === 'number' || (typeof value === 'string' && NUMERIC_PATTERN.test(value))) return 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  if (isDateValue(value)) return 'date';
+  if (typeof value === 'object') return 'object';
+  return 'string';
+};
+
+/**
+ * Infer columns (in first-seen order) and their types from the rows. A column
+ * only gets a non-string type when every non-empty value agrees.
+ */
+export const inferColumns = (rows: any[]): DataExportColumn[] => {
+  const types = new Map<string, DataColumnType | null>();
+
+  rows.forEach((row) => {
+    if (!row || typeof row !== 'object') return;
+    Object.entries(row).forEach(([key, value]) => {
+      if (!types.has(key)) types.set(key, null);
+      if (isEmpty(value)) return;
+
+      const current = types.get(key);
+      const detected = detectValueType(value);
+      types.set(key, current === null || current === detected ? detected : 'string');
+    });
+  });
+
+  return Array.from(types.entries()).map(([key, type]) => ({ key, type: type ?? 'string' }));
+};
+
+/**
+ * Parse a date cell. Timestamps without a zone are read as UTC so Excel shows
+ * the same wall-clock time the database returned.
+ */
+const parseDateValue = (value: unknown): Date => {
+  if (value instanceof Date) return value;
+  const text = String(value).replace(' ', 'T');
+  return new Date(/T/.test(text) && !/(Z|[+-]\d{2}:?\d{2})$/.test(text) ? `${text}Z` : text);
+};
+
+/**
+ * A numeric string as a number, or the string itself when the number would
+ * read differently (large IDs past 2^53, trailing zeros such as "12.50")
+ */
+const toExactNumber = (value: string): number | string => {
+  const number = Number(value);
+  if (String(number) !== value) return value;
+  return Number.isInteger(number) && !Number.isSafeInteger(number) ? value : number;
+};
+
+/** Convert a cell to its typed value for Excel: numbers, Date objects, booleans or strings */
+const toTypedValue = (value: unknown, type: DataColumnType): string | number | boolean | Date | null => {
+  if (isEmpty(value)) return null;
+
+  switch (type) {
+    case 'number':
+      return typeof value === 'number' ? value : toExactNumber(String(value));
+    case 'date':
+      return parseDateValue(value);
+    case 'boolean':
+      return Boolean(value);
+    case 'object':
+      return JSON.stringify(value);
+    default:
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+};
+
+/** Value of a cell for CSV and JSON, as the database returned it */
+const toTextValue = (value: unknown): string | number | boolean | null => {
+  if (isEmpty(value)) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return value as string | number | boolean;
+};
+
+/** Rows wrapped in an object (non-object rows become `{ value }`) */
+const normalizeRows = (rows: any[]): Record<string, any>[] =>
+  (rows || []).map((row) => (row && typeof row === 'object' && !Array.isArray(row) ? row : { value: row }));
+
+const escapeCsvCell = (value: string | number | boolean | null | undefined): string => {
+  if (value === null || value === undefined) return '';
+  const cell = String(value);
+  return /[",\n\r]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+};
+
+/**
+ * Convert rows to CSV text with a header row
+ */
+export const toCsv = (rows: any[]): string => {
+  const normalized = normalizeRows(rows);
+  const columns = inferColumns(normalized);
+  if (columns.length === 0) return '';
+
+  return [
+    columns.map((column) => escapeCsvCell(column.key)).join(','),
+    ...normalized.map((row) =>
+      columns.map((column) => escapeCsvCell(toTextValue(row[column.key]))).join(',')
+    ),
+  ].join('\n');
+};
+
+const toJson = (tables: DataExportTable[], options: DataExportOptions): string => {
+  const payload = {
+    title: options.title,
+    exportedAt: new Date().toISOString(),
+    ...(options.details && options.details.length > 0 ? { details: options.details } : {}),
+    tables: tables.map((table) => {
+      const rows = normalizeRows(table.rows);
+      const columns = inferColumns(rows);
+      return {
+        name: table.name,
+        ...(table.query ? { query: table.query } : {}),
+        ...(table.metadata ? { metadata: table.metadata } : {}),
+        columns: columns.map((column) => ({ name: column.key, type: column.type })),
+        rows: rows.map((row) =>
+          Object.fromEntries(
+            columns.map((column) => {
+              const value = row[column.key];
+              // Nested values stay JSON rather than being stringified
+              return [column.key, column.type === 'object' && !isEmpty(value) ? value : toTextValue(value)];
+            })
+          )
+        ),
+      };
+    }),
+  };
+
+  return JSON.stringify(payload, null, 2);
+};
+
+/** Excel sheet names: max 31 characters, no []:*?/\ and unique within a workbook */
+const toSheetName = (name: string, used: Set<string>): string => {
+  const base = (name || 'Sheet').replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, MAX_SHEET_NAME_LENGTH) || 'Sheet';
+  let candidate = base;
+  for (let index = 2; used.has(candidate.toLowerCase()); index++) {
+    const suffix = ` (${index})`;
+    candidate = `${base.slice(0, MAX_SHEET_NAME_LENGTH - suffix.length)}${suffix}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+};
+
+const hasTimeComponent = (rows: Record<string, any>[], key: string) =>
+  rows.some((row) => {
+    const value = row[key];
+    if (value instanceof Date) return value.getHours() + value.getMinutes() + value.getSeconds() > 0;
+    return typeof value === 'string' && /[T ]\d{2}:\d{2}/.test(value);
+  });
+
+const toXlsx = async (tables: DataExportTable[], options: DataExportOptions): Promise<Blob> => {
+  const { Workbook } = await import('exceljs');
+  const workbook = new Workbook();
+  workbook.created = new Date();
+  workbook.title = options.title;
+
+  const usedNames = new Set<string>([INFO_SHEET_NAME.toLowerCase()]);
+  const sheetNames = tables.map((table) => toSheetName(table.name, usedNames));
+
+  // Info sheet first: what was exported, when, and how each table was produced
+  const info = workbook.addWorksheet(INFO_SHEET_NAME);
+  info.columns = [
+    { key: 'label', width: 22 },
+    { key: 'value', width: 100 },
+  ];
+  info.addRow([options.title]).font = { bold: true, size: 14 };
+  info.addRow(['Exported at', new Date().toLocaleString()]);
+  (options.details || []).forEach((line) => info.addRow(['Filters', line]));
+
+  tables.forEach((table, index) => {
+    info.addRow([]);
+    info.addRow([table.name]).font = { bold: true };
+    info.addRow(['Sheet', sheetNames[index]]);
+    info.addRow(['Rows', table.rows.length]);
+    Object.entries(table.metadata || {}).forEach(([label, value]) => {
+      if (!isEmpty(value)) info.addRow([label, value]);
+    });
+    if (table.query) {
+      const queryRow = info.addRow(['SQL query', table.query]);
+      queryRow.getCell(2).alignment = { wrapText: true, vertical: 'top' };
+      queryRow.getCell(2).font = { name: 'Courier New' };
+    }
+  });
+  info.getColumn(1).font = { bold: true };
+
+  tables.forEach((table, index) => {
+    const rows = normalizeRows(table.rows);
+    const columns = inferColumns(rows);
+    const sheet = workbook.addWorksheet(sheetNames[index], {
+      views: [{ state: 'frozen', ySplit: 1 }],
+    });
+
+    sheet.columns = columns.map((column) => {
+      const widest = rows.reduce((max, row) => {
+        const value = row[column.key];
+        return Math.max(max, isEmpty(value) ? 0 : String(typeof value === 'object' ? JSON.stringify(value) : value).length);
+      }, column.key.length);
+
+      return {
+        header: column.key,
+        key: column.key,
+        width: Math.min(MAX_COLUMN_WIDTH, Math.max(10, widest + 2)),
+        style:
+          column.type === 'date'
+            ? { numFmt: hasTimeComponent(rows, column.key) ? 'yyyy-mm-dd hh:mm:ss' : 'yyyy-mm-dd' }
+            : {},
+      };
+    });
+
+    rows.forEach((row) => {
+      sheet.addRow(Object.fromEntries(columns.map((column) => [column.key, toTypedValue(row[column.key], column.type)])));
+    });
+
+    const header = sheet.getRow(1);
+    header.font = { bold: true };
+    header.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFF3F4F6' } };
+    if (columns.length > 0) {
+      sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: columns.length } };
+    }
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], { type: MIME_TYPES.xlsx });
+};
+
+/**
+ * Export one or more tables and download the file. CSV holds a single table,
+ * so only the first table is written.
+ */
+export const exportData = async (
+  format: DataExportFormat,
+  tables: DataExportTable[],
+  options: DataExportOptions
+): Promise<void> => {
+  if (tables.length === 0 || tables.every((table) => !table.rows || table.rows.length === 0)) {
+    throw new Error('No data available to export');
+  }
+
+  let blob: Blob;
+  if (format === 'csv') {
+    blob = new Blob([toCsv(tables[0].rows)], { type: MIME_TYPES.csv });
+  } else if (format === 'json') {
+    blob = new Blob([toJson(tables, options)], { type: MIME_TYPES.json });
+  } else {
+    blob = await toXlsx(tables, options);
+  }
+
+  downloadBlob(blob, `${toExportFilename(options.title)}.${format}`);
+};
@@ -0,0 +1,209 @@
+/**
+ * Database Schema Utility
+ *
+ * Normalizes the schema JSON stored on a database connection (`db_schema`) into
+ * the `DatabaseSchema` shape used across the app. Schema extraction has produced
+ * a few different layouts over time, so the parser accepts:
+ *   - { tables: [{ name | table_name, columns: [...] }] }
+ *   - [{ name | table_name, columns: [...] }]
+ *   - { "<table>": { columns: [...] } } or { "<table>": [...columns] }
+ * Columns may be objects ({ name | column_name, type | data_type, nullable | is_nullable })
+ * or a { "<column>": "<type>" } map.
+ */
+
+import type { DatabaseSchema } from '../services/api';
+
+type SchemaTable = DatabaseSchema['tables'][number];
+type SchemaColumn = SchemaTable['columns'][number];
+
+const toNumberOrNull = (value: unknown): number | null => {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) {
+    return Number(value);
+  }
+  return null;
+};
+
+const toNullable = (value: unknown): boolean => {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  if (typeof value === 'string') {
+    return ['yes', 'true', 'y', '1'].includes(value.trim().toLowerCase());
+  }
+  // Most databases default to nullable columns
+  return true;
+};
+
+const parseColumn = (raw: any, fallbackName?: string): SchemaColumn | null => {
+  if (typeof raw === 'string') {
+    return fallbackName ? { name: fallbackName, type: raw, nullable: true } : null;
+  }
+  if (!raw || typeof raw !== 'object') {
+    return null;
+  }
+
+  const name = raw.name ?? raw.column_name ?? raw.column ?? fallbackName;
+  if (!name) {
+    return null;
+  }
+
+  const sampleValues = raw.sample_values ?? raw.sampleValues ?? raw.samples ?? raw.examples;
+
+  return {
+    name: String(name),
+    type: String(raw.type ?? raw.data_type ?? raw.dataType ?? raw.column_type ?? 'unknown'),
+    nullable: toNullable(raw.nullable ?? raw.is_nullable ?? raw.isNullable),
+    primaryKey: Boolean(raw.primary_key ?? raw.primaryKey ?? raw.is_primary_key ?? false) || undefined,
+    description: raw.description ?? raw.comment ?? undefined,
+    sampleValues: Array.isArray(sampleValues) ? sampleValues.slice(0, 5) : undefined,
+  };
+};
+
+const parseColumns = (raw: any): SchemaColumn[] => {
+  if (Array.isArray(raw)) {
+    return raw.map((column) => parseColumn(column)).filter((c): c is SchemaColumn => c !== null);
+  }
+  if (raw && typeof raw === 'object') {
+    return Object.entries(raw)
+      .map(([name, column]) => parseColumn(column, name))
+      .filter((c): c is SchemaColumn => c !== null);
+  }
+  return [];
+};
+
+const parseTable = (raw: any, fallbackName?: string): SchemaTable | null => {
+  if (Array.isArray(raw)) {
+    return fallbackName ? { name: fallbackName, rowCount: null, columns: parseColumns(raw) } : null;
+  }
+  if (!raw || typeof raw !== 'object') {
+    return null;
+  }
+
+  const name = raw.name ?? raw.table_name ?? raw.table ?? fallbackName;
+  if (!name) {
+    return null;
+  }
+
+  return {
+    name: String(name),
+    schema: raw.schema ?? raw.table_schema ?? raw.schema_name ?? undefined,
+    description: raw.description ?? raw.comment ?? undefined,
+    rowCount: toNumberOrNull(raw.row_count ?? raw.rowCount ?? raw.rows ?? raw.num_rows),
+    columns: parseColumns(raw.columns ?? raw.fields ?? []),
+  };
+};
+
+/**
+ * Parse stored schema JSON into a normalized `DatabaseSchema`.
+ * Invalid or empty input yields `{ tables: [] }`.
+ */
+export const parseDatabaseSchema = (raw: string | object | null | undefined): DatabaseSchema => {
+  if (!raw) {
+    return { tables: [] };
+  }
+
+  let parsed: any = raw;
+  if (typeof raw === 'string') {
+    try {
+      parsed = JSON.parse(raw);
+    } catch (error) {
+      console.warn('[DatabaseSchema] Failed to parse schema JSON:', error);
+      return { tables: [] };
+    }
+  }
+
+  let tables: SchemaTable[] = [];
+  if (Array.isArray(parsed)) {
+    tables = parsed.map((table) => parseTable(table)).filter((t): t is SchemaTable => t !== null);
+  } else if (parsed && typeof parsed === 'object') {
+    const source = parsed.tables ?? parsed;
+    if (Array.isArray(source)) {
+      tables = source.map((table) => parseTable(table)).filter((t): t is SchemaTable => t !== null);
+    } else if (source && typeof source === 'object') {
+      tables = Object.entries(source)
+        .map(([name, table]) => parseTable(table, name))
+        .filter((t): t is SchemaTable => t !== null);
+    }
+  }
+
+  return {
+    tables: tables.sort((a, b) => a.name.localeCompare(b.name)),
+  };
+};
+
+/**
+ * Qualified display name for a table, e.g. "public.orders"
+ */
+export const getQualifiedTableName = (table: Pick<SchemaTable, 'name' | 'schema'>): string =>
+  table.schema ? `${table.schema}.${table.name}` : table.name;
+
+/**
+ * Quote an identifier for the connection's dialect (backticks for MySQL, double quotes otherwise)
+ */
+export const quoteIdentifier = (identifier: string, dbType: string): string => {
+  if (dbType.includes('mysql')) {
+    return `\`${identifier.replace(/`/g, '``')}\``;
+  }
+  return `"${identifier.replace(/"/g, '""')}"`;
+};
+
+/**
+ * Whether the dialect's string literals treat a backslash as an escape
+ * character (MySQL); null when the dialect is not known
+ */
+export const usesBackslashEscapes = (dbType: string | null | undefined): boolean | null => {
+  const type = (dbType || '').toLowerCase();
+  if (type.includes('mysql') || type.includes('mariadb')) return true;
+  if (['postgres', 'sqlite', 'oracle', 'mssql', 'sqlserver'].some((known) => type.includes(known))) return false;
+  return null;
+};
+
+/**
+ * Write a value as a SQL literal for the connection's dialect: numbers and
+ * booleans bare, anything else as a quoted string with quotes doubled, and
+ * backslashes doubled where they are escape characters (MySQL, and PostgreSQL
+ * `E''` strings, used so the value reads the same whatever
+ * `standard_conforming_strings` is set to). Returns null for values that can't
+ * be written safely: text containing NUL, or a backslash when the dialect is
+ * unknown.
+ */
+export const toSqlLiteral = (value: unknown, dbType: string | null | undefined): string | null => {
+  if (value === null || value === undefined) return 'NULL';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : 'NULL';
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+
+  const text = String(value);
+  if (text.includes('\0')) return null;
+
+  const quoted = text.replace(/'/g, "''");
+  if (!text.includes('\\')) return `'${quoted}'`;
+
+  const backslashEscapes = usesBackslashEscapes(dbType);
+  if (backslashEscapes === null) return null;
+  if (backslashEscapes) return `'${quoted.replace(/\\/g, '\\\\')}'`;
+  return (dbType || '').toLowerCase().includes('postgres') ? `E'${quoted.replace(/\\/g, '\\\\')}'` : `'${quoted}'`;
+};
+
+/**
+ * Build a read-only query returning the first `limit` rows of a table,
+ * using the quoting and row-limit syntax of the connection's dialect.
+ */
+export const buildSampleRowsQuery = (
+  table: Pick<SchemaTable, 'name' | 'schema'>,
+  dbType: string,
+  limit: number = 20
+): string => {
+  const type = (dbType || '').toLowerCase();
+  const qualified = table.schema
+    ? `${quoteIdentifier(table.schema, type)}.${quoteIdentifier(table.name, type)}`
+    : quoteIdentifier(table.name, type);
+  const safeLimit = Math.max(1, Math.floor(limit));
+
+  if (type.includes('oracle')) {
+    return `SELECT * FROM ${qualified} FETCH FIRST ${safeLimit} ROWS ONLY`;
+  }
+  return `SELECT * FROM ${qualified} LIMIT ${safeLimit}`;
+};
@@ -0,0 +1,87 @@
+/**
+ * Kiosk Mode Utility
+ *
+ * Presentation ("TV") mode for wall screens. Kiosk settings live in the URL
+ * query string so a screen can be pointed at a bookmarked link:
+ *
+ *   /projects/:projectId/dashboards/:dashboardId?kiosk=1&rotate=<id>,<id>&every=60&refresh=300
+ *
+ * `rotate` lists the dashboards to cycle through, `every` is the rotation
+ * period in seconds and `refresh` the data refresh period in seconds.
+ */
+
+export interface KioskSettings {
+  enabled: boolean;
+  /** Dashboards to cycle through, in order (empty = no rotation) */
+  rotation: string[];
+  /** Seconds each dashboard stays on screen while rotating */
+  rotationSeconds: number;
+  /** Data refresh period in milliseconds */
+  refreshInterval: number;
+}
+
+export const KIOSK_ROTATION_OPTIONS = [30, 60, 120, 300]; // seconds
+export const DEFAULT_KIOSK_ROTATION_SECONDS = 60;
+export const DEFAULT_KIOSK_REFRESH_INTERVAL = 5 * 60 * 1000;
+
+const MIN_ROTATION_SECONDS = 10;
+const MIN_REFRESH_SECONDS = 30;
+
+const parsePositiveInt = (value: string | null): number | null => {
+  const num = value ? parseInt(value, 10) : NaN;
+  return isNaN(num) || num <= 0 ? null : num;
+};
+
+export const parseKioskSettings = (search: string): KioskSettings => {
+  const params = new URLSearchParams(search);
+  const enabled = params.get('kiosk') === '1' || params.get('kiosk') === 'true';
+  const rotationSeconds = parsePositiveInt(params.get('every'));
+  const refreshSeconds = parsePositiveInt(params.get('refresh'));
+
+  return {
+    enabled,
+    rotation: Array.from(new Set((params.get('rotate') || '').split(',').filter(Boolean))),
+    rotationSeconds: Math.max(MIN_ROTATION_SECONDS, rotationSeconds ?? DEFAULT_KIOSK_ROTATION_SECONDS),
+    refreshInterval: refreshSeconds
+      ? Math.max(MIN_REFRESH_SECONDS, refreshSeconds) * 1000
+      : DEFAULT_KIOSK_REFRESH_INTERVAL,
+  };
+};
+
+export const getKioskSettings = (): KioskSettings =>
+  parseKioskSettings(typeof window === 'undefined' ? '' : window.location.search);
+
+/**
+ * Query string for a kiosk session. Only kiosk parameters are kept, so
+ * dashboard filters don't leak from one rotated dashboard to the next.
+ */
+export const buildKioskSearch = (settings: Omit<KioskSettings, 'enabled'>): string => {
+  const params = new URLSearchParams({ kiosk: '1' });
+  if (settings.rotation.length > 1) {
+    params.set('rotate', settings.rotation.join(','));
+    params.set('every', String(settings.rotationSeconds));
+  }
+  if (settings.refreshInterval !== DEFAULT_KIOSK_REFRESH_INTERVAL) {
+    params.set('refresh', String(Math.round(settings.refreshInterval / 1000)));
+  }
+  return `?${params.toString()}`;
+};
+
+/** Next dashboard in the rotation after `currentId` */
+export const getNextKioskDashboard = (settings: KioskSettings, currentId: string): string | null => {
+  if (settings.rotation.length < 2) return null;
+  const index = settings.rotation.indexOf(currentId);
+  return settings.rotation[(index + 1) % settings.rotation.length];
+};
+
+export const enterFullscreen = (): void => {
+  if (typeof document === 'undefined' || document.fullscreenElement) return;
+  document.documentElement.requestFullscreen?.().catch(() => {
+    // Browsers refuse fullscreen without a user gesture (e.g. on page load); kiosk mode still works
+  });
+};
+
+export const exitFullscreen = (): void => {
+  if (typeof document === 'undefined' || !document.fullscreenElement) return;
+  document.exitFullscreen?.().catch(() => {});
+};
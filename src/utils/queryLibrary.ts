@@ -0,0 +1,85 @@
+/**
+ * Query Library Utility
+ *
+ * Local copies of the query history and of each project's saved queries.
+ * Every query `getChartData` sends to the backend is recorded here with its
+ * connection, duration, row count and outcome; history is kept per device and
+ * shown per project by the project's connections. Saved queries mirror the
+ * project's library on the server. Also provides the search and tag helpers
+ * shared by both lists.
+ */
+
+import type { QueryHistoryEntry, SavedQuery } from '../services/api';
+import { readStoredJson, writeStoredJson } from './storage';
+
+const HISTORY_KEY = 'vizai_query_history';
+const SAVED_PREFIX = 'vizai_saved_queries_';
+const MAX_HISTORY_ENTRIES = 200;
+const HISTORY_CHANGE_EVENT = 'vizai:query-history-change';
+
+const readList = <T>(key: string, label: string): T[] => readStoredJson<T[]>(key, label, Array.isArray) || [];
+
+/** Runs recorded on this device, newest first; limited to the given connections when any are passed */
+export const loadQueryHistory = (connectionIds?: string[]): QueryHistoryEntry[] => {
+  const history = readList<QueryHistoryEntry>(HISTORY_KEY, 'query history');
+  if (!connectionIds || connectionIds.length === 0) return history;
+  return history.filter((entry) => connectionIds.includes(String(entry.connectionId)));
+};
+
+export const recordQueryRun = (entry: Omit<QueryHistoryEntry, 'id' | 'ranAt'>): void => {
+  const recorded: QueryHistoryEntry = {
+    ...entry,
+    id: `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    ranAt: new Date().toISOString(),
+  };
+  writeStoredJson(HISTORY_KEY, [recorded, ...loadQueryHistory()].slice(0, MAX_HISTORY_ENTRIES), 'query history');
+  window.dispatchEvent(new Event(HISTORY_CHANGE_EVENT));
+};
+
+/** Subscribe to runs recorded on this device. Returns an unsubscribe function. */
+export const subscribeToQueryHistory = (listener: () => void): (() => void) => {
+  window.addEventListener(HISTORY_CHANGE_EVENT, listener);
+  return () => window.removeEventListener(HISTORY_CHANGE_EVENT, listener);
+};
+
+export const clearQueryHistory = (connectionIds?: string[]): void => {
+  if (!connectionIds || connectionIds.length === 0) {
+    localStorage.removeItem(HISTORY_KEY);
+  } else {
+    writeStoredJson(
+      HISTORY_KEY,
+      loadQueryHistory().filter((entry) => !connectionIds.includes(String(entry.connectionId))),
+      'query history'
+    );
+  }
+  window.dispatchEvent(new Event(HISTORY_CHANGE_EVENT));
+};
+
+export const loadStoredSavedQueries = (projectId: string): SavedQuery[] | null => {
+  if (!projectId) return null;
+  const key = `${SAVED_PREFIX}${projectId}`;
+  return localStorage.getItem(key) === null ? null : readList<SavedQuery>(key, 'saved queries');
+};
+
+export const storeSavedQueries = (projectId: string, queries: SavedQuery[]): void => {
+  if (!projectId) return;
+  writeStoredJson(`${SAVED_PREFIX}${projectId}`, queries, 'saved queries');
+};
+
+/** Tags from comma-separated text: trimmed, lower case, without duplicates */
+export const parseTags = (text: string): string[] =>
+  Array.from(new Set(text.split(',').map((tag) => tag.trim().toLowerCase()).filter(Boolean)));
+
+/** Whether every word of the search appears in one of the given texts */
+export const matchesSearch = (search: string, texts: Array<string | null | undefined>): boolean => {
+  const haystack = texts.filter(Boolean).join('\n').toLowerCase();
+  return search
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every((word) => haystack.includes(word));
+};
+
+/** All tags used in a library, alphabetically */
+export const getSavedQueryTags = (queries: SavedQuery[]): string[] =>
+  Array.from(new Set(queries.flatMap((query) => query.tags))).sort();
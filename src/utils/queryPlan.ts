@@ -0,0 +1,265 @@
+/**
+ * Query Plan Utility
+ *
+ * Turns the EXPLAIN output of the supported databases into one tree of plan
+ * steps with estimated rows and cost: PostgreSQL plans in JSON or text format,
+ * MySQL plans in JSON or tabular format, and SQLite's EXPLAIN QUERY PLAN rows.
+ * Full table scans are marked, and those on tables the connection's schema
+ * records as large are turned into warnings.
+ */
+
+import type { DatabaseSchema, QueryPlan, QueryPlanNode } from '../services/api';
+
+export interface QueryPlanWarning {
+  nodeId: string;
+  message: string;
+}
+
+/** Full scans of tables with at least this many rows are flagged */
+export const LARGE_TABLE_ROW_COUNT = 100_000;
+
+const toNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+const unquote = (identifier: string): string => identifier.replace(/^["`[]|["`\]]$/g, '');
+
+const createIdGenerator = () => {
+  let next = 0;
+  return () => `node-${next++}`;
+};
+
+// PostgreSQL ----------------------------------------------------------------
+
+const parsePostgresJsonNode = (plan: any, nextId: () => string): QueryPlanNode => {
+  const nodeType = String(plan['Node Type'] ?? 'Step');
+  // Named as in PostgreSQL's text plans: "Hash Left Join", "Nested Loop Anti Join"
+  const joinType = plan['Join Type'] && plan['Join Type'] !== 'Inner' ? plan['Join Type'] : null;
+  const operation = !joinType || !/Join$|Nested Loop$/.test(nodeType)
+    ? nodeType
+    : nodeType.endsWith('Join')
+      ? nodeType.replace(/Join$/, `${joinType} Join`)
+      : `${nodeType} ${joinType} Join`;
+  const detail = [
+    plan['Index Name'] ? `using ${plan['Index Name']}` : null,
+    plan['Hash Cond'] ?? plan['Merge Cond'] ?? plan['Join Filter'] ?? plan['Index Cond'] ?? plan['Filter'] ?? null,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+  return {
+    id: nextId(),
+    operation,
+    relation: plan['Relation Name'] ?? null,
+    detail: detail || null,
+    estimatedRows: toNumber(plan['Plan Rows']),
+    cost: toNumber(plan['Total Cost']),
+    isFullScan: /Seq Scan$/.test(nodeType),
+    children: Array.isArray(plan.Plans) ? plan.Plans.map((child: any) => parsePostgresJsonNode(child, nextId)) : [],
+  };
+};
+
+// e.g. "Index Scan using orders_pkey on orders o  (cost=0.29..8.30 rows=1 width=40)"
+const POSTGRES_TEXT_STEP = /^(.*?)(?:\s+using\s+(\S+))?(?:\s+on\s+(\S+)(?:\s+\S+)?)?\s+\(cost=[\d.]+\.\.([\d.]+)\s+rows=(\d+)/;
+
+const parsePostgresText = (lines: string[]): QueryPlanNode[] => {
+  const nextId = createIdGenerator();
+  const roots: QueryPlanNode[] = [];
+  const stack: Array<{ indent: number; node: QueryPlanNode }> = [];
+
+  for (const line of lines) {
+    const arrow = line.indexOf('->');
+    const text = (arrow >= 0 ? line.slice(arrow + 2) : line).trim();
+    const match = text.match(POSTGRES_TEXT_STEP);
+
+    if (!match) {
+      // "Filter: ...", "Hash Cond: ..." belong to the step above
+      const owner = stack[stack.length - 1]?.node;
+      if (owner && text) owner.detail = owner.detail ? `${owner.detail} · ${text}` : text;
+      continue;
+    }
+
+    const indent = arrow >= 0 ? arrow : 0;
+    const operation = match[1].trim();
+    const node: QueryPlanNode = {
+      id: nextId(),
+      operation,
+      relation: match[3] ? unquote(match[3]) : null,
+      detail: match[2] ? `using ${match[2]}` : null,
+      estimatedRows: toNumber(match[5]),
+      cost: toNumber(match[4]),
+      isFullScan: /Seq Scan$/.test(operation),
+      children: [],
+    };
+
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent && arrow >= 0) stack.pop();
+    const parent = arrow >= 0 ? stack[stack.length - 1]?.node : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+    stack.push({ indent, node });
+  }
+
+  return roots;
+};
+
+// MySQL ---------------------------------------------------------------------
+
+const parseMysqlJsonBlock = (block: any, nextId: () => string): QueryPlanNode[] => {
+  if (!block || typeof block !== 'object') return [];
+
+  if (block.table) {
+    const table = block.table;
+    return [{
+      id: nextId(),
+      operation: `Table access (${table.access_type ?? 'unknown'})`,
+      relation: table.table_name ?? null,
+      detail: table.key ? `using ${table.key}` : table.attached_condition ?? null,
+      estimatedRows: toNumber(table.rows_produced_per_join ?? table.rows_examined_per_scan),
+      cost: toNumber(table.cost_info?.prefix_cost),
+      isFullScan: table.access_type === 'ALL',
+      children: [],
+    }];
+  }
+
+  const steps: QueryPlanNode[] = [];
+  for (const [key, value] of Object.entries(block)) {
+    if (key === 'cost_info' || key === 'select_id') continue;
+    const children = (Array.isArray(value) ? value : [value]).flatMap((item) => parseMysqlJsonBlock(item, nextId));
+    if (children.length === 0) continue;
+
+    // Operations such as grouping or ordering wrap the steps below them
+    const isOperation = ['grouping_operation', 'ordering_operation', 'duplicates_removal', 'nested_loop'].includes(key);
+    if (!isOperation) {
+      steps.push(...children);
+      continue;
+    }
+    steps.push({
+      id: nextId(),
+      operation: key.replace(/_/g, ' ').replace(/^\w/, (char) => char.toUpperCase()),
+      relation: null,
+      detail: value && typeof value === 'object' && !Array.isArray(value) && (value as any).using_filesort ? 'using filesort' : null,
+      estimatedRows: null,
+      cost: toNumber((value as any)?.cost_info?.sort_cost),
+      isFullScan: false,
+      children,
+    });
+  }
+  return steps;
+};
+
+const parseMysqlRows = (rows: any[]): QueryPlanNode[] => {
+  const nextId = createIdGenerator();
+  return rows.map((row) => ({
+    id: nextId(),
+    operation: `${row.select_type ?? 'SIMPLE'} (${row.type ?? 'unknown'})`,
+    relation: row.table ?? null,
+    detail: row.key ? `using ${row.key}` : row.Extra ?? row.extra ?? null,
+    estimatedRows: toNumber(row.rows),
+    cost: null,
+    isFullScan: row.type === 'ALL',
+    children: [],
+  }));
+};
+
+// SQLite --------------------------------------------------------------------
+
+const parseSqliteRows = (rows: any[]): QueryPlanNode[] => {
+  const nodes = new Map<string, QueryPlanNode>();
+  const roots: QueryPlanNode[] = [];
+
+  for (const row of rows) {
+    const detail = String(row.detail ?? '');
+    const scan = detail.match(/^SCAN (?:TABLE )?(\S+)/);
+    const search = detail.match(/^SEARCH (?:TABLE )?(\S+)/);
+    const node: QueryPlanNode = {
+      id: `node-${row.id}`,
+      operation: scan ? 'Scan' : search ? 'Search' : detail,
+      relation: scan?.[1] ?? search?.[1] ?? null,
+      detail: scan || search ? detail : null,
+      estimatedRows: null,
+      cost: null,
+      isFullScan: !!scan && !/USING (?:COVERING )?INDEX/.test(detail),
+      children: [],
+    };
+    nodes.set(String(row.id), node);
+
+    const parent = nodes.get(String(row.parent));
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  return roots;
+};
+
+/**
+ * Normalize the plan returned for a query. Accepts the parsed JSON plan or
+ * the result rows of an EXPLAIN statement; anything unrecognised yields no
+ * steps.
+ */
+export const parseQueryPlan = (raw: unknown): QueryPlan => {
+  let plan: any = raw;
+  if (typeof plan === 'string') {
+    try {
+      plan = JSON.parse(plan);
+    } catch {
+      return { roots: parsePostgresText(plan.split('\n')) };
+    }
+  }
+
+  // PostgreSQL wraps a JSON plan in a one-element array, or in a "QUERY PLAN" column
+  if (Array.isArray(plan) && plan.length > 0 && plan[0] && typeof plan[0] === 'object' && 'QUERY PLAN' in plan[0]) {
+    const column = plan.map((row: any) => row['QUERY PLAN']);
+    if (typeof column[0] === 'string') {
+      return column.length === 1 && /^\s*[[{]/.test(column[0]) ? parseQueryPlan(column[0]) : { roots: parsePostgresText(column) };
+    }
+    return parseQueryPlan(column[0]);
+  }
+  if (Array.isArray(plan) && plan[0]?.Plan) plan = plan[0];
+  if (plan?.Plan) return { roots: [parsePostgresJsonNode(plan.Plan, createIdGenerator())] };
+
+  if (plan?.query_block) return { roots: parseMysqlJsonBlock(plan.query_block, createIdGenerator()) };
+
+  if (Array.isArray(plan) && plan.length > 0) {
+    if ('detail' in plan[0] && 'parent' in plan[0]) return { roots: parseSqliteRows(plan) };
+    if ('select_type' in plan[0] || 'table' in plan[0]) return { roots: parseMysqlRows(plan) };
+  }
+
+  return { roots: [] };
+};
+
+/** Every step of a plan, parents before their children */
+export const flattenQueryPlan = (nodes: QueryPlanNode[]): QueryPlanNode[] =>
+  nodes.flatMap((node) => [node, ...flattenQueryPlan(node.children)]);
+
+/**
+ * Full scans of large tables. Row counts come from the schema; when a table's
+ * count is not recorded, the plan's own estimate is used instead.
+ */
+export const getQueryPlanWarnings = (plan: QueryPlan, schema?: DatabaseSchema | null): QueryPlanWarning[] =>
+  flattenQueryPlan(plan.roots).flatMap((node) => {
+    if (!node.isFullScan || !node.relation) return [];
+
+    const name = unquote(node.relation.split('.').pop() || node.relation).toLowerCase();
+    const rowCount = schema?.tables.find((table) => table.name.toLowerCase() === name)?.rowCount ?? null;
+    if (rowCount !== null && rowCount >= LARGE_TABLE_ROW_COUNT) {
+      return [{
+        nodeId: node.id,
+        message: `Full scan of ${node.relation} (${rowCount.toLocaleString()} rows). Filter on an indexed column or aggregate to read less.`,
+      }];
+    }
+    if (rowCount === null && node.estimatedRows !== null && node.estimatedRows >= LARGE_TABLE_ROW_COUNT) {
+      return [{
+        nodeId: node.id,
+        message: `Full scan of ${node.relation} (about ${node.estimatedRows.toLocaleString()} rows estimated). Filter on an indexed column or aggregate to read less.`,
+      }];
+    }
+    return [];
+  });
@@ -0,0 +1,145 @@
+export const WORKSPACE_TABS = ['home', 'dashboards', 'charts', 'databases', 'insights', 'ask', 'team'] as const;
+
+export type WorkspaceTab = typeof WORKSPACE_TABS[number];
+
+export type AppRoute =
+  | { view: 'home' }
+  | { view: 'profile' }
+  | {
+      view: 'workspace';
+      projectId: string;
+      tab: WorkspaceTab;
+      dashboardId?: string;
+      chartId?: string;
+    }
+  | { view: 'not-found'; path: string };
+
+const ROUTE_CHANGE_EVENT = 'vizai:route-change';
+
+export const isWorkspaceTab = (value: string | undefined): value is WorkspaceTab =>
+  !!value && (WORKSPACE_TABS as readonly string[]).includes(value);
+
+const decodeSegment = (segment: string): string => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+};
+
+/**
+ * Resolve a pathname into an application route.
+ *
+ * Supported paths:
+ *   /                                           -> projects home
+ *   /profile                                    -> profile
+ *   /projects/:projectId                        -> workspace home tab
+ *   /projects/:projectId/:tab                   -> workspace tab
+ *   /projects/:projectId/dashboards/:dashboardId
+ *   /projects/:projectId/charts/:chartId
+ */
+export const parseRoute = (pathname: string): AppRoute => {
+  const segments = pathname.split('/').filter(Boolean).map(decodeSegment);
+
+  if (segments.length === 0) {
+    return { view: 'home' };
+  }
+
+  if (segments[0] === 'profile' && segments.length === 1) {
+    return { view: 'profile' };
+  }
+
+  if (segments[0] === 'projects' && segments[1]) {
+    const projectId = segments[1];
+    const tab = segments[2] ?? 'home';
+
+    if (!isWorkspaceTab(tab) || segments.length > 4) {
+      return { view: 'not-found', path: pathname };
+    }
+
+    if (segments.length === 4) {
+      if (tab === 'dashboards') {
+        return { view: 'workspace', projectId, tab, dashboardId: segments[3] };
+      }
+      if (tab === 'charts') {
+        return { view: 'workspace', projectId, tab, chartId: segments[3] };
+      }
+      return { view: 'not-found', path: pathname };
+    }
+
+    return { view: 'workspace', projectId, tab };
+  }
+
+  return { view: 'not-found', path: pathname };
+};
+
+export const buildRoutePath = (route: AppRoute): string => {
+  switch (route.view) {
+    case 'home':
+      return '/';
+    case 'profile':
+      return '/profile';
+    case 'not-found':
+      return route.path;
+    case 'workspace': {
+      const base = `/projects/${encodeURIComponent(route.projectId)}`;
+      if (route.tab === 'dashboards' && route.dashboardId) {
+        return `${base}/dashboards/${encodeURIComponent(route.dashboardId)}`;
+      }
+      if (route.tab === 'charts' && route.chartId) {
+        return `${base}/charts/${encodeURIComponent(route.chartId)}`;
+      }
+      return route.tab === 'home' ? base : `${base}/${route.tab}`;
+    }
+  }
+};
+
+export const getCurrentRoute = (): AppRoute => {
+  if (typeof window === 'undefined') {
+    return { view: 'home' };
+  }
+  return parseRoute(window.location.pathname);
+};
+
+/**
+ * Push (or replace) a route onto the browser history and notify listeners.
+ * The query string is preserved only when the path does not change, unless
+ * `search` is given, in which case it replaces the query string.
+ */
+export const navigateTo = (
+  route: AppRoute,
+  options: { replace?: boolean; search?: string } = {}
+): void => {
+  if (typeof window === 'undefined') {
+    return;
+  }
+
+  const path = buildRoutePath(route);
+  const search = options.search ?? (path === window.location.pathname ? window.location.search : '');
+  if (path === window.location.pathname && search === window.location.search) {
+    return;
+  }
+
+  const url = `${path}${search}`;
+  if (options.replace) {
+    window.history.replaceState(null, '', url);
+  } else {
+    window.history.pushState(null, '', url);
+  }
+  window.dispatchEvent(new Event(ROUTE_CHANGE_EVENT));
+};
+
+/**
+ * Subscribe to route changes from both in-app navigation and the browser's
+ * back/forward buttons. Returns an unsubscribe function.
+ */
+export const subscribeToRoute = (listener: (route: AppRoute) => void): (() => void) => {
+  const handleChange = () => listener(getCurrentRoute());
+
+  window.addEventListener('popstate', handleChange);
+  window.addEventListener(ROUTE_CHANGE_EVENT, handleChange);
+  return () => {
+    window.removeEventListener('popstate', handleChange);
+    window.removeEventListener(ROUTE_CHANGE_EVENT, handleChange);
+  };
+};
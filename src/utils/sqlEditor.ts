@@ -0,0 +1,369 @@
+/**
+ * SQL Editor Utility
+ *
+ * Language helpers behind the chart SQL editor: a tokenizer for syntax
+ * highlighting, table and column completions from a connection's stored
+ * schema, and locating the part of a query a backend error message points at.
+ * The tokenizer is deliberately forgiving; it only has to colour text, not
+ * validate it.
+ */
+
+import type { DatabaseSchema } from '../services/api';
+import { getQualifiedTableName } from './databaseSchema';
+
+type SchemaTable = DatabaseSchema['tables'][number];
+
+export type SqlTokenKind =
+  | 'keyword'
+  | 'function'
+  | 'string'
+  | 'number'
+  | 'comment'
+  | 'identifier'
+  | 'operator'
+  | 'punctuation'
+  | 'whitespace';
+
+export interface SqlToken {
+  kind: SqlTokenKind;
+  text: string;
+  start: number;
+}
+
+export type SqlCompletionKind = 'table' | 'column' | 'function' | 'keyword';
+
+export interface SqlCompletion {
+  label: string;
+  kind: SqlCompletionKind;
+  insertText: string;
+  /** Column type or table schema shown next to the label */
+  detail?: string;
+}
+
+export interface SqlCompletionResult {
+  /** Range of the word being completed, replaced on accept */
+  from: number;
+  to: number;
+  items: SqlCompletion[];
+}
+
+export interface SqlErrorLocation {
+  start: number;
+  end: number;
+  /** 1-based line of `start` */
+  line: number;
+}
+
+export const SQL_KEYWORDS = [
+  'SELECT', 'FROM', 'WHERE', 'GROUP', 'BY', 'ORDER', 'HAVING', 'LIMIT', 'OFFSET',
+  'JOIN', 'LEFT', 'RIGHT', 'INNER', 'OUTER', 'FULL', 'CROSS', 'ON', 'USING', 'AS',
+  'AND', 'OR', 'NOT', 'IN', 'IS', 'NULL', 'LIKE', 'ILIKE', 'BETWEEN', 'EXISTS',
+  'CASE', 'WHEN', 'THEN', 'ELSE', 'END', 'DISTINCT', 'UNION', 'ALL', 'INTERSECT',
+  'EXCEPT', 'WITH', 'ASC', 'DESC', 'NULLS', 'FIRST', 'LAST', 'TRUE', 'FALSE',
+  'INTERVAL', 'OVER', 'PARTITION', 'ROWS', 'FETCH', 'NEXT', 'ONLY', 'TOP',
+  'DATE', 'TIMESTAMP', 'FILTER', 'WINDOW', 'RECURSIVE', 'LATERAL',
+];
+
+export const SQL_FUNCTIONS = [
+  'COUNT', 'SUM', 'AVG', 'MIN', 'MAX', 'COALESCE', 'NULLIF', 'CAST', 'ROUND',
+  'FLOOR', 'CEIL', 'ABS', 'LOWER', 'UPPER', 'TRIM', 'LENGTH', 'CONCAT',
+  'SUBSTRING', 'REPLACE', 'DATE_TRUNC', 'DATE_PART', 'EXTRACT', 'TO_CHAR',
+  'NOW', 'CURRENT_DATE', 'CURRENT_TIMESTAMP', 'ROW_NUMBER', 'RANK',
+  'DENSE_RANK', 'LAG', 'LEAD', 'STRING_AGG', 'ARRAY_AGG',
+];
+
+const KEYWORD_SET = new Set(SQL_KEYWORDS);
+const FUNCTION_SET = new Set(SQL_FUNCTIONS);
+
+// Keywords after which a table name is expected
+const TABLE_CONTEXT_KEYWORDS = new Set(['FROM', 'JOIN', 'INTO', 'UPDATE', 'TABLE']);
+// Schemas whose tables are referenced without a qualifier
+const DEFAULT_SCHEMAS = new Set(['public', 'dbo', 'main']);
+
+const MAX_COMPLETIONS = 50;
+
+const TOKEN_PATTERNS: Array<{ kind: SqlTokenKind; pattern: RegExp }> = [
+  { kind: 'whitespace', pattern: /\s+/y },
+  { kind: 'comment', pattern: /--[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/y },
+  { kind: 'string', pattern: /'(?:[^']|'')*(?:'|$)/y },
+  // Quoted identifiers: "name", `name`, [name]
+  { kind: 'identifier', pattern: /"(?:[^"]|"")*(?:"|$)|`[^`]*(?:`|$)|\[[^\]\n]*(?:\]|$)/y },
+  { kind: 'number', pattern: /\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|\.\d+/y },
+  { kind: 'identifier', pattern: /[A-Za-z_][\w$]*/y },
+  { kind: 'operator', pattern: /::|<>|!=|<=|>=|\|\||[-+*/%<>=!~^&|]/y },
+];
+
+/** Split a query into tokens covering every character, in order */
+export const tokenizeSql = (sql: string): SqlToken[] => {
+  const tokens: SqlToken[] = [];
+  let position = 0;
+
+  while (position < sql.length) {
+    let matched: SqlToken | null = null;
+
+    for (const { kind, pattern } of TOKEN_PATTERNS) {
+      pattern.lastIndex = position;
+      const match = pattern.exec(sql);
+      if (match && match[0].length > 0) {
+        matched = { kind, text: match[0], start: position };
+        break;
+      }
+    }
+
+    if (!matched) {
+      matched = { kind: 'punctuation', text: sql[position], start: position };
+    } else if (matched.kind === 'identifier' && /^[A-Za-z_]/.test(matched.text)) {
+      const upper = matched.text.toUpperCase();
+      const isCall = /^\s*\(/.test(sql.slice(position + matched.text.length));
+      if (isCall && (FUNCTION_SET.has(upper) || !KEYWORD_SET.has(upper))) {
+        matched.kind = 'function';
+      } else if (KEYWORD_SET.has(upper)) {
+        matched.kind = 'keyword';
+      } else if (upper === 'CURRENT_DATE' || upper === 'CURRENT_TIMESTAMP') {
+        matched.kind = 'function';
+      }
+    }
+
+    tokens.push(matched);
+    position += matched.text.length;
+  }
+
+  return tokens;
+};
+
+const unquote = (identifier: string): string => identifier.replace(/^["`[]|["`\]]$/g, '');
+
+const tableReference = (table: SchemaTable): string =>
+  table.schema && !DEFAULT_SCHEMAS.has(table.schema.toLowerCase()) ? getQualifiedTableName(table) : table.name;
+
+const findTable = (schema: DatabaseSchema, reference: string): SchemaTable | undefined => {
+  const parts = reference.split('.').map(unquote);
+  const name = parts[parts.length - 1].toLowerCase();
+  const tableSchema = parts.length > 1 ? parts[parts.length - 2].toLowerCase() : null;
+
+  return schema.tables.find(
+    (table) =>
+      table.name.toLowerCase() === name &&
+      (!tableSchema || (table.schema || '').toLowerCase() === tableSchema)
+  );
+};
+
+/**
+ * Tables referenced in FROM / JOIN clauses, keyed by alias and by name so that
+ * both `o.` and `orders.` resolve to the same table.
+ */
+export const getReferencedTables = (sql: string, schema: DatabaseSchema): Map<string, SchemaTable> => {
+  const referenced = new Map<string, SchemaTable>();
+  const identifier = '(?:"[^"]+"|`[^`]+`|\\[[^\\]]+\\]|[A-Za-z_][\\w$]*)';
+  const pattern = new RegExp(
+    `\\b(?:FROM|JOIN)\\s+(${identifier}(?:\\.${identifier})*)(?:\\s+(?:AS\\s+)?(${identifier}))?`,
+    'gi'
+  );
+
+  for (const match of sql.matchAll(pattern)) {
+    const table = findTable(schema, match[1]);
+    if (!table) continue;
+
+    referenced.set(table.name.toLowerCase(), table);
+    const alias = match[2] ? unquote(match[2]) : null;
+    if (alias && !KEYWORD_SET.has(alias.toUpperCase())) {
+      referenced.set(alias.toLowerCase(), table);
+    }
+  }
+
+  return referenced;
+};
+
+const columnCompletions = (tables: SchemaTable[]): SqlCompletion[] => {
+  const seen = new Set<string>();
+  const items: SqlCompletion[] = [];
+  for (const table of tables) {
+    for (const column of table.columns) {
+      const key = column.name.toLowerCase();
+      if (seen.has(key)) continue;
+      seen.add(key);
+      items.push({
+        label: column.name,
+        kind: 'column',
+        insertText: column.name,
+        detail: tables.length > 1 ? `${table.name} · ${column.type}` : column.type,
+      });
+    }
+  }
+  return items;
+};
+
+const tableCompletions = (tables: SchemaTable[]): SqlCompletion[] =>
+  tables.map((table) => ({
+    label: tableReference(table),
+    kind: 'table',
+    insertText: tableReference(table),
+    detail: table.rowCount !== null ? `${table.rowCount.toLocaleString()} rows` : table.schema,
+  }));
+
+const wordCompletions = (words: string[], kind: 'function' | 'keyword'): SqlCompletion[] =>
+  words.map((word) => ({ label: word, kind, insertText: word }));
+
+/**
+ * Completions for the word at the cursor. After `alias.` only that table's
+ * columns are offered, after FROM / JOIN only tables, and elsewhere columns of
+ * the tables in the query come before functions, keywords and tables.
+ * Returns null inside strings and comments, or when nothing is being typed
+ * and the completion was not requested explicitly (Ctrl+Space).
+ */
+export const getSqlCompletions = (
+  sql: string,
+  cursor: number,
+  schema: DatabaseSchema | null,
+  explicit: boolean = false
+): SqlCompletionResult | null => {
+  const before = sql.slice(0, cursor);
+  const lastToken = tokenizeSql(before).pop();
+  if (lastToken && (lastToken.kind === 'string' || lastToken.kind === 'comment')) {
+    const isClosed =
+      lastToken.kind === 'string'
+        ? lastToken.text.length > 1 && lastToken.text.endsWith("'")
+        : lastToken.text.startsWith('/*') && lastToken.text.length > 3 && lastToken.text.endsWith('*/');
+    if (!isClosed) return null;
+  }
+
+  const wordMatch = before.match(/(?:((?:[A-Za-z_][\w$]*|"[^"]+")(?:\.(?:[A-Za-z_][\w$]*|"[^"]+"))*)\.)?([A-Za-z_][\w$]*)?$/);
+  const qualifier = wordMatch?.[1] ?? null;
+  const prefix = wordMatch?.[2] ?? '';
+  if (!qualifier && !prefix && !explicit) return null;
+
+  const from = cursor - prefix.length;
+  const tables = schema?.tables ?? [];
+  const referenced = schema ? getReferencedTables(sql, schema) : new Map<string, SchemaTable>();
+  let items: SqlCompletion[];
+
+  if (qualifier) {
+    const key = unquote(qualifier.split('.').pop() || '').toLowerCase();
+    const table = referenced.get(key) ?? (schema ? findTable(schema, qualifier) : undefined);
+    if (table) {
+      items = columnCompletions([table]);
+    } else {
+      // A schema name: offer its tables
+      items = tableCompletions(tables.filter((t) => (t.schema || '').toLowerCase() === key))
+        .map((item) => ({ ...item, label: item.label.split('.').pop()!, insertText: item.insertText.split('.').pop()! }));
+    }
+  } else {
+    const previous = tokenizeSql(sql.slice(0, from))
+      .filter((token) => token.kind !== 'whitespace' && token.kind !== 'comment')
+      .pop();
+    const afterTableKeyword = previous?.kind === 'keyword' || previous?.kind === 'identifier'
+      ? TABLE_CONTEXT_KEYWORDS.has(previous.text.toUpperCase())
+      : false;
+
+    if (afterTableKeyword) {
+      items = tableCompletions(tables);
+    } else {
+      const queryTables = Array.from(new Set(referenced.values()));
+      items = [
+        ...columnCompletions(queryTables.length > 0 ? queryTables : tables),
+        ...wordCompletions(SQL_FUNCTIONS, 'function'),
+        ...wordCompletions(SQL_KEYWORDS, 'keyword'),
+        ...tableCompletions(tables),
+      ];
+    }
+  }
+
+  const lowerPrefix = prefix.toLowerCase();
+  const matches = items.filter((item) => {
+    const label = item.label.toLowerCase();
+    return label.startsWith(lowerPrefix) && label !== lowerPrefix;
+  });
+
+  if (matches.length === 0) return null;
+  return { from, to: cursor, items: matches.slice(0, MAX_COMPLETIONS) };
+};
+
+/** 1-based line number of an offset */
+export const getLineNumber = (sql: string, offset: number): number =>
+  sql.slice(0, Math.max(0, offset)).split('\n').length;
+
+const getLineStart = (sql: string, line: number): number => {
+  let start = 0;
+  for (let current = 1; current < line; current++) {
+    const next = sql.indexOf('\n', start);
+    if (next === -1) return -1;
+    start = next + 1;
+  }
+  return start;
+};
+
+// Extends an offset to the end of the token it falls in
+const toTokenRange = (sql: string, offset: number): SqlErrorLocation => {
+  const start = Math.min(Math.max(0, offset), Math.max(0, sql.length - 1));
+  const token = tokenizeSql(sql).find((t) => start >= t.start && start < t.start + t.text.length);
+  const end = token && token.kind !== 'whitespace' ? token.start + token.text.length : start + 1;
+  return { start, end, line: getLineNumber(sql, start) };
+};
+
+// First whole-word occurrence of `text`, optionally searching from one line on
+const findText = (sql: string, text: string, fromLine?: number): SqlErrorLocation | null => {
+  const needle = text.trim();
+  if (!needle) return null;
+
+  const escaped = needle.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = new RegExp(/^\w/.test(needle) ? `\\b${escaped}` : escaped, 'i');
+  const lineStart = fromLine ? getLineStart(sql, fromLine) : 0;
+  const searchFrom = lineStart >= 0 ? lineStart : 0;
+  const search = (from: number) => {
+    const match = pattern.exec(sql.slice(from));
+    return match ? from + match.index : -1;
+  };
+
+  let start = search(searchFrom);
+  if (start === -1 && searchFrom > 0) start = search(0);
+  if (start === -1) return null;
+
+  return { start, end: start + needle.length, line: getLineNumber(sql, start) };
+};
+
+/**
+ * Find the part of the query a database error points at. Understands the
+ * position reported by PostgreSQL ("Position: 42", "at character 42"), the
+ * line reported by MySQL / SQLite ("near 'FORM' at line 2"), and names quoted
+ * in "column/relation ... does not exist" style messages. Returns null when the
+ * message carries no usable location.
+ */
+export const locateSqlError = (sql: string, message: string | null | undefined): SqlErrorLocation | null => {
+  if (!sql || !message) return null;
+
+  const position = message.match(/(?:position|at character)[:\s]+(\d+)/i);
+  if (position) {
+    const offset = Number(position[1]) - 1;
+    if (offset >= 0 && offset < sql.length) return toTokenRange(sql, offset);
+  }
+
+  const lineMatch = message.match(/\bline\s+(\d+)/i);
+  const line = lineMatch ? Number(lineMatch[1]) : undefined;
+
+  const near = message.match(/near\s+(?:'([^']*)'|"([^"]*)")/i);
+  const nearText = near ? (near[1] ?? near[2] ?? '').split(/\s+/)[0] : '';
+  if (nearText) {
+    const located = findText(sql, nearText, line);
+    if (located) return located;
+  }
+
+  const missing =
+    message.match(/(?:column|relation|table|function)\s+["'`]?([\w.]+)["'`]?(?:\(.*?\))?\s+does not exist/i) ||
+    message.match(/(?:unknown column|no such column|no such table|invalid column name|invalid object name)[:\s]+["'`]?([\w.]+)/i) ||
+    message.match(/table\s+["'`]?([\w.]+)["'`]?\s+doesn't exist/i);
+  if (missing) {
+    const name = missing[1].split('.').pop() || missing[1];
+    const located = findText(sql, name);
+    if (located) return located;
+  }
+
+  if (line) {
+    const start = getLineStart(sql, line);
+    if (start >= 0) {
+      const lineEnd = sql.indexOf('\n', start);
+      return { start, end: lineEnd === -1 ? sql.length : lineEnd, line };
+    }
+  }
+
+  return null;
+};
@@ -0,0 +1,435 @@
+/**
+ * SQL Lint Utility
+ *
+ * Checks a chart query before it is sent to the backend. Charts may only read
+ * data, so statements that change data or the schema, `SELECT ... INTO` and
+ * several statements in one query are errors and are never run. Queries that
+ * are likely to return far more data than a chart needs get warnings: no LIMIT
+ * on a query without aggregation, and `SELECT *` on tables the connection's
+ * schema lists as wide.
+ *
+ * Strings, quoted names and comments are read the way the connection's
+ * dialect reads them (`$$` and `E''` strings in PostgreSQL, backslash escapes
+ * and `#` comments in MySQL, `[name]` in SQL Server), or every way when the
+ * dialect is unknown. Text that databases could read differently, or that is
+ * never closed, is an error rather than a guess. The check still runs in the
+ * browser and is advisory only: the backend must enforce read-only access.
+ */
+
+import type { DatabaseSchema } from '../services/api';
+import { usesBackslashEscapes } from './databaseSchema';
+import { getReferencedTables, tokenizeSql, type SqlToken } from './sqlEditor';
+
+export type SqlIssueSeverity = 'error' | 'warning';
+
+export type SqlIssueCode =
+  | 'multiple-statements'
+  | 'not-read-only'
+  | 'select-into'
+  | 'unverifiable'
+  | 'missing-limit'
+  | 'select-star';
+
+export interface SqlIssue {
+  code: SqlIssueCode;
+  severity: SqlIssueSeverity;
+  message: string;
+  /** Range of the query the issue points at */
+  start: number;
+  end: number;
+}
+
+/** Tables with more columns than this are not read with `SELECT *` */
+export const WIDE_TABLE_COLUMN_COUNT = 20;
+
+// Statements that change data, the schema or permissions
+const WRITE_KEYWORDS = new Set([
+  'INSERT', 'UPDATE', 'DELETE', 'MERGE', 'UPSERT', 'DROP', 'ALTER', 'CREATE',
+  'TRUNCATE', 'RENAME', 'GRANT', 'REVOKE',
+]);
+const READ_STATEMENT_KEYWORDS = new Set(['SELECT', 'WITH']);
+const LIMIT_KEYWORDS = new Set(['LIMIT', 'TOP', 'FETCH']);
+const AGGREGATE_FUNCTIONS = new Set(['COUNT', 'SUM', 'AVG', 'MIN', 'MAX', 'STRING_AGG', 'ARRAY_AGG']);
+
+const upper = (token: SqlToken | undefined): string => (token ? token.text.toUpperCase() : '');
+
+const issueAt = (
+  code: SqlIssueCode,
+  severity: SqlIssueSeverity,
+  message: string,
+  token: SqlToken
+): SqlIssue => ({ code, severity, message, start: token.start, end: token.start + token.text.length });
+
+/** How a dialect writes strings, quoted names and comments */
+interface SqlDialectRules {
+  /** `$tag$ ... $tag$` strings, and `E'...'` strings with backslash escapes (PostgreSQL) */
+  postgresStrings: boolean;
+  /** `#` comments, `--` only starting a comment before a space, and code run inside `/*! ... *\/` (MySQL) */
+  mysqlComments: boolean;
+  /** `[name]` identifiers (SQL Server, SQLite) */
+  bracketIdentifiers: boolean;
+}
+
+const POSTGRES_RULES: SqlDialectRules = { postgresStrings: true, mysqlComments: false, bracketIdentifiers: false };
+const MYSQL_RULES: SqlDialectRules = { postgresStrings: false, mysqlComments: true, bracketIdentifiers: false };
+const OTHER_RULES: SqlDialectRules = { postgresStrings: false, mysqlComments: false, bracketIdentifiers: true };
+
+/** The readings a query is checked under: its dialect's, or all of them when it is unknown */
+const getDialectRules = (dbType: string | null | undefined): SqlDialectRules[] => {
+  const backslashEscapes = usesBackslashEscapes(dbType);
+  if (backslashEscapes === null) return [POSTGRES_RULES, MYSQL_RULES, OTHER_RULES];
+  if (backslashEscapes) return [MYSQL_RULES];
+  return (dbType || '').toLowerCase().includes('postgres') ? [POSTGRES_RULES] : [OTHER_RULES];
+};
+
+const unverifiable = (message: string, start: number, end: number): SqlIssue => ({
+  code: 'unverifiable',
+  severity: 'error',
+  message: `${message} The query can't be checked, so it won't be run.`,
+  start,
+  end,
+});
+
+/**
+ * Index just past the quote closing the one at `start`, or -1 when it is never
+ * closed. With `doubled` a doubled quote is part of the text, and with
+ * `backslashes` so is a quote after a backslash.
+ */
+const findClosingQuote = (sql: string, start: number, quote: string, doubled: boolean, backslashes: boolean): number => {
+  for (let index = start + 1; index < sql.length; index++) {
+    if (backslashes && sql[index] === '\\') {
+      index++;
+    } else if (sql[index] === quote) {
+      if (!doubled || sql[index + 1] !== quote) return index + 1;
+      index++;
+    }
+  }
+  return -1;
+};
+
+/**
+ * End of a `'...'` or `"..."` string. Whether a backslash escapes the next
+ * character depends on server settings (`standard_conforming_strings`,
+ * `NO_BACKSLASH_ESCAPES`), so a string that ends in a different place either
+ * way is an error.
+ */
+const scanQuoted = (sql: string, start: number): number | SqlIssue => {
+  const quote = sql[start];
+  const end = findClosingQuote(sql, start, quote, true, false);
+  const escapedEnd = findClosingQuote(sql, start, quote, true, true);
+  if (end === -1 && escapedEnd === -1) {
+    return unverifiable(`${quote === "'" ? 'A string' : 'A quoted name'} is never closed.`, start, sql.length);
+  }
+  if (end !== escapedEnd) {
+    return unverifiable(
+      'A backslash before a quote can end this string or be part of it, depending on the server. Double the quote instead.',
+      start,
+      Math.max(end, escapedEnd)
+    );
+  }
+  return end;
+};
+
+/** End of a `--` or `#` comment; a lone carriage return ends it in some databases only */
+const scanLineComment = (sql: string, start: number): number | SqlIssue => {
+  const match = /[\r\n]/g;
+  match.lastIndex = start;
+  const lineEnd = match.exec(sql);
+  if (!lineEnd) return sql.length;
+  if (lineEnd[0] === '\r' && sql[lineEnd.index + 1] !== '\n') {
+    return unverifiable('A comment ends in a carriage return without a new line, which databases read differently.', start, lineEnd.index);
+  }
+  return lineEnd.index;
+};
+
+const scanBlockComment = (sql: string, start: number, rules: SqlDialectRules): number | SqlIssue => {
+  if (rules.mysqlComments && /^\/\*M?!/.test(sql.slice(start, start + 4))) {
+    return unverifiable('MySQL runs the code inside /*! ... */ comments.', start, start + 3);
+  }
+  const close = sql.indexOf('*/', start + 2);
+  if (close === -1) return unverifiable('A comment is never closed.', start, sql.length);
+  if (sql.slice(start + 2, close).includes('/*')) {
+    return unverifiable('Comments inside comments end in a different place in different databases.', start, close + 2);
+  }
+  return close + 2;
+};
+
+/**
+ * The query's tokens under one dialect's rules, or the first string, name or
+ * comment that can't be read with certainty. Text between them goes through
+ * the editor's tokenizer, which never sees a quote or comment marker.
+ */
+const scanSql = (sql: string, rules: SqlDialectRules): SqlToken[] | SqlIssue => {
+  const tokens: SqlToken[] = [];
+  let plainStart = 0;
+  let index = 0;
+
+  const pushPlain = (end: number) => {
+    tokenizeSql(sql.slice(plainStart, end)).forEach((token) => tokens.push({ ...token, start: token.start + plainStart }));
+  };
+  const push = (kind: SqlToken['kind'], start: number, end: number) => {
+    pushPlain(start);
+    tokens.push({ kind, text: sql.slice(start, end), start });
+    plainStart = index = end;
+  };
+
+  while (index < sql.length) {
+    const char = sql[index];
+    const next = sql[index + 1];
+    let end: number | SqlIssue;
+
+    if (char === '\0') {
+      return unverifiable('The query contains a NUL character.', index, index + 1);
+    } else if (/[\w\u0080-\uffff]/.test(char)) {
+      const word = /[\w$\u0080-\uffff]+/y;
+      word.lastIndex = index;
+      const start = index;
+      index += word.exec(sql)![0].length;
+      const prefix = sql.slice(start, index).toLowerCase();
+      if (sql[index] !== "'") continue;
+
+      if (prefix === 'q' || prefix === 'nq') {
+        return unverifiable("Oracle q'...' strings aren't supported; use a standard quoted string.", start, index + 1);
+      }
+      if (prefix === 'e' && rules.postgresStrings) {
+        end = findClosingQuote(sql, index, "'", true, true);
+        if (end === -1) return unverifiable('A string is never closed.', start, sql.length);
+        push('string', start, end);
+      }
+      continue;
+    } else if (char === "'" || char === '"') {
+      end = scanQuoted(sql, index);
+      if (typeof end !== 'number') return end;
+      push(char === "'" ? 'string' : 'identifier', index, end);
+      continue;
+    } else if (char === '`') {
+      end = findClosingQuote(sql, index, '`', true, false);
+      if (end === -1) return unverifiable('A quoted name is never closed.', index, sql.length);
+      push('identifier', index, end);
+      continue;
+    } else if (char === '$' && rules.postgresStrings) {
+      const tag = /\$(?:[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*)?\$/y;
+      tag.lastIndex = index;
+      const match = tag.exec(sql);
+      if (!match) {
+        index++;
+        continue;
+      }
+      const close = sql.indexOf(match[0], index + match[0].length);
+      if (close === -1) return unverifiable('A dollar-quoted string is never closed.', index, sql.length);
+      push('string', index, close + match[0].length);
+      continue;
+    } else if (char === '[' && rules.bracketIdentifiers) {
+      end = findClosingQuote(sql, index, ']', false, false);
+      if (end === -1) return unverifiable('A [name] is never closed.', index, sql.length);
+      if (end !== findClosingQuote(sql, index, ']', true, false)) {
+        return unverifiable("A ']]' in a [name] ends it in some databases and not others.", index, end);
+      }
+      push('identifier', index, end);
+      continue;
+    } else if (char === '-' && next === '-' && (!rules.mysqlComments || index + 2 >= sql.length || /[\x00-\x20]/.test(sql[index + 2]))) {
+      end = scanLineComment(sql, index);
+    } else if (char === '#' && rules.mysqlComments) {
+      end = scanLineComment(sql, index);
+    } else if (char === '/' && next === '*') {
+      end = scanBlockComment(sql, index, rules);
+    } else if ('-/[]'.includes(char)) {
+      // Passed on alone so the editor's tokenizer never reads them as the start of a comment or name
+      push(char === '-' || char === '/' ? 'operator' : 'punctuation', index, index + 1);
+      continue;
+    } else {
+      index++;
+      continue;
+    }
+
+    if (typeof end !== 'number') return end;
+    push('comment', index, end);
+  }
+
+  pushPlain(sql.length);
+  return tokens;
+};
+
+/**
+ * Where the query's strings, quoted names and comments are, one list per
+ * reading of its dialect (see `lintSql`), or null when a reading can't be
+ * scanned
+ */
+export const getSqlQuotedRanges = (
+  sql: string,
+  dbType?: string | null
+): Array<Array<{ start: number; end: number }>> | null => {
+  const readings = getDialectRules(dbType).map((rules) => scanSql(sql || '', rules));
+  if (!readings.every(Array.isArray)) return null;
+
+  return (readings as SqlToken[][]).map((tokens) =>
+    tokens
+      .filter((token) => token.kind === 'string' || token.kind === 'comment' || /^["`[]/.test(token.text))
+      .map((token) => ({ start: token.start, end: token.start + token.text.length }))
+  );
+};
+
+/** Statements as lists of tokens, without whitespace, comments and `;` */
+const splitStatements = (tokens: SqlToken[]): SqlToken[][] => {
+  const statements: SqlToken[][] = [[]];
+  for (const token of tokens) {
+    if (token.kind === 'whitespace' || token.kind === 'comment') continue;
+    if (token.kind === 'punctuation' && token.text === ';') {
+      statements.push([]);
+    } else {
+      statements[statements.length - 1].push(token);
+    }
+  }
+  return statements.filter((statement) => statement.length > 0);
+};
+
+/** Parenthesis depth before each token */
+const getDepths = (tokens: SqlToken[]): number[] => {
+  let depth = 0;
+  return tokens.map((token) => {
+    if (token.text === ')') depth = Math.max(0, depth - 1);
+    const current = depth;
+    if (token.text === '(') depth += 1;
+    return current;
+  });
+};
+
+const checkReadOnly = (tokens: SqlToken[], depths: number[]): SqlIssue | null => {
+  const first = tokens.find((token) => token.text !== '(');
+  if (first && !READ_STATEMENT_KEYWORDS.has(upper(first))) {
+    return issueAt(
+      'not-read-only',
+      'error',
+      `Only SELECT queries can be run; this is a ${first.text.toUpperCase()} statement.`,
+      first
+    );
+  }
+
+  for (let index = 0; index < tokens.length; index++) {
+    const token = tokens[index];
+    if (token.kind !== 'keyword' && token.kind !== 'identifier') continue;
+
+    const word = upper(token);
+    const previous = upper(tokens[index - 1]);
+    // `SELECT ... FOR UPDATE` only locks rows, and `t.update` is a column
+    if (WRITE_KEYWORDS.has(word) && previous !== 'FOR' && previous !== '.') {
+      return issueAt('not-read-only', 'error', `${word} statements are not allowed; charts can only read data.`, token);
+    }
+    if (word === 'INTO' && depths[index] === 0) {
+      return issueAt('select-into', 'error', 'SELECT ... INTO creates a table; remove the INTO clause.', token);
+    }
+  }
+
+  return null;
+};
+
+const isAggregateCall = (tokens: SqlToken[], depths: number[], index: number): boolean => {
+  if (tokens[index].kind !== 'function' || !AGGREGATE_FUNCTIONS.has(upper(tokens[index]))) return false;
+
+  // A call followed by OVER (...) is a window function and keeps every row
+  let end = index + 1;
+  while (end < tokens.length && !(tokens[end].text === ')' && depths[end] === depths[index])) end++;
+  return upper(tokens[end + 1]) !== 'OVER';
+};
+
+const checkLimit = (tokens: SqlToken[], depths: number[]): SqlIssue | null => {
+  let hasFrom = false;
+  for (let index = 0; index < tokens.length; index++) {
+    if (depths[index] !== 0) continue;
+    const word = upper(tokens[index]);
+    if (LIMIT_KEYWORDS.has(word) || word === 'GROUP' || isAggregateCall(tokens, depths, index)) return null;
+    if (word === 'FROM') hasFrom = true;
+  }
+  if (!hasFrom) return null;
+
+  return {
+    code: 'missing-limit',
+    severity: 'warning',
+    message: 'No LIMIT: without aggregation this query can return every row of the table. Add a LIMIT or GROUP BY.',
+    start: tokens[0].start,
+    end: tokens[0].start + tokens[0].text.length,
+  };
+};
+
+const checkSelectStar = (sql: string, tokens: SqlToken[], schema: DatabaseSchema): SqlIssue[] => {
+  const referenced = getReferencedTables(sql, schema);
+  const queryTables = [...new Set(referenced.values())];
+  const issues: SqlIssue[] = [];
+
+  tokens.forEach((token, index) => {
+    if (token.text !== '*') return;
+
+    const previous = upper(tokens[index - 1]);
+    let tables;
+    if (previous === '.') {
+      // alias.*
+      const qualifier = tokens[index - 2]?.text.replace(/^["`[]|["`\]]$/g, '').toLowerCase();
+      const table = qualifier ? referenced.get(qualifier) : undefined;
+      tables = table ? [table] : [];
+    } else if (previous === 'SELECT' || previous === 'DISTINCT' || previous === 'ALL' || previous === ',') {
+      tables = queryTables;
+    } else {
+      return;
+    }
+
+    const wide = tables.filter((table) => table.columns.length > WIDE_TABLE_COLUMN_COUNT);
+    if (wide.length === 0) return;
+
+    const described = wide.map((table) => `${table.name} (${table.columns.length} columns)`).join(', ');
+    issues.push(
+      issueAt('select-star', 'warning', `SELECT * reads every column of ${described}; list only the columns the chart needs.`, token)
+    );
+  });
+
+  return issues;
+};
+
+const lintStatements = (sql: string, statements: SqlToken[][], schema?: DatabaseSchema | null): SqlIssue[] => {
+  if (statements.length === 0) return [];
+
+  const issues: SqlIssue[] = [];
+  if (statements.length > 1) {
+    issues.push(
+      issueAt('multiple-statements', 'error', 'Only one statement can be run at a time; remove everything after the first ";".', statements[1][0])
+    );
+  }
+
+  for (const tokens of statements) {
+    const issue = checkReadOnly(tokens, getDepths(tokens));
+    if (issue) issues.push(issue);
+  }
+
+  if (issues.length === 0) {
+    const tokens = statements[0];
+    const limitIssue = checkLimit(tokens, getDepths(tokens));
+    if (limitIssue) issues.push(limitIssue);
+    if (schema) issues.push(...checkSelectStar(sql, tokens, schema));
+  }
+
+  return issues;
+};
+
+/**
+ * Errors and warnings for a query, errors first. `SELECT *` is only checked
+ * when the connection's schema is known. Without `dbType` the query is read
+ * as each dialect would read it, and any reading with errors is reported.
+ */
+export const lintSql = (sql: string, schema?: DatabaseSchema | null, dbType?: string | null): SqlIssue[] => {
+  let issues: SqlIssue[] = [];
+  getDialectRules(dbType).forEach((rules, index) => {
+    const scanned = scanSql(sql || '', rules);
+    const readingIssues = Array.isArray(scanned) ? lintStatements(sql, splitStatements(scanned), schema) : [scanned];
+    if (index === 0 || (hasSqlErrors(readingIssues) && !hasSqlErrors(issues))) issues = readingIssues;
+  });
+  return issues;
+};
+
+export const hasSqlErrors = (issues: SqlIssue[]): boolean => issues.some((issue) => issue.severity === 'error');
+
+/**
+ * Why a query must not be run, or null when it only reads data. Advisory: it
+ * keeps obvious writes from being sent, but the backend's database user must
+ * still be read-only.
+ */
+export const getSqlGuardError = (sql: string, dbType?: string | null): string | null =>
+  lintSql(sql, null, dbType).find((issue) => issue.severity === 'error')?.message ?? null;
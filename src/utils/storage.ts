@@ -0,0 +1,37 @@
+/**
+ * Storage Utility
+ *
+ * JSON values kept in localStorage (layouts, widgets, annotations, chart
+ * parameters and versions, templates, the query library). A value that can't
+ * be parsed is dropped, and a write that fails (e.g. the quota is full) is
+ * logged instead of thrown, so a stored copy never breaks the page using it.
+ */
+
+/**
+ * The value stored under `key`, or null when there is none or it is not valid.
+ * `label` names the value in warnings, e.g. "dashboard layout".
+ */
+export const readStoredJson = <T>(
+  key: string,
+  label: string,
+  isValid: (value: unknown) => boolean = () => true
+): T | null => {
+  try {
+    const raw = localStorage.getItem(key);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw);
+    return isValid(parsed) ? (parsed as T) : null;
+  } catch (error) {
+    console.warn(`[Storage] Failed to parse stored ${label}:`, error);
+    localStorage.removeItem(key);
+    return null;
+  }
+};
+
+export const writeStoredJson = (key: string, value: unknown, label: string): void => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`[Storage] Failed to store ${label}:`, error);
+  }
+};